@@ -23,5 +23,27 @@ export const config = {
   session: {
     secret: process.env.SESSION_SECRET || "your-secret-key-change-in-production",
   },
+  redis: {
+    // Set to share state between several backend instances; unset runs a single in-memory instance
+    url: process.env.REDIS_URL || "",
+    keyPrefix: process.env.REDIS_KEY_PREFIX || "chatrealm:",
+  },
+  game: {
+    // How long a disconnected player keeps their seat before forfeiting (0 disables the grace period)
+    reconnectGraceSeconds: process.env.RECONNECT_GRACE_SECONDS
+      ? Number(process.env.RECONNECT_GRACE_SECONDS)
+      : 30,
+    // Largest rating gap join_random pairs players across. It starts at
+    // initial and grows by perSecond for every second the waiting player has
+    // waited, up to max, so nobody waits forever but nobody is fed to a far
+    // stronger player either.
+    ratingWindow: {
+      initial: Number(process.env.RATING_WINDOW_INITIAL) || 100,
+      perSecond: Number(process.env.RATING_WINDOW_PER_SECOND) || 5,
+      max: Number(process.env.RATING_WINDOW_MAX) || 400,
+    },
+    // How long an invite link to a private room stays valid
+    inviteExpiresIn: process.env.INVITE_EXPIRES_IN || "24h",
+  },
 };
 
@@ -127,6 +127,46 @@ export const query = async (
   }
 };
 
+/**
+ * Query function bound to the connection of a running transaction
+ */
+export type TransactionQuery = (
+  sql: string,
+  params?: unknown[],
+) => Promise<unknown[]>;
+
+/**
+ * Run work inside a single MySQL transaction. Commits when the work
+ * resolves and rolls back when it throws.
+ * @param work Callback that issues its queries through the given query function
+ * @returns Whatever the work returns
+ */
+export const withTransaction = async <T>(
+  work: (query: TransactionQuery) => Promise<T>,
+): Promise<T> => {
+  const connection = await getPool().getConnection();
+  const transactionQuery: TransactionQuery = async (sql, params) => {
+    const [results] = await connection.query(sql, params || []);
+    return results as unknown[];
+  };
+
+  try {
+    await connection.beginTransaction();
+    const result = await work(transactionQuery);
+    await connection.commit();
+    return result;
+  } catch (error) {
+    await connection.rollback();
+    logger.error(
+      { error: error instanceof Error ? error.message : String(error) },
+      "Transaction rolled back",
+    );
+    throw error;
+  } finally {
+    connection.release();
+  }
+};
+
 export const testConnection = async (): Promise<boolean> => {
   try {
     const connection = await getPool();
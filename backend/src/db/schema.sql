@@ -42,10 +42,14 @@ CREATE TABLE IF NOT EXISTS users (
 CREATE TABLE IF NOT EXISTS rooms (
     id VARCHAR(36) PRIMARY KEY,
     keyword VARCHAR(50) NULL,
-    game_type ENUM('tic_tac_toe', 'checkers', 'chess') NOT NULL,
+    game_type VARCHAR(32) NOT NULL COMMENT 'Game type registered in src/games, e.g. tic_tac_toe',
     status ENUM('waiting', 'playing', 'finished') DEFAULT 'waiting',
     betting_amount DECIMAL(10, 2) DEFAULT 0.25 COMMENT 'Betting amount in Brazilian Real (BRL)',
-    betting_status ENUM('unlocked', 'locked') DEFAULT 'unlocked' COMMENT 'Whether betting amount can be changed',
+    betting_status ENUM('unlocked', 'locked', 'settled') DEFAULT 'unlocked' COMMENT 'Whether betting amount can be changed; settled once the locked stakes are paid out',
+    time_control ENUM('none', 'bullet', 'blitz', 'rapid') DEFAULT 'none' COMMENT 'Per-player clock: bullet 1 min, blitz 5 min, rapid 10 min',
+    time_increment INT DEFAULT 0 COMMENT 'Seconds added to a player clock after each move',
+    is_private BOOLEAN DEFAULT FALSE COMMENT 'Only joinable through an invite; never matched by join_random or listed in the lobby',
+    password_hash VARCHAR(255) NULL COMMENT 'Optional password for joining a private room, as scrypt salt:hash in hex',
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
     INDEX idx_keyword (keyword),
@@ -62,6 +66,8 @@ CREATE TABLE IF NOT EXISTS room_players (
     room_id VARCHAR(36) NOT NULL,
     user_id VARCHAR(36) NOT NULL,
     is_host BOOLEAN DEFAULT FALSE,
+    stake_min DECIMAL(10, 2) NULL COMMENT 'Lowest stake the player queued for through join_random, NULL for unstaked play',
+    stake_max DECIMAL(10, 2) NULL COMMENT 'Highest stake the player queued for through join_random',
     joined_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE CASCADE,
     FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
@@ -74,18 +80,64 @@ CREATE TABLE IF NOT EXISTS room_players (
 -- Matches table
 CREATE TABLE IF NOT EXISTS matches (
     id VARCHAR(36) PRIMARY KEY,
-    room_id VARCHAR(36) NOT NULL,
-    game_type ENUM('tic_tac_toe', 'checkers', 'chess') NOT NULL,
+    room_id VARCHAR(36) NULL,
+    game_type VARCHAR(32) NOT NULL COMMENT 'Game type registered in src/games, e.g. tic_tac_toe',
     winner_id VARCHAR(36),
     moves_json TEXT,
     result ENUM('win', 'draw', 'loss'),
+    stake DECIMAL(10, 2) NOT NULL DEFAULT 0 COMMENT 'Amount each player had locked in, 0 for unstaked matches',
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE CASCADE,
+    -- Matches outlive their room so they can be replayed
+    FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE SET NULL,
     FOREIGN KEY (winner_id) REFERENCES users(id) ON DELETE SET NULL,
     INDEX idx_room_id (room_id),
     INDEX idx_winner_id (winner_id)
 );
 
+-- Match players table (who played which team in a match)
+CREATE TABLE IF NOT EXISTS match_players (
+    id VARCHAR(36) PRIMARY KEY,
+    match_id VARCHAR(36) NOT NULL,
+    user_id VARCHAR(36) NOT NULL,
+    team VARCHAR(20) NOT NULL,
+    rating_before INT NULL COMMENT 'Player rating for the game type going into the match',
+    rating_after INT NULL COMMENT 'Player rating for the game type after the match',
+    FOREIGN KEY (match_id) REFERENCES matches(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    UNIQUE KEY unique_match_user (match_id, user_id),
+    INDEX idx_match_id (match_id),
+    INDEX idx_user_id (user_id)
+);
+
+-- User ratings table (Elo rating of each user per game type, updated after
+-- every recorded match; users without a row play at the default rating)
+CREATE TABLE IF NOT EXISTS user_ratings (
+    user_id VARCHAR(36) NOT NULL,
+    game_type VARCHAR(32) NOT NULL,
+    rating INT NOT NULL DEFAULT 1500,
+    games_played INT NOT NULL DEFAULT 0,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    PRIMARY KEY (user_id, game_type),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    INDEX idx_game_rating (game_type, rating)
+);
+
+-- Friendships table (a friend request until the addressee accepts it; declined
+-- requests and removed friends are deleted, so a pair has at most one row)
+CREATE TABLE IF NOT EXISTS friendships (
+    id VARCHAR(36) PRIMARY KEY,
+    requester_id VARCHAR(36) NOT NULL,
+    addressee_id VARCHAR(36) NOT NULL,
+    status ENUM('pending', 'accepted') DEFAULT 'pending',
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    accepted_at DATETIME NULL,
+    FOREIGN KEY (requester_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (addressee_id) REFERENCES users(id) ON DELETE CASCADE,
+    UNIQUE KEY unique_requester_addressee (requester_id, addressee_id),
+    INDEX idx_requester_status (requester_id, status),
+    INDEX idx_addressee_status (addressee_id, status)
+);
+
 -- Chat messages table
 CREATE TABLE IF NOT EXISTS chat_messages (
     id VARCHAR(36) PRIMARY KEY,
@@ -99,6 +151,17 @@ CREATE TABLE IF NOT EXISTS chat_messages (
     INDEX idx_created_at (created_at)
 );
 
+-- Game snapshots table (latest state of each room's game, restored on startup)
+CREATE TABLE IF NOT EXISTS game_snapshots (
+    room_id VARCHAR(36) PRIMARY KEY,
+    game_type VARCHAR(32) NOT NULL,
+    game_data MEDIUMTEXT NOT NULL COMMENT 'Output of the game engine serialize()',
+    clock_state TEXT NULL COMMENT 'Clock state as JSON when the snapshot was taken, NULL for untimed rooms',
+    rematch_requests TEXT NULL COMMENT 'JSON array of user IDs who asked for a rematch',
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE CASCADE
+);
+
 -- Reports table
 CREATE TABLE IF NOT EXISTS reports (
     id VARCHAR(36) PRIMARY KEY,
@@ -137,15 +200,17 @@ CREATE TABLE IF NOT EXISTS betting_proposals (
 -- Betting transactions table (tracks all betting-related transactions)
 CREATE TABLE IF NOT EXISTS betting_transactions (
     id VARCHAR(36) PRIMARY KEY,
-    room_id VARCHAR(36) NOT NULL,
+    room_id VARCHAR(36) NULL,
     match_id VARCHAR(36) NULL,
     user_id VARCHAR(36) NOT NULL,
-    transaction_type ENUM('bet_placed', 'bet_won', 'bet_lost', 'refund', 'platform_fee') NOT NULL,
+    -- bet_refund returns a stake after a draw or an aborted game; refund is kept for older rows
+    transaction_type ENUM('bet_placed', 'bet_won', 'bet_lost', 'refund', 'bet_refund', 'platform_fee') NOT NULL,
     amount DECIMAL(10, 2) NOT NULL,
     balance_before DECIMAL(10, 2) NOT NULL,
     balance_after DECIMAL(10, 2) NOT NULL,
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE CASCADE,
+    -- Transactions outlive their room so a player's betting history survives it
+    FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE SET NULL,
     FOREIGN KEY (match_id) REFERENCES matches(id) ON DELETE SET NULL,
     FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
     INDEX idx_room_id (room_id),
@@ -155,6 +220,93 @@ CREATE TABLE IF NOT EXISTS betting_transactions (
     INDEX idx_created_at (created_at)
 );
 
+-- Escrows table (stakes held while a staked game is played)
+-- held: stakes locked in; released: paid out to the winner; refunded: returned
+-- after a draw or an aborted game; expired: returned by the startup sweep
+-- because the room was no longer live
+CREATE TABLE IF NOT EXISTS escrows (
+    id VARCHAR(36) PRIMARY KEY,
+    room_id VARCHAR(36) NULL,
+    match_id VARCHAR(36) NULL COMMENT 'Match the stakes were settled for',
+    stake DECIMAL(10, 2) NOT NULL COMMENT 'Amount each player put in',
+    status ENUM('held', 'released', 'refunded', 'expired') NOT NULL DEFAULT 'held',
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    resolved_at DATETIME NULL,
+    -- Escrows outlive their room so a deleted room can't lose the stakes
+    FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE SET NULL,
+    FOREIGN KEY (match_id) REFERENCES matches(id) ON DELETE SET NULL,
+    INDEX idx_room_status (room_id, status),
+    INDEX idx_status (status)
+);
+
+-- Escrow players table (who put a stake into an escrow)
+CREATE TABLE IF NOT EXISTS escrow_players (
+    escrow_id VARCHAR(36) NOT NULL,
+    user_id VARCHAR(36) NOT NULL,
+    PRIMARY KEY (escrow_id, user_id),
+    FOREIGN KEY (escrow_id) REFERENCES escrows(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Ledger accounts (double-entry wallet ledger)
+-- Every user has a wallet account (wallet:<user id>); the rest are system accounts.
+CREATE TABLE IF NOT EXISTS ledger_accounts (
+    id VARCHAR(64) PRIMARY KEY COMMENT 'wallet:<user id>, escrow, platform_revenue, pix_clearing or adjustments',
+    account_type ENUM('user_wallet', 'escrow', 'platform_revenue', 'pix_clearing', 'adjustments') NOT NULL,
+    user_id VARCHAR(36) NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL,
+    INDEX idx_account_type (account_type),
+    INDEX idx_user_id (user_id)
+);
+
+-- Ledger entries (one row per balance change; append-only)
+CREATE TABLE IF NOT EXISTS ledger_entries (
+    id VARCHAR(36) PRIMARY KEY,
+    entry_type ENUM('opening_balance', 'stake_locked', 'stake_won', 'stake_refunded', 'pix_deposit', 'pix_withdrawal', 'admin_adjustment') NOT NULL,
+    reference_type ENUM('room', 'match', 'pix_transaction', 'user') NULL,
+    reference_id VARCHAR(36) NULL,
+    description VARCHAR(255) NULL,
+    created_by VARCHAR(36) NULL COMMENT 'Admin who made a manual adjustment',
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    INDEX idx_entry_type (entry_type),
+    INDEX idx_reference (reference_type, reference_id),
+    INDEX idx_created_at (created_at)
+);
+
+-- Ledger lines (the postings of an entry; append-only)
+-- A positive amount adds to the account and a negative amount takes from it.
+-- The lines of an entry always sum to 0, so money only ever moves between accounts.
+CREATE TABLE IF NOT EXISTS ledger_lines (
+    id VARCHAR(36) PRIMARY KEY,
+    entry_id VARCHAR(36) NOT NULL,
+    account_id VARCHAR(64) NOT NULL,
+    amount DECIMAL(12, 2) NOT NULL,
+    FOREIGN KEY (entry_id) REFERENCES ledger_entries(id),
+    FOREIGN KEY (account_id) REFERENCES ledger_accounts(id),
+    INDEX idx_entry_id (entry_id),
+    INDEX idx_account_id (account_id)
+);
+
+-- Betting settings table (platform fee and stake limits)
+-- The 'default' row applies to every game. A row for a game type overrides the
+-- columns it sets; its NULL columns fall back to the default row.
+CREATE TABLE IF NOT EXISTS betting_settings (
+    game_type VARCHAR(32) PRIMARY KEY COMMENT 'Game type registered in src/games, or default',
+    fee_percent DECIMAL(5, 2) NULL COMMENT 'Share of the pot kept when a match has a winner',
+    draw_fee_percent DECIMAL(5, 2) NULL COMMENT 'Share of each stake kept when a match is drawn',
+    fee_cap DECIMAL(10, 2) NULL COMMENT 'Most the platform keeps from one match (NULL in the default row: no cap)',
+    min_stake DECIMAL(10, 2) NULL COMMENT 'Smallest stake players can agree on',
+    max_stake DECIMAL(10, 2) NULL COMMENT 'Largest stake players can agree on (NULL in the default row: no maximum)',
+    default_stake DECIMAL(10, 2) NULL COMMENT 'Stake a new room starts with',
+    updated_by VARCHAR(36) NULL,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (updated_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+INSERT IGNORE INTO betting_settings (game_type, fee_percent, draw_fee_percent, fee_cap, min_stake, max_stake, default_stake)
+VALUES ('default', 10.00, 0.00, NULL, 0.25, NULL, 0.25);
+
 -- Pix transactions table (tracks Pix deposits and withdrawals)
 CREATE TABLE IF NOT EXISTS pix_transactions (
     id VARCHAR(36) PRIMARY KEY,
@@ -1,14 +1,30 @@
-export class CheckersGame {
+import { GameEngine, GameMoveRecord, GameOutcome } from "./engine.js";
+import { registerGame } from "./registry.js";
+
+const TEAMS = ["player1", "player2"];
+
+interface CheckersMove {
+  from: { x: number; y: number };
+  to: { x: number; y: number };
+  captured: { x: number; y: number } | null;
+}
+
+export class CheckersGame implements GameEngine {
+  public readonly teams = TEAMS;
   public boardState: (string | null)[][];
   public currentPlayer: string;
-  public activePiece: { x: number; y: number } | null;
+  public activePiece: { x: number; y: number } | null; // Piece that must continue a multi-jump
   public winner: string | null;
+  public isDraw: boolean;
+  public moveHistory: GameMoveRecord[];
 
   constructor() {
     this.boardState = this.initializeBoard();
     this.currentPlayer = "player1";
     this.activePiece = null;
     this.winner = null;
+    this.isDraw = false;
+    this.moveHistory = [];
   }
 
   private initializeBoard(): (string | null)[][] {
@@ -37,74 +53,247 @@ export class CheckersGame {
     return board;
   }
 
+  private isInBounds(x: number, y: number): boolean {
+    return x >= 0 && x < 8 && y >= 0 && y < 8;
+  }
+
+  private getOpponent(player: string): string {
+    return player === "player1" ? "player2" : "player1";
+  }
+
+  /**
+   * Cells hold the owner ("player1"/"player2"), with a "_king" suffix once
+   * the piece has been crowned.
+   */
+  private getOwner(cell: string | null): string | null {
+    return cell ? cell.replace("_king", "") : null;
+  }
+
+  private isKing(cell: string | null): boolean {
+    return cell !== null && cell.endsWith("_king");
+  }
+
+  /**
+   * Diagonal directions a piece may travel in. Men only move forward
+   * (player1 up the board, player2 down); kings move both ways.
+   */
+  private getDirections(cell: string): { dx: number; dy: number }[] {
+    if (this.isKing(cell)) {
+      return [
+        { dx: -1, dy: -1 },
+        { dx: 1, dy: -1 },
+        { dx: -1, dy: 1 },
+        { dx: 1, dy: 1 },
+      ];
+    }
+
+    const dy = this.getOwner(cell) === "player1" ? -1 : 1;
+    return [
+      { dx: -1, dy },
+      { dx: 1, dy },
+    ];
+  }
+
+  private getPieceMoves(x: number, y: number): CheckersMove[] {
+    const cell = this.boardState[y][x];
+    if (!cell) {
+      return [];
+    }
+
+    const owner = this.getOwner(cell)!;
+    const moves: CheckersMove[] = [];
+
+    for (const { dx, dy } of this.getDirections(cell)) {
+      const stepX = x + dx;
+      const stepY = y + dy;
+      if (!this.isInBounds(stepX, stepY)) {
+        continue;
+      }
+
+      const stepCell = this.boardState[stepY][stepX];
+      if (stepCell === null) {
+        moves.push({ from: { x, y }, to: { x: stepX, y: stepY }, captured: null });
+        continue;
+      }
+
+      // A jump must pass over an opponent piece onto an empty square
+      const jumpX = stepX + dx;
+      const jumpY = stepY + dy;
+      if (
+        this.getOwner(stepCell) !== owner &&
+        this.isInBounds(jumpX, jumpY) &&
+        this.boardState[jumpY][jumpX] === null
+      ) {
+        moves.push({
+          from: { x, y },
+          to: { x: jumpX, y: jumpY },
+          captured: { x: stepX, y: stepY },
+        });
+      }
+    }
+
+    return moves;
+  }
+
+  /**
+   * All moves available to a player, honouring the forced-capture rule: when
+   * any capture exists only captures are returned.
+   */
+  private getLegalMoves(player: string): CheckersMove[] {
+    if (this.activePiece && player === this.currentPlayer) {
+      // Mid-chain: only the jumping piece may move, and it must keep capturing
+      return this.getPieceMoves(this.activePiece.x, this.activePiece.y).filter(
+        (move) => move.captured !== null,
+      );
+    }
+
+    const moves: CheckersMove[] = [];
+    for (let y = 0; y < 8; y++) {
+      for (let x = 0; x < 8; x++) {
+        if (this.getOwner(this.boardState[y][x]) === player) {
+          moves.push(...this.getPieceMoves(x, y));
+        }
+      }
+    }
+
+    const captures = moves.filter((move) => move.captured !== null);
+    return captures.length > 0 ? captures : moves;
+  }
+
   makeMove(
     from: { x: number; y: number },
     to: { x: number; y: number },
     player: string,
   ): boolean {
-    if (this.winner !== null) {
+    if (this.winner !== null || this.isDraw) {
       return false;
     }
 
-    if (this.boardState[from.y][from.x] !== player) {
+    if (this.currentPlayer !== player) {
       return false;
     }
 
-    if (this.currentPlayer !== player) {
+    if (!this.isInBounds(from.x, from.y) || !this.isInBounds(to.x, to.y)) {
       return false;
     }
 
-    // Simple move validation (can be enhanced)
-    const dx = Math.abs(to.x - from.x);
-    const dy = to.y - from.y;
-
-    if (player === "player1" && dy > 0) {
-      return false; // player1 moves up
-    }
-    if (player === "player2" && dy < 0) {
-      return false; // player2 moves down
+    if (this.getOwner(this.boardState[from.y][from.x]) !== player) {
+      return false;
     }
 
-    if (dx !== Math.abs(dy) || dx > 2) {
+    const move = this.getLegalMoves(player).find(
+      (m) =>
+        m.from.x === from.x &&
+        m.from.y === from.y &&
+        m.to.x === to.x &&
+        m.to.y === to.y,
+    );
+    if (!move) {
       return false;
     }
 
     // Move piece
-    this.boardState[to.y][to.x] = this.boardState[from.y][from.x];
+    let cell = this.boardState[from.y][from.x]!;
     this.boardState[from.y][from.x] = null;
 
-    // Handle jump
-    if (dx === 2) {
-      const midX = (from.x + to.x) / 2;
-      const midY = (from.y + to.y) / 2;
-      this.boardState[midY][midX] = null;
+    if (move.captured) {
+      this.boardState[move.captured.y][move.captured.x] = null;
+    }
+
+    // Crown a man that reaches the far row
+    const crowningRow = player === "player1" ? 0 : 7;
+    const crowned = !this.isKing(cell) && to.y === crowningRow;
+    if (crowned) {
+      cell = `${player}_king`;
+    }
+    this.boardState[to.y][to.x] = cell;
+
+    // Keep the turn while the same piece can continue jumping. Crowning ends the move.
+    if (move.captured && !crowned) {
+      const furtherJumps = this.getPieceMoves(to.x, to.y).filter(
+        (m) => m.captured !== null,
+      );
+      if (furtherJumps.length > 0) {
+        this.activePiece = { x: to.x, y: to.y };
+        return true;
+      }
     }
 
-    this.currentPlayer = this.currentPlayer === "player1" ? "player2" : "player1";
+    this.activePiece = null;
+    this.currentPlayer = this.getOpponent(player);
     this.checkWinner();
 
     return true;
   }
 
+  /**
+   * A player who cannot move on their turn (no pieces left or all blocked)
+   * loses. If neither side has a move the game is drawn.
+   */
   private checkWinner(): void {
-    let player1Count = 0;
-    let player2Count = 0;
-
-    for (const row of this.boardState) {
-      for (const cell of row) {
-        if (cell === "player1") {
-          player1Count++;
-        } else if (cell === "player2") {
-          player2Count++;
-        }
-      }
+    if (this.getLegalMoves(this.currentPlayer).length > 0) {
+      return;
+    }
+
+    const opponent = this.getOpponent(this.currentPlayer);
+    if (this.getLegalMoves(opponent).length > 0) {
+      this.winner = opponent;
+    } else {
+      this.isDraw = true;
+    }
+  }
+
+  applyMove(move: unknown, team: string, playerId: string): boolean {
+    const { from, to } = (move || {}) as {
+      from?: { x: number; y: number };
+      to?: { x: number; y: number };
+    };
+    if (!from || !to || !this.makeMove(from, to, team)) {
+      return false;
     }
 
-    if (player1Count === 0) {
-      this.winner = "player2";
-    } else if (player2Count === 0) {
-      this.winner = "player1";
+    this.moveHistory.push({
+      team,
+      playerId,
+      move: { from: { x: from.x, y: from.y }, to: { x: to.x, y: to.y } },
+      timestamp: new Date().toISOString(),
+    });
+    return true;
+  }
+
+  getCurrentTeam(): string {
+    return this.currentPlayer;
+  }
+
+  getOutcome(): GameOutcome | null {
+    if (this.winner) {
+      return { winner: this.winner, isDraw: false };
     }
+    if (this.isDraw) {
+      return { winner: null, isDraw: true };
+    }
+    return null;
+  }
+
+  getMoveHistory(): GameMoveRecord[] {
+    return this.moveHistory;
+  }
+
+  serialize(): string {
+    return JSON.stringify({
+      boardState: this.boardState,
+      currentPlayer: this.currentPlayer,
+      activePiece: this.activePiece,
+      winner: this.winner,
+      isDraw: this.isDraw,
+      moveHistory: this.moveHistory,
+    });
+  }
+
+  static deserialize(data: string): CheckersGame {
+    const game = new CheckersGame();
+    Object.assign(game, JSON.parse(data));
+    return game;
   }
 
   getState() {
@@ -113,6 +302,7 @@ export class CheckersGame {
       currentPlayer: this.currentPlayer,
       activePiece: this.activePiece,
       winner: this.winner,
+      isDraw: this.isDraw,
     };
   }
 
@@ -121,6 +311,14 @@ export class CheckersGame {
     this.currentPlayer = "player1";
     this.activePiece = null;
     this.winner = null;
+    this.isDraw = false;
+    this.moveHistory = [];
   }
 }
 
+registerGame({
+  type: "checkers",
+  teams: TEAMS,
+  create: () => new CheckersGame(),
+  deserialize: (data) => CheckersGame.deserialize(data),
+});
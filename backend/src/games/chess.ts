@@ -1,3 +1,8 @@
+import { GameEngine, GameMoveRecord, GameOutcome } from "./engine.js";
+import { registerGame } from "./registry.js";
+
+const TEAMS = ["w", "b"];
+
 interface ChessPiece {
   type: string;
   team: string;
@@ -6,12 +11,43 @@ interface ChessPiece {
   enPassant?: boolean; // For pawns that can be captured en passant
 }
 
-export class ChessGame {
+const FILES = "abcdefgh";
+
+// Piece letters used by FEN and SAN (lowercase; white pieces are uppercased)
+const FEN_LETTERS: Record<string, string> = {
+  pawn: "p",
+  knight: "n",
+  bishop: "b",
+  rook: "r",
+  queen: "q",
+  king: "k",
+};
+
+const toSquare = (x: number, y: number): string => `${FILES[x]}${y + 1}`;
+
+const fromSquare = (square: string): { x: number; y: number } | null => {
+  const match = /^([a-h])([1-8])$/.exec(square);
+  return match ? { x: FILES.indexOf(match[1]), y: Number(match[2]) - 1 } : null;
+};
+
+export type ChessDrawReason =
+  | "stalemate"
+  | "threefold_repetition"
+  | "fifty_move_rule"
+  | "insufficient_material";
+
+export class ChessGame implements GameEngine {
+  public readonly teams = TEAMS;
   public pieces: ChessPiece[];
   public totalTurns: number;
   public currentTeam: string;
   public winningTeam: string | null;
   public pendingPromotion: { x: number; y: number; team: string } | null;
+  public isDraw: boolean;
+  public drawReason: ChessDrawReason | null;
+  public halfmoveClock: number; // Plies since the last capture or pawn move
+  public positionHistory: string[]; // Position keys used for repetition detection
+  public moveHistory: GameMoveRecord[];
 
   constructor() {
     this.pieces = this.initializePieces();
@@ -19,6 +55,11 @@ export class ChessGame {
     this.currentTeam = "w";
     this.winningTeam = null;
     this.pendingPromotion = null;
+    this.isDraw = false;
+    this.drawReason = null;
+    this.halfmoveClock = 0;
+    this.positionHistory = [this.getPositionKey()];
+    this.moveHistory = [];
   }
 
   private initializePieces(): ChessPiece[] {
@@ -97,6 +138,34 @@ export class ChessGame {
     return x >= 0 && x < 8 && y >= 0 && y < 8;
   }
 
+  private getOpponentTeam(team: string): string {
+    return team === "w" ? "b" : "w";
+  }
+
+  /**
+   * Check that every square strictly between from and to is empty.
+   * Only meaningful for straight or diagonal lines.
+   */
+  private isPathClear(
+    from: { x: number; y: number },
+    to: { x: number; y: number },
+  ): boolean {
+    const dx = Math.sign(to.x - from.x);
+    const dy = Math.sign(to.y - from.y);
+
+    let x = from.x + dx;
+    let y = from.y + dy;
+    while (x !== to.x || y !== to.y) {
+      if (this.getPieceAt(x, y)) {
+        return false;
+      }
+      x += dx;
+      y += dy;
+    }
+
+    return true;
+  }
+
   private isValidPawnMove(
     from: { x: number; y: number },
     to: { x: number; y: number },
@@ -129,9 +198,10 @@ export class ChessGame {
       if (targetPiece && targetPiece.team !== team) {
         return true;
       }
-      // Check for en passant
+      // Check for en passant (the destination square must be empty)
       const adjacentPiece = this.getPieceAt(to.x, from.y);
       if (
+        !targetPiece &&
         adjacentPiece &&
         adjacentPiece.type === "pawn" &&
         adjacentPiece.team !== team &&
@@ -154,18 +224,8 @@ export class ChessGame {
       return false;
     }
 
-    const dx = to.x === from.x ? 0 : to.x > from.x ? 1 : -1;
-    const dy = to.y === from.y ? 0 : to.y > from.y ? 1 : -1;
-
-    // Check if path is clear
-    let x = from.x + dx;
-    let y = from.y + dy;
-    while (x !== to.x || y !== to.y) {
-      if (this.getPieceAt(x, y)) {
-        return false;
-      }
-      x += dx;
-      y += dy;
+    if (!this.isPathClear(from, to)) {
+      return false;
     }
 
     // Destination must be empty or occupied by opponent
@@ -183,18 +243,8 @@ export class ChessGame {
       return false;
     }
 
-    const dx = to.x > from.x ? 1 : -1;
-    const dy = to.y > from.y ? 1 : -1;
-
-    // Check if path is clear
-    let x = from.x + dx;
-    let y = from.y + dy;
-    while (x !== to.x && y !== to.y) {
-      if (this.getPieceAt(x, y)) {
-        return false;
-      }
-      x += dx;
-      y += dy;
+    if (!this.isPathClear(from, to)) {
+      return false;
     }
 
     // Destination must be empty or occupied by opponent
@@ -240,6 +290,11 @@ export class ChessGame {
     const dx = Math.abs(to.x - from.x);
     const dy = Math.abs(to.y - from.y);
 
+    // Two squares sideways along the back rank is a castling attempt
+    if (dx === 2 && dy === 0) {
+      return this.isValidCastle(from, to, team);
+    }
+
     // King moves one square in any direction
     if (dx > 1 || dy > 1 || (dx === 0 && dy === 0)) {
       return false;
@@ -250,6 +305,47 @@ export class ChessGame {
     return !targetPiece || targetPiece.team !== team;
   }
 
+  /**
+   * Castling: neither the king nor the rook may have moved, the squares
+   * between them must be empty, and the king may not be in check, pass
+   * through an attacked square or land on one.
+   */
+  private isValidCastle(
+    from: { x: number; y: number },
+    to: { x: number; y: number },
+    team: string,
+  ): boolean {
+    const backRank = team === "w" ? 0 : 7;
+    if (from.x !== 4 || from.y !== backRank || to.y !== backRank) {
+      return false;
+    }
+
+    const king = this.getPieceAt(from.x, from.y);
+    if (!king || king.type !== "king" || king.team !== team || king.hasMoved) {
+      return false;
+    }
+
+    const rookX = to.x > from.x ? 7 : 0;
+    const rook = this.getPieceAt(rookX, backRank);
+    if (!rook || rook.type !== "rook" || rook.team !== team || rook.hasMoved) {
+      return false;
+    }
+
+    if (!this.isPathClear(from, { x: rookX, y: backRank })) {
+      return false;
+    }
+
+    const opponentTeam = this.getOpponentTeam(team);
+    const step = Math.sign(to.x - from.x);
+    for (let x = from.x; x !== to.x + step; x += step) {
+      if (this.isSquareAttacked({ x, y: backRank }, opponentTeam)) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
   private isValidMove(
     from: { x: number; y: number },
     to: { x: number; y: number },
@@ -282,6 +378,51 @@ export class ChessGame {
     }
   }
 
+  /**
+   * Check whether any piece of the given team attacks a square.
+   * Unlike isValidMove this ignores castling and pawn pushes, so it is safe to
+   * use from inside move validation.
+   */
+  private isSquareAttacked(
+    square: { x: number; y: number },
+    byTeam: string,
+  ): boolean {
+    return this.pieces.some((piece) => {
+      if (piece.team !== byTeam) {
+        return false;
+      }
+
+      const dx = square.x - piece.position.x;
+      const dy = square.y - piece.position.y;
+      if (dx === 0 && dy === 0) {
+        return false;
+      }
+
+      switch (piece.type) {
+        case "pawn":
+          return Math.abs(dx) === 1 && dy === (byTeam === "w" ? 1 : -1);
+        case "knight":
+          return (
+            (Math.abs(dx) === 2 && Math.abs(dy) === 1) ||
+            (Math.abs(dx) === 1 && Math.abs(dy) === 2)
+          );
+        case "king":
+          return Math.abs(dx) <= 1 && Math.abs(dy) <= 1;
+        case "rook":
+          return (dx === 0 || dy === 0) && this.isPathClear(piece.position, square);
+        case "bishop":
+          return Math.abs(dx) === Math.abs(dy) && this.isPathClear(piece.position, square);
+        case "queen":
+          return (
+            (dx === 0 || dy === 0 || Math.abs(dx) === Math.abs(dy)) &&
+            this.isPathClear(piece.position, square)
+          );
+        default:
+          return false;
+      }
+    });
+  }
+
   private isKingInCheck(team: string): boolean {
     const king = this.pieces.find(
       (p) => p.type === "king" && p.team === team,
@@ -290,130 +431,282 @@ export class ChessGame {
       return false;
     }
 
-    const opponentTeam = team === "w" ? "b" : "w";
-    const opponentPieces = this.pieces.filter((p) => p.team === opponentTeam);
+    return this.isSquareAttacked(king.position, this.getOpponentTeam(team));
+  }
 
-    for (const piece of opponentPieces) {
-      if (
-        this.isValidMove(
-          piece.position,
-          king.position,
-          piece.team,
-        )
-      ) {
-        return true;
+  /**
+   * Move a piece on the board without any validation. Handles captures
+   * (including en passant), the rook hop of a castle and en passant flags.
+   * Returns the captured piece, if any.
+   */
+  private applyPieceMove(
+    from: { x: number; y: number },
+    to: { x: number; y: number },
+  ): ChessPiece | null {
+    const piece = this.getPieceAt(from.x, from.y)!;
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+
+    let captured = this.getPieceAt(to.x, to.y) || null;
+
+    // En passant: a diagonal pawn move onto an empty square
+    if (piece.type === "pawn" && dx !== 0 && !captured) {
+      captured = this.getPieceAt(to.x, from.y) || null;
+    }
+
+    if (captured) {
+      this.pieces.splice(this.pieces.indexOf(captured), 1);
+    }
+
+    // Castling: move the rook to the other side of the king
+    if (piece.type === "king" && Math.abs(dx) === 2) {
+      const rookFromX = dx > 0 ? 7 : 0;
+      const rookToX = dx > 0 ? 5 : 3;
+      const rook = this.getPieceAt(rookFromX, from.y);
+      if (rook) {
+        rook.position = { x: rookToX, y: from.y };
+        rook.hasMoved = true;
       }
     }
 
-    return false;
+    // Only a pawn that has just advanced two squares can be captured en passant
+    this.pieces.forEach((p) => {
+      if (p.type === "pawn") {
+        p.enPassant = false;
+      }
+    });
+    if (piece.type === "pawn" && Math.abs(dy) === 2) {
+      piece.enPassant = true;
+    }
+
+    piece.position = { x: to.x, y: to.y };
+    piece.hasMoved = true;
+
+    return captured;
   }
 
-  makeMove(
+  private clonePieces(): ChessPiece[] {
+    return this.pieces.map((p) => ({ ...p, position: { ...p.position } }));
+  }
+
+  /**
+   * A move is legal when it follows the piece rules and does not leave the
+   * mover's own king in check.
+   */
+  private isLegalMove(
     from: { x: number; y: number },
     to: { x: number; y: number },
     team: string,
-    promotionType?: string, // For pawn promotion: 'queen', 'rook', 'bishop', 'knight'
   ): boolean {
-    if (this.winningTeam !== null) {
+    if (!this.isValidMove(from, to, team)) {
       return false;
     }
 
-    if (this.currentTeam !== team) {
-      return false;
-    }
+    // Simulate the move on a copy of the board, then restore it
+    const savedPieces = this.pieces;
+    this.pieces = this.clonePieces();
+    this.applyPieceMove(from, to);
+    const wouldBeInCheck = this.isKingInCheck(team);
+    this.pieces = savedPieces;
 
-    const piece = this.getPieceAt(from.x, from.y);
-    if (!piece || piece.team !== team) {
-      return false;
-    }
+    return !wouldBeInCheck;
+  }
 
-    // Check if move is valid
-    if (!this.isValidMove(from, to, team)) {
-      return false;
+  private hasAnyLegalMove(team: string): boolean {
+    const teamPieces = this.pieces.filter((p) => p.team === team);
+
+    for (const piece of teamPieces) {
+      const from = { ...piece.position };
+      for (let x = 0; x < 8; x++) {
+        for (let y = 0; y < 8; y++) {
+          if (this.isLegalMove(from, { x, y }, team)) {
+            return true;
+          }
+        }
+      }
     }
 
-    // Simulate the move to check if it puts own king in check
-    const originalPosition = { ...piece.position };
-    const originalHasMoved = piece.hasMoved;
-    const capturedPiece = this.pieces.find(
-      (p) => p.position.x === to.x && p.position.y === to.y && p.team !== team,
-    );
-    const capturedIndex = this.pieces.indexOf(capturedPiece!);
+    return false;
+  }
 
-    // Temporarily move the piece
-    piece.position = { x: to.x, y: to.y };
-    if (capturedIndex !== -1) {
-      this.pieces.splice(capturedIndex, 1);
-    }
+  /**
+   * Neither side can possibly deliver mate: bare kings, a single minor piece,
+   * or only bishops that all stand on the same square colour.
+   */
+  private isInsufficientMaterial(): boolean {
+    const others = this.pieces.filter((p) => p.type !== "king");
 
-    // Check if this move puts own king in check (illegal move)
-    const wouldBeInCheck = this.isKingInCheck(team);
+    if (others.length === 0) {
+      return true;
+    }
 
-    // Revert the temporary move
-    piece.position = originalPosition;
-    if (capturedIndex !== -1) {
-      this.pieces.splice(capturedIndex, 0, capturedPiece!);
+    if (
+      others.length === 1 &&
+      (others[0].type === "bishop" || others[0].type === "knight")
+    ) {
+      return true;
     }
 
-    if (wouldBeInCheck) {
-      return false;
+    if (others.every((p) => p.type === "bishop")) {
+      const squareColor = (p: ChessPiece) =>
+        (p.position.x + p.position.y) % 2;
+      return others.every((p) => squareColor(p) === squareColor(others[0]));
     }
 
-    // Handle en passant capture
-    let enPassantCapture: { x: number; y: number } | null = null;
-    if (piece.type === "pawn") {
-      const dx = Math.abs(to.x - from.x);
-      const dy = to.y - from.y;
-      const pawnDirection = team === "w" ? 1 : -1;
-
-      // Check if this is an en passant capture
-      if (dx === 1 && dy === pawnDirection) {
-        const adjacentPiece = this.getPieceAt(to.x, from.y);
-        if (
-          adjacentPiece &&
-          adjacentPiece.type === "pawn" &&
-          adjacentPiece.team !== team &&
-          adjacentPiece.enPassant
-        ) {
-          enPassantCapture = { x: to.x, y: from.y };
+    return false;
+  }
+
+  private getCastlingRights(): string {
+    let rights = "";
+    for (const team of ["w", "b"]) {
+      const backRank = team === "w" ? 0 : 7;
+      const king = this.getPieceAt(4, backRank);
+      if (!king || king.type !== "king" || king.team !== team || king.hasMoved) {
+        continue;
+      }
+      for (const [rookX, side] of [[7, "k"], [0, "q"]] as const) {
+        const rook = this.getPieceAt(rookX, backRank);
+        if (rook && rook.type === "rook" && rook.team === team && !rook.hasMoved) {
+          rights += team === "w" ? side.toUpperCase() : side;
         }
       }
+    }
+    return rights || "-";
+  }
 
-      // Mark pawn for en passant if it moves two squares
-      if (Math.abs(dy) === 2) {
-        piece.enPassant = true;
-      }
+  /**
+   * The square a pawn of the side to move could capture en passant onto, or
+   * "-" when no such capture is available.
+   */
+  private getEnPassantSquare(): string {
+    const pawn = this.pieces.find((p) => p.type === "pawn" && p.enPassant);
+    if (!pawn || pawn.team === this.currentTeam) {
+      return "-";
     }
 
-    // Clear en passant flags for all pawns (except the one that just moved two squares)
-    this.pieces.forEach((p) => {
-      if (p.type === "pawn" && p !== piece) {
-        p.enPassant = false;
-      }
+    const target = {
+      x: pawn.position.x,
+      y: pawn.position.y + (pawn.team === "w" ? -1 : 1),
+    };
+    const canCapture = [-1, 1].some((dx) => {
+      const from = { x: pawn.position.x + dx, y: pawn.position.y };
+      const attacker = this.getPieceAt(from.x, from.y);
+      return (
+        attacker !== undefined &&
+        attacker.type === "pawn" &&
+        attacker.team === this.currentTeam &&
+        this.isLegalMove(from, target, this.currentTeam)
+      );
     });
 
-    // Remove captured piece (normal capture or en passant)
-    if (enPassantCapture) {
-      const epIndex = this.pieces.findIndex(
-        (p) =>
-          p.position.x === enPassantCapture!.x &&
-          p.position.y === enPassantCapture!.y,
-      );
-      if (epIndex !== -1) {
-        this.pieces.splice(epIndex, 1);
-      }
-    } else {
-      const capturedIndex2 = this.pieces.findIndex(
-        (p) => p.position.x === to.x && p.position.y === to.y && p.team !== team,
-      );
-      if (capturedIndex2 !== -1) {
-        this.pieces.splice(capturedIndex2, 1);
+    return canCapture ? `${target.x},${target.y}` : "-";
+  }
+
+  /**
+   * Identify a position for repetition purposes: piece placement, side to
+   * move, castling rights and en passant availability.
+   */
+  private getPositionKey(): string {
+    const placement = this.pieces
+      .map((p) => `${p.team}${p.type}${p.position.x}${p.position.y}`)
+      .sort()
+      .join("|");
+
+    return [
+      placement,
+      this.currentTeam,
+      this.getCastlingRights(),
+      this.getEnPassantSquare(),
+    ].join(" ");
+  }
+
+  /**
+   * Hand the turn to the other side and check for a finished game.
+   * @param team The team that has just completed its move
+   */
+  private completeTurn(team: string): void {
+    this.totalTurns++;
+    this.currentTeam = this.getOpponentTeam(team);
+
+    const positionKey = this.getPositionKey();
+    this.positionHistory.push(positionKey);
+
+    if (!this.hasAnyLegalMove(this.currentTeam)) {
+      if (this.isKingInCheck(this.currentTeam)) {
+        this.winningTeam = team; // Checkmate: the team that made the move wins
+      } else {
+        this.setDraw("stalemate");
       }
+      return;
     }
 
-    // Move the piece
-    piece.position = { x: to.x, y: to.y };
-    piece.hasMoved = true;
+    if (this.isInsufficientMaterial()) {
+      this.setDraw("insufficient_material");
+      return;
+    }
+
+    // 50 moves by each side without a capture or pawn move
+    if (this.halfmoveClock >= 100) {
+      this.setDraw("fifty_move_rule");
+      return;
+    }
+
+    const repetitions = this.positionHistory.filter(
+      (key) => key === positionKey,
+    ).length;
+    if (repetitions >= 3) {
+      this.setDraw("threefold_repetition");
+    }
+  }
+
+  private setDraw(reason: ChessDrawReason): void {
+    this.isDraw = true;
+    this.drawReason = reason;
+  }
+
+  makeMove(
+    from: { x: number; y: number },
+    to: { x: number; y: number },
+    team: string,
+    promotionType?: string, // For pawn promotion: 'queen', 'rook', 'bishop', 'knight'
+  ): boolean {
+    if (this.winningTeam !== null || this.isDraw) {
+      return false;
+    }
+
+    if (this.currentTeam !== team) {
+      return false;
+    }
+
+    // The previous move must be completed before another one is made
+    if (this.pendingPromotion) {
+      return false;
+    }
+
+    const piece = this.getPieceAt(from.x, from.y);
+    if (!piece || piece.team !== team) {
+      return false;
+    }
+
+    const validPromotionTypes = ["queen", "rook", "bishop", "knight"];
+    if (promotionType && !validPromotionTypes.includes(promotionType)) {
+      return false;
+    }
+
+    // Check the move follows the rules and does not expose the king
+    if (!this.isLegalMove(from, to, team)) {
+      return false;
+    }
+
+    const captured = this.applyPieceMove(from, to);
+
+    if (captured || piece.type === "pawn") {
+      this.halfmoveClock = 0;
+      // Positions before an irreversible move can never repeat
+      this.positionHistory = [];
+    } else {
+      this.halfmoveClock++;
+    }
 
     // Handle pawn promotion
     if (piece.type === "pawn") {
@@ -432,48 +725,7 @@ export class ChessGame {
       }
     }
 
-    this.totalTurns++;
-    this.currentTeam = this.currentTeam === "w" ? "b" : "w";
-
-    // Check for checkmate
-    if (this.isKingInCheck(this.currentTeam)) {
-      // Check if the current team has any valid moves
-      const hasValidMoves = this.pieces
-        .filter((p) => p.team === this.currentTeam)
-        .some((p) => {
-          for (let x = 0; x < 8; x++) {
-            for (let y = 0; y < 8; y++) {
-              if (this.isValidMove(p.position, { x, y }, p.team)) {
-                // Simulate move to check if it's legal
-                const originalPos = { ...p.position };
-                const targetPiece = this.getPieceAt(x, y);
-                const targetIndex = targetPiece ? this.pieces.indexOf(targetPiece) : -1;
-                
-                p.position = { x, y };
-                if (targetIndex !== -1 && targetPiece!.team !== p.team) {
-                  this.pieces.splice(targetIndex, 1);
-                }
-                
-                const isLegal = !this.isKingInCheck(this.currentTeam);
-                
-                p.position = originalPos;
-                if (targetIndex !== -1) {
-                  this.pieces.splice(targetIndex, 0, targetPiece!);
-                }
-                
-                if (isLegal) {
-                  return true;
-                }
-              }
-            }
-          }
-          return false;
-        });
-
-      if (!hasValidMoves) {
-        this.winningTeam = team; // The team that made the move wins
-      }
-    }
+    this.completeTurn(team);
 
     return true;
   }
@@ -507,52 +759,364 @@ export class ChessGame {
 
     piece.type = promotionType;
     this.pendingPromotion = null;
-    
+
     // Now complete the move by incrementing turn and changing current team
-    this.totalTurns++;
-    this.currentTeam = this.currentTeam === "w" ? "b" : "w";
-
-    // Check for checkmate after promotion
-    if (this.isKingInCheck(this.currentTeam)) {
-      const hasValidMoves = this.pieces
-        .filter((p) => p.team === this.currentTeam)
-        .some((p) => {
-          for (let x = 0; x < 8; x++) {
-            for (let y = 0; y < 8; y++) {
-              if (this.isValidMove(p.position, { x, y }, p.team)) {
-                const originalPos = { ...p.position };
-                const targetPiece = this.getPieceAt(x, y);
-                const targetIndex = targetPiece ? this.pieces.indexOf(targetPiece) : -1;
-                
-                p.position = { x, y };
-                if (targetIndex !== -1 && targetPiece!.team !== p.team) {
-                  this.pieces.splice(targetIndex, 1);
-                }
-                
-                const isLegal = !this.isKingInCheck(this.currentTeam);
-                
-                p.position = originalPos;
-                if (targetIndex !== -1) {
-                  this.pieces.splice(targetIndex, 0, targetPiece!);
-                }
-                
-                if (isLegal) {
-                  return true;
-                }
-              }
-            }
-          }
-          return false;
-        });
+    this.completeTurn(team);
 
-      if (!hasValidMoves) {
-        this.winningTeam = team;
+    return true;
+  }
+
+  /**
+   * Current position in Forsyth-Edwards Notation. Files a-h are x 0-7 and
+   * ranks 1-8 are y 0-7, so white starts on ranks 1 and 2.
+   */
+  toFEN(): string {
+    const ranks: string[] = [];
+    for (let y = 7; y >= 0; y--) {
+      let rank = "";
+      let empty = 0;
+      for (let x = 0; x < 8; x++) {
+        const piece = this.getPieceAt(x, y);
+        if (!piece) {
+          empty++;
+          continue;
+        }
+        if (empty > 0) {
+          rank += empty;
+          empty = 0;
+        }
+        const letter = FEN_LETTERS[piece.type];
+        rank += piece.team === "w" ? letter.toUpperCase() : letter;
       }
+      ranks.push(empty > 0 ? rank + empty : rank);
     }
-    
+
+    // The square behind a pawn that has just advanced two squares
+    const pawn = this.pieces.find((p) => p.type === "pawn" && p.enPassant);
+    const enPassant = pawn
+      ? toSquare(pawn.position.x, pawn.position.y + (pawn.team === "w" ? -1 : 1))
+      : "-";
+
+    return [
+      ranks.join("/"),
+      this.currentTeam,
+      this.getCastlingRights(),
+      enPassant,
+      this.halfmoveClock,
+      Math.floor(this.totalTurns / 2) + 1,
+    ].join(" ");
+  }
+
+  /**
+   * Build a game from a FEN position. Throws if the FEN is malformed.
+   * @param fen Position in Forsyth-Edwards Notation
+   */
+  static fromFEN(fen: string): ChessGame {
+    const fields = fen.trim().split(/\s+/);
+    if (fields.length < 4 || fields.length > 6) {
+      throw new Error("Invalid FEN: expected 4 to 6 fields");
+    }
+    const [placement, side, castling, enPassant, halfmove = "0", fullmove = "1"] = fields;
+
+    const rows = placement.split("/");
+    if (rows.length !== 8) {
+      throw new Error("Invalid FEN: expected 8 ranks");
+    }
+    if (side !== "w" && side !== "b") {
+      throw new Error("Invalid FEN: side to move must be w or b");
+    }
+    if (!/^(-|K?Q?k?q?)$/.test(castling) || castling === "") {
+      throw new Error("Invalid FEN: bad castling rights");
+    }
+
+    const pieces: ChessPiece[] = [];
+    rows.forEach((row, index) => {
+      const y = 7 - index;
+      let x = 0;
+      for (const char of row) {
+        if (/[1-8]/.test(char)) {
+          x += Number(char);
+          continue;
+        }
+        const type = Object.keys(FEN_LETTERS).find(
+          (key) => FEN_LETTERS[key] === char.toLowerCase(),
+        );
+        if (!type || x > 7) {
+          throw new Error(`Invalid FEN: bad rank ${row}`);
+        }
+        const team = char === char.toUpperCase() ? "w" : "b";
+        pieces.push({ type, team, position: { x, y }, hasMoved: false });
+        x++;
+      }
+      if (x !== 8) {
+        throw new Error(`Invalid FEN: rank ${row} does not cover 8 files`);
+      }
+    });
+
+    for (const team of ["w", "b"]) {
+      if (pieces.filter((p) => p.type === "king" && p.team === team).length !== 1) {
+        throw new Error("Invalid FEN: each side needs exactly one king");
+      }
+    }
+
+    // Kings and rooks keep castling rights only where the FEN grants them
+    for (const piece of pieces) {
+      if (piece.type !== "king" && piece.type !== "rook") {
+        continue;
+      }
+      const rights = piece.team === "w" ? castling.replace(/[a-z]/g, "") : castling.replace(/[A-Z]/g, "").toUpperCase();
+      const backRank = piece.team === "w" ? 0 : 7;
+      if (piece.type === "king") {
+        piece.hasMoved = !(rights && piece.position.x === 4 && piece.position.y === backRank);
+      } else {
+        const side = piece.position.x === 7 ? "K" : piece.position.x === 0 ? "Q" : "";
+        piece.hasMoved = !(side && rights.includes(side) && piece.position.y === backRank);
+      }
+    }
+
+    if (enPassant !== "-") {
+      const target = fromSquare(enPassant);
+      // The pawn that just advanced stands one rank past the target square
+      const pawnY = target ? target.y + (side === "w" ? -1 : 1) : -1;
+      const pawn = pieces.find(
+        (p) => p.type === "pawn" && target && p.position.x === target.x && p.position.y === pawnY,
+      );
+      if (!pawn || pawn.team === side) {
+        throw new Error("Invalid FEN: bad en passant square");
+      }
+      pawn.enPassant = true;
+    }
+
+    const halfmoveClock = Number(halfmove);
+    const fullmoveNumber = Number(fullmove);
+    if (!Number.isInteger(halfmoveClock) || halfmoveClock < 0 || !Number.isInteger(fullmoveNumber) || fullmoveNumber < 1) {
+      throw new Error("Invalid FEN: bad move counters");
+    }
+
+    const game = new ChessGame();
+    game.pieces = pieces;
+    game.currentTeam = side;
+    game.halfmoveClock = halfmoveClock;
+    game.totalTurns = (fullmoveNumber - 1) * 2 + (side === "b" ? 1 : 0);
+    game.positionHistory = [game.getPositionKey()];
+
+    // The position may already be decided
+    if (!game.hasAnyLegalMove(side)) {
+      if (game.isKingInCheck(side)) {
+        game.winningTeam = game.getOpponentTeam(side);
+      } else {
+        game.setDraw("stalemate");
+      }
+    } else if (game.isInsufficientMaterial()) {
+      game.setDraw("insufficient_material");
+    }
+
+    return game;
+  }
+
+  /**
+   * Standard Algebraic Notation for a move in the current position, without
+   * the check suffix (that depends on the position after the move).
+   */
+  private getSAN(
+    from: { x: number; y: number },
+    to: { x: number; y: number },
+    promotionType?: string,
+  ): string {
+    const piece = this.getPieceAt(from.x, from.y)!;
+
+    if (piece.type === "king" && Math.abs(to.x - from.x) === 2) {
+      return to.x > from.x ? "O-O" : "O-O-O";
+    }
+
+    const isCapture =
+      this.getPieceAt(to.x, to.y) !== undefined ||
+      (piece.type === "pawn" && to.x !== from.x);
+
+    if (piece.type === "pawn") {
+      const base = isCapture ? `${FILES[from.x]}x${toSquare(to.x, to.y)}` : toSquare(to.x, to.y);
+      const promotes = to.y === 0 || to.y === 7;
+      return promotionType && promotes ? `${base}=${FEN_LETTERS[promotionType].toUpperCase()}` : base;
+    }
+
+    // Name the origin file and/or rank when another piece of the same kind could also move there
+    const rivals = this.pieces.filter(
+      (p) =>
+        p !== piece &&
+        p.type === piece.type &&
+        p.team === piece.team &&
+        this.isLegalMove(p.position, to, p.team),
+    );
+    let disambiguation = "";
+    if (rivals.length > 0) {
+      if (rivals.every((p) => p.position.x !== from.x)) {
+        disambiguation = FILES[from.x];
+      } else if (rivals.every((p) => p.position.y !== from.y)) {
+        disambiguation = String(from.y + 1);
+      } else {
+        disambiguation = toSquare(from.x, from.y);
+      }
+    }
+
+    return `${FEN_LETTERS[piece.type].toUpperCase()}${disambiguation}${isCapture ? "x" : ""}${toSquare(to.x, to.y)}`;
+  }
+
+  /**
+   * Export a recorded game as PGN
+   * @param moves Move history as recorded by applyMove
+   * @param tags PGN tag pairs (Event, Date, White, Black, Result, ...)
+   */
+  static toPGN(moves: GameMoveRecord[], tags: Record<string, string>): string {
+    const game = new ChessGame();
+    const sanMoves: string[] = [];
+
+    for (let i = 0; i < moves.length; i++) {
+      const { team, playerId, move } = moves[i];
+      const { from, to, promotionType } = move as {
+        from?: { x: number; y: number };
+        to?: { x: number; y: number };
+        promotionType?: string;
+      };
+      if (!from || !to || !game.getPieceAt(from.x, from.y)) {
+        break;
+      }
+
+      const before = game.getSAN(from, to, promotionType);
+      if (!game.applyMove(move, team, playerId)) {
+        break;
+      }
+
+      // A promotion chosen afterwards arrives as its own record
+      let san = before;
+      const next = moves[i + 1]?.move as { type?: string; promotionType?: string } | undefined;
+      if (game.pendingPromotion && next?.type === "promotion" && next.promotionType) {
+        if (!game.applyMove(next, moves[i + 1].team, moves[i + 1].playerId)) {
+          break;
+        }
+        san += `=${FEN_LETTERS[next.promotionType].toUpperCase()}`;
+        i++;
+      }
+
+      if (game.winningTeam) {
+        san += "#";
+      } else if (game.isKingInCheck(game.currentTeam)) {
+        san += "+";
+      }
+      sanMoves.push(san);
+    }
+
+    const result = tags.Result || "*";
+    const tokens: string[] = [];
+    sanMoves.forEach((san, index) => {
+      if (index % 2 === 0) {
+        tokens.push(`${index / 2 + 1}.`);
+      }
+      tokens.push(san);
+    });
+    tokens.push(result);
+
+    // Keep movetext lines under 80 characters
+    const lines: string[] = [];
+    let line = "";
+    for (const token of tokens) {
+      if (line && line.length + token.length + 1 > 79) {
+        lines.push(line);
+        line = token;
+      } else {
+        line = line ? `${line} ${token}` : token;
+      }
+    }
+    lines.push(line);
+
+    const escape = (value: string) => value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+    const header = Object.entries({ ...tags, Result: result })
+      .map(([name, value]) => `[${name} "${escape(value)}"]`)
+      .join("\n");
+
+    return `${header}\n\n${lines.join("\n")}\n`;
+  }
+
+  /**
+   * Accepts a regular move `{ from, to, promotionType? }` or the promotion
+   * choice that completes a pending pawn move `{ type: "promotion", position, promotionType }`.
+   */
+  applyMove(move: unknown, team: string, playerId: string): boolean {
+    const { type, from, to, position, promotionType } = (move || {}) as {
+      type?: string;
+      from?: { x: number; y: number };
+      to?: { x: number; y: number };
+      position?: { x: number; y: number };
+      promotionType?: string;
+    };
+
+    let applied: unknown;
+    if (type === "promotion") {
+      if (!position || !promotionType || !this.promotePawn(position, promotionType, team)) {
+        return false;
+      }
+      applied = { type, position: { x: position.x, y: position.y }, promotionType };
+    } else {
+      // A promotion piece only means something for a pawn reaching the last rank
+      const promotes =
+        !!from && !!to && this.getPieceAt(from.x, from.y)?.type === "pawn" && (to.y === 0 || to.y === 7);
+      if (!from || !to || !this.makeMove(from, to, team, promotionType)) {
+        return false;
+      }
+      applied = {
+        from: { x: from.x, y: from.y },
+        to: { x: to.x, y: to.y },
+        ...(promotionType && promotes ? { promotionType } : {}),
+      };
+    }
+
+    this.moveHistory.push({
+      team,
+      playerId,
+      move: applied,
+      timestamp: new Date().toISOString(),
+    });
     return true;
   }
 
+  getCurrentTeam(): string {
+    return this.currentTeam;
+  }
+
+  getOutcome(): GameOutcome | null {
+    if (this.winningTeam) {
+      return { winner: this.winningTeam, isDraw: false };
+    }
+    if (this.isDraw) {
+      return { winner: null, isDraw: true, drawReason: this.drawReason };
+    }
+    return null;
+  }
+
+  getMoveHistory(): GameMoveRecord[] {
+    return this.moveHistory;
+  }
+
+  serialize(): string {
+    return JSON.stringify({
+      pieces: this.pieces,
+      totalTurns: this.totalTurns,
+      currentTeam: this.currentTeam,
+      winningTeam: this.winningTeam,
+      pendingPromotion: this.pendingPromotion,
+      isDraw: this.isDraw,
+      drawReason: this.drawReason,
+      halfmoveClock: this.halfmoveClock,
+      positionHistory: this.positionHistory,
+      moveHistory: this.moveHistory,
+    });
+  }
+
+  static deserialize(data: string): ChessGame {
+    const game = new ChessGame();
+    Object.assign(game, JSON.parse(data));
+    return game;
+  }
+
   getState() {
     return {
       pieces: this.pieces,
@@ -560,6 +1124,10 @@ export class ChessGame {
       currentTeam: this.currentTeam,
       winningTeam: this.winningTeam,
       pendingPromotion: this.pendingPromotion,
+      isDraw: this.isDraw,
+      drawReason: this.drawReason,
+      halfmoveClock: this.halfmoveClock,
+      fen: this.toFEN(),
     };
   }
 
@@ -569,5 +1137,17 @@ export class ChessGame {
     this.currentTeam = "w";
     this.winningTeam = null;
     this.pendingPromotion = null;
+    this.isDraw = false;
+    this.drawReason = null;
+    this.halfmoveClock = 0;
+    this.positionHistory = [this.getPositionKey()];
+    this.moveHistory = [];
   }
 }
+
+registerGame({
+  type: "chess",
+  teams: TEAMS,
+  create: () => new ChessGame(),
+  deserialize: (data) => ChessGame.deserialize(data),
+});
@@ -0,0 +1,182 @@
+import { GameEngine, GameMoveRecord, GameOutcome } from "./engine.js";
+import { registerGame } from "./registry.js";
+
+const TEAMS = ["red", "yellow"];
+const ROWS = 6;
+const COLUMNS = 7;
+
+export class ConnectFourGame implements GameEngine {
+  public readonly teams = TEAMS;
+  public board: (string | null)[][]; // board[row][column], row 0 is the top
+  public currentPlayer: string;
+  public winner: string | null;
+  public winningCells: { row: number; column: number }[];
+  public isDraw: boolean;
+  public moveHistory: GameMoveRecord[];
+
+  constructor() {
+    this.board = this.initializeBoard();
+    this.currentPlayer = "red";
+    this.winner = null;
+    this.winningCells = [];
+    this.isDraw = false;
+    this.moveHistory = [];
+  }
+
+  private initializeBoard(): (string | null)[][] {
+    return Array(ROWS)
+      .fill(null)
+      .map(() => Array(COLUMNS).fill(null));
+  }
+
+  /**
+   * Lowest empty row in a column, or -1 when the column is full
+   */
+  private getDropRow(column: number): number {
+    for (let row = ROWS - 1; row >= 0; row--) {
+      if (this.board[row][column] === null) {
+        return row;
+      }
+    }
+    return -1;
+  }
+
+  makeMove(column: number, player: string): boolean {
+    if (!Number.isInteger(column) || column < 0 || column >= COLUMNS) {
+      return false;
+    }
+
+    if (this.winner !== null || this.isDraw) {
+      return false;
+    }
+
+    if (player !== this.currentPlayer) {
+      return false;
+    }
+
+    // Discs fall to the lowest free cell of the column
+    const row = this.getDropRow(column);
+    if (row === -1) {
+      return false;
+    }
+
+    this.board[row][column] = player;
+    this.checkWinner(row, column);
+    this.currentPlayer = this.currentPlayer === "red" ? "yellow" : "red";
+    return true;
+  }
+
+  /**
+   * Look for four in a row through the disc just dropped: horizontally,
+   * vertically and along both diagonals.
+   */
+  private checkWinner(row: number, column: number): void {
+    const player = this.board[row][column];
+    const directions = [
+      { dr: 0, dc: 1 },
+      { dr: 1, dc: 0 },
+      { dr: 1, dc: 1 },
+      { dr: 1, dc: -1 },
+    ];
+
+    for (const { dr, dc } of directions) {
+      const cells = [{ row, column }];
+
+      for (const sign of [1, -1]) {
+        let r = row + dr * sign;
+        let c = column + dc * sign;
+        while (r >= 0 && r < ROWS && c >= 0 && c < COLUMNS && this.board[r][c] === player) {
+          cells.push({ row: r, column: c });
+          r += dr * sign;
+          c += dc * sign;
+        }
+      }
+
+      if (cells.length >= 4) {
+        this.winner = player;
+        this.winningCells = cells;
+        return;
+      }
+    }
+
+    if (this.board[0].every((cell) => cell !== null)) {
+      this.isDraw = true;
+    }
+  }
+
+  applyMove(move: unknown, team: string, playerId: string): boolean {
+    const { column } = (move || {}) as { column?: number };
+    if (typeof column !== "number" || !this.makeMove(column, team)) {
+      return false;
+    }
+
+    this.moveHistory.push({
+      team,
+      playerId,
+      move: { column },
+      timestamp: new Date().toISOString(),
+    });
+    return true;
+  }
+
+  getCurrentTeam(): string {
+    return this.currentPlayer;
+  }
+
+  getOutcome(): GameOutcome | null {
+    if (this.winner) {
+      return { winner: this.winner, isDraw: false };
+    }
+    if (this.isDraw) {
+      return { winner: null, isDraw: true };
+    }
+    return null;
+  }
+
+  getMoveHistory(): GameMoveRecord[] {
+    return this.moveHistory;
+  }
+
+  serialize(): string {
+    return JSON.stringify({
+      board: this.board,
+      currentPlayer: this.currentPlayer,
+      winner: this.winner,
+      winningCells: this.winningCells,
+      isDraw: this.isDraw,
+      moveHistory: this.moveHistory,
+    });
+  }
+
+  static deserialize(data: string): ConnectFourGame {
+    const game = new ConnectFourGame();
+    Object.assign(game, JSON.parse(data));
+    return game;
+  }
+
+  getState() {
+    return {
+      board: this.board,
+      currentPlayer: this.currentPlayer,
+      winner: this.winner,
+      winningCells: this.winningCells,
+      isDraw: this.isDraw,
+    };
+  }
+
+  reset(): void {
+    this.board = this.initializeBoard();
+    this.currentPlayer = "red";
+    this.winner = null;
+    this.winningCells = [];
+    this.isDraw = false;
+    this.moveHistory = [];
+  }
+}
+
+registerGame({
+  type: "connect_four",
+  teams: TEAMS,
+  create: () => new ConnectFourGame(),
+  deserialize: (data) => ConnectFourGame.deserialize(data),
+});
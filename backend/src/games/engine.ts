@@ -0,0 +1,62 @@
+/**
+ * How a finished game ended. `winner` is the winning team, or null for a draw.
+ */
+export interface GameOutcome {
+  winner: string | null;
+  isDraw: boolean;
+  drawReason?: string | null;
+}
+
+/**
+ * A move as it was applied, in order
+ */
+export interface GameMoveRecord {
+  team: string;
+  playerId: string; // User who made the move
+  move: unknown;
+  timestamp: string; // ISO time the server applied the move
+}
+
+/**
+ * Common interface every game implements so rooms, clocks and settlement
+ * can drive any game without knowing its rules.
+ */
+export interface GameEngine {
+  /** Teams in turn order; the player at index 0 plays the first team */
+  readonly teams: readonly string[];
+
+  /** Team whose turn it is */
+  getCurrentTeam(): string;
+
+  /**
+   * Validate and apply a move for a team, recording it in the move history
+   * @param playerId User making the move
+   * @returns true if the move was legal and applied
+   */
+  applyMove(move: unknown, team: string, playerId: string): boolean;
+
+  /** The result once the game is over, null while it is still in progress */
+  getOutcome(): GameOutcome | null;
+
+  /** State sent to clients */
+  getState(): unknown;
+
+  /** Every move applied so far */
+  getMoveHistory(): GameMoveRecord[];
+
+  /** Full internal state as JSON, restorable through the game's definition */
+  serialize(): string;
+
+  reset(): void;
+}
+
+/**
+ * Registry entry describing a game type
+ */
+export interface GameDefinition {
+  /** Game type identifier stored in rooms.game_type (e.g. "tic_tac_toe") */
+  type: string;
+  teams: readonly string[];
+  create(): GameEngine;
+  deserialize(data: string): GameEngine;
+}
@@ -0,0 +1,8 @@
+// Importing a game module registers it. Add new games here.
+import "./ticTacToe.js";
+import "./checkers.js";
+import "./chess.js";
+import "./connectFour.js";
+
+export * from "./registry.js";
+export type { GameEngine, GameDefinition, GameOutcome, GameMoveRecord } from "./engine.js";
@@ -0,0 +1,30 @@
+import { GameDefinition } from "./engine.js";
+
+const gameDefinitions = new Map<string, GameDefinition>(); // gameType -> definition
+
+/**
+ * Register a game type. Each game module registers itself when imported.
+ * @param definition Game definition
+ */
+export const registerGame = (definition: GameDefinition): void => {
+  if (gameDefinitions.has(definition.type)) {
+    throw new Error(`Game type already registered: ${definition.type}`);
+  }
+  gameDefinitions.set(definition.type, definition);
+};
+
+export const isGameType = (gameType: unknown): gameType is string => {
+  return typeof gameType === "string" && gameDefinitions.has(gameType);
+};
+
+export const getGameDefinition = (gameType: string): GameDefinition => {
+  const definition = gameDefinitions.get(gameType);
+  if (!definition) {
+    throw new Error(`Unknown game type: ${gameType}`);
+  }
+  return definition;
+};
+
+export const getRegisteredGameTypes = (): string[] => {
+  return Array.from(gameDefinitions.keys());
+};
@@ -1,17 +1,29 @@
-export class TicTacToeGame {
+import { GameEngine, GameMoveRecord, GameOutcome } from "./engine.js";
+import { registerGame } from "./registry.js";
+
+const TEAMS = ["X", "O"];
+
+export class TicTacToeGame implements GameEngine {
+  public readonly teams = TEAMS;
   public board: (string | null)[];
   public currentPlayer: string;
   public winner: string | null;
   public isDraw: boolean;
+  public moveHistory: GameMoveRecord[];
 
   constructor() {
     this.board = Array(9).fill(null);
     this.currentPlayer = "X";
     this.winner = null;
     this.isDraw = false;
+    this.moveHistory = [];
   }
 
   makeMove(index: number, player: string): boolean {
+    if (!Number.isInteger(index) || index < 0 || index > 8) {
+      return false;
+    }
+
     if (this.board[index] !== null || this.winner !== null || this.isDraw) {
       return false;
     }
@@ -55,6 +67,55 @@ export class TicTacToeGame {
     }
   }
 
+  applyMove(move: unknown, team: string, playerId: string): boolean {
+    const { index } = (move || {}) as { index?: number };
+    if (typeof index !== "number" || !this.makeMove(index, team)) {
+      return false;
+    }
+
+    this.moveHistory.push({
+      team,
+      playerId,
+      move: { index },
+      timestamp: new Date().toISOString(),
+    });
+    return true;
+  }
+
+  getCurrentTeam(): string {
+    return this.currentPlayer;
+  }
+
+  getOutcome(): GameOutcome | null {
+    if (this.winner) {
+      return { winner: this.winner, isDraw: false };
+    }
+    if (this.isDraw) {
+      return { winner: null, isDraw: true };
+    }
+    return null;
+  }
+
+  getMoveHistory(): GameMoveRecord[] {
+    return this.moveHistory;
+  }
+
+  serialize(): string {
+    return JSON.stringify({
+      board: this.board,
+      currentPlayer: this.currentPlayer,
+      winner: this.winner,
+      isDraw: this.isDraw,
+      moveHistory: this.moveHistory,
+    });
+  }
+
+  static deserialize(data: string): TicTacToeGame {
+    const game = new TicTacToeGame();
+    Object.assign(game, JSON.parse(data));
+    return game;
+  }
+
   getState() {
     return {
       board: this.board,
@@ -69,6 +130,14 @@ export class TicTacToeGame {
     this.currentPlayer = "X";
     this.winner = null;
     this.isDraw = false;
+    this.moveHistory = [];
   }
 }
 
+registerGame({
+  type: "tic_tac_toe",
+  teams: TEAMS,
+  create: () => new TicTacToeGame(),
+  deserialize: (data) => TicTacToeGame.deserialize(data),
+});
+
@@ -9,17 +9,25 @@ import path from "path";
 import { fileURLToPath } from "url";
 
 import { config } from "./config/env.js";
-import { setupSocketHandlers } from "./lib/socket-handler.js";
+import { restoreGames, setupSocketHandlers } from "./lib/socket-handler.js";
+import { connectSharedState } from "./lib/shared-state.js";
 import logger from "./lib/logger.js";
 import { testConnection } from "./db/connection.js";
+import { openWalletAccounts, reconcileBalances } from "./utils/ledgerManager.js";
+import { expireStaleEscrows } from "./utils/settlementManager.js";
+import { hasGame } from "./utils/gameManager.js";
 import {
   activeWSConnectionsGauge,
   register,
   totalRequestsCounter,
 } from "./lib/monitor.js";
 import authRoutes from "./routes/auth.js";
+import friendRoutes from "./routes/friends.js";
 import pixRoutes from "./routes/pix.js";
 import adminRoutes from "./routes/admin.js";
+import matchRoutes from "./routes/matches.js";
+import roomRoutes from "./routes/rooms.js";
+import userRoutes from "./routes/users.js";
 import "./controllers/passport.js";
 
 const app = express();
@@ -125,6 +133,10 @@ app.use(express.static(frontendPath));
 app.use("/api/auth", authRoutes);
 app.use("/api/pix", pixRoutes);
 app.use("/api/admin", adminRoutes);
+app.use("/api/matches", matchRoutes);
+app.use("/api/users", userRoutes);
+app.use("/api/rooms", roomRoutes);
+app.use("/api/friends", friendRoutes);
 
 // Health check
 app.get("/health", (req, res) => {
@@ -201,6 +213,21 @@ setupSocketHandlers(io);
     await testConnection();
     logger.info("Database connected");
 
+    // Must come before anything reads or writes room state
+    await connectSharedState(io);
+
+    // Bring balances from before the ledger into it, then check the books
+    await openWalletAccounts();
+    const mismatches = await reconcileBalances();
+    if (mismatches.length > 0) {
+      logger.warn({ mismatches }, "User balances do not match the ledger");
+    }
+
+    // Pick up the games that were running, then give back the stakes of any
+    // game that could not be restored
+    await restoreGames(io);
+    await expireStaleEscrows(hasGame);
+
     // Start server
     httpServer.listen(config.port, () => {
       logger.info(`Server running on port ${config.port}`);
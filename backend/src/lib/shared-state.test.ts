@@ -0,0 +1,259 @@
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import net from "node:net";
+import { after, before, describe, it } from "node:test";
+import { Redis } from "ioredis";
+import { config } from "../config/env.js";
+import {
+  createMemoryStore,
+  createRedisStore,
+  SharedStore,
+  useSharedStore,
+  withLock,
+} from "./shared-state.js";
+
+// Contract tests for the shared store: every store has to behave the same, so
+// the same cases run against the in-memory store and against the Redis store
+// talking to a local stand-in server that speaks just enough of the Redis
+// protocol for the commands the store sends.
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Replies in the Redis protocol
+const bulk = (value: string | null) =>
+  value === null ? "$-1\r\n" : `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+const array = (values: string[]) => `*${values.length}\r\n${values.map((v) => bulk(v)).join("")}`;
+const integer = (value: number) => `:${value}\r\n`;
+
+/**
+ * Start a Redis protocol server on a free local port, keeping its data in memory
+ * @returns The server, listening
+ */
+const startRedisStandIn = async (): Promise<net.Server> => {
+  const hashes = new Map<string, Map<string, string>>();
+  const strings = new Map<string, { value: string; expiresAt: number | null }>();
+
+  const getString = (key: string): string | null => {
+    const entry = strings.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      strings.delete(key);
+      return null;
+    }
+    return entry.value;
+  };
+
+  const run = (args: string[]): string => {
+    const [command, ...rest] = args;
+    switch (command.toUpperCase()) {
+      case "PING":
+        return "+PONG\r\n";
+      case "INFO":
+        return bulk("# Server\r\nredis_version:7.0.0\r\nloading:0\r\n");
+      case "CLIENT":
+      case "SELECT":
+        return "+OK\r\n";
+      case "HGET":
+        return bulk(hashes.get(rest[0])?.get(rest[1]) ?? null);
+      case "HSET": {
+        const hash = hashes.get(rest[0]) ?? new Map<string, string>();
+        hashes.set(rest[0], hash);
+        let added = 0;
+        for (let i = 1; i + 1 < rest.length; i += 2) {
+          if (!hash.has(rest[i])) added++;
+          hash.set(rest[i], rest[i + 1]);
+        }
+        return integer(added);
+      }
+      case "HDEL": {
+        const hash = hashes.get(rest[0]);
+        return integer(rest.slice(1).filter((field) => hash?.delete(field)).length);
+      }
+      case "HGETALL":
+        return array([...(hashes.get(rest[0]) ?? new Map<string, string>())].flat());
+      case "GET":
+        return bulk(getString(rest[0]));
+      case "SET": {
+        const [key, value, ...options] = rest;
+        const upper = options.map((option) => option.toUpperCase());
+        if (upper.includes("NX") && getString(key) !== null) {
+          return "$-1\r\n";
+        }
+        const px = upper.indexOf("PX");
+        strings.set(key, {
+          value,
+          expiresAt: px === -1 ? null : Date.now() + Number(options[px + 1]),
+        });
+        return "+OK\r\n";
+      }
+      case "EVAL": {
+        // Only the compare-and-delete and compare-and-expire lock scripts are used
+        const [script, , key, token, ttlMs] = rest;
+        if (getString(key) !== token) {
+          return integer(0);
+        }
+        if (script.includes("pexpire")) {
+          strings.get(key)!.expiresAt = Date.now() + Number(ttlMs);
+        } else {
+          strings.delete(key);
+        }
+        return integer(1);
+      }
+      default:
+        return `-ERR unknown command '${command}'\r\n`;
+    }
+  };
+
+  // Parse RESP arrays of bulk strings, which is how clients send commands
+  const parse = (buffer: Buffer): { args: string[]; rest: Buffer } | null => {
+    const readLine = (offset: number) => {
+      const end = buffer.indexOf("\r\n", offset);
+      return end === -1 ? null : { line: buffer.toString("utf8", offset, end), next: end + 2 };
+    };
+
+    const header = readLine(0);
+    if (!header) return null;
+    const count = Number(header.line.slice(1));
+    const args: string[] = [];
+    let offset = header.next;
+    for (let i = 0; i < count; i++) {
+      const length = readLine(offset);
+      if (!length) return null;
+      const size = Number(length.line.slice(1));
+      if (buffer.length < length.next + size + 2) return null;
+      args.push(buffer.toString("utf8", length.next, length.next + size));
+      offset = length.next + size + 2;
+    }
+    return { args, rest: buffer.subarray(offset) };
+  };
+
+  const server = net.createServer((socket) => {
+    let pending: Buffer = Buffer.alloc(0);
+    socket.on("data", (chunk) => {
+      pending = Buffer.concat([pending, chunk]);
+      let parsed = parse(pending);
+      while (parsed) {
+        socket.write(run(parsed.args));
+        pending = parsed.rest;
+        parsed = pending.length > 0 ? parse(pending) : null;
+      }
+    });
+  });
+  server.listen(0, "127.0.0.1");
+  await once(server, "listening");
+  return server;
+};
+
+/**
+ * Run the store contract against one kind of store
+ * @param name Name of the store for the test output
+ * @param setup Create the store, and a teardown for whatever it needs
+ */
+const testStore = (
+  name: string,
+  setup: () => Promise<{ store: SharedStore; teardown: () => Promise<void> }>,
+) => {
+  describe(name, () => {
+    let store: SharedStore;
+    let teardown: () => Promise<void>;
+
+    before(async () => {
+      ({ store, teardown } = await setup());
+      useSharedStore(store);
+    });
+
+    after(async () => {
+      useSharedStore(createMemoryStore());
+      await teardown();
+    });
+
+    it("reads, writes and deletes hash fields", async () => {
+      assert.equal(await store.hget("hash", "a"), null);
+      await store.hset("hash", "a", "1");
+      await store.hset("hash", "b", "2");
+      assert.equal(await store.hget("hash", "a"), "1");
+      assert.deepEqual(await store.hgetall("hash"), { a: "1", b: "2" });
+      await store.hdel("hash", "a");
+      assert.equal(await store.hget("hash", "a"), null);
+      assert.deepEqual(await store.hgetall("hash"), { b: "2" });
+      assert.deepEqual(await store.hgetall("missing"), {});
+    });
+
+    it("lets one holder take a lock and only that holder release it", async () => {
+      assert.equal(await store.acquireLock("lock:a", "one", 1000), true);
+      assert.equal(await store.acquireLock("lock:a", "two", 1000), false);
+      await store.releaseLock("lock:a", "two");
+      assert.equal(await store.acquireLock("lock:a", "two", 1000), false);
+      await store.releaseLock("lock:a", "one");
+      assert.equal(await store.acquireLock("lock:a", "two", 1000), true);
+      await store.releaseLock("lock:a", "two");
+    });
+
+    it("frees a lock once its time is up unless the holder extends it", async () => {
+      assert.equal(await store.acquireLock("lock:b", "one", 60), true);
+      await sleep(40);
+      assert.equal(await store.extendLock("lock:b", "one", 60), true);
+      assert.equal(await store.extendLock("lock:b", "two", 60), false);
+      await sleep(40);
+      assert.equal(await store.acquireLock("lock:b", "two", 60), false);
+      await sleep(40);
+      assert.equal(await store.extendLock("lock:b", "one", 60), false);
+      assert.equal(await store.acquireLock("lock:b", "two", 60), true);
+      await store.releaseLock("lock:b", "two");
+    });
+
+    it("runs callers of withLock one at a time", async () => {
+      let running = 0;
+      let maxRunning = 0;
+      const order: number[] = [];
+
+      await Promise.all(
+        [0, 1, 2, 3, 4].map((index) =>
+          withLock("contract", async () => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await sleep(5);
+            order.push(index);
+            running--;
+          }),
+        ),
+      );
+
+      assert.equal(maxRunning, 1);
+      assert.deepEqual(order, [0, 1, 2, 3, 4]);
+    });
+
+    it("keeps other instances out while withLock runs", async () => {
+      const key = `${config.redis.keyPrefix}lock:contract`;
+      let otherInstanceGotIn: boolean | undefined;
+
+      await withLock("contract", async () => {
+        otherInstanceGotIn = await store.acquireLock(key, "other-instance", 1000);
+      });
+
+      assert.equal(otherInstanceGotIn, false);
+      assert.equal(await store.acquireLock(key, "other-instance", 1000), true);
+      await store.releaseLock(key, "other-instance");
+    });
+  });
+};
+
+testStore("memory store", async () => ({
+  store: createMemoryStore(),
+  teardown: async () => {},
+}));
+
+testStore("Redis store", async () => {
+  const server = await startRedisStandIn();
+  const { port } = server.address() as net.AddressInfo;
+  const client = new Redis({ host: "127.0.0.1", port, enableReadyCheck: false, maxRetriesPerRequest: 1 });
+
+  return {
+    store: createRedisStore(client),
+    teardown: async () => {
+      client.disconnect();
+      server.close();
+      await once(server, "close");
+    },
+  };
+});
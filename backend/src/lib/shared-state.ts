@@ -0,0 +1,254 @@
+import { createAdapter } from "@socket.io/redis-adapter";
+import { Redis } from "ioredis";
+import { Server } from "socket.io";
+import { v4 as uuidv4 } from "uuid";
+import { config } from "../config/env.js";
+import logger from "./logger.js";
+
+// State every backend instance has to agree on: sessions, the room each player
+// is in and the games being played. A single instance keeps it in memory. With
+// REDIS_URL set, instances share it through Redis (or any server that speaks
+// the Redis protocol) and broadcast through the Socket.IO Redis adapter, so
+// several of them can run behind a load balancer.
+
+/**
+ * Storage behind the shared maps and locks
+ */
+export interface SharedStore {
+  /** Read a field of a hash, or null if it is not set */
+  hget(key: string, field: string): Promise<string | null>;
+  hset(key: string, field: string, value: string): Promise<void>;
+  hdel(key: string, field: string): Promise<void>;
+  /** Every field of a hash */
+  hgetall(key: string): Promise<Record<string, string>>;
+  /**
+   * Take a lock unless it is already held. The lock frees itself after ttlMs
+   * in case its holder dies.
+   * @returns Whether the lock was taken
+   */
+  acquireLock(key: string, token: string, ttlMs: number): Promise<boolean>;
+  /**
+   * Push a held lock's expiry back to ttlMs from now
+   * @returns Whether the lock was still held with the given token
+   */
+  extendLock(key: string, token: string, ttlMs: number): Promise<boolean>;
+  /** Release a lock, but only if it is still held with the given token */
+  releaseLock(key: string, token: string): Promise<void>;
+}
+
+/**
+ * Store kept in this process, for a single instance and for tests
+ */
+export const createMemoryStore = (): SharedStore => {
+  const hashes = new Map<string, Map<string, string>>();
+  const locks = new Map<string, { token: string; expiresAt: number }>();
+
+  return {
+    hget: async (key, field) => hashes.get(key)?.get(field) ?? null,
+    hset: async (key, field, value) => {
+      if (!hashes.has(key)) {
+        hashes.set(key, new Map());
+      }
+      hashes.get(key)!.set(field, value);
+    },
+    hdel: async (key, field) => {
+      hashes.get(key)?.delete(field);
+    },
+    hgetall: async (key) => Object.fromEntries(hashes.get(key) ?? []),
+    acquireLock: async (key, token, ttlMs) => {
+      const lock = locks.get(key);
+      if (lock && lock.expiresAt > Date.now()) {
+        return false;
+      }
+      locks.set(key, { token, expiresAt: Date.now() + ttlMs });
+      return true;
+    },
+    extendLock: async (key, token, ttlMs) => {
+      const lock = locks.get(key);
+      if (!lock || lock.token !== token || lock.expiresAt <= Date.now()) {
+        return false;
+      }
+      lock.expiresAt = Date.now() + ttlMs;
+      return true;
+    },
+    releaseLock: async (key, token) => {
+      if (locks.get(key)?.token === token) {
+        locks.delete(key);
+      }
+    },
+  };
+};
+
+// Deletes the lock only if it still holds our token, so a holder whose lock
+// expired can't release the next holder's lock
+const RELEASE_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0
+`;
+
+// Same check for pushing back the lock's expiry
+const EXTEND_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("pexpire", KEYS[1], ARGV[2])
+end
+return 0
+`;
+
+/**
+ * Store shared through Redis, for running several instances
+ * @param client Connected Redis client
+ */
+export const createRedisStore = (client: Redis): SharedStore => ({
+  hget: (key, field) => client.hget(key, field),
+  hset: async (key, field, value) => {
+    await client.hset(key, field, value);
+  },
+  hdel: async (key, field) => {
+    await client.hdel(key, field);
+  },
+  hgetall: (key) => client.hgetall(key),
+  acquireLock: async (key, token, ttlMs) => {
+    return (await client.set(key, token, "PX", ttlMs, "NX")) === "OK";
+  },
+  extendLock: async (key, token, ttlMs) => {
+    return (await client.eval(EXTEND_LOCK_SCRIPT, 1, key, token, ttlMs)) === 1;
+  },
+  releaseLock: async (key, token) => {
+    await client.eval(RELEASE_LOCK_SCRIPT, 1, key, token);
+  },
+});
+
+let store: SharedStore = createMemoryStore();
+
+/**
+ * Replace the store behind every shared map and lock. Call before any state is
+ * written, i.e. on startup or at the start of a test.
+ */
+export const useSharedStore = (next: SharedStore): void => {
+  store = next;
+};
+
+/**
+ * Map whose entries are visible to every instance. Values are stored as JSON.
+ */
+export interface SharedMap<V> {
+  get(key: string): Promise<V | undefined>;
+  set(key: string, value: V): Promise<void>;
+  delete(key: string): Promise<void>;
+  has(key: string): Promise<boolean>;
+  entries(): Promise<Array<[string, V]>>;
+}
+
+/**
+ * Create a shared map. The store is looked up on every call, so maps can be
+ * created at module load, before useSharedStore() runs.
+ * @param name Name of the map, unique across the application
+ */
+export const createSharedMap = <V>(name: string): SharedMap<V> => {
+  const key = `${config.redis.keyPrefix}map:${name}`;
+
+  return {
+    get: async (field) => {
+      const value = await store.hget(key, field);
+      return value === null ? undefined : (JSON.parse(value) as V);
+    },
+    set: (field, value) => store.hset(key, field, JSON.stringify(value)),
+    delete: (field) => store.hdel(key, field),
+    has: async (field) => (await store.hget(key, field)) !== null,
+    entries: async () =>
+      Object.entries(await store.hgetall(key)).map(
+        ([field, value]) => [field, JSON.parse(value) as V] as [string, V],
+      ),
+  };
+};
+
+// A lock expires this long after it was last renewed, so a crashed holder can't
+// block others forever. While fn runs the lock is renewed every third of that,
+// so work that takes longer (a slow settlement transaction) keeps it.
+const LOCK_TTL_MS = 15000;
+const LOCK_RENEW_MS = LOCK_TTL_MS / 3;
+const LOCK_RETRY_MS = 20;
+
+// Callers waiting for a lock on this instance, queued so they get it in the
+// order they asked for it instead of whoever polls the store first
+const lockQueues = new Map<string, Promise<void>>(); // lock name -> last caller in line
+
+/**
+ * Run a function while holding a lock that every instance respects. Callers on
+ * the same instance get the lock in the order they asked for it. Locks are not
+ * reentrant: don't take the same lock again inside fn.
+ * @param name Name of the lock, e.g. "room:<id>"
+ * @param fn Work to do while holding the lock
+ * @returns What fn returns
+ */
+export const withLock = async <T>(name: string, fn: () => Promise<T>): Promise<T> => {
+  const previous = lockQueues.get(name) ?? Promise.resolve();
+  let leave!: () => void;
+  const turn = new Promise<void>((resolve) => {
+    leave = resolve;
+  });
+  const last = previous.then(() => turn);
+  lockQueues.set(name, last);
+
+  try {
+    await previous;
+
+    const key = `${config.redis.keyPrefix}lock:${name}`;
+    const token = uuidv4();
+    while (!(await store.acquireLock(key, token, LOCK_TTL_MS))) {
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+
+    const renewal = setInterval(() => {
+      store
+        .extendLock(key, token, LOCK_TTL_MS)
+        .then((held) => {
+          if (!held) {
+            logger.warn({ lock: name }, "Lost lock while holding it");
+          }
+        })
+        .catch((error) => {
+          logger.error(error, "Error renewing lock");
+        });
+    }, LOCK_RENEW_MS);
+
+    try {
+      return await fn();
+    } finally {
+      clearInterval(renewal);
+      await store.releaseLock(key, token);
+    }
+  } finally {
+    leave();
+    if (lockQueues.get(name) === last) {
+      lockQueues.delete(name);
+    }
+  }
+};
+
+/**
+ * Share state and broadcasts through Redis when REDIS_URL is set. Without it
+ * the server keeps everything in memory and must run as a single instance.
+ * @param io Socket.IO server instance
+ */
+export const connectSharedState = async (io: Server): Promise<void> => {
+  if (!config.redis.url) {
+    logger.info("Shared state: in memory (single instance)");
+    return;
+  }
+
+  const client = new Redis(config.redis.url);
+  const subscriber = client.duplicate();
+  for (const connection of [client, subscriber]) {
+    connection.on("error", (error) => {
+      logger.error(error, "Redis connection error");
+    });
+  }
+  await client.ping();
+
+  io.adapter(createAdapter(client, subscriber, { key: `${config.redis.keyPrefix}socket.io` }));
+  useSharedStore(createRedisStore(client));
+  logger.info("Shared state: Redis");
+};
@@ -26,32 +26,222 @@ import {
   getUserRoom,
   checkPlayerInRoom,
   getRoomBettingInfo,
-  updateRoomBettingAmount,
-  lockRoomBetting,
   getUserBalance,
-  updateUserBalance,
+  getRoomTimeControl,
+  getQueuedStake,
+  getWaitingRoom,
+  createPrivateRoom,
+  getPrivateRoom,
+  checkRoomPassword,
+  PrivateRoom,
+  StakeRange,
 } from "../utils/roomManager.js";
 import {
   initializeGame,
   getGameState,
   getGame,
   setGame,
+  hasGame,
   removeGame,
+  restoreGame,
   validateMove,
+  getGameTeams,
+  getPlayerTeam,
+  getCurrentTeam,
+  getGameOutcome,
+  isGameType,
   GameType,
 } from "../utils/gameManager.js";
-import { ChessGame } from "../games/chess.js";
+import {
+  startClock,
+  switchClock,
+  getClockState,
+  stopClock,
+  resumeClock,
+  claimFlagFall,
+  onFlagFall,
+  isTimeControl,
+  normalizeIncrement,
+  ClockState,
+} from "../utils/clockManager.js";
+import { config } from "../config/env.js";
 import logger from "./logger.js";
+import { createSharedMap, withLock } from "./shared-state.js";
 import { activeWSConnectionsGauge, totalRequestsCounter } from "./monitor.js";
 import { checkAndAutoBanUser } from "../utils/banManager.js";
+import { recordMatch } from "../utils/matchManager.js";
+import { getRating } from "../utils/ratingManager.js";
+import { generateInviteToken, verifyInviteToken } from "../utils/jwt.js";
+import {
+  areFriends,
+  getFriendIds,
+  removeFriend,
+  respondToFriendRequest,
+  sendFriendRequest,
+} from "../utils/friendManager.js";
+import {
+  calculateWinPayout,
+  lockStakes,
+  refundStakes,
+} from "../utils/settlementManager.js";
+import { BettingSettings, getBettingSettings } from "../utils/settingsManager.js";
+import {
+  loadGameSnapshots,
+  saveGameSnapshot,
+  saveRematchRequests,
+} from "../utils/snapshotManager.js";
+
+// Room state shared by every server instance (see shared-state.ts)
+const userRooms = createSharedMap<string>("userRooms"); // userId -> roomId
+const rematchRequests = createSharedMap<string[]>("rematchRequests"); // roomId -> userIds
+const drawOffers = createSharedMap<string>("drawOffers"); // roomId -> userId of the player offering a draw
+
+// Active user sessions for single login enforcement
+const userSessions = createSharedMap<string>("userSessions"); // userId -> socketId
+const socketToUser = createSharedMap<string>("socketToUser"); // socketId -> userId (reverse mapping)
+
+// Seats held for disconnected players until they reconnect or the grace period
+// runs out. The timer lives on the instance the player disconnected from.
+const heldSeats = createSharedMap<string>("heldSeats"); // userId -> roomId
+const reconnectGraceTimers = new Map<string, NodeJS.Timeout>(); // userId -> timer on this instance
+
+// Sockets watching a live game without a seat. Spectators share a separate
+// channel per room so they only see the public game events.
+const spectating = new Map<string, string>(); // socketId -> roomId
+
+/**
+ * Socket.IO channel that spectators of a room join
+ */
+const getSpectatorChannel = (roomId: string): string => `spectate:${roomId}`;
+
+/**
+ * Count the sockets spectating a room, across all server instances
+ * @param io Socket.IO server instance
+ * @param roomId Room ID
+ */
+const countSpectators = async (io: Server, roomId: string): Promise<number> => {
+  return (await io.in(getSpectatorChannel(roomId)).fetchSockets()).length;
+};
+
+/**
+ * Tell players and spectators how many people are watching a room
+ * @param io Socket.IO server instance
+ * @param roomId Room ID
+ */
+const emitSpectatorCount = async (io: Server, roomId: string): Promise<void> => {
+  const count = await countSpectators(io, roomId);
+  io.to([roomId, getSpectatorChannel(roomId)]).emit("spectator_count", { roomId, count });
+};
+
+/**
+ * Stop a socket from watching whichever room it is spectating
+ * @param io Socket.IO server instance
+ * @param socket Spectator socket
+ */
+const stopSpectating = async (io: Server, socket: Socket): Promise<void> => {
+  const roomId = spectating.get(socket.id);
+  if (!roomId) return;
+
+  spectating.delete(socket.id);
+  socket.leave(getSpectatorChannel(roomId));
+  await emitSpectatorCount(io, roomId);
+};
+
+// Sockets browsing the lobby, told whenever the list of waiting rooms changes
+// so they can fetch it again
+const LOBBY_CHANNEL = "lobby";
+
+/**
+ * Tell everyone browsing the lobby that the waiting rooms have changed
+ * @param io Socket.IO server instance
+ */
+const notifyLobby = (io: Server): void => {
+  io.to(LOBBY_CHANNEL).emit("lobby_updated");
+};
+
+/**
+ * Send an event to a user wherever they are connected
+ * @param io Socket.IO server instance
+ * @param userId User ID
+ * @param event Event name
+ * @param data Event payload
+ * @returns Whether the user is connected
+ */
+const notifyUser = async (
+  io: Server,
+  userId: string,
+  event: string,
+  data: Record<string, unknown>,
+): Promise<boolean> => {
+  const socketId = await userSessions.get(userId);
+  if (!socketId) {
+    return false;
+  }
+  // The socket may be connected to another instance, so reach it through its own room
+  io.to(socketId).emit(event, data);
+  return true;
+};
+
+export type Presence = "offline" | "online" | "in_game";
+
+/**
+ * Get whether a user is connected, and if so whether they are playing a game
+ * @param userId User ID
+ */
+export const getPresence = async (userId: string): Promise<Presence> => {
+  if (!(await userSessions.has(userId))) {
+    return "offline";
+  }
+  const room = await getUserRoom(userId);
+  return room?.status === "playing" ? "in_game" : "online";
+};
+
+/**
+ * Tell the connected friends of each user what the user is up to now. Call
+ * after a user connects, disconnects, or starts or stops playing.
+ * @param io Socket.IO server instance
+ * @param userIds User IDs
+ */
+const broadcastPresence = async (io: Server, userIds: string[]): Promise<void> => {
+  try {
+    for (const userId of userIds) {
+      const presence = await getPresence(userId);
+      for (const friendId of await getFriendIds(userId)) {
+        await notifyUser(io, friendId, "friend_presence", { userId, presence });
+      }
+    }
+  } catch (error) {
+    logger.error(error, "Error broadcasting presence");
+  }
+};
 
-// Store active games in memory
-const userRooms = new Map<string, string>(); // userId -> roomId
-const rematchRequests = new Map<string, Set<string>>(); // roomId -> Set of userIds
+/**
+ * Send a player a fresh invite to the private room they host
+ * @param socket Host's socket
+ * @param room Private room
+ */
+const emitRoomInvite = (socket: Socket, room: PrivateRoom): void => {
+  const { token, expiresAt } = generateInviteToken(room.id, config.game.inviteExpiresIn);
+  socket.emit("room_invite", {
+    roomId: room.id,
+    token,
+    expiresAt,
+    hasPassword: room.hasPassword,
+  });
+};
 
-// Store active user sessions for single login enforcement
-const userSessions = new Map<string, string>(); // userId -> socketId
-const socketToUser = new Map<string, string>(); // socketId -> userId (reverse mapping)
+/**
+ * Run a change to a room's state while no other change to the room is being
+ * processed, on this or any other server instance. Every event that changes a
+ * room goes through here, so a room's commands are handled one at a time in
+ * the order they arrive. Helpers noted as needing the room's lock must be
+ * called from inside fn, since the lock is not reentrant.
+ * @param roomId Room ID
+ * @param fn Work to do while holding the room's lock
+ */
+const withRoomLock = <T>(roomId: string, fn: () => Promise<T>): Promise<T> => {
+  return withLock(`room:${roomId}`, fn);
+};
 
 // Track last time insufficient balance error was shown per room to prevent duplicates
 const lastInsufficientBalanceError = new Map<string, number>(); // roomId -> timestamp
@@ -76,6 +266,65 @@ const isUserAdmin = async (userId: string): Promise<boolean> => {
   }
 };
 
+/**
+ * Check a stake against the limits of a game's betting settings
+ * @param amount Proposed stake
+ * @param settings Betting settings of the room's game
+ * @returns The error to send to the player, or null if the stake is allowed
+ */
+const checkStakeLimits = (
+  amount: number,
+  settings: BettingSettings,
+): { message: string; translationKey: string; translationData: Record<string, string> } | null => {
+  if (amount < settings.minStake) {
+    return {
+      message: `Betting amount must be at least ${settings.minStake.toFixed(2)}`,
+      translationKey: "betting.amountBelowMinimum",
+      translationData: { amount: settings.minStake.toFixed(2) },
+    };
+  }
+  if (settings.maxStake !== null && amount > settings.maxStake) {
+    return {
+      message: `Betting amount cannot be more than ${settings.maxStake.toFixed(2)}`,
+      translationKey: "betting.amountAboveMaximum",
+      translationData: { amount: settings.maxStake.toFixed(2) },
+    };
+  }
+  return null;
+};
+
+/**
+ * Read the stakes a player is willing to play for from a join_random request.
+ * A single stake can be sent as stakeMin alone.
+ * @param data Stake fields of the request
+ * @param settings Betting settings of the game
+ * @returns The stake range (null for unstaked play), or the error to send to the player
+ */
+const readStakeRange = (
+  data: { stakeMin?: number; stakeMax?: number },
+  settings: BettingSettings,
+):
+  | { range: StakeRange | null }
+  | { error: { message: string; translationKey?: string; translationData?: Record<string, string> } } => {
+  if (data.stakeMin === undefined || data.stakeMin === null) {
+    return { range: null };
+  }
+
+  const min = Number(data.stakeMin);
+  const max = data.stakeMax === undefined || data.stakeMax === null ? min : Number(data.stakeMax);
+  if (!Number.isFinite(min) || !Number.isFinite(max) || min <= 0 || max < min) {
+    return {
+      error: { message: "Invalid stake range", translationKey: "betting.invalidStakeRange" },
+    };
+  }
+
+  const limitError = checkStakeLimits(min, settings) ?? checkStakeLimits(max, settings);
+  if (limitError) {
+    return { error: limitError };
+  }
+  return { range: { min, max } };
+};
+
 /**
  * Check if all players in a room have sufficient balance to cover the betting amount
  * @param players Array of players in the room
@@ -89,7 +338,7 @@ const checkPlayersBalance = async (
   const insufficientPlayers: Array<{ id: string; username: string; balance: number }> = [];
   
   // Ensure bettingAmount is a number
-  const requiredAmount = typeof bettingAmount === 'number' ? bettingAmount : Number(bettingAmount || 0.25);
+  const requiredAmount = typeof bettingAmount === 'number' ? bettingAmount : Number(bettingAmount || 0);
   
   for (const player of players) {
     const balance = await getUserBalance(player.id);
@@ -132,6 +381,7 @@ const checkPlayersBalance = async (
  * @param roomId Room ID
  * @param leavingUserId User ID of the player who left
  * @param remainingPlayers Remaining players in the room
+ * @param seatedPlayers Players seated before the leaver left, in team order
  * @param gameType Game type
  * @returns true if winner was processed, false otherwise
  */
@@ -140,6 +390,7 @@ const handlePlayerLeaveWinner = async (
   roomId: string,
   leavingUserId: string,
   remainingPlayers: Array<{ id: string; username: string }>,
+  seatedPlayers: Array<{ id: string; username: string }>,
   gameType: string,
 ): Promise<boolean> => {
   try {
@@ -157,99 +408,30 @@ const handlePlayerLeaveWinner = async (
       return false; // Room doesn't exist or is not playing
     }
 
+    await stopClock(roomId);
+
     const winnerId = remainingPlayers[0].id;
-    const matchId = uuidv4();
-
-    // Create match record
-    await query(
-      `INSERT INTO matches (id, room_id, game_type, winner_id, moves_json, result)
-       VALUES (?, ?, ?, ?, ?, ?)`,
-      [
-        matchId,
-        roomId,
-        gameType,
-        winnerId,
-        JSON.stringify([]), // No moves since player left
-        "win",
-      ],
+    const game = await getGame(roomId);
+
+    // Record the match and pay out the locked bets
+    const { matchId, ratings, settlement } = await recordMatch(
+      roomId,
+      gameType,
+      seatedPlayers,
+      winnerId,
+      "win",
+      game?.getMoveHistory() ?? [],
     );
 
-    // Process betting payouts
-    const bettingInfo = await getRoomBettingInfo(roomId);
-    if (bettingInfo && bettingInfo.betting_status === "locked") {
-      const bettingAmount = bettingInfo.betting_amount;
-      const totalPot = bettingAmount * 2; // Both players bet
-      const platformFee = totalPot * 0.1; // 10% platform fee
-      const winnerPayout = totalPot * 0.9; // 90% to winner
-
-      // Winner gets 90% of the pot
-      const winnerBalance = await getUserBalance(winnerId);
-      const newWinnerBalance = winnerBalance + winnerPayout;
-      await updateUserBalance(winnerId, newWinnerBalance);
-
-      // Record winner transaction
-      await query(
-        `INSERT INTO betting_transactions 
-         (id, room_id, match_id, user_id, transaction_type, amount, balance_before, balance_after)
-         VALUES (?, ?, ?, ?, 'bet_won', ?, ?, ?)`,
-        [
-          uuidv4(),
-          roomId,
-          matchId,
-          winnerId,
-          winnerPayout,
-          winnerBalance,
-          newWinnerBalance,
-        ],
-      );
-
-      // Loser loses their bet (already deducted when betting was locked)
-      const loserBalance = await getUserBalance(leavingUserId);
-      await query(
-        `INSERT INTO betting_transactions 
-         (id, room_id, match_id, user_id, transaction_type, amount, balance_before, balance_after)
-         VALUES (?, ?, ?, ?, 'bet_lost', ?, ?, ?)`,
-        [
-          uuidv4(),
-          roomId,
-          matchId,
-          leavingUserId,
-          -bettingAmount,
-          loserBalance + bettingAmount, // balance before bet was placed
-          loserBalance,
-        ],
-      );
-
-      // Platform fee (stored as a system transaction)
-      await query(
-        `INSERT INTO betting_transactions 
-         (id, room_id, match_id, user_id, transaction_type, amount, balance_before, balance_after)
-         VALUES (?, ?, ?, ?, 'platform_fee', ?, 0, ?)`,
-        [
-          uuidv4(),
-          roomId,
-          matchId,
-          winnerId, // Reference user for the transaction
-          platformFee,
-          platformFee,
-        ],
-      );
-
-      logger.info(
-        `Betting payout (player left): Winner ${winnerId} received ${winnerPayout} BRL, Platform fee: ${platformFee} BRL`,
-      );
-
-      // Emit balance updates to all players in the room
-      const updatedBalances: Array<{ userId: string; balance: number }> = [];
-      const winnerBalanceUpdate = await getUserBalance(winnerId);
-      updatedBalances.push({ userId: winnerId, balance: winnerBalanceUpdate });
-      
-      // Emit balance update event
+    if (settlement) {
+      // The player who left no longer receives room events
       io.to(roomId).emit("balance_updated", {
         roomId,
-        balances: updatedBalances,
+        balances: settlement.balances.filter((b) => b.userId === winnerId),
+        result: settlement.result,
+        stake: settlement.stake,
         winnerId,
-        winnerPayout,
+        winnerPayout: settlement.winnerPayout,
         isDraw: false,
       });
     }
@@ -258,15 +440,16 @@ const handlePlayerLeaveWinner = async (
     await updateRoomStatus(roomId, "finished");
 
     // Get game state for final emit
-    const game = getGame(roomId);
     const gameState = game ? getGameState(game) : null;
 
     // Emit game_over event
-    io.to(roomId).emit("game_over", {
+    io.to([roomId, getSpectatorChannel(roomId)]).emit("game_over", {
       winner: winnerId,
       isDraw: false,
       gameState: gameState,
       reason: "opponent_left",
+      matchId,
+      ratings,
     });
 
     logger.info(
@@ -282,564 +465,2127 @@ const handlePlayerLeaveWinner = async (
 };
 
 /**
- * Attempt to start the game if both players are present and have sufficient balance
+ * Outcome of a finished game
+ */
+interface GameOutcome {
+  winningTeam: string | null;
+  isDraw: boolean;
+  drawReason?: string | null;
+  reason?: string; // Why the game ended when it was not decided on the board (e.g. "timeout")
+  resultUserId: string; // Player from whose point of view the match result is recorded
+}
+
+/**
+ * Finish a game: record the match, pay out or refund the locked bets and
+ * notify the room. Used for games decided on the board, flag-falls,
+ * resignations and agreed draws.
  * @param io Socket.IO server instance
- * @param roomId Room ID to check
- * @returns true if game was started, false otherwise
+ * @param roomId Room ID
+ * @param gameType Game type
+ * @param players Players in the room, in team order
+ * @param outcome How the game ended
  */
-const attemptGameStart = async (io: Server, roomId: string): Promise<boolean> => {
-  try {
-    // Get room status
-    const roomInfo = (await query(
-      "SELECT game_type, status FROM rooms WHERE id = ?",
-      [roomId],
-    )) as Array<{ game_type: string; status: string }>;
-    
-    if (roomInfo.length === 0 || roomInfo[0].status !== "waiting") {
-      return false; // Room doesn't exist or is not waiting
-    }
-    
-    const gameType = roomInfo[0].game_type;
-    const players = await getRoomPlayers(roomId);
-    
-    if (players.length !== 2) {
-      return false; // Not enough players
-    }
-    
-    const bettingInfo = await getRoomBettingInfo(roomId);
-    const bettingAmount = bettingInfo?.betting_amount || 0.25;
-    
-    // Games are now free to play - no balance check required
-    
-    // All conditions met - start the game
-    const game = getGame(roomId);
-    if (!game) {
-      const newGame = initializeGame(gameType as GameType);
-      setGame(roomId, newGame);
-    }
-    const gameState = getGameState(getGame(roomId)!);
-    
-    await updateRoomStatus(roomId, "playing");
-    
-    setTimeout(() => {
-      io.to(roomId).emit("game_start", {
-        roomId,
-        gameType,
-        players,
-        gameState,
-        canMove: true,
-        bettingAmount,
-        bettingStatus: bettingInfo?.betting_status || "unlocked",
-      });
-    }, 100);
-    
-    logger.info({ roomId, players: players.map(p => p.id) }, "Game started automatically after balance check");
-    return true;
-  } catch (error) {
-    logger.error(error, "Error in attemptGameStart");
-    return false;
+const finishGame = async (
+  io: Server,
+  roomId: string,
+  gameType: GameType,
+  players: Array<{ id: string; username: string }>,
+  outcome: GameOutcome,
+): Promise<void> => {
+  await stopClock(roomId);
+  await drawOffers.delete(roomId);
+  await updateRoomStatus(roomId, "finished");
+
+  const game = await getGame(roomId);
+  const { isDraw } = outcome;
+  const winnerId = outcome.winningTeam
+    ? players.find(
+        (_p, idx) => getPlayerTeam(gameType, idx) === outcome.winningTeam,
+      )?.id || null
+    : null;
+
+  // Record the match and pay out or refund the locked bets
+  const { matchId, ratings, settlement } = await recordMatch(
+    roomId,
+    gameType,
+    players,
+    winnerId,
+    isDraw
+      ? "draw"
+      : winnerId === outcome.resultUserId
+        ? "win"
+        : "loss",
+    game?.getMoveHistory() ?? [],
+  );
+
+  if (settlement) {
+    io.to(roomId).emit("balance_updated", {
+      roomId,
+      balances: settlement.balances,
+      result: settlement.result,
+      stake: settlement.stake,
+      winnerId: settlement.winnerId,
+      winnerPayout: settlement.winnerPayout,
+      refundAmount: settlement.refundAmount,
+      drawFee: settlement.drawFee,
+      isDraw: settlement.result === "draw",
+    });
   }
-};
 
-export const setupSocketHandlers = (io: Server): void => {
-  io.on("connection", (socket: Socket) => {
-    logger.info({ socketId: socket.id }, "User connected");
-    totalRequestsCounter.inc();
-    activeWSConnectionsGauge.inc();
+  io.to([roomId, getSpectatorChannel(roomId)]).emit("game_over", {
+    winner: outcome.winningTeam,
+    isDraw,
+    drawReason: outcome.drawReason || null,
+    reason: outcome.reason,
+    gameState: game ? getGameState(game) : null,
+    clock: await getClockState(roomId),
+    matchId,
+    ratings,
+  });
+  await broadcastPresence(io, players.map((p) => p.id));
+};
 
-    // Handle user connection (after username login or token auth)
-    socket.on("user_connect", async (data: { userId?: string; token?: string }) => {
-      try {
-        logger.info({ data }, "user_connect received");
-        let userId: string | undefined = data.userId;
-        
-        // If token is provided, verify it and extract userId
-        if (data.token && !userId) {
-          const { verifyToken } = await import("../utils/jwt.js");
-          const payload = verifyToken(data.token);
-          if (payload) {
-            userId = payload.userId;
-          } else {
-            socket.emit("error", { message: "Invalid or expired token" });
-            return;
-          }
-        }
+/**
+ * End the game when a player's clock runs out. The opponent wins through the
+ * same settlement path as a game decided on the board.
+ * @param io Socket.IO server instance
+ * @param roomId Room ID
+ */
+const handleFlagFall = async (io: Server, roomId: string): Promise<void> => {
+  try {
+    // Moves take the same lock, so the clock can't be switched while this runs
+    await withRoomLock(roomId, async () => {
+      const roomInfo = (await query(
+        "SELECT status, game_type FROM rooms WHERE id = ?",
+        [roomId],
+      )) as Array<{ status: string; game_type: string }>;
+
+      if (roomInfo.length === 0 || roomInfo[0].status !== "playing") {
+        return;
+      }
 
-        if (!userId) {
-          socket.emit("error", { message: "Missing userId or token" });
-          return;
-        }
+      const flaggedTeam = await claimFlagFall(roomId);
+      if (!flaggedTeam) {
+        return;
+      }
 
-        // Check if user exists and is not banned
-        const user = (await query(
-          "SELECT id, username, COALESCE(display_username, username) as display_username, is_banned, username_set, user_type FROM users WHERE id = ?",
-          [userId],
-        )) as Array<{
-          id: string;
-          username: string;
-          display_username: string;
-          is_banned: boolean;
-          username_set: boolean;
-          user_type: string;
-        }>;
+      const gameType = roomInfo[0].game_type;
+      const players = await getRoomPlayers(roomId);
+      const flaggedIndex = getGameTeams(gameType).indexOf(flaggedTeam);
+      const flaggedPlayer = players[flaggedIndex];
+      if (players.length !== 2 || !flaggedPlayer) {
+        return;
+      }
 
-        if (user.length === 0) {
-          socket.emit("error", { message: "User not found" });
-          return;
-        }
+      const winningTeam = getPlayerTeam(gameType, flaggedIndex === 0 ? 1 : 0);
 
-        // Check and auto-ban if user has 5+ reports
-        const isBanned = await checkAndAutoBanUser(userId);
-        if (isBanned) {
-          socket.emit("error", {
-            message: "Your account has been banned",
-            banned: true,
-          });
-          return;
-        }
+      logger.info({ roomId, flaggedTeam }, "Player ran out of time");
 
-        if (!user[0].username_set) {
-          socket.emit("error", {
-            message: "Please set your username first",
-            needsUsername: true,
-          });
-          return;
-        }
+      await finishGame(io, roomId, gameType, players, {
+        winningTeam,
+        isDraw: false,
+        reason: "timeout",
+        resultUserId: flaggedPlayer.id,
+      });
+    });
+  } catch (error) {
+    logger.error(error, "Error in handleFlagFall");
+  }
+};
 
-        // Prevent admins from connecting to game rooms
-        if (user[0].user_type === "admin") {
-          socket.emit("error", {
-            message: "Admins cannot join game rooms. Please use the admin panel.",
-            adminBlocked: true,
-          });
-          return;
-        }
+/**
+ * Find a user's seat in the running game of a room. Call while holding the
+ * room's lock so the game can't end in between.
+ * @param roomId Room ID
+ * @param userId User ID
+ * @returns The room, its players in team order and the user's seat, or null
+ * if the user is not playing a game in the room right now
+ */
+const getPlayingSeat = async (
+  roomId: string,
+  userId: string,
+): Promise<{
+  roomId: string;
+  gameType: GameType;
+  players: Array<{ id: string; username: string }>;
+  playerIndex: number;
+} | null> => {
+  if (!(await hasGame(roomId))) {
+    return null;
+  }
 
-        // Check if user already has an active session (single login enforcement)
-        const existingSocketId = userSessions.get(userId);
-        if (existingSocketId && existingSocketId !== socket.id) {
-          logger.info({ userId, oldSocketId: existingSocketId, newSocketId: socket.id }, "User already has active session, disconnecting old session");
-          
-          // Get the old socket and disconnect it
-          const oldSocket = io.sockets.sockets.get(existingSocketId);
-          if (oldSocket) {
-            // Notify old client about new login
-            oldSocket.emit("session_terminated", {
-              message: "You have been logged in from another device. This session has been terminated.",
-              reason: "new_login",
-            });
-            
-            // Clean up old session
-            // Note: leaveAll() is private, so we disconnect which automatically leaves all rooms
-            userRooms.delete(userId);
-            socketToUser.delete(existingSocketId);
-            
-            // Disconnect old socket
-            oldSocket.disconnect(true);
-          }
-          
-          // Clean up if socket doesn't exist anymore
-          userSessions.delete(userId);
-        }
+  const roomInfo = (await query(
+    "SELECT status, game_type FROM rooms WHERE id = ?",
+    [roomId],
+  )) as Array<{ status: string; game_type: string }>;
+  if (roomInfo.length === 0 || roomInfo[0].status !== "playing") {
+    return null;
+  }
 
-        // Register new session
-        userSessions.set(userId, socket.id);
-        socketToUser.set(socket.id, userId);
+  const players = await getRoomPlayers(roomId);
+  const playerIndex = players.findIndex((p) => p.id === userId);
+  if (players.length !== 2 || playerIndex === -1) {
+    return null;
+  }
 
-        // Update session in database
-        await query("UPDATE users SET session_id = ? WHERE id = ?", [
-          socket.id,
-          userId,
-        ]);
+  return { roomId, gameType: roomInfo[0].game_type, players, playerIndex };
+};
 
-        (socket as Socket & { userId: string }).userId = userId;
-        socket.emit("connected", {
-          userId,
-          username: user[0].display_username, // Use display_username (second step username) for rooms
-        });
-      } catch (error) {
-        logger.error(error, "Error in user_connect");
-        socket.emit("error", { message: "Failed to connect user" });
-      }
+/**
+ * Call off a game, either before any move was made or because every player
+ * dropped out of it. Nobody wins, no match is recorded and both locked stakes
+ * go back to the players.
+ * @param io Socket.IO server instance
+ * @param roomId Room ID
+ * @param players Players in the room
+ * @param abortedBy User ID of the player who aborted
+ */
+const abortGame = async (
+  io: Server,
+  roomId: string,
+  players: Array<{ id: string; username: string }>,
+  abortedBy: string,
+): Promise<void> => {
+  await stopClock(roomId);
+  await drawOffers.delete(roomId);
+  await updateRoomStatus(roomId, "finished");
+
+  const settlement = await refundStakes(roomId);
+  if (settlement) {
+    io.to(roomId).emit("balance_updated", {
+      roomId,
+      balances: settlement.balances,
+      result: settlement.result,
+      stake: settlement.stake,
+      winnerId: null,
+      refundAmount: settlement.refundAmount,
+      isDraw: false,
+      isAborted: true,
     });
+  }
+
+  const game = await getGame(roomId);
+  io.to([roomId, getSpectatorChannel(roomId)]).emit("game_over", {
+    winner: null,
+    isDraw: false,
+    drawReason: null,
+    reason: "aborted",
+    abortedBy,
+    gameState: game ? getGameState(game) : null,
+    clock: await getClockState(roomId),
+    matchId: null,
+  });
+};
+
+/**
+ * Save a room's game and clock so the game survives a server restart. A failed
+ * save is logged rather than failing the move that triggered it.
+ * @param roomId Room ID
+ * @param gameType Game type
+ */
+const snapshotGame = async (roomId: string, gameType: GameType): Promise<void> => {
+  try {
+    const game = await getGame(roomId);
+    if (game) {
+      await saveGameSnapshot(roomId, gameType, game, await getClockState(roomId));
+    }
+  } catch (error) {
+    logger.error(error, "Error saving game snapshot");
+  }
+};
+
+/**
+ * Start the clocks for a game that has just begun, using the room's time
+ * control, and snapshot the starting position
+ * @param roomId Room ID
+ * @param gameType Game type
+ * @returns Initial clock state, or null when the room is untimed
+ */
+const startGameClock = async (
+  roomId: string,
+  gameType: GameType,
+): Promise<ClockState | null> => {
+  const timeControl = await getRoomTimeControl(roomId);
+  if (!timeControl) {
+    return null;
+  }
+
+  const clock = await startClock(
+    roomId,
+    timeControl.time_control,
+    timeControl.time_increment,
+    getGameTeams(gameType),
+  );
+  await snapshotGame(roomId, gameType);
+  return clock;
+};
+
+/**
+ * Remove a player from their room for good and update the room for whoever
+ * is left: delete an empty room, award a running game to the remaining player,
+ * or put the room back into waiting. Call while holding the room's lock.
+ * @param io Socket.IO server instance
+ * @param roomId Room ID
+ * @param userId User ID of the player leaving
+ */
+const handlePlayerExit = async (
+  io: Server,
+  roomId: string,
+  userId: string,
+): Promise<void> => {
+  await drawOffers.delete(roomId);
+
+  // Seating order decides teams, so capture it before the player is removed
+  const seatedPlayers = await getRoomPlayers(roomId);
+  await removePlayerFromRoom(roomId, userId);
+  if (await userRooms.get(userId) === roomId) {
+    await userRooms.delete(userId);
+  }
+
+  const players = await getRoomPlayers(roomId);
+  if (players.length === 0) {
+    await removeGame(roomId);
+    await stopClock(roomId);
+    await rematchRequests.delete(roomId);
+    await query("DELETE FROM rooms WHERE id = ?", [roomId]);
+    notifyLobby(io);
+    return;
+  }
+
+  // Get room info and update status
+  const room = (await query("SELECT status, game_type FROM rooms WHERE id = ?", [
+    roomId,
+  ])) as Array<{ status: string; game_type: string }>;
+
+  if (room.length === 0) {
+    return;
+  }
+
+  const wasPlaying = room[0].status === "playing";
+
+  // If game was playing and there's 1 remaining player, make them the winner
+  if (wasPlaying && players.length === 1) {
+    const winnerProcessed = await handlePlayerLeaveWinner(
+      io,
+      roomId,
+      userId,
+      players,
+      seatedPlayers,
+      room[0].game_type,
+    );
+
+    // If winner was processed, don't continue with normal leave flow
+    if (winnerProcessed) {
+      await broadcastPresence(io, seatedPlayers.map((p) => p.id));
+      return;
+    }
+  }
+
+  // Update room status to waiting if it was playing (and winner wasn't processed)
+  if (wasPlaying) {
+    await updateRoomStatus(roomId, "waiting");
+    await stopClock(roomId);
+    await broadcastPresence(io, seatedPlayers.map((p) => p.id));
+  }
+
+  // Get or initialize game state for remaining player
+  let game = await getGame(roomId);
+  if (!game) {
+    game = initializeGame(room[0].game_type as GameType);
+    await setGame(roomId, room[0].game_type as GameType, game);
+  }
+  const gameState = getGameState(game);
+
+  // Notify remaining player(s) with updated state
+  io.to(roomId).emit("player_left", {
+    userId,
+    roomId,
+    players,
+  });
+
+  // Send waiting_for_player event with full state so remaining player can continue
+  io.to(roomId).emit("waiting_for_player", {
+    roomId,
+    players,
+    gameState,
+    canMove: false, // Disable moves until new player joins
+  });
+  notifyLobby(io);
+};
+
+/**
+ * Take a player out of the room they are seated in before they join another.
+ * Leaving goes through the same exit as leave_room, under the room's lock, so
+ * a running game is forfeited and its stakes are settled.
+ * @param io Socket.IO server instance
+ * @param socket Player's socket
+ * @param userId User ID of the player
+ */
+const leaveCurrentRoom = async (io: Server, socket: Socket, userId: string): Promise<void> => {
+  const existingRoom = await getUserRoom(userId);
+  if (!existingRoom) {
+    return;
+  }
+
+  await cancelReconnectGrace(userId);
+  socket.leave(existingRoom.id);
+  await withRoomLock(existingRoom.id, () => handlePlayerExit(io, existingRoom.id, userId));
+};
+
+/**
+ * Cancel a pending reconnect grace period, whichever instance started it
+ * @param userId User ID
+ * @returns Room ID the player's seat was held in, or null if there was no grace period
+ */
+const cancelReconnectGrace = async (userId: string): Promise<string | null> => {
+  const timer = reconnectGraceTimers.get(userId);
+  if (timer) {
+    clearTimeout(timer);
+    reconnectGraceTimers.delete(userId);
+  }
+
+  const roomId = await heldSeats.get(userId);
+  if (!roomId) {
+    return null;
+  }
+
+  await heldSeats.delete(userId);
+  return roomId;
+};
+
+/**
+ * Keep a disconnected player's seat in a running game for a grace period.
+ * The opponent is told the player is reconnecting; if they do not come back
+ * before the timer fires, they leave the room and forfeit as usual. A player
+ * only forfeits to an opponent who is there to win: when nobody came back
+ * (both dropped out, or nobody reconnected after a restart) the game is
+ * aborted and the stakes are refunded instead.
+ * @param io Socket.IO server instance
+ * @param roomId Room ID
+ * @param userId User ID of the disconnected player
+ * @param graceSeconds Length of the grace period in seconds
+ */
+const startReconnectGrace = async (
+  io: Server,
+  roomId: string,
+  userId: string,
+  graceSeconds: number,
+): Promise<void> => {
+  await cancelReconnectGrace(userId);
+  await heldSeats.set(userId, roomId);
+
+  const timer = setTimeout(async () => {
+    reconnectGraceTimers.delete(userId);
+    try {
+      await withRoomLock(roomId, async () => {
+        // The player may have reconnected to another instance
+        if ((await heldSeats.get(userId)) !== roomId) {
+          return;
+        }
+        await heldSeats.delete(userId);
+
+        logger.info({ roomId, userId }, "Reconnect grace period expired");
+
+        const room = (await query("SELECT status FROM rooms WHERE id = ?", [roomId])) as Array<{
+          status: string;
+        }>;
+        const players = await getRoomPlayers(roomId);
+        const opponents = players.filter((p) => p.id !== userId);
+        if (room[0]?.status === "playing" && opponents.length > 0) {
+          const heldOpponentSeats = await Promise.all(opponents.map((p) => heldSeats.get(p.id)));
+          if (heldOpponentSeats.every((heldRoomId) => heldRoomId === roomId)) {
+            logger.info({ roomId }, "No player came back, aborting game");
+            await abortGame(io, roomId, players, userId);
+          }
+        }
+
+        await handlePlayerExit(io, roomId, userId);
+      });
+    } catch (error) {
+      logger.error(error, "Error handling expired reconnect grace period");
+    }
+  }, graceSeconds * 1000);
+
+  reconnectGraceTimers.set(userId, timer);
+
+  io.to(roomId).emit("player_disconnected", {
+    userId,
+    roomId,
+    graceSeconds,
+  });
+
+  logger.info({ roomId, userId, graceSeconds }, "Player disconnected, holding seat");
+};
+
+/**
+ * Attempt to start the game if both players are present and have sufficient
+ * balance. Takes the room's lock, so two players joining at once can't both
+ * start the game.
+ * @param io Socket.IO server instance
+ * @param roomId Room ID to check
+ * @returns true if game was started, false otherwise
+ */
+const attemptGameStart = async (io: Server, roomId: string): Promise<boolean> => {
+  try {
+    return await withRoomLock(roomId, async () => {
+      // Get room status
+      const roomInfo = (await query(
+        "SELECT game_type, status FROM rooms WHERE id = ?",
+        [roomId],
+      )) as Array<{ game_type: string; status: string }>;
+
+      if (roomInfo.length === 0 || roomInfo[0].status !== "waiting") {
+        return false; // Room doesn't exist or is not waiting
+      }
+
+      const gameType = roomInfo[0].game_type;
+      const players = await getRoomPlayers(roomId);
+
+      if (players.length !== 2) {
+        return false; // Not enough players
+      }
+
+      // Players paired by stake range play for the stake they agreed on
+      const queuedStake = await getQueuedStake(roomId);
+      if (queuedStake !== null) {
+        const lockResult = await lockStakes(roomId, queuedStake, players);
+        if (lockResult.locked) {
+          io.to(roomId).emit("betting_locked", {
+            amount: queuedStake,
+            roomId,
+          });
+        } else if (lockResult.reason === "insufficient_balance" && lockResult.userId) {
+          // Both players queued for a staked game, so it doesn't start without
+          // the stake: the player who can't cover it is sent out of the room
+          // and the other waits for a new opponent
+          const poorPlayerId = lockResult.userId;
+          await notifyUser(io, poorPlayerId, "removed_from_room", {
+            roomId,
+            message: "You no longer have enough balance for this game's stake",
+            translationKey: "betting.stakeNotCovered",
+          });
+          const socketId = await userSessions.get(poorPlayerId);
+          if (socketId) {
+            io.in(socketId).socketsLeave(roomId);
+          }
+          await handlePlayerExit(io, roomId, poorPlayerId);
+
+          io.to(roomId).emit("error", {
+            message: `${lockResult.username} has insufficient balance`,
+            translationKey: "betting.playerInsufficientBalance",
+            translationData: {
+              username: lockResult.username,
+            },
+          });
+          logger.info({ roomId, userId: poorPlayerId }, "Player could not cover the queued stake");
+          return false;
+        }
+      }
+
+      const bettingInfo = await getRoomBettingInfo(roomId);
+      const bettingAmount = bettingInfo?.betting_amount ?? 0;
+
+      // Games are now free to play - no balance check required
+
+      // All conditions met - start the game
+      let game = await getGame(roomId);
+      if (!game) {
+        game = initializeGame(gameType as GameType);
+        await setGame(roomId, gameType, game);
+      }
+      const gameState = getGameState(game);
+
+      await updateRoomStatus(roomId, "playing");
+      const clock = await startGameClock(roomId, gameType as GameType);
+
+      setTimeout(() => {
+        io.to(roomId).emit("game_start", {
+          roomId,
+          gameType,
+          players,
+          gameState,
+          canMove: true,
+          bettingAmount,
+          bettingStatus: bettingInfo?.betting_status || "unlocked",
+          clock,
+        });
+      }, 100);
+
+      logger.info({ roomId, players: players.map(p => p.id) }, "Game started automatically after balance check");
+      await broadcastPresence(io, players.map((p) => p.id));
+      return true;
+    });
+  } catch (error) {
+    logger.error(error, "Error in attemptGameStart");
+    return false;
+  }
+};
+
+/**
+ * Take the free seat of a room under the room's lock. Call while holding the
+ * matchmaking lock the room was found under.
+ * @param roomId Room ID
+ * @param userId User ID of the player
+ * @param stakeRange Stakes the player queued for, or null for unstaked play
+ * @returns Whether the player is seated in the room
+ */
+const claimSeat = (
+  roomId: string,
+  userId: string,
+  stakeRange: StakeRange | null,
+): Promise<boolean> => {
+  return withRoomLock(roomId, async () => {
+    const players = await getRoomPlayers(roomId);
+    if (players.some((p) => p.id === userId)) {
+      return true;
+    }
+    // A room nobody is in is being deleted
+    if (players.length === 0 || players.length >= 2) {
+      return false;
+    }
+    await addPlayerToRoom(roomId, userId, false, stakeRange);
+    return true;
+  });
+};
+
+/**
+ * Seat a player in a room with a free seat, or in a new room when there is
+ * none. Rooms are looked up under a matchmaking lock and the seat is taken
+ * under the room's lock, so two players can't take the last seat at once.
+ * @param lockName Matchmaking lock shared by everyone looking for the same kind of room
+ * @param userId User ID of the player
+ * @param findRoom Look up a room with a free seat
+ * @param createNewRoom Create a room for the player to host
+ * @param stakeRange Stakes the player queued for, or null for unstaked play
+ * @returns Room ID the player is seated in
+ */
+const takeSeat = (
+  lockName: string,
+  userId: string,
+  findRoom: () => Promise<string | null>,
+  createNewRoom: () => Promise<string>,
+  stakeRange: StakeRange | null = null,
+): Promise<string> => {
+  return withLock(lockName, async () => {
+    const foundRoomId = await findRoom();
+    if (foundRoomId && (await claimSeat(foundRoomId, userId, stakeRange))) {
+      return foundRoomId;
+    }
+
+    const roomId = await createNewRoom();
+    await addPlayerToRoom(roomId, userId, true, stakeRange);
+    return roomId;
+  });
+};
+
+/**
+ * Seat a player as the host of a new private room and send them its invite.
+ * Problems with the request are reported to the player.
+ * @param io Socket.IO server instance
+ * @param socket Host's socket
+ * @param userId User ID of the host
+ * @param options Game type, and the password, stake and clock the guest plays with
+ * @returns The room, or null if it could not be created
+ */
+const hostPrivateRoom = async (
+  io: Server,
+  socket: Socket,
+  userId: string,
+  options: {
+    gameType: string;
+    password?: string;
+    stake?: number;
+    timeControl?: string;
+    timeIncrement?: number;
+  },
+): Promise<PrivateRoom | null> => {
+  const { gameType } = options;
+  if (!isGameType(gameType)) {
+    socket.emit("error", { message: "Invalid game type" });
+    return null;
+  }
+
+  const password = typeof options.password === "string" && options.password !== "" ? options.password : null;
+  if (password !== null && password.length > 64) {
+    socket.emit("error", {
+      message: "Room password cannot be longer than 64 characters",
+      translationKey: "invite.passwordTooLong",
+    });
+    return null;
+  }
+
+  // Whoever joins through the invite plays for the host's stake
+  const stake = readStakeRange({ stakeMin: options.stake }, await getBettingSettings(gameType));
+  if ("error" in stake) {
+    socket.emit("error", stake.error);
+    return null;
+  }
+  const stakeRange = stake.range;
+  if (stakeRange && (await getUserBalance(userId)) < stakeRange.min) {
+    socket.emit("error", {
+      message: "Insufficient balance",
+      translationKey: "betting.insufficientBalance",
+    });
+    return null;
+  }
+
+  // Leave whichever room the player is still in
+  await leaveCurrentRoom(io, socket, userId);
+
+  const timeControl = isTimeControl(options.timeControl) ? options.timeControl : "none";
+  const timeIncrement = timeControl === "none" ? 0 : normalizeIncrement(options.timeIncrement);
+  const roomId = await createPrivateRoom(gameType, password, timeControl, timeIncrement);
+  await addPlayerToRoom(roomId, userId, true, stakeRange);
+
+  socket.join(roomId);
+  await userRooms.set(userId, roomId);
+
+  const players = await getRoomPlayers(roomId);
+
+  // Initialize game immediately (even with 1 player) so board is visible
+  const game = initializeGame(gameType);
+  await setGame(roomId, gameType, game);
+  const bettingInfo = await getRoomBettingInfo(roomId);
+
+  socket.emit("game_start", {
+    roomId,
+    gameType,
+    players,
+    gameState: getGameState(game),
+    canMove: false, // Disable moves until 2 players join
+    bettingAmount: bettingInfo?.betting_amount ?? 0,
+    bettingStatus: bettingInfo?.betting_status || "unlocked",
+  });
+  socket.emit("waiting_for_player", { roomId, players });
+
+  const room = await getPrivateRoom(roomId);
+  if (room) {
+    emitRoomInvite(socket, room);
+  }
+  return room;
+};
+
+/**
+ * Bring back the games that were running when the server stopped, from their
+ * snapshots. Seated players get the usual reconnect grace period to come back
+ * and resync through request_game_state before they forfeit. Run on startup,
+ * before any stale escrows are swept.
+ * @param io Socket.IO server instance
+ * @returns Number of games restored
+ */
+export const restoreGames = async (io: Server): Promise<number> => {
+  const snapshots = await loadGameSnapshots();
+  let restored = 0;
+
+  for (const snapshot of snapshots) {
+    const { roomId, gameType } = snapshot;
+    // Another instance is still running the game
+    if (await hasGame(roomId)) {
+      continue;
+    }
+
+    try {
+      await setGame(roomId, gameType, restoreGame(gameType, snapshot.gameData));
+    } catch (error) {
+      logger.error(error, `Error restoring game snapshot for room ${roomId}`);
+      continue;
+    }
+    restored++;
+
+    if (snapshot.rematchRequests.length > 0) {
+      await rematchRequests.set(roomId, snapshot.rematchRequests);
+    }
+
+    const players = await getRoomPlayers(roomId);
+    for (const player of players) {
+      await userRooms.set(player.id, roomId);
+    }
+
+    if (snapshot.roomStatus !== "playing") {
+      continue;
+    }
+
+    if (snapshot.clock) {
+      await resumeClock(roomId, snapshot.clock);
+    }
+    // Nobody is connected after a restart
+    for (const player of players) {
+      await startReconnectGrace(io, roomId, player.id, config.game.reconnectGraceSeconds);
+    }
+  }
+
+  if (restored > 0) {
+    logger.info({ count: restored }, "Restored games from snapshots");
+  }
+  return restored;
+};
+
+export const setupSocketHandlers = (io: Server): void => {
+  onFlagFall((roomId) => {
+    handleFlagFall(io, roomId);
+  });
+
+  io.on("connection", (socket: Socket) => {
+    logger.info({ socketId: socket.id }, "User connected");
+    totalRequestsCounter.inc();
+    activeWSConnectionsGauge.inc();
+
+    // Handle user connection (after username login or token auth)
+    socket.on("user_connect", async (data: { userId?: string; token?: string }) => {
+      try {
+        logger.info({ data }, "user_connect received");
+        let userId: string | undefined = data.userId;
+        
+        // If token is provided, verify it and extract userId
+        if (data.token && !userId) {
+          const { verifyToken } = await import("../utils/jwt.js");
+          const payload = verifyToken(data.token);
+          if (payload) {
+            userId = payload.userId;
+          } else {
+            socket.emit("error", { message: "Invalid or expired token" });
+            return;
+          }
+        }
+
+        if (!userId) {
+          socket.emit("error", { message: "Missing userId or token" });
+          return;
+        }
+
+        // Check if user exists and is not banned
+        const user = (await query(
+          "SELECT id, username, COALESCE(display_username, username) as display_username, is_banned, username_set, user_type FROM users WHERE id = ?",
+          [userId],
+        )) as Array<{
+          id: string;
+          username: string;
+          display_username: string;
+          is_banned: boolean;
+          username_set: boolean;
+          user_type: string;
+        }>;
+
+        if (user.length === 0) {
+          socket.emit("error", { message: "User not found" });
+          return;
+        }
+
+        // Check and auto-ban if user has 5+ reports
+        const isBanned = await checkAndAutoBanUser(userId);
+        if (isBanned) {
+          socket.emit("error", {
+            message: "Your account has been banned",
+            banned: true,
+          });
+          return;
+        }
+
+        if (!user[0].username_set) {
+          socket.emit("error", {
+            message: "Please set your username first",
+            needsUsername: true,
+          });
+          return;
+        }
+
+        // Prevent admins from connecting to game rooms
+        if (user[0].user_type === "admin") {
+          socket.emit("error", {
+            message: "Admins cannot join game rooms. Please use the admin panel.",
+            adminBlocked: true,
+          });
+          return;
+        }
+
+        // Check if user already has an active session (single login enforcement)
+        const existingSocketId = await userSessions.get(userId);
+        if (existingSocketId && existingSocketId !== socket.id) {
+          logger.info({ userId, oldSocketId: existingSocketId, newSocketId: socket.id }, "User already has active session, disconnecting old session");
+          
+          // The old socket may be connected to another instance, so reach it
+          // through its own Socket.IO room. Nothing happens if it is gone.
+          // Notify old client about new login
+          io.to(existingSocketId).emit("session_terminated", {
+            message: "You have been logged in from another device. This session has been terminated.",
+            reason: "new_login",
+          });
+
+          // Clean up old session
+          await userRooms.delete(userId);
+          await socketToUser.delete(existingSocketId);
+          await userSessions.delete(userId);
+
+          // Disconnecting leaves all rooms
+          io.in(existingSocketId).disconnectSockets(true);
+        }
+
+        // Register new session
+        await userSessions.set(userId, socket.id);
+        await socketToUser.set(socket.id, userId);
+
+        // Update session in database
+        await query("UPDATE users SET session_id = ? WHERE id = ?", [
+          socket.id,
+          userId,
+        ]);
+
+        (socket as Socket & { userId: string }).userId = userId;
+        socket.emit("connected", {
+          userId,
+          username: user[0].display_username, // Use display_username (second step username) for rooms
+        });
+
+        // Put a returning player back into their running game. The seat is
+        // either held by a reconnect grace period or still taken after a
+        // login from another device.
+        const heldRoomId = await cancelReconnectGrace(userId);
+        const seatedRoom = await getUserRoom(userId);
+        if (
+          seatedRoom &&
+          seatedRoom.status === "playing" &&
+          (await hasGame(seatedRoom.id)) &&
+          !socket.rooms.has(seatedRoom.id)
+        ) {
+          socket.join(seatedRoom.id);
+          await userRooms.set(userId, seatedRoom.id);
+
+          if (heldRoomId === seatedRoom.id) {
+            socket.to(seatedRoom.id).emit("player_reconnected", {
+              userId,
+              roomId: seatedRoom.id,
+            });
+          }
+
+          // The client navigates back to the room and resyncs via request_game_state
+          socket.emit("room_rejoined", {
+            roomId: seatedRoom.id,
+            gameType: seatedRoom.game_type,
+          });
+
+          logger.info({ userId, roomId: seatedRoom.id }, "Player rejoined running game");
+        } else if (heldRoomId) {
+          // The game ended while the player was away, so release the held seat
+          await withRoomLock(heldRoomId, () => handlePlayerExit(io, heldRoomId, userId));
+        }
+
+        await broadcastPresence(io, [userId]);
+      } catch (error) {
+        logger.error(error, "Error in user_connect");
+        socket.emit("error", { message: "Failed to connect user" });
+      }
+    });
+
+    // Note: checkAndAutoBanUser is imported from banManager.ts
+
+    // Handle joining random room
+    socket.on("join_random", async (data: { gameType: string; stakeMin?: number; stakeMax?: number }) => {
+      try {
+        const socketWithUserId = socket as Socket & { userId?: string };
+        if (!socketWithUserId.userId) {
+          socket.emit("error", {
+            message: "User not connected. Please authenticate first.",
+          });
+          return;
+        }
+
+        // Taking a seat ends spectating
+        await stopSpectating(io, socket);
+
+        // Check if user is admin - prevent admins from joining game rooms
+        // Cache this result to avoid multiple database queries
+        const isAdmin = await isUserAdmin(socketWithUserId.userId);
+        if (isAdmin) {
+          socket.emit("error", {
+            message: "Admins cannot join game rooms. Please use the admin panel.",
+            adminBlocked: true,
+          });
+          return;
+        }
+
+        // Check and auto-ban if user has 5+ reports
+        const isBanned = await checkAndAutoBanUser(socketWithUserId.userId);
+        if (isBanned) {
+          socket.emit("error", {
+            message: "Your account has been banned",
+            banned: true,
+          });
+          return;
+        }
+
+        const { gameType } = data;
+        if (!isGameType(gameType)) {
+          socket.emit("error", { message: "Invalid game type" });
+          return;
+        }
+
+        // Only players whose stake ranges overlap are paired
+        const stake = readStakeRange(data, await getBettingSettings(gameType));
+        if ("error" in stake) {
+          socket.emit("error", stake.error);
+          return;
+        }
+        const stakeRange = stake.range;
+        if (stakeRange && (await getUserBalance(socketWithUserId.userId)) < stakeRange.min) {
+          socket.emit("error", {
+            message: "Insufficient balance",
+            translationKey: "betting.insufficientBalance",
+          });
+          return;
+        }
+
+        // Check if user is already in a room
+        const existingRoom = await getUserRoom(socketWithUserId.userId);
+        if (existingRoom) {
+          const stillInRoom = await checkPlayerInRoom(
+            existingRoom.id,
+            socketWithUserId.userId,
+          );
+
+          if (
+            stillInRoom &&
+            existingRoom.game_type === gameType &&
+            existingRoom.status === "waiting" &&
+            existingRoom.player_count < 2
+          ) {
+            // Admin already checked above, no need to check again
+            
+            // User is still in a valid waiting room - rejoin socket room
+            socket.join(existingRoom.id);
+            await userRooms.set(socketWithUserId.userId, existingRoom.id);
+
+            // Load and send chat history
+            const chatHistory = (await query(
+              "SELECT cm.id, cm.user_id, cm.message, cm.created_at, COALESCE(u.display_username, u.username) as username FROM chat_messages cm JOIN users u ON cm.user_id = u.id WHERE cm.room_id = ? ORDER BY cm.created_at ASC",
+              [existingRoom.id],
+            )) as Array<{
+              id: string;
+              user_id: string;
+              message: string;
+              created_at: Date;
+              username: string;
+            }>;
+
+            if (chatHistory.length > 0) {
+              socket.emit("chat_history", {
+                messages: chatHistory.map((msg) => ({
+                  id: msg.id,
+                  userId: msg.user_id,
+                  username: msg.username,
+                  message: msg.message,
+                  timestamp: msg.created_at,
+                })),
+              });
+            }
+
+            const players = await getRoomPlayers(existingRoom.id);
+
+            // Initialize game immediately (even with 1 player) so board is visible
+            let game = await getGame(existingRoom.id);
+            if (!game) {
+              game = initializeGame(gameType as GameType);
+              await setGame(existingRoom.id, gameType as GameType, game);
+            }
+            const gameState = getGameState(game);
+
+            const bettingInfo = await getRoomBettingInfo(existingRoom.id);
+
+            if (players.length === 2) {
+              // Games are now free to play - no balance check required
+              await attemptGameStart(io, existingRoom.id);
+            } else {
+              // Send game state even with 1 player so board is visible
+              logger.info(`Sending game_start to single player in existing room ${existingRoom.id}, players: ${players.length}`);
+              socket.emit("game_start", {
+                roomId: existingRoom.id,
+                gameType,
+                players,
+                gameState,
+                canMove: false, // Disable moves until 2 players join
+                bettingAmount: bettingInfo?.betting_amount ?? 0,
+                bettingStatus: bettingInfo?.betting_status || "unlocked",
+              });
+              socket.emit("waiting_for_player", {
+                roomId: existingRoom.id,
+                players,
+              });
+            }
+            return;
+          } else {
+            await leaveCurrentRoom(io, socket, socketWithUserId.userId);
+          }
+        }
+
+        // Admin already checked above, no need to check again
+
+        // Join a waiting room with an available slot, an opponent of similar
+        // rating and an overlapping stake range, or create a new room
+        const rating = await getRating(socketWithUserId.userId, gameType);
+        const roomId = await takeSeat(
+          `matchmaking:${gameType}`,
+          socketWithUserId.userId,
+          async () => (await findWaitingRoom(gameType, rating, stakeRange))?.id ?? null,
+          () => createRoom(gameType),
+          stakeRange,
+        );
+        notifyLobby(io);
+
+        // Admin already checked above, no need to check again
+
+        // Join socket room FIRST before checking players
+        socket.join(roomId);
+        await userRooms.set(socketWithUserId.userId, roomId);
+
+        // Load and send chat history
+        const chatHistory = (await query(
+          "SELECT cm.id, cm.user_id, cm.message, cm.created_at, COALESCE(u.display_username, u.username) as username FROM chat_messages cm JOIN users u ON cm.user_id = u.id WHERE cm.room_id = ? ORDER BY cm.created_at ASC",
+          [roomId],
+        )) as Array<{
+          id: string;
+          user_id: string;
+          message: string;
+          created_at: Date;
+          username: string;
+        }>;
+
+        if (chatHistory.length > 0) {
+          socket.emit("chat_history", {
+            messages: chatHistory.map((msg) => ({
+              id: msg.id,
+              userId: msg.user_id,
+              username: msg.username,
+              message: msg.message,
+              timestamp: msg.created_at,
+            })),
+          });
+        }
+
+        const players = await getRoomPlayers(roomId);
+
+        // Initialize game immediately (even with 1 player) so board is visible
+        let game = await getGame(roomId);
+        if (!game) {
+          game = initializeGame(gameType as GameType);
+          await setGame(roomId, gameType as GameType, game);
+        }
+        const gameState = getGameState(game);
+
+        const bettingInfo = await getRoomBettingInfo(roomId);
+
+        if (players.length === 2) {
+          // Games are now free to play - no balance check required
+          await attemptGameStart(io, roomId);
+        } else {
+          // Send game state even with 1 player so board is visible
+          logger.info(`Sending game_start to single player in room ${roomId}, players: ${players.length}`);
+          socket.emit("game_start", {
+            roomId,
+            gameType,
+            players,
+            gameState,
+            canMove: false, // Disable moves until 2 players join
+            bettingAmount: bettingInfo?.betting_amount ?? 0,
+            bettingStatus: bettingInfo?.betting_status || "unlocked",
+          });
+          socket.emit("waiting_for_player", { roomId, players });
+          // Only emit player_joined to other players in the room (if any)
+          if (players.length > 1) {
+            socket.to(roomId).emit("player_joined", {
+              roomId,
+              players,
+            });
+          }
+        }
+      } catch (error) {
+        logger.error(error, "Error in join_random");
+        socket.emit("error", { message: "Failed to join room" });
+      }
+    });
+
+    // Handle joining by keyword
+    socket.on(
+      "join_keyword",
+      async (data: {
+        gameType: string;
+        keyword: string;
+        timeControl?: string;
+        timeIncrement?: number;
+      }) => {
+        try {
+          const socketWithUserId = socket as Socket & { userId?: string };
+          if (!socketWithUserId.userId) {
+            socket.emit("error", { message: "User not connected" });
+            return;
+          }
+
+          // Taking a seat ends spectating
+          await stopSpectating(io, socket);
+
+          // Check if user is admin - prevent admins from joining game rooms
+          // Cache this result to avoid multiple database queries
+          const isAdmin = await isUserAdmin(socketWithUserId.userId);
+          if (isAdmin) {
+            socket.emit("error", {
+              message: "Admins cannot join game rooms. Please use the admin panel.",
+              adminBlocked: true,
+            });
+            return;
+          }
+
+          // Check and auto-ban if user has 5+ reports
+          const isBanned = await checkAndAutoBanUser(socketWithUserId.userId);
+          if (isBanned) {
+            socket.emit("error", {
+              message: "Your account has been banned",
+              banned: true,
+            });
+            return;
+          }
+
+          const { gameType, keyword } = data;
+          if (!isGameType(gameType)) {
+            socket.emit("error", { message: "Invalid game type" });
+            return;
+          }
+
+          // Leave whichever room the player is still in
+          await leaveCurrentRoom(io, socket, socketWithUserId.userId);
+
+          // Join the keyword room if it has space, or create it
+          const roomId = await takeSeat(
+            `keyword:${gameType}:${keyword}`,
+            socketWithUserId.userId,
+            async () => {
+              const keywordRooms = (await query(
+                "SELECT r.id, r.game_type, r.status, COUNT(rp.user_id) as player_count FROM rooms r LEFT JOIN room_players rp ON r.id = rp.room_id WHERE r.keyword = ? AND r.game_type = ? GROUP BY r.id HAVING player_count < 2",
+                [keyword, gameType],
+              )) as Array<{
+                id: string;
+                game_type: string;
+                status: string;
+                player_count: number;
+              }>;
+              return keywordRooms.length > 0 ? keywordRooms[0].id : null;
+            },
+            () => {
+              // The player who creates a keyword room picks its time control
+              const timeControl = isTimeControl(data.timeControl) ? data.timeControl : "none";
+              const timeIncrement = timeControl === "none" ? 0 : normalizeIncrement(data.timeIncrement);
+              return createRoom(gameType, keyword, timeControl, timeIncrement);
+            },
+          );
+
+          // Admin already checked above, no need to check again
+
+          socket.join(roomId);
+          await userRooms.set(socketWithUserId.userId, roomId);
+
+          const players = await getRoomPlayers(roomId);
+
+          // Initialize game immediately (even with 1 player) so board is visible
+          let game = await getGame(roomId);
+          if (!game) {
+            game = initializeGame(gameType as GameType);
+            await setGame(roomId, gameType as GameType, game);
+          }
+          const gameState = getGameState(game);
+          const bettingInfo = await getRoomBettingInfo(roomId);
+
+          if (players.length === 2) {
+            // Games are now free to play - no balance check required
+            await attemptGameStart(io, roomId);
+          } else {
+            // Send game state even with 1 player so board is visible
+            logger.info(`Sending game_start to single player in keyword room ${roomId}, players: ${players.length}`);
+            socket.emit("game_start", {
+              roomId,
+              gameType,
+              players,
+              gameState,
+              canMove: false, // Disable moves until 2 players join
+              bettingAmount: bettingInfo?.betting_amount ?? 0,
+              bettingStatus: bettingInfo?.betting_status || "unlocked",
+            });
+            socket.emit("waiting_for_player", { roomId, players });
+            // Only emit player_joined to other players in the room (if any)
+            if (players.length > 1) {
+              socket.to(roomId).emit("player_joined", {
+                roomId,
+                players,
+              });
+            }
+          }
+        } catch (error) {
+          logger.error(error, "Error in join_keyword");
+          socket.emit("error", { message: "Failed to join room" });
+        }
+      },
+    );
+
+    // Browse the lobby: get lobby_updated whenever the waiting rooms change
+    socket.on("watch_lobby", () => {
+      socket.join(LOBBY_CHANNEL);
+    });
+
+    socket.on("unwatch_lobby", () => {
+      socket.leave(LOBBY_CHANNEL);
+    });
+
+    // Join a waiting room picked from the lobby, for the stake its host asked for
+    socket.on("join_room", async (data: { roomId: string }) => {
+      try {
+        const socketWithUserId = socket as Socket & { userId?: string };
+        if (!socketWithUserId.userId) {
+          socket.emit("error", { message: "User not connected" });
+          return;
+        }
+        const userId = socketWithUserId.userId;
+
+        // Taking a seat ends spectating
+        await stopSpectating(io, socket);
+
+        // Check if user is admin - prevent admins from joining game rooms
+        const isAdmin = await isUserAdmin(userId);
+        if (isAdmin) {
+          socket.emit("error", {
+            message: "Admins cannot join game rooms. Please use the admin panel.",
+            adminBlocked: true,
+          });
+          return;
+        }
+
+        // Check and auto-ban if user has 5+ reports
+        const isBanned = await checkAndAutoBanUser(userId);
+        if (isBanned) {
+          socket.emit("error", {
+            message: "Your account has been banned",
+            banned: true,
+          });
+          return;
+        }
+
+        const room = await getWaitingRoom(data.roomId);
+        if (!room || !isGameType(room.gameType)) {
+          socket.emit("error", {
+            message: "This room is no longer available",
+            translationKey: "lobby.roomUnavailable",
+          });
+          return;
+        }
+        if (room.hostId === userId) {
+          socket.emit("error", {
+            message: "You are already hosting this room",
+            translationKey: "lobby.ownRoom",
+          });
+          return;
+        }
+        const gameType = room.gameType;
+
+        // Joining accepts the host's stakes, so the game starts at their lowest stake
+        const stakeRange: StakeRange | null = room.stakeMin === null
+          ? null
+          : { min: room.stakeMin, max: room.stakeMax ?? room.stakeMin };
+        if (stakeRange && (await getUserBalance(userId)) < stakeRange.min) {
+          socket.emit("error", {
+            message: "Insufficient balance",
+            translationKey: "betting.insufficientBalance",
+          });
+          return;
+        }
+
+        // Leave whichever room the player is still in
+        await leaveCurrentRoom(io, socket, userId);
+
+        // Matchmaking could fill the room first, so look again under its lock
+        const seated = await withLock(`matchmaking:${gameType}`, async () => {
+          if (!(await getWaitingRoom(room.id))) {
+            return false;
+          }
+          return claimSeat(room.id, userId, stakeRange);
+        });
+        notifyLobby(io);
+        if (!seated) {
+          socket.emit("error", {
+            message: "This room is no longer available",
+            translationKey: "lobby.roomUnavailable",
+          });
+          return;
+        }
+
+        socket.join(room.id);
+        await userRooms.set(userId, room.id);
+
+        const players = await getRoomPlayers(room.id);
+
+        // Initialize game immediately (even with 1 player) so board is visible
+        let game = await getGame(room.id);
+        if (!game) {
+          game = initializeGame(gameType);
+          await setGame(room.id, gameType, game);
+        }
+        const gameState = getGameState(game);
+        const bettingInfo = await getRoomBettingInfo(room.id);
+
+        if (players.length === 2) {
+          await attemptGameStart(io, room.id);
+        } else {
+          // The host left while we were joining
+          socket.emit("game_start", {
+            roomId: room.id,
+            gameType,
+            players,
+            gameState,
+            canMove: false, // Disable moves until 2 players join
+            bettingAmount: bettingInfo?.betting_amount ?? 0,
+            bettingStatus: bettingInfo?.betting_status || "unlocked",
+          });
+          socket.emit("waiting_for_player", { roomId: room.id, players });
+        }
+
+        logger.info({ userId, roomId: room.id }, "User joined a room from the lobby");
+      } catch (error) {
+        logger.error(error, "Error in join_room");
+        socket.emit("error", { message: "Failed to join room" });
+      }
+    });
+
+    // Host a private room. It is only reachable through the invite sent back
+    // in room_invite, never matched by join_random or listed in the lobby.
+    socket.on(
+      "create_private_room",
+      async (data: {
+        gameType: string;
+        password?: string;
+        stake?: number;
+        timeControl?: string;
+        timeIncrement?: number;
+      }) => {
+        try {
+          const socketWithUserId = socket as Socket & { userId?: string };
+          if (!socketWithUserId.userId) {
+            socket.emit("error", { message: "User not connected" });
+            return;
+          }
+          const userId = socketWithUserId.userId;
+
+          // Taking a seat ends spectating
+          await stopSpectating(io, socket);
+
+          // Check if user is admin - prevent admins from joining game rooms
+          const isAdmin = await isUserAdmin(userId);
+          if (isAdmin) {
+            socket.emit("error", {
+              message: "Admins cannot join game rooms. Please use the admin panel.",
+              adminBlocked: true,
+            });
+            return;
+          }
+
+          // Check and auto-ban if user has 5+ reports
+          const isBanned = await checkAndAutoBanUser(userId);
+          if (isBanned) {
+            socket.emit("error", {
+              message: "Your account has been banned",
+              banned: true,
+            });
+            return;
+          }
+
+          const room = await hostPrivateRoom(io, socket, userId, data);
+          if (room) {
+            logger.info({ userId, roomId: room.id, hasPassword: room.hasPassword }, "User created a private room");
+          }
+        } catch (error) {
+          logger.error(error, "Error in create_private_room");
+          socket.emit("error", { message: "Failed to create room" });
+        }
+      },
+    );
+
+    // Get a fresh invite to the private room we host, e.g. after the old one expired
+    socket.on("get_room_invite", async () => {
+      try {
+        const socketWithUserId = socket as Socket & { userId?: string };
+        if (!socketWithUserId.userId) return;
+
+        const roomId = await userRooms.get(socketWithUserId.userId);
+        if (!roomId) return;
+
+        // Public rooms have no invite, so there is nothing to send
+        const room = await getPrivateRoom(roomId);
+        if (room && room.status === "waiting" && room.hostId === socketWithUserId.userId) {
+          emitRoomInvite(socket, room);
+        }
+      } catch (error) {
+        logger.error(error, "Error in get_room_invite");
+      }
+    });
+
+    // Join a private room through an invite, for the stake its host asked for
+    socket.on("join_invite", async (data: { token: string; password?: string }) => {
+      try {
+        const socketWithUserId = socket as Socket & { userId?: string };
+        if (!socketWithUserId.userId) {
+          socket.emit("error", { message: "User not connected" });
+          return;
+        }
+        const userId = socketWithUserId.userId;
+
+        // Taking a seat ends spectating
+        await stopSpectating(io, socket);
+
+        // Check if user is admin - prevent admins from joining game rooms
+        const isAdmin = await isUserAdmin(userId);
+        if (isAdmin) {
+          socket.emit("error", {
+            message: "Admins cannot join game rooms. Please use the admin panel.",
+            adminBlocked: true,
+          });
+          return;
+        }
+
+        // Check and auto-ban if user has 5+ reports
+        const isBanned = await checkAndAutoBanUser(userId);
+        if (isBanned) {
+          socket.emit("error", {
+            message: "Your account has been banned",
+            banned: true,
+          });
+          return;
+        }
+
+        const invite = typeof data.token === "string" ? verifyInviteToken(data.token) : null;
+        if (!invite) {
+          socket.emit("error", {
+            message: "This invite is invalid or has expired",
+            translationKey: "invite.invalid",
+          });
+          return;
+        }
+
+        const room = await getPrivateRoom(invite.roomId);
+        if (!room || room.status !== "waiting" || room.playerCount !== 1 || !isGameType(room.gameType)) {
+          socket.emit("error", {
+            message: "This room is no longer available",
+            translationKey: "lobby.roomUnavailable",
+          });
+          return;
+        }
+        if (room.hostId === userId) {
+          socket.emit("error", {
+            message: "You are already hosting this room",
+            translationKey: "lobby.ownRoom",
+          });
+          return;
+        }
+        const gameType = room.gameType;
+
+        if (room.hasPassword && !(await checkRoomPassword(room.id, String(data.password ?? "")))) {
+          socket.emit("error", {
+            message: "Wrong room password",
+            translationKey: "invite.wrongPassword",
+            passwordRequired: true,
+          });
+          return;
+        }
+
+        // Joining accepts the host's stake
+        const stakeRange = room.stakeRange;
+        if (stakeRange && (await getUserBalance(userId)) < stakeRange.min) {
+          socket.emit("error", {
+            message: "Insufficient balance",
+            translationKey: "betting.insufficientBalance",
+          });
+          return;
+        }
+
+        // Leave whichever room the player is still in
+        await leaveCurrentRoom(io, socket, userId);
+
+        // Someone else with the invite could take the seat first, so look again under its lock
+        const seated = await withLock(`invite:${room.id}`, async () => {
+          const current = await getPrivateRoom(room.id);
+          if (!current || current.status !== "waiting") {
+            return false;
+          }
+          return claimSeat(room.id, userId, stakeRange);
+        });
+        if (!seated) {
+          socket.emit("error", {
+            message: "This room is no longer available",
+            translationKey: "lobby.roomUnavailable",
+          });
+          return;
+        }
 
-    // Note: checkAndAutoBanUser is imported from banManager.ts
+        socket.join(room.id);
+        await userRooms.set(userId, room.id);
 
-    // Handle joining random room
-    socket.on("join_random", async (data: { gameType: string }) => {
+        const players = await getRoomPlayers(room.id);
+
+        // Initialize game immediately (even with 1 player) so board is visible
+        let game = await getGame(room.id);
+        if (!game) {
+          game = initializeGame(gameType);
+          await setGame(room.id, gameType, game);
+        }
+        const gameState = getGameState(game);
+        const bettingInfo = await getRoomBettingInfo(room.id);
+
+        if (players.length === 2) {
+          await attemptGameStart(io, room.id);
+        } else {
+          // The host left while we were joining
+          socket.emit("game_start", {
+            roomId: room.id,
+            gameType,
+            players,
+            gameState,
+            canMove: false, // Disable moves until 2 players join
+            bettingAmount: bettingInfo?.betting_amount ?? 0,
+            bettingStatus: bettingInfo?.betting_status || "unlocked",
+          });
+          socket.emit("waiting_for_player", { roomId: room.id, players });
+        }
+
+        logger.info({ userId, roomId: room.id }, "User joined a private room through an invite");
+      } catch (error) {
+        logger.error(error, "Error in join_invite");
+        socket.emit("error", { message: "Failed to join room" });
+      }
+    });
+
+    // Ask a player, by the name they use in rooms, to be friends. If they
+    // already asked us, this accepts their request instead.
+    socket.on("send_friend_request", async (data: { username: string }) => {
       try {
         const socketWithUserId = socket as Socket & { userId?: string };
         if (!socketWithUserId.userId) {
+          socket.emit("error", { message: "User not connected" });
+          return;
+        }
+        const userId = socketWithUserId.userId;
+
+        const username = typeof data.username === "string" ? data.username.trim() : "";
+        const users = (await query(
+          "SELECT id, COALESCE(display_username, username) as username FROM users WHERE COALESCE(display_username, username) = ? AND user_type = 'user' LIMIT 1",
+          [username],
+        )) as Array<{ id: string; username: string }>;
+        if (users.length === 0) {
           socket.emit("error", {
-            message: "User not connected. Please authenticate first.",
+            message: "No player with that name",
+            translationKey: "friends.userNotFound",
+          });
+          return;
+        }
+        const friendId = users[0].id;
+        if (friendId === userId) {
+          socket.emit("error", {
+            message: "You cannot add yourself as a friend",
+            translationKey: "friends.cannotAddSelf",
           });
           return;
         }
 
-        // Check if user is admin - prevent admins from joining game rooms
-        // Cache this result to avoid multiple database queries
-        const isAdmin = await isUserAdmin(socketWithUserId.userId);
-        if (isAdmin) {
+        const pairLock = `friendship:${[userId, friendId].sort().join(":")}`;
+        const result = await withLock(pairLock, () => sendFriendRequest(userId, friendId));
+        if (result === "already_friends" || result === "already_requested") {
           socket.emit("error", {
-            message: "Admins cannot join game rooms. Please use the admin panel.",
-            adminBlocked: true,
+            message: result === "already_friends" ? "You are already friends" : "Friend request already sent",
+            translationKey: result === "already_friends" ? "friends.alreadyFriends" : "friends.alreadyRequested",
           });
           return;
         }
 
-        // Check and auto-ban if user has 5+ reports
-        const isBanned = await checkAndAutoBanUser(socketWithUserId.userId);
-        if (isBanned) {
+        const sender = (await query(
+          "SELECT COALESCE(display_username, username) as username FROM users WHERE id = ?",
+          [userId],
+        )) as Array<{ username: string }>;
+        if (result === "requested") {
+          await notifyUser(io, friendId, "friend_request_received", {
+            userId,
+            username: sender[0]?.username,
+          });
+        } else {
+          await notifyUser(io, friendId, "friend_request_accepted", {
+            userId,
+            username: sender[0]?.username,
+          });
+        }
+        socket.emit("friends_updated");
+        await notifyUser(io, friendId, "friends_updated", {});
+
+        logger.info({ userId, friendId, result }, "Friend request sent");
+      } catch (error) {
+        logger.error(error, "Error in send_friend_request");
+        socket.emit("error", { message: "Failed to send friend request" });
+      }
+    });
+
+    socket.on("respond_friend_request", async (data: { requestId: string; accept: boolean }) => {
+      try {
+        const socketWithUserId = socket as Socket & { userId?: string };
+        if (!socketWithUserId.userId) {
+          socket.emit("error", { message: "User not connected" });
+          return;
+        }
+        const userId = socketWithUserId.userId;
+
+        const requesterId = await respondToFriendRequest(data.requestId, userId, data.accept === true);
+        if (!requesterId) {
           socket.emit("error", {
-            message: "Your account has been banned",
-            banned: true,
+            message: "Friend request not found",
+            translationKey: "friends.requestNotFound",
           });
           return;
         }
 
-        const { gameType } = data;
+        if (data.accept === true) {
+          const accepter = (await query(
+            "SELECT COALESCE(display_username, username) as username FROM users WHERE id = ?",
+            [userId],
+          )) as Array<{ username: string }>;
+          await notifyUser(io, requesterId, "friend_request_accepted", {
+            userId,
+            username: accepter[0]?.username,
+          });
+        }
+        socket.emit("friends_updated");
+        await notifyUser(io, requesterId, "friends_updated", {});
+      } catch (error) {
+        logger.error(error, "Error in respond_friend_request");
+        socket.emit("error", { message: "Failed to answer friend request" });
+      }
+    });
 
-        // Check if user is already in a room
-        const existingRoom = await getUserRoom(socketWithUserId.userId);
-        if (existingRoom) {
-          const stillInRoom = await checkPlayerInRoom(
-            existingRoom.id,
-            socketWithUserId.userId,
-          );
+    // Unfriend a player, or withdraw a friend request we sent them
+    socket.on("remove_friend", async (data: { friendId: string }) => {
+      try {
+        const socketWithUserId = socket as Socket & { userId?: string };
+        if (!socketWithUserId.userId) {
+          socket.emit("error", { message: "User not connected" });
+          return;
+        }
+        const userId = socketWithUserId.userId;
 
-          if (
-            stillInRoom &&
-            existingRoom.game_type === gameType &&
-            existingRoom.status === "waiting" &&
-            existingRoom.player_count < 2
-          ) {
-            // Admin already checked above, no need to check again
-            
-            // User is still in a valid waiting room - rejoin socket room
-            socket.join(existingRoom.id);
-            userRooms.set(socketWithUserId.userId, existingRoom.id);
+        if (await removeFriend(userId, data.friendId)) {
+          socket.emit("friends_updated");
+          await notifyUser(io, data.friendId, "friends_updated", {});
+        }
+      } catch (error) {
+        logger.error(error, "Error in remove_friend");
+        socket.emit("error", { message: "Failed to remove friend" });
+      }
+    });
 
-            // Load and send chat history
-            const chatHistory = (await query(
-              "SELECT cm.id, cm.user_id, cm.message, cm.created_at, COALESCE(u.display_username, u.username) as username FROM chat_messages cm JOIN users u ON cm.user_id = u.id WHERE cm.room_id = ? ORDER BY cm.created_at ASC",
-              [existingRoom.id],
-            )) as Array<{
-              id: string;
-              user_id: string;
-              message: string;
-              created_at: Date;
-              username: string;
-            }>;
+    // Challenge a friend: host a private room with the game and stake we
+    // propose and send them its invite. They accept with join_invite.
+    socket.on(
+      "challenge_friend",
+      async (data: {
+        friendId: string;
+        gameType: string;
+        stake?: number;
+        timeControl?: string;
+        timeIncrement?: number;
+      }) => {
+        try {
+          const socketWithUserId = socket as Socket & { userId?: string };
+          if (!socketWithUserId.userId) {
+            socket.emit("error", { message: "User not connected" });
+            return;
+          }
+          const userId = socketWithUserId.userId;
 
-            if (chatHistory.length > 0) {
-              socket.emit("chat_history", {
-                messages: chatHistory.map((msg) => ({
-                  id: msg.id,
-                  userId: msg.user_id,
-                  username: msg.username,
-                  message: msg.message,
-                  timestamp: msg.created_at,
-                })),
-              });
-            }
+          // Taking a seat ends spectating
+          await stopSpectating(io, socket);
+
+          // Check if user is admin - prevent admins from joining game rooms
+          const isAdmin = await isUserAdmin(userId);
+          if (isAdmin) {
+            socket.emit("error", {
+              message: "Admins cannot join game rooms. Please use the admin panel.",
+              adminBlocked: true,
+            });
+            return;
+          }
+
+          // Check and auto-ban if user has 5+ reports
+          const isBanned = await checkAndAutoBanUser(userId);
+          if (isBanned) {
+            socket.emit("error", {
+              message: "Your account has been banned",
+              banned: true,
+            });
+            return;
+          }
+
+          if (!(await areFriends(userId, data.friendId))) {
+            socket.emit("error", {
+              message: "You can only challenge your friends",
+              translationKey: "friends.notFriends",
+            });
+            return;
+          }
+          const presence = await getPresence(data.friendId);
+          if (presence !== "online") {
+            socket.emit("error", {
+              message: presence === "offline" ? "Your friend is offline" : "Your friend is in a game",
+              translationKey: presence === "offline" ? "friends.friendOffline" : "friends.friendInGame",
+            });
+            return;
+          }
+
+          const room = await hostPrivateRoom(io, socket, userId, {
+            gameType: data.gameType,
+            stake: data.stake,
+            timeControl: data.timeControl,
+            timeIncrement: data.timeIncrement,
+          });
+          if (!room) {
+            return;
+          }
+
+          const { token, expiresAt } = generateInviteToken(room.id, config.game.inviteExpiresIn);
+          await notifyUser(io, data.friendId, "challenge_received", {
+            roomId: room.id,
+            token,
+            expiresAt,
+            from: { id: userId, username: room.hostName },
+            gameType: room.gameType,
+            stake: room.stakeRange?.min ?? null,
+            timeControl: room.timeControl,
+            timeIncrement: room.timeIncrement,
+          });
+
+          logger.info({ userId, friendId: data.friendId, roomId: room.id }, "User challenged a friend");
+        } catch (error) {
+          logger.error(error, "Error in challenge_friend");
+          socket.emit("error", { message: "Failed to send challenge" });
+        }
+      },
+    );
+
+    // Turn down a friend's challenge. Their room stays open until they leave it.
+    socket.on("decline_challenge", async (data: { roomId: string }) => {
+      try {
+        const socketWithUserId = socket as Socket & { userId?: string };
+        if (!socketWithUserId.userId) return;
+        const userId = socketWithUserId.userId;
+
+        const room = await getPrivateRoom(data.roomId);
+        if (!room || !room.hostId || !(await areFriends(userId, room.hostId))) {
+          return;
+        }
+
+        const decliner = (await query(
+          "SELECT COALESCE(display_username, username) as username FROM users WHERE id = ?",
+          [userId],
+        )) as Array<{ username: string }>;
+        await notifyUser(io, room.hostId, "challenge_declined", {
+          roomId: room.id,
+          userId,
+          username: decliner[0]?.username,
+        });
+      } catch (error) {
+        logger.error(error, "Error in decline_challenge");
+      }
+    });
+
+    // Handle request for current game state (when user joins/reconnects)
+    socket.on("request_game_state", async () => {
+      try {
+        const socketWithUserId = socket as Socket & { userId?: string };
+        if (!socketWithUserId.userId) {
+          socket.emit("error", { message: "User not connected" });
+          return;
+        }
+
+        // Prevent admins from requesting game state
+        const isAdmin = await isUserAdmin(socketWithUserId.userId);
+        if (isAdmin) {
+          socket.emit("error", {
+            message: "Admins cannot access game rooms. Please use the admin panel.",
+            adminBlocked: true,
+          });
+          return;
+        }
+
+        const roomId = await userRooms.get(socketWithUserId.userId);
+        if (!roomId) {
+          socket.emit("error", { 
+            message: "Not in a room",
+            translationKey: "gameRoom.notInRoom"
+          });
+          return;
+        }
+
+        const game = await getGame(roomId);
+        if (game) {
+          // Get game type from database
+          const roomInfo = (await query(
+            "SELECT game_type FROM rooms WHERE id = ?",
+            [roomId],
+          )) as Array<{ game_type: string }>;
+          
+          if (roomInfo.length === 0) {
+            socket.emit("error", { 
+              message: "Room not found",
+              translationKey: "gameRoom.roomNotFound"
+            });
+            return;
+          }
+          
+          const gameType = roomInfo[0].game_type;
+          const players = await getRoomPlayers(roomId);
+          const gameState = getGameState(game);
+          const playerCount = players.length;
+          const bettingInfo = await getRoomBettingInfo(roomId);
+          
+          socket.emit("game_start", {
+            roomId: roomId,
+            gameType: gameType,
+            players,
+            gameState,
+            canMove: playerCount >= 2,
+            bettingAmount: bettingInfo?.betting_amount ?? 0,
+            bettingStatus: bettingInfo?.betting_status || "unlocked",
+            clock: await getClockState(roomId),
+          });
+          socket.emit("spectator_count", {
+            roomId,
+            count: await countSpectators(io, roomId),
+          });
+          logger.info(`Sent game state to user ${socketWithUserId.userId} for room ${roomId}, gameType: ${gameType}`);
+        } else {
+          logger.info(`No game found for room ${roomId} when user ${socketWithUserId.userId} requested state`);
+        }
+      } catch (error) {
+        logger.error(error, "Error in request_game_state");
+        socket.emit("error", { message: "Failed to get game state" });
+      }
+    });
+
+    // Watch a live game read-only. Spectators get moves, the result and chat,
+    // but hold no seat, so they cannot move, bet or chat.
+    socket.on("spectate_room", async (data: { roomId: string }) => {
+      try {
+        const socketWithUserId = socket as Socket & { userId?: string };
+        if (!socketWithUserId.userId) {
+          socket.emit("error", { message: "User not connected" });
+          return;
+        }
 
-            const players = await getRoomPlayers(existingRoom.id);
+        // Seated players would get the other room's moves mixed into their own game
+        if (await userRooms.has(socketWithUserId.userId)) {
+          socket.emit("error", {
+            message: "Leave your current room before spectating",
+            translationKey: "spectate.leaveRoomFirst",
+          });
+          return;
+        }
 
-            // Initialize game immediately (even with 1 player) so board is visible
-            let game = getGame(existingRoom.id);
-            if (!game) {
-              game = initializeGame(gameType as GameType);
-              setGame(existingRoom.id, game);
-            }
-            const gameState = getGameState(game);
+        const rooms = (await query(
+          "SELECT game_type, status FROM rooms WHERE id = ?",
+          [data.roomId],
+        )) as Array<{ game_type: string; status: string }>;
+        const game = await getGame(data.roomId);
 
-            const bettingInfo = await getRoomBettingInfo(existingRoom.id);
-            const bettingAmount = bettingInfo?.betting_amount || 0.25;
-            
-            if (players.length === 2) {
-              // Games are now free to play - no balance check required
-              await updateRoomStatus(existingRoom.id, "playing");
-              // Use setTimeout to ensure socket room join is complete
-              setTimeout(() => {
-                io.to(existingRoom.id).emit("game_start", {
-                  roomId: existingRoom.id,
-                  gameType,
-                  players,
-                  gameState,
-                  canMove: true, // Allow moves when 2 players are present
-                  bettingAmount,
-                  bettingStatus: bettingInfo?.betting_status || "unlocked",
-                });
-              }, 100);
-            } else {
-              // Send game state even with 1 player so board is visible
-              logger.info(`Sending game_start to single player in existing room ${existingRoom.id}, players: ${players.length}`);
-              socket.emit("game_start", {
-                roomId: existingRoom.id,
-                gameType,
-                players,
-                gameState,
-                canMove: false, // Disable moves until 2 players join
-                bettingAmount: bettingInfo?.betting_amount || 0.25,
-                bettingStatus: bettingInfo?.betting_status || "unlocked",
-              });
-              socket.emit("waiting_for_player", {
-                roomId: existingRoom.id,
-                players,
-              });
-            }
-            return;
-          } else {
-            if (stillInRoom) {
-              await removePlayerFromRoom(existingRoom.id, socketWithUserId.userId);
-            }
-            socket.leave(existingRoom.id);
-            userRooms.delete(socketWithUserId.userId);
-          }
+        if (rooms.length === 0 || rooms[0].status !== "playing" || !game) {
+          socket.emit("error", {
+            message: "This game is not live",
+            translationKey: "spectate.notLive",
+          });
+          return;
         }
 
-        // Admin already checked above, no need to check again
+        await stopSpectating(io, socket);
+        spectating.set(socket.id, data.roomId);
+        socket.join(getSpectatorChannel(data.roomId));
 
-        // Look for waiting room with available slot
-        let room = await findWaitingRoom(gameType);
+        const players = await getRoomPlayers(data.roomId);
+        const bettingInfo = await getRoomBettingInfo(data.roomId);
 
-        if (!room) {
-          // Create new room
-          const roomId = await createRoom(gameType);
-          await addPlayerToRoom(roomId, socketWithUserId.userId, true);
-          room = { id: roomId, player_count: 1 };
-        } else {
-          // Join existing room
-          const currentPlayers = await getRoomPlayers(room.id);
-          if (currentPlayers.length >= 2) {
-            // Room already full, create new one
-            const roomId = await createRoom(gameType);
-            await addPlayerToRoom(roomId, socketWithUserId.userId, true);
-            room = { id: roomId, player_count: 1 };
-          } else {
-            const alreadyInRoom = await checkPlayerInRoom(
-              room.id,
-              socketWithUserId.userId,
-            );
-            if (!alreadyInRoom) {
-              await addPlayerToRoom(room.id, socketWithUserId.userId, false);
-            }
-          }
-        }
+        socket.emit("spectate_joined", {
+          roomId: data.roomId,
+          gameType: rooms[0].game_type,
+          players,
+          gameState: getGameState(game),
+          bettingAmount: bettingInfo?.betting_status === "locked" ? bettingInfo.betting_amount : 0,
+          clock: await getClockState(data.roomId),
+        });
+        await emitSpectatorCount(io, data.roomId);
 
-        // Admin already checked above, no need to check again
+        logger.info(
+          { userId: socketWithUserId.userId, roomId: data.roomId },
+          "User started spectating",
+        );
+      } catch (error) {
+        logger.error(error, "Error in spectate_room");
+        socket.emit("error", { message: "Failed to spectate game" });
+      }
+    });
 
-        // Join socket room FIRST before checking players
-        socket.join(room.id);
-        userRooms.set(socketWithUserId.userId, room.id);
+    socket.on("leave_spectate", async () => {
+      await stopSpectating(io, socket);
+    });
 
-        // Load and send chat history
-        const chatHistory = (await query(
-          "SELECT cm.id, cm.user_id, cm.message, cm.created_at, COALESCE(u.display_username, u.username) as username FROM chat_messages cm JOIN users u ON cm.user_id = u.id WHERE cm.room_id = ? ORDER BY cm.created_at ASC",
-          [room.id],
-        )) as Array<{
-          id: string;
-          user_id: string;
-          message: string;
-          created_at: Date;
-          username: string;
-        }>;
+    // Handle player move
+    socket.on("player_move", async (data: { gameType: string; move: unknown }) => {
+      try {
+        const socketWithUserId = socket as Socket & { userId?: string };
+        if (!socketWithUserId.userId) {
+          socket.emit("error", { message: "User not connected" });
+          return;
+        }
 
-        if (chatHistory.length > 0) {
-          socket.emit("chat_history", {
-            messages: chatHistory.map((msg) => ({
-              id: msg.id,
-              userId: msg.user_id,
-              username: msg.username,
-              message: msg.message,
-              timestamp: msg.created_at,
-            })),
+        // Prevent admins from making moves
+        const isAdmin = await isUserAdmin(socketWithUserId.userId);
+        if (isAdmin) {
+          socket.emit("error", {
+            message: "Admins cannot play games. Please use the admin panel.",
+            adminBlocked: true,
           });
+          return;
         }
 
-        const players = await getRoomPlayers(room.id);
-
-        // Initialize game immediately (even with 1 player) so board is visible
-        let game = getGame(room.id);
-        if (!game) {
-          game = initializeGame(gameType as GameType);
-          setGame(room.id, game);
+        // Check and auto-ban if user has 5+ reports
+        const isBanned = await checkAndAutoBanUser(socketWithUserId.userId);
+        if (isBanned) {
+          socket.emit("error", {
+            message: "Your account has been banned",
+            banned: true,
+          });
+          return;
         }
-        const gameState = getGameState(game);
 
-        const bettingInfo = await getRoomBettingInfo(room.id);
-        const bettingAmount = bettingInfo?.betting_amount || 0.25;
-        
-        if (players.length === 2) {
-          // Games are now free to play - no balance check required
-          await updateRoomStatus(room.id, "playing");
-          // Use setTimeout to ensure socket room join is complete
-          setTimeout(() => {
-            io.to(room.id).emit("game_start", {
-              roomId: room.id,
-              gameType,
-              players,
-              gameState,
-              canMove: true, // Allow moves when 2 players are present
-              bettingAmount,
-              bettingStatus: bettingInfo?.betting_status || "unlocked",
-            });
-          }, 100);
-        } else {
-          // Send game state even with 1 player so board is visible
-          logger.info(`Sending game_start to single player in room ${room.id}, players: ${players.length}`);
-          socket.emit("game_start", {
-            roomId: room.id,
-            gameType,
-            players,
-            gameState,
-            canMove: false, // Disable moves until 2 players join
-            bettingAmount: bettingInfo?.betting_amount || 0.25,
-            bettingStatus: bettingInfo?.betting_status || "unlocked",
+        const roomId = await userRooms.get(socketWithUserId.userId);
+        if (!roomId) {
+          socket.emit("error", { 
+            message: "Not in a room",
+            translationKey: "gameRoom.notInRoom"
           });
-          socket.emit("waiting_for_player", { roomId: room.id, players });
-          // Only emit player_joined to other players in the room (if any)
-          if (players.length > 1) {
-            socket.to(room.id).emit("player_joined", {
-              roomId: room.id,
-              players,
-            });
-          }
+          return;
         }
-      } catch (error) {
-        logger.error(error, "Error in join_random");
-        socket.emit("error", { message: "Failed to join room" });
-      }
-    });
 
-    // Handle joining by keyword
-    socket.on(
-      "join_keyword",
-      async (data: { gameType: string; keyword: string }) => {
-        try {
-          const socketWithUserId = socket as Socket & { userId?: string };
-          if (!socketWithUserId.userId) {
-            socket.emit("error", { message: "User not connected" });
+        const { userId } = socketWithUserId;
+        // Moves in a room are applied one at a time, whichever instance receives them
+        await withRoomLock(roomId, async () => {
+          const game = await getGame(roomId);
+          if (!game) {
+            socket.emit("error", { message: "Game not found" });
             return;
           }
 
-          // Check if user is admin - prevent admins from joining game rooms
-          // Cache this result to avoid multiple database queries
-          const isAdmin = await isUserAdmin(socketWithUserId.userId);
-          if (isAdmin) {
-            socket.emit("error", {
-              message: "Admins cannot join game rooms. Please use the admin panel.",
-              adminBlocked: true,
+          const players = await getRoomPlayers(roomId);
+        
+          // Check if 2 players are present before allowing moves
+          if (players.length < 2) {
+            socket.emit("error", { message: "Waiting for another player to join" });
+            return;
+          }
+        
+          // Check room status - moves are only allowed when status is "playing"
+          const roomInfo = (await query(
+            "SELECT status, game_type FROM rooms WHERE id = ?",
+            [roomId],
+          )) as Array<{ status: string; game_type: string }>;
+        
+          if (roomInfo.length === 0) {
+            socket.emit("error", { 
+              message: "Room not found",
+              translationKey: "gameRoom.roomNotFound"
             });
             return;
           }
-
-          // Check and auto-ban if user has 5+ reports
-          const isBanned = await checkAndAutoBanUser(socketWithUserId.userId);
-          if (isBanned) {
-            socket.emit("error", {
-              message: "Your account has been banned",
-              banned: true,
+        
+          // Games are now free to play - no balance check required
+          // Only check if room is playing
+          if (roomInfo[0].status !== "playing") {
+            socket.emit("error", { 
+              message: "Game is not ready yet. Please wait for the game to start.",
             });
             return;
           }
+          // The room decides the game type, not the client
+          const gameType = roomInfo[0].game_type;
+          const currentPlayerIndex = players.findIndex(
+            (p) => p.id === userId,
+          );
+          const playerTeam = getPlayerTeam(gameType, currentPlayerIndex);
 
-          const { gameType, keyword } = data;
-          let room = null;
-
-          // Check if room with keyword exists and has space
-          const keywordRooms = (await query(
-            "SELECT r.id, r.game_type, r.status, COUNT(rp.user_id) as player_count FROM rooms r LEFT JOIN room_players rp ON r.id = rp.room_id WHERE r.keyword = ? AND r.game_type = ? GROUP BY r.id HAVING player_count < 2",
-            [keyword, gameType],
-          )) as Array<{
-            id: string;
-            game_type: string;
-            status: string;
-            player_count: number;
-          }>;
+          const result = validateMove(game, data.move, playerTeam, userId);
 
-          if (keywordRooms.length > 0) {
-            room = keywordRooms[0];
+          if (!result.valid) {
+            logger.error(`Invalid move from user ${userId}: ${result.error}`);
+            socket.emit("error", { message: result.error || "Invalid move" });
+            return;
           }
+          await setGame(roomId, gameType, game);
+        
+          logger.info(`Valid move from user ${userId}, team ${playerTeam}, gameType ${gameType}`);
 
-          // Admin already checked above, no need to check again
+          // Moving instead of answering a draw offer declines it
+          const drawOfferedBy = await drawOffers.get(roomId);
+          if (drawOfferedBy && drawOfferedBy !== userId) {
+            await drawOffers.delete(roomId);
+            io.to(roomId).emit("draw_declined", { roomId, userId: userId });
+          }
 
-          if (!room) {
-            const roomId = await createRoom(gameType, keyword);
-            await addPlayerToRoom(roomId, socketWithUserId.userId, true);
-            room = { id: roomId, player_count: 0 };
-          } else {
-            const alreadyInRoom = await checkPlayerInRoom(
-              room.id,
-              socketWithUserId.userId,
-            );
-            if (!alreadyInRoom) {
-              await addPlayerToRoom(room.id, socketWithUserId.userId, false);
-            }
+          // Broadcast move to all players in room (including the player who made the move)
+          const updatedState = getGameState(game);
+        
+          // Check if pawn promotion is pending
+          const promotionState = updatedState as {
+            pendingPromotion?: { x: number; y: number; team: string } | null;
+          };
+        
+          if (promotionState.pendingPromotion) {
+            // Emit promotion request to the player who made the move
+            socket.emit("pawn_promotion_required", {
+              position: promotionState.pendingPromotion,
+              roomId: roomId,
+            });
           }
+        
+          // Check if game is over
+          const outcome = getGameOutcome(game);
 
-          // Admin already checked above, no need to check again
+          // Hand the clock to whoever is on turn now (unchanged while the mover keeps the turn)
+          const clock = outcome
+            ? await getClockState(roomId)
+            : await switchClock(roomId, getCurrentTeam(game));
 
-          socket.join(room.id);
-          userRooms.set(socketWithUserId.userId, room.id);
+          io.to([roomId, getSpectatorChannel(roomId)]).emit("move_update", {
+            move: data.move,
+            gameState: updatedState,
+            roomId: roomId,
+            clock,
+          });
 
-          const players = await getRoomPlayers(room.id);
+          await snapshotGame(roomId, gameType);
 
-          // Initialize game immediately (even with 1 player) so board is visible
-          let game = getGame(room.id);
-          if (!game) {
-            game = initializeGame(gameType as GameType);
-            setGame(room.id, game);
-          }
-          const gameState = getGameState(game);
-        const bettingInfo = await getRoomBettingInfo(room.id);
-        const bettingAmount = bettingInfo?.betting_amount || 0.25;
-        
-        if (players.length === 2) {
-          // Games are now free to play - no balance check required
-          await updateRoomStatus(room.id, "playing");
-            // Use setTimeout to ensure socket room join is complete
-            setTimeout(() => {
-              io.to(room.id).emit("game_start", {
-                roomId: room.id,
-                gameType,
-                players,
-                gameState,
-                canMove: true, // Allow moves when 2 players are present
-                bettingAmount,
-                bettingStatus: bettingInfo?.betting_status || "unlocked",
-              });
-            }, 100);
-          } else {
-            // Send game state even with 1 player so board is visible
-            logger.info(`Sending game_start to single player in keyword room ${room.id}, players: ${players.length}`);
-            socket.emit("game_start", {
-              roomId: room.id,
-              gameType,
-              players,
-              gameState,
-              canMove: false, // Disable moves until 2 players join
-              bettingAmount: bettingInfo?.betting_amount || 0.25,
-              bettingStatus: bettingInfo?.betting_status || "unlocked",
+          if (outcome) {
+            await finishGame(io, roomId, gameType, players, {
+              winningTeam: outcome.winner,
+              isDraw: outcome.isDraw,
+              drawReason: outcome.drawReason || null,
+              resultUserId: userId,
             });
-            socket.emit("waiting_for_player", { roomId: room.id, players });
-            // Only emit player_joined to other players in the room (if any)
-            if (players.length > 1) {
-              socket.to(room.id).emit("player_joined", {
-                roomId: room.id,
-                players,
-              });
-            }
           }
-        } catch (error) {
-          logger.error(error, "Error in join_keyword");
-          socket.emit("error", { message: "Failed to join room" });
-        }
-      },
-    );
+        });
+      } catch (error) {
+        logger.error(error, "Error in player_move");
+        socket.emit("error", { message: "Failed to process move" });
+      }
+    });
 
-    // Handle request for current game state (when user joins/reconnects)
-    socket.on("request_game_state", async () => {
+    // Handle pawn promotion
+    socket.on("pawn_promotion", async (data: { 
+      position: { x: number; y: number }; 
+      promotionType: string;
+      gameType: string;
+    }) => {
       try {
         const socketWithUserId = socket as Socket & { userId?: string };
         if (!socketWithUserId.userId) {
@@ -847,17 +2593,17 @@ export const setupSocketHandlers = (io: Server): void => {
           return;
         }
 
-        // Prevent admins from requesting game state
+        // Prevent admins from promoting pawns
         const isAdmin = await isUserAdmin(socketWithUserId.userId);
         if (isAdmin) {
           socket.emit("error", {
-            message: "Admins cannot access game rooms. Please use the admin panel.",
+            message: "Admins cannot play games. Please use the admin panel.",
             adminBlocked: true,
           });
           return;
         }
 
-        const roomId = userRooms.get(socketWithUserId.userId);
+        const roomId = await userRooms.get(socketWithUserId.userId);
         if (!roomId) {
           socket.emit("error", { 
             message: "Not in a room",
@@ -866,49 +2612,81 @@ export const setupSocketHandlers = (io: Server): void => {
           return;
         }
 
-        const game = getGame(roomId);
-        if (game) {
-          // Get game type from database
+        const { userId } = socketWithUserId;
+        // A promotion completes a move, so it takes the same lock as moves
+        await withRoomLock(roomId, async () => {
+          const game = await getGame(roomId);
+          if (!game) {
+            socket.emit("error", { message: "Game not found" });
+            return;
+          }
+
           const roomInfo = (await query(
             "SELECT game_type FROM rooms WHERE id = ?",
             [roomId],
           )) as Array<{ game_type: string }>;
-          
           if (roomInfo.length === 0) {
-            socket.emit("error", { 
+            socket.emit("error", {
               message: "Room not found",
               translationKey: "gameRoom.roomNotFound"
             });
             return;
           }
-          
           const gameType = roomInfo[0].game_type;
+
           const players = await getRoomPlayers(roomId);
-          const gameState = getGameState(game);
-          const playerCount = players.length;
-          const bettingInfo = await getRoomBettingInfo(roomId);
-          
-          socket.emit("game_start", {
+          const currentPlayerIndex = players.findIndex(
+            (p) => p.id === userId,
+          );
+          const playerTeam = getPlayerTeam(gameType, currentPlayerIndex);
+
+          // Only games with a pending promotion accept this move
+          const promotionMove = { type: "promotion", position: data.position, promotionType: data.promotionType };
+          const result = validateMove(game, promotionMove, playerTeam, userId);
+
+          if (!result.valid) {
+            socket.emit("error", { message: "Invalid promotion" });
+            return;
+          }
+          await setGame(roomId, gameType, game);
+
+          const updatedState = getGameState(game);
+          const outcome = getGameOutcome(game);
+
+          // The promotion completes the move, so the clock passes to the opponent
+          const clock = outcome
+            ? await getClockState(roomId)
+            : await switchClock(roomId, getCurrentTeam(game));
+
+          io.to([roomId, getSpectatorChannel(roomId)]).emit("move_update", {
+            move: promotionMove,
+            gameState: updatedState,
             roomId: roomId,
-            gameType: gameType,
-            players,
-            gameState,
-            canMove: playerCount >= 2,
-            bettingAmount: bettingInfo?.betting_amount || 0.25,
-            bettingStatus: bettingInfo?.betting_status || "unlocked",
+            clock,
           });
-          logger.info(`Sent game state to user ${socketWithUserId.userId} for room ${roomId}, gameType: ${gameType}`);
-        } else {
-          logger.info(`No game found for room ${roomId} when user ${socketWithUserId.userId} requested state`);
-        }
+
+          await snapshotGame(roomId, gameType);
+
+          // Promoting can deliver checkmate or stalemate
+          if (outcome) {
+            await finishGame(io, roomId, gameType, players, {
+              winningTeam: outcome.winner,
+              isDraw: outcome.isDraw,
+              drawReason: outcome.drawReason || null,
+              resultUserId: userId,
+            });
+          }
+
+          logger.info(`Pawn promoted by user ${userId} to ${data.promotionType}`);
+        });
       } catch (error) {
-        logger.error(error, "Error in request_game_state");
-        socket.emit("error", { message: "Failed to get game state" });
+        logger.error(error, "Error in pawn_promotion");
+        socket.emit("error", { message: "Failed to promote pawn" });
       }
     });
 
-    // Handle player move
-    socket.on("player_move", async (data: { gameType: string; move: unknown }) => {
+    // Give up the game; the opponent wins
+    socket.on("resign", async () => {
       try {
         const socketWithUserId = socket as Socket & { userId?: string };
         if (!socketWithUserId.userId) {
@@ -916,317 +2694,137 @@ export const setupSocketHandlers = (io: Server): void => {
           return;
         }
 
-        // Prevent admins from making moves
-        const isAdmin = await isUserAdmin(socketWithUserId.userId);
-        if (isAdmin) {
+        const { userId } = socketWithUserId;
+        const roomId = await userRooms.get(userId);
+        if (!roomId) {
           socket.emit("error", {
-            message: "Admins cannot play games. Please use the admin panel.",
-            adminBlocked: true,
+            message: "No game in progress",
+            translationKey: "gameRoom.noGameInProgress",
           });
           return;
         }
 
-        // Check and auto-ban if user has 5+ reports
-        const isBanned = await checkAndAutoBanUser(socketWithUserId.userId);
-        if (isBanned) {
-          socket.emit("error", {
-            message: "Your account has been banned",
-            banned: true,
+        await withRoomLock(roomId, async () => {
+          const seat = await getPlayingSeat(roomId, userId);
+          if (!seat) {
+            socket.emit("error", {
+              message: "No game in progress",
+              translationKey: "gameRoom.noGameInProgress",
+            });
+            return;
+          }
+
+          logger.info({ roomId, userId }, "Player resigned");
+
+          await finishGame(io, roomId, seat.gameType, seat.players, {
+            winningTeam: getPlayerTeam(seat.gameType, seat.playerIndex === 0 ? 1 : 0),
+            isDraw: false,
+            reason: "resignation",
+            resultUserId: userId,
           });
+        });
+      } catch (error) {
+        logger.error(error, "Error in resign");
+        socket.emit("error", { message: "Failed to resign" });
+      }
+    });
+
+    // Offer the opponent a draw; it stands until they answer or make a move
+    socket.on("offer_draw", async () => {
+      try {
+        const socketWithUserId = socket as Socket & { userId?: string };
+        if (!socketWithUserId.userId) {
+          socket.emit("error", { message: "User not connected" });
           return;
         }
 
-        const roomId = userRooms.get(socketWithUserId.userId);
+        const { userId } = socketWithUserId;
+        const roomId = await userRooms.get(userId);
         if (!roomId) {
-          socket.emit("error", { 
-            message: "Not in a room",
-            translationKey: "gameRoom.notInRoom"
+          socket.emit("error", {
+            message: "No game in progress",
+            translationKey: "gameRoom.noGameInProgress",
           });
           return;
         }
 
-        const game = getGame(roomId);
-        if (!game) {
-          socket.emit("error", { message: "Game not found" });
-          return;
-        }
+        await withRoomLock(roomId, async () => {
+          const seat = await getPlayingSeat(roomId, userId);
+          if (!seat) {
+            socket.emit("error", {
+              message: "No game in progress",
+              translationKey: "gameRoom.noGameInProgress",
+            });
+            return;
+          }
 
-        const players = await getRoomPlayers(roomId);
-        
-        // Check if 2 players are present before allowing moves
-        if (players.length < 2) {
-          socket.emit("error", { message: "Waiting for another player to join" });
-          return;
-        }
-        
-        // Check room status - moves are only allowed when status is "playing"
-        const roomInfo = (await query(
-          "SELECT status FROM rooms WHERE id = ?",
-          [roomId],
-        )) as Array<{ status: string }>;
-        
-        if (roomInfo.length === 0) {
-          socket.emit("error", { 
-            message: "Room not found",
-            translationKey: "gameRoom.roomNotFound"
-          });
-          return;
-        }
-        
-        // Games are now free to play - no balance check required
-        // Only check if room is playing
-        if (roomInfo[0].status !== "playing") {
-          socket.emit("error", { 
-            message: "Game is not ready yet. Please wait for the game to start.",
-          });
-          return;
-        }
-        const currentPlayerIndex = players.findIndex(
-          (p) => p.id === socketWithUserId.userId,
-        );
-        let playerTeam: string;
-
-        if (data.gameType === "tic_tac_toe") {
-          playerTeam = currentPlayerIndex === 0 ? "X" : "O";
-        } else if (data.gameType === "checkers") {
-          playerTeam = currentPlayerIndex === 0 ? "player1" : "player2";
-        } else if (data.gameType === "chess") {
-          playerTeam = currentPlayerIndex === 0 ? "w" : "b";
-        } else {
-          socket.emit("error", { message: "Invalid game type" });
-          return;
-        }
+          if (await drawOffers.has(roomId)) {
+            socket.emit("error", {
+              message: "A draw offer is already pending",
+              translationKey: "gameRoom.drawOfferPending",
+            });
+            return;
+          }
 
-        const result = validateMove(
-          data.gameType as GameType,
-          game,
-          data.move,
-          playerTeam,
-        );
+          await drawOffers.set(roomId, userId);
+          io.to(roomId).emit("draw_offered", {
+            roomId,
+            userId,
+          });
+        });
+      } catch (error) {
+        logger.error(error, "Error in offer_draw");
+        socket.emit("error", { message: "Failed to offer draw" });
+      }
+    });
 
-        if (!result.valid) {
-          logger.error(`Invalid move from user ${socketWithUserId.userId}: ${result.error}`);
-          socket.emit("error", { message: result.error || "Invalid move" });
+    socket.on("accept_draw", async () => {
+      try {
+        const socketWithUserId = socket as Socket & { userId?: string };
+        if (!socketWithUserId.userId) {
+          socket.emit("error", { message: "User not connected" });
           return;
         }
-        
-        logger.info(`Valid move from user ${socketWithUserId.userId}, team ${playerTeam}, gameType ${data.gameType}`);
 
-        // Broadcast move to all players in room (including the player who made the move)
-        const updatedState = getGameState(game);
-        
-        // Check if pawn promotion is pending
-        const chessState = updatedState as {
-          pendingPromotion?: { x: number; y: number; team: string } | null;
-        };
-        
-        if (data.gameType === "chess" && chessState.pendingPromotion) {
-          // Emit promotion request to the player who made the move
-          socket.emit("pawn_promotion_required", {
-            position: chessState.pendingPromotion,
-            roomId: roomId,
+        const { userId } = socketWithUserId;
+        const roomId = await userRooms.get(userId);
+        if (!roomId) {
+          socket.emit("error", {
+            message: "No draw offer to accept",
+            translationKey: "gameRoom.noDrawOffer",
           });
+          return;
         }
-        
-        io.to(roomId).emit("move_update", {
-          move: data.move,
-          gameState: updatedState,
-          roomId: roomId,
-        });
-
-        // Check if game is over
-        const gameState = game.getState() as {
-          winner?: string;
-          isDraw?: boolean;
-          winningTeam?: string;
-        };
-
-        if (gameState.winner || gameState.isDraw || gameState.winningTeam) {
-          await updateRoomStatus(roomId, "finished");
-
-          const winnerId =
-            gameState.winner || gameState.winningTeam
-              ? players.find((p, idx) => {
-                  if (data.gameType === "tic_tac_toe") {
-                    return (
-                      gameState.winner === (idx === 0 ? "X" : "O")
-                    );
-                  } else if (data.gameType === "checkers") {
-                    return (
-                      gameState.winner ===
-                      (idx === 0 ? "player1" : "player2")
-                    );
-                  } else if (data.gameType === "chess") {
-                    return (
-                      gameState.winningTeam === (idx === 0 ? "w" : "b")
-                    );
-                  }
-                  return false;
-                })?.id
-              : null;
-
-          const matchId = uuidv4();
-          await query(
-            `INSERT INTO matches (id, room_id, game_type, winner_id, moves_json, result)
-             VALUES (?, ?, ?, ?, ?, ?)`,
-            [
-              matchId,
-              roomId,
-              data.gameType,
-              winnerId,
-              JSON.stringify([data.move]),
-              gameState.isDraw
-                ? "draw"
-                : winnerId === socketWithUserId.userId
-                  ? "win"
-                  : "loss",
-            ],
-          );
 
-          // Process betting payouts
-          const bettingInfo = await getRoomBettingInfo(roomId);
-          if (bettingInfo && bettingInfo.betting_status === "locked") {
-            const bettingAmount = bettingInfo.betting_amount;
-            const totalPot = bettingAmount * 2; // Both players bet
-            const platformFee = totalPot * 0.1; // 10% platform fee
-            const winnerPayout = totalPot * 0.9; // 90% to winner
-
-            if (!gameState.isDraw && winnerId) {
-              // Winner gets 90% of the pot
-              const winnerBalance = await getUserBalance(winnerId);
-              const newWinnerBalance = winnerBalance + winnerPayout;
-              await updateUserBalance(winnerId, newWinnerBalance);
-
-              // Record winner transaction
-              await query(
-                `INSERT INTO betting_transactions 
-                 (id, room_id, match_id, user_id, transaction_type, amount, balance_before, balance_after)
-                 VALUES (?, ?, ?, ?, 'bet_won', ?, ?, ?)`,
-                [
-                  uuidv4(),
-                  roomId,
-                  matchId,
-                  winnerId,
-                  winnerPayout,
-                  winnerBalance,
-                  newWinnerBalance,
-                ],
-              );
-
-              // Loser loses their bet (already deducted when betting was locked)
-              const loserId = players.find((p) => p.id !== winnerId)?.id;
-              if (loserId) {
-                const loserBalance = await getUserBalance(loserId);
-                await query(
-                  `INSERT INTO betting_transactions 
-                   (id, room_id, match_id, user_id, transaction_type, amount, balance_before, balance_after)
-                   VALUES (?, ?, ?, ?, 'bet_lost', ?, ?, ?)`,
-                  [
-                    uuidv4(),
-                    roomId,
-                    matchId,
-                    loserId,
-                    -bettingAmount,
-                    loserBalance + bettingAmount, // balance before bet was placed
-                    loserBalance,
-                  ],
-                );
-              }
-
-              // Platform fee (stored as a system transaction)
-              await query(
-                `INSERT INTO betting_transactions 
-                 (id, room_id, match_id, user_id, transaction_type, amount, balance_before, balance_after)
-                 VALUES (?, ?, ?, ?, 'platform_fee', ?, 0, ?)`,
-                [
-                  uuidv4(),
-                  roomId,
-                  matchId,
-                  winnerId, // Reference user for the transaction
-                  platformFee,
-                  platformFee,
-                ],
-              );
-
-              logger.info(
-                `Betting payout: Winner ${winnerId} received ${winnerPayout} BRL, Platform fee: ${platformFee} BRL`,
-              );
-
-              // Emit balance updates to all players in the room
-              const updatedBalances: Array<{ userId: string; balance: number }> = [];
-              for (const player of players) {
-                const currentBalance = await getUserBalance(player.id);
-                updatedBalances.push({ userId: player.id, balance: currentBalance });
-              }
-              
-              // Emit balance update event to all players
-              io.to(roomId).emit("balance_updated", {
-                roomId,
-                balances: updatedBalances,
-                winnerId,
-                winnerPayout,
-                isDraw: false,
-              });
-            } else if (gameState.isDraw) {
-              // Draw: refund both players
-              for (const player of players) {
-                const playerBalance = await getUserBalance(player.id);
-                const newBalance = playerBalance + bettingAmount;
-                await updateUserBalance(player.id, newBalance);
-
-                await query(
-                  `INSERT INTO betting_transactions 
-                   (id, room_id, match_id, user_id, transaction_type, amount, balance_before, balance_after)
-                   VALUES (?, ?, ?, ?, 'refund', ?, ?, ?)`,
-                  [
-                    uuidv4(),
-                    roomId,
-                    matchId,
-                    player.id,
-                    bettingAmount,
-                    playerBalance,
-                    newBalance,
-                  ],
-                );
-              }
-              logger.info(`Betting refunded due to draw for room ${roomId}`);
-
-              // Emit balance updates for draw (refund)
-              const updatedBalances: Array<{ userId: string; balance: number }> = [];
-              for (const player of players) {
-                const currentBalance = await getUserBalance(player.id);
-                updatedBalances.push({ userId: player.id, balance: currentBalance });
-              }
-              
-              // Emit balance update event to all players
-              io.to(roomId).emit("balance_updated", {
-                roomId,
-                balances: updatedBalances,
-                winnerId: null,
-                refundAmount: bettingAmount,
-                isDraw: true,
-              });
-            }
+        await withRoomLock(roomId, async () => {
+          const seat = await getPlayingSeat(roomId, userId);
+          const offeredBy = seat ? await drawOffers.get(roomId) : undefined;
+          // Only the player the draw was offered to can accept it
+          if (!seat || !offeredBy || offeredBy === userId) {
+            socket.emit("error", {
+              message: "No draw offer to accept",
+              translationKey: "gameRoom.noDrawOffer",
+            });
+            return;
           }
 
-          io.to(roomId).emit("game_over", {
-            winner: gameState.winner || gameState.winningTeam,
-            isDraw: gameState.isDraw,
-            gameState: updatedState,
+          logger.info({ roomId }, "Players agreed to a draw");
+
+          await finishGame(io, roomId, seat.gameType, seat.players, {
+            winningTeam: null,
+            isDraw: true,
+            drawReason: "agreement",
+            reason: "draw_agreed",
+            resultUserId: userId,
           });
-        }
+        });
       } catch (error) {
-        logger.error(error, "Error in player_move");
-        socket.emit("error", { message: "Failed to process move" });
+        logger.error(error, "Error in accept_draw");
+        socket.emit("error", { message: "Failed to accept draw" });
       }
     });
 
-    // Handle pawn promotion
-    socket.on("pawn_promotion", async (data: { 
-      position: { x: number; y: number }; 
-      promotionType: string;
-      gameType: string;
-    }) => {
+    socket.on("decline_draw", async () => {
       try {
         const socketWithUserId = socket as Socket & { userId?: string };
         if (!socketWithUserId.userId) {
@@ -1234,65 +2832,83 @@ export const setupSocketHandlers = (io: Server): void => {
           return;
         }
 
-        // Prevent admins from promoting pawns
-        const isAdmin = await isUserAdmin(socketWithUserId.userId);
-        if (isAdmin) {
+        const { userId } = socketWithUserId;
+        const roomId = await userRooms.get(userId);
+        if (!roomId) {
           socket.emit("error", {
-            message: "Admins cannot play games. Please use the admin panel.",
-            adminBlocked: true,
+            message: "No draw offer to decline",
+            translationKey: "gameRoom.noDrawOffer",
           });
           return;
         }
 
-        const roomId = userRooms.get(socketWithUserId.userId);
-        if (!roomId) {
-          socket.emit("error", { 
-            message: "Not in a room",
-            translationKey: "gameRoom.notInRoom"
+        await withRoomLock(roomId, async () => {
+          const offeredBy = await drawOffers.get(roomId);
+          if (!offeredBy || offeredBy === userId) {
+            socket.emit("error", {
+              message: "No draw offer to decline",
+              translationKey: "gameRoom.noDrawOffer",
+            });
+            return;
+          }
+
+          await drawOffers.delete(roomId);
+          io.to(roomId).emit("draw_declined", {
+            roomId,
+            userId,
           });
-          return;
-        }
+        });
+      } catch (error) {
+        logger.error(error, "Error in decline_draw");
+        socket.emit("error", { message: "Failed to decline draw" });
+      }
+    });
 
-        if (data.gameType !== "chess") {
-          socket.emit("error", { message: "Invalid game type for promotion" });
+    // Call off a game that has not had a move yet, refunding both stakes
+    socket.on("abort", async () => {
+      try {
+        const socketWithUserId = socket as Socket & { userId?: string };
+        if (!socketWithUserId.userId) {
+          socket.emit("error", { message: "User not connected" });
           return;
         }
 
-        const game = getGame(roomId);
-        if (!game) {
-          socket.emit("error", { message: "Game not found" });
+        const { userId } = socketWithUserId;
+        const roomId = await userRooms.get(userId);
+        if (!roomId) {
+          socket.emit("error", {
+            message: "No game in progress",
+            translationKey: "gameRoom.noGameInProgress",
+          });
           return;
         }
 
-        const players = await getRoomPlayers(roomId);
-        const currentPlayerIndex = players.findIndex(
-          (p) => p.id === socketWithUserId.userId,
-        );
-        const playerTeam = currentPlayerIndex === 0 ? "w" : "b";
+        await withRoomLock(roomId, async () => {
+          const seat = await getPlayingSeat(roomId, userId);
+          if (!seat) {
+            socket.emit("error", {
+              message: "No game in progress",
+              translationKey: "gameRoom.noGameInProgress",
+            });
+            return;
+          }
 
-        const chessGame = game as ChessGame;
-        const success = chessGame.promotePawn(
-          data.position,
-          data.promotionType,
-          playerTeam,
-        );
+          const game = await getGame(roomId);
+          if (game && game.getMoveHistory().length > 0) {
+            socket.emit("error", {
+              message: "A game can only be aborted before the first move",
+              translationKey: "gameRoom.abortAfterFirstMove",
+            });
+            return;
+          }
 
-        if (!success) {
-          socket.emit("error", { message: "Invalid promotion" });
-          return;
-        }
+          logger.info({ roomId, userId }, "Game aborted");
 
-        const updatedState = getGameState(game);
-        io.to(roomId).emit("move_update", {
-          move: { type: "promotion", position: data.position, promotionType: data.promotionType },
-          gameState: updatedState,
-          roomId: roomId,
+          await abortGame(io, roomId, seat.players, userId);
         });
-
-        logger.info(`Pawn promoted by user ${socketWithUserId.userId} to ${data.promotionType}`);
       } catch (error) {
-        logger.error(error, "Error in pawn_promotion");
-        socket.emit("error", { message: "Failed to promote pawn" });
+        logger.error(error, "Error in abort");
+        socket.emit("error", { message: "Failed to abort game" });
       }
     });
 
@@ -1338,7 +2954,7 @@ export const setupSocketHandlers = (io: Server): void => {
         }
 
         // Check if already reported by this user in this room
-        const roomId = userRooms.get(socketWithUserId.userId);
+        const roomId = await userRooms.get(socketWithUserId.userId);
         const existingReport = (await query(
           "SELECT id FROM reports WHERE reported_user_id = ? AND reporter_user_id = ? AND (room_id = ? OR room_id IS NULL)",
           [reportedUserId, socketWithUserId.userId, roomId || null],
@@ -1435,7 +3051,7 @@ export const setupSocketHandlers = (io: Server): void => {
           return;
         }
 
-        const roomId = userRooms.get(socketWithUserId.userId);
+        const roomId = await userRooms.get(socketWithUserId.userId);
         if (!roomId) {
           socket.emit("error", { 
             message: "Not in a room",
@@ -1460,8 +3076,8 @@ export const setupSocketHandlers = (io: Server): void => {
         ])) as Array<{ username: string }>;
         const username = user[0]?.username || "Unknown";
 
-        // Broadcast to room
-        io.to(roomId).emit("chat_message", {
+        // Broadcast to room, spectators included
+        io.to([roomId, getSpectatorChannel(roomId)]).emit("chat_message", {
           id: messageId,
           userId: socketWithUserId.userId,
           username,
@@ -1483,7 +3099,8 @@ export const setupSocketHandlers = (io: Server): void => {
           return;
         }
 
-        const roomId = userRooms.get(socketWithUserId.userId);
+        const { userId } = socketWithUserId;
+        const roomId = await userRooms.get(userId);
         if (!roomId) {
           socket.emit("error", { 
             message: "Not in a room",
@@ -1492,79 +3109,94 @@ export const setupSocketHandlers = (io: Server): void => {
           return;
         }
 
-        const players = await getRoomPlayers(roomId);
-        if (players.length < 2) {
-          socket.emit("error", {
-            message: "Need 2 players to change betting amount",
-          });
-          return;
-        }
+        await withRoomLock(roomId, async () => {
+          const players = await getRoomPlayers(roomId);
+          if (players.length < 2) {
+            socket.emit("error", {
+              message: "Need 2 players to change betting amount",
+            });
+            return;
+          }
 
-        const bettingInfo = await getRoomBettingInfo(roomId);
-        if (bettingInfo?.betting_status === "locked") {
-          socket.emit("error", {
-            message: "Betting amount is already locked",
-          });
-          return;
-        }
+          const bettingInfo = await getRoomBettingInfo(roomId);
+          if (!bettingInfo) {
+            socket.emit("error", { message: "Room not found" });
+            return;
+          }
+          if (bettingInfo.betting_status === "locked") {
+            socket.emit("error", {
+              message: "Betting amount is already locked",
+            });
+            return;
+          }
 
-        if (data.amount <= 0) {
-          socket.emit("error", {
-            message: "Betting amount must be greater than 0",
-            translationKey: "betting.amountMustBeGreater",
-          });
-          return;
-        }
+          if (data.amount <= 0) {
+            socket.emit("error", {
+              message: "Betting amount must be greater than 0",
+              translationKey: "betting.amountMustBeGreater",
+            });
+            return;
+          }
 
-        // Check if user has sufficient balance
-        const userBalance = await getUserBalance(socketWithUserId.userId);
-        if (userBalance < data.amount) {
-          socket.emit("error", {
-            message: "Insufficient balance",
-            translationKey: "betting.insufficientBalance",
-          });
-          return;
-        }
+          const settings = await getBettingSettings(bettingInfo.game_type);
+          const stakeError = checkStakeLimits(data.amount, settings);
+          if (stakeError) {
+            socket.emit("error", stakeError);
+            return;
+          }
 
-        // Create or update proposal
-        const existingProposal = (await query(
-          `SELECT id FROM betting_proposals 
-           WHERE room_id = ? AND proposer_user_id = ? AND status = 'pending'`,
-          [roomId, socketWithUserId.userId],
-        )) as Array<{ id: string }>;
+          // Check if user has sufficient balance
+          const userBalance = await getUserBalance(userId);
+          if (userBalance < data.amount) {
+            socket.emit("error", {
+              message: "Insufficient balance",
+              translationKey: "betting.insufficientBalance",
+            });
+            return;
+          }
 
-        const proposalId = existingProposal.length > 0
-          ? existingProposal[0].id
-          : uuidv4();
+          // Create or update proposal
+          const existingProposal = (await query(
+            `SELECT id FROM betting_proposals 
+             WHERE room_id = ? AND proposer_user_id = ? AND status = 'pending'`,
+            [roomId, userId],
+          )) as Array<{ id: string }>;
+
+          const proposalId = existingProposal.length > 0
+            ? existingProposal[0].id
+            : uuidv4();
+
+          if (existingProposal.length > 0) {
+            await query(
+              `UPDATE betting_proposals 
+               SET proposed_amount = ?, updated_at = NOW() 
+               WHERE id = ?`,
+              [data.amount, proposalId],
+            );
+          } else {
+            await query(
+              `INSERT INTO betting_proposals 
+               (id, room_id, proposer_user_id, proposed_amount, status)
+               VALUES (?, ?, ?, ?, 'pending')`,
+              [proposalId, roomId, userId, data.amount],
+            );
+          }
 
-        if (existingProposal.length > 0) {
-          await query(
-            `UPDATE betting_proposals 
-             SET proposed_amount = ?, updated_at = NOW() 
-             WHERE id = ?`,
-            [data.amount, proposalId],
-          );
-        } else {
-          await query(
-            `INSERT INTO betting_proposals 
-             (id, room_id, proposer_user_id, proposed_amount, status)
-             VALUES (?, ?, ?, ?, 'pending')`,
-            [proposalId, roomId, socketWithUserId.userId, data.amount],
-          );
-        }
+          // Notify other player
+          const otherPlayer = players.find((p) => p.id !== userId);
+          if (otherPlayer) {
+            io.to(roomId).emit("betting_proposal", {
+              proposerId: userId,
+              proposedAmount: data.amount,
+              roomId,
+              // What the winner would get, so the other player sees it before accepting
+              ...calculateWinPayout(data.amount, players.length, settings),
+            });
+          }
 
-        // Notify other player
-        const otherPlayer = players.find((p) => p.id !== socketWithUserId.userId);
-        if (otherPlayer) {
-          io.to(roomId).emit("betting_proposal", {
-            proposerId: socketWithUserId.userId,
-            proposedAmount: data.amount,
-            roomId,
+          socket.emit("betting_proposal_sent", {
+            amount: data.amount,
           });
-        }
-
-        socket.emit("betting_proposal_sent", {
-          amount: data.amount,
         });
       } catch (error) {
         logger.error(error, "Error in propose_betting_amount");
@@ -1581,7 +3213,8 @@ export const setupSocketHandlers = (io: Server): void => {
           return;
         }
 
-        const roomId = userRooms.get(socketWithUserId.userId);
+        const { userId } = socketWithUserId;
+        const roomId = await userRooms.get(userId);
         if (!roomId) {
           socket.emit("error", { 
             message: "Not in a room",
@@ -1590,101 +3223,94 @@ export const setupSocketHandlers = (io: Server): void => {
           return;
         }
 
-        const players = await getRoomPlayers(roomId);
-        if (players.length < 2) {
-          socket.emit("error", {
-            message: "Need 2 players to accept betting amount",
-          });
-          return;
-        }
-
-        const bettingInfo = await getRoomBettingInfo(roomId);
-        if (bettingInfo?.betting_status === "locked") {
-          socket.emit("error", {
-            message: "Betting amount is already locked",
-          });
-          return;
-        }
-
-        // Find the proposal
-        const proposal = (await query(
-          `SELECT id, proposer_user_id, proposed_amount 
-           FROM betting_proposals 
-           WHERE room_id = ? AND proposed_amount = ? AND status = 'pending'
-           ORDER BY created_at DESC LIMIT 1`,
-          [roomId, data.amount],
-        )) as Array<{
-          id: string;
-          proposer_user_id: string;
-          proposed_amount: number;
-        }>;
-
-        if (proposal.length === 0) {
-          socket.emit("error", {
-            message: "No matching proposal found",
-            translationKey: "betting.noMatchingProposal",
-          });
-          return;
-        }
+        // The stakes are locked at most once, however fast the players click
+        await withRoomLock(roomId, async () => {
+          const players = await getRoomPlayers(roomId);
+          if (players.length < 2) {
+            socket.emit("error", {
+              message: "Need 2 players to accept betting amount",
+            });
+            return;
+          }
 
-        // Check if both players have sufficient balance
-        for (const player of players) {
-          const playerBalance = await getUserBalance(player.id);
-          if (playerBalance < data.amount) {
+          const bettingInfo = await getRoomBettingInfo(roomId);
+          if (!bettingInfo) {
+            socket.emit("error", { message: "Room not found" });
+            return;
+          }
+          if (bettingInfo.betting_status === "locked") {
             socket.emit("error", {
-              message: `${player.username} has insufficient balance`,
-              translationKey: "betting.playerInsufficientBalance",
-              translationData: {
-                username: player.username,
-              },
+              message: "Betting amount is already locked",
             });
             return;
           }
-        }
 
-        // Update proposal status
-        await query(
-          `UPDATE betting_proposals SET status = 'accepted' WHERE id = ?`,
-          [proposal[0].id],
-        );
+          // The limits may have changed since the amount was proposed
+          const stakeError = checkStakeLimits(
+            data.amount,
+            await getBettingSettings(bettingInfo.game_type),
+          );
+          if (stakeError) {
+            socket.emit("error", stakeError);
+            return;
+          }
 
-        // Update room betting amount
-        await updateRoomBettingAmount(roomId, data.amount);
+          // Find the proposal
+          const proposal = (await query(
+            `SELECT id, proposer_user_id, proposed_amount 
+             FROM betting_proposals 
+             WHERE room_id = ? AND proposed_amount = ? AND status = 'pending'
+             ORDER BY created_at DESC LIMIT 1`,
+            [roomId, data.amount],
+          )) as Array<{
+            id: string;
+            proposer_user_id: string;
+            proposed_amount: number;
+          }>;
 
-        // Lock betting and deduct amounts from both players
-        await lockRoomBetting(roomId);
+          if (proposal.length === 0) {
+            socket.emit("error", {
+              message: "No matching proposal found",
+              translationKey: "betting.noMatchingProposal",
+            });
+            return;
+          }
 
-        // Deduct betting amount from both players
-        for (const player of players) {
-          const playerBalance = await getUserBalance(player.id);
-          const newBalance = playerBalance - data.amount;
-          await updateUserBalance(player.id, newBalance);
+          // Deduct the stake from both players and lock betting
+          const lockResult = await lockStakes(roomId, data.amount, players);
+          if (!lockResult.locked) {
+            if (lockResult.reason === "insufficient_balance") {
+              socket.emit("error", {
+                message: `${lockResult.username} has insufficient balance`,
+                translationKey: "betting.playerInsufficientBalance",
+                translationData: {
+                  username: lockResult.username,
+                },
+              });
+            } else {
+              socket.emit("error", {
+                message: "Betting amount is already locked",
+              });
+            }
+            return;
+          }
 
-          // Record transaction
+          // Update proposal status
           await query(
-            `INSERT INTO betting_transactions 
-             (id, room_id, user_id, transaction_type, amount, balance_before, balance_after)
-             VALUES (?, ?, ?, 'bet_placed', ?, ?, ?)`,
-            [
-              uuidv4(),
-              roomId,
-              player.id,
-              -data.amount,
-              playerBalance,
-              newBalance,
-            ],
+            `UPDATE betting_proposals SET status = 'accepted' WHERE id = ?`,
+            [proposal[0].id],
           );
-        }
 
-        // Notify all players in room
-        io.to(roomId).emit("betting_locked", {
-          amount: data.amount,
-          roomId,
-        });
+          // Notify all players in room
+          io.to(roomId).emit("betting_locked", {
+            amount: data.amount,
+            roomId,
+          });
 
-        logger.info(
-          `Betting locked for room ${roomId} with amount ${data.amount} BRL`,
-        );
+          logger.info(
+            `Betting locked for room ${roomId} with amount ${data.amount} BRL`,
+          );
+        });
       } catch (error) {
         logger.error(error, "Error in accept_betting_amount");
         socket.emit("error", { message: "Failed to accept betting amount" });
@@ -1700,7 +3326,8 @@ export const setupSocketHandlers = (io: Server): void => {
           return;
         }
 
-        const roomId = userRooms.get(socketWithUserId.userId);
+        const { userId } = socketWithUserId;
+        const roomId = await userRooms.get(userId);
         if (!roomId) {
           socket.emit("error", { 
             message: "Not in a room",
@@ -1709,20 +3336,22 @@ export const setupSocketHandlers = (io: Server): void => {
           return;
         }
 
-        // Update pending proposals to rejected
-        await query(
-          `UPDATE betting_proposals 
-           SET status = 'rejected' 
-           WHERE room_id = ? AND status = 'pending'`,
-          [roomId],
-        );
+        await withRoomLock(roomId, async () => {
+          // Update pending proposals to rejected
+          await query(
+            `UPDATE betting_proposals 
+             SET status = 'rejected' 
+             WHERE room_id = ? AND status = 'pending'`,
+            [roomId],
+          );
 
-        // Notify proposer
-        io.to(roomId).emit("betting_proposal_rejected", {
-          roomId,
-        });
+          // Notify proposer
+          io.to(roomId).emit("betting_proposal_rejected", {
+            roomId,
+          });
 
-        socket.emit("betting_proposal_rejected_sent");
+          socket.emit("betting_proposal_rejected_sent");
+        });
       } catch (error) {
         logger.error(error, "Error in reject_betting_amount");
         socket.emit("error", { message: "Failed to reject betting amount" });
@@ -1738,7 +3367,7 @@ export const setupSocketHandlers = (io: Server): void => {
           return;
         }
 
-        const roomId = userRooms.get(socketWithUserId.userId);
+        const roomId = await userRooms.get(socketWithUserId.userId);
         if (!roomId) {
           socket.emit("error", { 
             message: "Not in a room",
@@ -1750,18 +3379,15 @@ export const setupSocketHandlers = (io: Server): void => {
         const bettingInfo = await getRoomBettingInfo(roomId);
         const userBalance = await getUserBalance(socketWithUserId.userId);
 
-        // Convert betting_amount from MySQL DECIMAL (string) to number
-        const bettingAmount = bettingInfo?.betting_amount 
-          ? (typeof bettingInfo.betting_amount === 'number' 
-              ? bettingInfo.betting_amount 
-              : Number(bettingInfo.betting_amount || 0.25))
-          : 0.25;
+        const bettingAmount = bettingInfo?.betting_amount ?? 0;
+        const settings = bettingInfo ? await getBettingSettings(bettingInfo.game_type) : null;
 
         socket.emit("betting_info", {
           bettingAmount,
           bettingStatus: bettingInfo?.betting_status || "unlocked",
           userBalance,
           roomId,
+          settings,
         });
         
         // After sending betting info, check if game can start automatically
@@ -1774,9 +3400,9 @@ export const setupSocketHandlers = (io: Server): void => {
     });
 
     // Handle WebRTC offer
-    socket.on("webrtc_offer", (data: { offer: RTCSessionDescriptionInit }) => {
+    socket.on("webrtc_offer", async (data: { offer: RTCSessionDescriptionInit }) => {
       const socketWithUserId = socket as Socket & { userId?: string };
-      const roomId = userRooms.get(socketWithUserId.userId || "");
+      const roomId = await userRooms.get(socketWithUserId.userId || "");
       if (roomId) {
         socket.to(roomId).emit("webrtc_offer", {
           senderId: socketWithUserId.userId,
@@ -1786,9 +3412,9 @@ export const setupSocketHandlers = (io: Server): void => {
     });
 
     // Handle WebRTC answer
-    socket.on("webrtc_answer", (data: { answer: RTCSessionDescriptionInit }) => {
+    socket.on("webrtc_answer", async (data: { answer: RTCSessionDescriptionInit }) => {
       const socketWithUserId = socket as Socket & { userId?: string };
-      const roomId = userRooms.get(socketWithUserId.userId || "");
+      const roomId = await userRooms.get(socketWithUserId.userId || "");
       if (roomId) {
         socket.to(roomId).emit("webrtc_answer", {
           senderId: socketWithUserId.userId,
@@ -1798,9 +3424,9 @@ export const setupSocketHandlers = (io: Server): void => {
     });
 
     // Handle ICE candidate
-    socket.on("webrtc_ice_candidate", (data: { candidate: RTCIceCandidateInit }) => {
+    socket.on("webrtc_ice_candidate", async (data: { candidate: RTCIceCandidateInit }) => {
       const socketWithUserId = socket as Socket & { userId?: string };
-      const roomId = userRooms.get(socketWithUserId.userId || "");
+      const roomId = await userRooms.get(socketWithUserId.userId || "");
       if (roomId) {
         socket.to(roomId).emit("webrtc_ice_candidate", {
           senderId: socketWithUserId.userId,
@@ -1810,7 +3436,7 @@ export const setupSocketHandlers = (io: Server): void => {
     });
 
     // Handle rematch request
-    socket.on("rematch_request", async (data: { roomId?: string; gameType?: string }) => {
+    socket.on("rematch_request", async (data: { roomId?: string }) => {
       try {
         const socketWithUserId = socket as Socket & { userId?: string };
         if (!socketWithUserId.userId) return;
@@ -1825,7 +3451,8 @@ export const setupSocketHandlers = (io: Server): void => {
           return;
         }
 
-        const roomId = data.roomId || userRooms.get(socketWithUserId.userId);
+        const { userId } = socketWithUserId;
+        const roomId = data.roomId || await userRooms.get(userId);
         if (!roomId) {
           socket.emit("error", { 
             message: "Not in a room",
@@ -1834,226 +3461,202 @@ export const setupSocketHandlers = (io: Server): void => {
           return;
         }
 
-        // Get game type from room
-        const roomInfo = (await query(
-          "SELECT game_type FROM rooms WHERE id = ?",
-          [roomId],
-        )) as Array<{ game_type: string }>;
-        
-        if (roomInfo.length === 0) {
-          socket.emit("error", { 
-            message: "Room not found",
-            translationKey: "gameRoom.roomNotFound"
-          });
-          return;
-        }
-
-        const gameType = data.gameType || roomInfo[0].game_type;
+        // Game type to look for a new opponent in when the old one has left
+        const matchmakingGameType = await withRoomLock(roomId, async () => {
+          // Get game type and state from room
+          const roomInfo = (await query(
+            "SELECT game_type, status, betting_status FROM rooms WHERE id = ?",
+            [roomId],
+          )) as Array<{ game_type: string; status: string; betting_status: string }>;
 
-        // Check how many players are in the room
-        const players = await getRoomPlayers(roomId);
-        
-        // If only 1 player remains (opponent left), join matchmaking instead of rematch
-        if (players.length === 1) {
-          logger.info({ userId: socketWithUserId.userId, roomId, gameType }, "Only 1 player in room, joining matchmaking for rematch");
-          
-          // Leave current room
-          await removePlayerFromRoom(roomId, socketWithUserId.userId);
-          socket.leave(roomId);
-          userRooms.delete(socketWithUserId.userId);
-          rematchRequests.delete(roomId);
-          
-          // Clean up empty room
-          const remainingPlayers = await getRoomPlayers(roomId);
-          if (remainingPlayers.length === 0) {
-            removeGame(roomId);
-            await query("DELETE FROM rooms WHERE id = ?", [roomId]);
-          }
-          
-          // Join matchmaking queue for the same game type
-          // Reuse the join_random logic
-          const existingRoom = await getUserRoom(socketWithUserId.userId);
-          if (existingRoom) {
-            const stillInRoom = await checkPlayerInRoom(
-              existingRoom.id,
-              socketWithUserId.userId,
-            );
-            if (stillInRoom) {
-              await removePlayerFromRoom(existingRoom.id, socketWithUserId.userId);
-            }
-            socket.leave(existingRoom.id);
-            userRooms.delete(socketWithUserId.userId);
+          if (roomInfo.length === 0) {
+            socket.emit("error", { 
+              message: "Room not found",
+              translationKey: "gameRoom.roomNotFound"
+            });
+            return null;
           }
 
-          // Look for waiting room with available slot
-          let room = await findWaitingRoom(gameType);
+          // The rematch is always the game the room was created for
+          const gameType = roomInfo[0].game_type;
 
-          if (!room) {
-            // Create new room
-            const newRoomId = await createRoom(gameType);
-            await addPlayerToRoom(newRoomId, socketWithUserId.userId, true);
-            room = { id: newRoomId, player_count: 1 };
-          } else {
-            // Join existing room
-            const currentPlayers = await getRoomPlayers(room.id);
-            if (currentPlayers.length >= 2) {
-              // Room already full, create new one
-              const newRoomId = await createRoom(gameType);
-              await addPlayerToRoom(newRoomId, socketWithUserId.userId, true);
-              room = { id: newRoomId, player_count: 1 };
-            } else {
-              const alreadyInRoom = await checkPlayerInRoom(
-                room.id,
-                socketWithUserId.userId,
-              );
-              if (!alreadyInRoom) {
-                await addPlayerToRoom(room.id, socketWithUserId.userId, false);
-              }
-            }
-          }
+          // Check how many players are in the room
+          const players = await getRoomPlayers(roomId);
 
-          // Join socket room
-          socket.join(room.id);
-          userRooms.set(socketWithUserId.userId, room.id);
+          // If only 1 player remains (opponent left), join matchmaking instead of rematch
+          if (players.length === 1) {
+            logger.info({ userId, roomId, gameType }, "Only 1 player in room, joining matchmaking for rematch");
 
-          // Load and send chat history
-          const chatHistory = (await query(
-            "SELECT cm.id, cm.user_id, cm.message, cm.created_at, COALESCE(u.display_username, u.username) as username FROM chat_messages cm JOIN users u ON cm.user_id = u.id WHERE cm.room_id = ? ORDER BY cm.created_at ASC",
-            [room.id],
-          )) as Array<{
-            id: string;
-            user_id: string;
-            message: string;
-            created_at: Date;
-            username: string;
-          }>;
+            // Leave current room, which deletes it now that it is empty
+            await handlePlayerExit(io, roomId, userId);
+            socket.leave(roomId);
+            return gameType;
+          }
 
-          if (chatHistory.length > 0) {
-            socket.emit("chat_history", {
-              messages: chatHistory.map((msg) => ({
-                id: msg.id,
-                userId: msg.user_id,
-                username: msg.username,
-                message: msg.message,
-                timestamp: msg.created_at,
-              })),
+          // Only once the game is over and its stakes are paid out: unlocking betting
+          // while stakes are still held would cut their escrow loose
+          if (roomInfo[0].status === "playing" || roomInfo[0].betting_status === "locked") {
+            socket.emit("error", {
+              message: "The current game is not over yet",
+              translationKey: "gameRoom.rematchGameInProgress",
             });
+            return null;
           }
 
-          const newPlayers = await getRoomPlayers(room.id);
+          // Normal rematch flow when both players are present
+          const requestedBy = new Set(await rematchRequests.get(roomId));
+          requestedBy.add(userId);
+          await rematchRequests.set(roomId, [...requestedBy]);
+          await saveRematchRequests(roomId, [...requestedBy]);
+
+          if (requestedBy.size === players.length) {
+            // Unlock betting for rematch so players can negotiate new amount
+            const { defaultStake } = await getBettingSettings(gameType);
+            await query(
+              `UPDATE rooms SET betting_status = 'unlocked', betting_amount = ? WHERE id = ?`,
+              [defaultStake, roomId],
+            );
 
-          // Initialize game immediately (even with 1 player) so board is visible
-          let game = getGame(room.id);
-          if (!game) {
-            game = initializeGame(gameType as GameType);
-            setGame(room.id, game);
-          }
-          const gameState = getGameState(game);
+            // Clear any pending betting proposals for this room
+            await query(
+              `UPDATE betting_proposals SET status = 'rejected' WHERE room_id = ? AND status = 'pending'`,
+              [roomId],
+            );
 
-          const bettingInfo = await getRoomBettingInfo(room.id);
-          const bettingAmount = bettingInfo?.betting_amount || 0.25;
-          
-          if (newPlayers.length === 2) {
-            // Games are now free to play - no balance check required
-            await updateRoomStatus(room.id, "playing");
-            // Use setTimeout to ensure socket room join is complete
-            setTimeout(() => {
-              io.to(room.id).emit("game_start", {
-                roomId: room.id,
-                gameType,
-                players: newPlayers,
-                gameState,
-                canMove: true, // Allow moves when 2 players are present
-                bettingAmount,
-                bettingStatus: bettingInfo?.betting_status || "unlocked",
-              });
-            }, 100);
-          } else {
-            // Send game state even with 1 player so board is visible
-            logger.info(`Sending game_start to single player in room ${room.id}, players: ${newPlayers.length}`);
-            socket.emit("game_start", {
-              roomId: room.id,
+            const bettingInfo = await getRoomBettingInfo(roomId);
+            const bettingAmount = bettingInfo?.betting_amount ?? 0;
+        
+            // Games are now free to play - no balance check required for rematch
+            const game = initializeGame(gameType as GameType);
+            await setGame(roomId, gameType, game);
+            await updateRoomStatus(roomId, "playing");
+            const clock = await startGameClock(roomId, gameType as GameType);
+            await rematchRequests.delete(roomId);
+
+            const gameState = getGameState(game);
+        
+            // Get updated balances for all players
+            const updatedBalances: Array<{ userId: string; balance: number }> = [];
+            for (const player of players) {
+              const currentBalance = await getUserBalance(player.id);
+              updatedBalances.push({ userId: player.id, balance: currentBalance });
+            }
+        
+            io.to(roomId).emit("new_match_start", {
+              roomId,
               gameType,
-              players: newPlayers,
+              players,
               gameState,
-              canMove: false, // Disable moves until 2 players join
-              bettingAmount: bettingInfo?.betting_amount || 0.25,
+              bettingAmount,
               bettingStatus: bettingInfo?.betting_status || "unlocked",
+              balances: updatedBalances,
+              clock,
             });
-            socket.emit("waiting_for_player", { 
-              roomId: room.id, 
-              players: newPlayers,
-              gameState 
+            // Spectators keep watching the rematch, without the players' balances
+            io.to(getSpectatorChannel(roomId)).emit("new_match_start", {
+              roomId,
+              gameType,
+              players,
+              gameState,
+              clock,
             });
-            // Only emit player_joined to other players in the room (if any)
-            if (newPlayers.length > 1) {
-              socket.to(room.id).emit("player_joined", {
-                roomId: room.id,
-                players: newPlayers,
-              });
-            }
+          } else {
+            socket.emit("rematch_pending", { roomId });
           }
-          
-          // Emit a special event to notify frontend that rematch resulted in new room
-          socket.emit("rematch_new_room", {
-            oldRoomId: roomId,
-            newRoomId: room.id,
-            players: newPlayers,
-            gameType
-          });
-          
-          return; // Exit early since we've handled the rematch as matchmaking
+          return null;
+        });
+        if (!matchmakingGameType) {
+          return;
         }
+        const gameType = matchmakingGameType;
+
+        // Join matchmaking queue for the same game type
+        // Reuse the join_random logic
+        const rating = await getRating(userId, gameType);
+        const newRoomId = await takeSeat(
+          `matchmaking:${gameType}`,
+          userId,
+          async () => (await findWaitingRoom(gameType, rating, null))?.id ?? null,
+          () => createRoom(gameType),
+        );
+        notifyLobby(io);
+
+        // Join socket room
+        socket.join(newRoomId);
+        await userRooms.set(userId, newRoomId);
+
+        // Load and send chat history
+        const chatHistory = (await query(
+          "SELECT cm.id, cm.user_id, cm.message, cm.created_at, COALESCE(u.display_username, u.username) as username FROM chat_messages cm JOIN users u ON cm.user_id = u.id WHERE cm.room_id = ? ORDER BY cm.created_at ASC",
+          [newRoomId],
+        )) as Array<{
+          id: string;
+          user_id: string;
+          message: string;
+          created_at: Date;
+          username: string;
+        }>;
 
-        // Normal rematch flow when both players are present
-        if (!rematchRequests.has(roomId)) {
-          rematchRequests.set(roomId, new Set());
+        if (chatHistory.length > 0) {
+          socket.emit("chat_history", {
+            messages: chatHistory.map((msg) => ({
+              id: msg.id,
+              userId: msg.user_id,
+              username: msg.username,
+              message: msg.message,
+              timestamp: msg.created_at,
+            })),
+          });
         }
-        rematchRequests.get(roomId)!.add(socketWithUserId.userId);
 
-        if (rematchRequests.get(roomId)!.size === players.length) {
-          // Unlock betting for rematch so players can negotiate new amount
-          await query(
-            `UPDATE rooms SET betting_status = 'unlocked', betting_amount = 0.25 WHERE id = ?`,
-            [roomId],
-          );
+        const newPlayers = await getRoomPlayers(newRoomId);
 
-          // Clear any pending betting proposals for this room
-          await query(
-            `UPDATE betting_proposals SET status = 'rejected' WHERE room_id = ? AND status = 'pending'`,
-            [roomId],
-          );
+        // Initialize game immediately (even with 1 player) so board is visible
+        let game = await getGame(newRoomId);
+        if (!game) {
+          game = initializeGame(gameType as GameType);
+          await setGame(newRoomId, gameType as GameType, game);
+        }
+        const gameState = getGameState(game);
 
-          const bettingInfo = await getRoomBettingInfo(roomId);
-          const bettingAmount = bettingInfo?.betting_amount || 0.25;
-          
-          // Games are now free to play - no balance check required for rematch
-          const game = initializeGame(gameType as GameType);
-          setGame(roomId, game);
-          await updateRoomStatus(roomId, "playing");
-          rematchRequests.delete(roomId);
+        const bettingInfo = await getRoomBettingInfo(newRoomId);
 
-          const gameState = getGameState(game);
-          
-          // Get updated balances for all players
-          const updatedBalances: Array<{ userId: string; balance: number }> = [];
-          for (const player of players) {
-            const currentBalance = await getUserBalance(player.id);
-            updatedBalances.push({ userId: player.id, balance: currentBalance });
-          }
-          
-          io.to(roomId).emit("new_match_start", {
-            roomId,
+        if (newPlayers.length === 2) {
+          // Games are now free to play - no balance check required
+          await attemptGameStart(io, newRoomId);
+        } else {
+          // Send game state even with 1 player so board is visible
+          logger.info(`Sending game_start to single player in room ${newRoomId}, players: ${newPlayers.length}`);
+          socket.emit("game_start", {
+            roomId: newRoomId,
             gameType,
-            players,
+            players: newPlayers,
             gameState,
-            bettingAmount,
+            canMove: false, // Disable moves until 2 players join
+            bettingAmount: bettingInfo?.betting_amount ?? 0,
             bettingStatus: bettingInfo?.betting_status || "unlocked",
-            balances: updatedBalances,
           });
-        } else {
-          socket.emit("rematch_pending", { roomId });
+          socket.emit("waiting_for_player", { 
+            roomId: newRoomId, 
+            players: newPlayers,
+            gameState 
+          });
+          // Only emit player_joined to other players in the room (if any)
+          if (newPlayers.length > 1) {
+            socket.to(newRoomId).emit("player_joined", {
+              roomId: newRoomId,
+              players: newPlayers,
+            });
+          }
         }
+        
+        // Emit a special event to notify frontend that rematch resulted in new room
+        socket.emit("rematch_new_room", {
+          oldRoomId: roomId,
+          newRoomId,
+          players: newPlayers,
+          gameType
+        });
       } catch (error) {
         logger.error(error, "Error in rematch_request");
         socket.emit("error", { message: "Failed to request rematch" });
@@ -2066,78 +3669,16 @@ export const setupSocketHandlers = (io: Server): void => {
         const socketWithUserId = socket as Socket & { userId?: string };
         if (!socketWithUserId.userId) return;
 
-        const roomId = data.roomId || userRooms.get(socketWithUserId.userId);
+        const roomId = data.roomId || await userRooms.get(socketWithUserId.userId);
         if (!roomId) {
           logger.warn("User tried to leave room but not in any room");
           return;
         }
 
-        await removePlayerFromRoom(roomId, socketWithUserId.userId);
+        const { userId } = socketWithUserId;
+        await cancelReconnectGrace(userId);
         socket.leave(roomId);
-        userRooms.delete(socketWithUserId.userId);
-
-        const players = await getRoomPlayers(roomId);
-        if (players.length === 0) {
-          removeGame(roomId);
-          rematchRequests.delete(roomId);
-          await query("DELETE FROM rooms WHERE id = ?", [roomId]);
-        } else {
-          // Get room info and update status
-          const room = (await query("SELECT status, game_type FROM rooms WHERE id = ?", [
-            roomId,
-          ])) as Array<{ status: string; game_type: string }>;
-          
-          if (room.length > 0) {
-            const wasPlaying = room[0].status === "playing";
-            
-            // If game was playing and there's 1 remaining player, make them the winner
-            if (wasPlaying && players.length === 1) {
-              const winnerProcessed = await handlePlayerLeaveWinner(
-                io,
-                roomId,
-                socketWithUserId.userId,
-                players,
-                room[0].game_type,
-              );
-              
-              // If winner was processed, don't continue with normal leave flow
-              if (winnerProcessed) {
-                return;
-              }
-            }
-            
-            // Update room status to waiting if it was playing (and winner wasn't processed)
-            if (wasPlaying) {
-              await updateRoomStatus(roomId, "waiting");
-            }
-
-            // Get or initialize game state for remaining player
-            let game = getGame(roomId);
-            if (!game) {
-              game = initializeGame(room[0].game_type as GameType);
-              setGame(roomId, game);
-            }
-            const gameState = getGameState(game);
-
-            // Get betting info
-            const bettingInfo = await getRoomBettingInfo(roomId);
-
-            // Notify remaining player(s) with updated state
-            io.to(roomId).emit("player_left", {
-              userId: socketWithUserId.userId,
-              roomId,
-              players,
-            });
-
-            // Send waiting_for_player event with full state so remaining player can continue
-            io.to(roomId).emit("waiting_for_player", {
-              roomId,
-              players,
-              gameState,
-              canMove: false, // Disable moves until new player joins
-            });
-          }
-        }
+        await withRoomLock(roomId, () => handlePlayerExit(io, roomId, userId));
       } catch (error) {
         logger.error(error, "Error in leave_room");
       }
@@ -2148,85 +3689,43 @@ export const setupSocketHandlers = (io: Server): void => {
       logger.info({ socketId: socket.id }, "User disconnected");
       activeWSConnectionsGauge.dec();
 
+      await stopSpectating(io, socket);
+
       const socketWithUserId = socket as Socket & { userId?: string };
-      const userId = socketWithUserId.userId || socketToUser.get(socket.id);
+      const userId = socketWithUserId.userId || await socketToUser.get(socket.id);
       
       // Clean up session tracking
       if (userId) {
         // Only remove if this socket is the current active session
-        const currentSocketId = userSessions.get(userId);
+        const currentSocketId = await userSessions.get(userId);
         if (currentSocketId === socket.id) {
-          userSessions.delete(userId);
+          await userSessions.delete(userId);
         }
-        socketToUser.delete(socket.id);
+        await socketToUser.delete(socket.id);
         
-        const roomId = userRooms.get(userId);
+        // A session replaced by a newer login leaves the player's seat alone
+        const roomId = currentSocketId === socket.id ? await userRooms.get(userId) : undefined;
         if (roomId) {
-          await removePlayerFromRoom(roomId, userId);
-          userRooms.delete(userId);
+          await userRooms.delete(userId);
 
-          const players = await getRoomPlayers(roomId);
-          if (players.length === 0) {
-            removeGame(roomId);
-            rematchRequests.delete(roomId);
-            await query("DELETE FROM rooms WHERE id = ?", [roomId]);
-          } else {
-            // Get room info and update status
-            const room = (await query("SELECT status, game_type FROM rooms WHERE id = ?", [
+          // A move or a game end in flight finishes before the seat is released
+          await withRoomLock(roomId, async () => {
+            // Hold the seat of a player who drops out of a running game for a grace period
+            const room = (await query("SELECT status FROM rooms WHERE id = ?", [
               roomId,
-            ])) as Array<{ status: string; game_type: string }>;
-            
-            if (room.length > 0) {
-              const wasPlaying = room[0].status === "playing";
-              
-              // If game was playing and there's 1 remaining player, make them the winner
-              if (wasPlaying && players.length === 1) {
-                const winnerProcessed = await handlePlayerLeaveWinner(
-                  io,
-                  roomId,
-                  userId,
-                  players,
-                  room[0].game_type,
-                );
-                
-                // If winner was processed, don't continue with normal disconnect flow
-                if (winnerProcessed) {
-                  return;
-                }
-              }
-              
-              // Update room status to waiting if it was playing (and winner wasn't processed)
-              if (wasPlaying) {
-                await updateRoomStatus(roomId, "waiting");
-              }
-
-              // Get or initialize game state for remaining player
-              let game = getGame(roomId);
-              if (!game) {
-                game = initializeGame(room[0].game_type as GameType);
-                setGame(roomId, game);
-              }
-              const gameState = getGameState(game);
-
-              // Get betting info
-              const bettingInfo = await getRoomBettingInfo(roomId);
-
-              // Notify remaining player(s) with updated state
-              io.to(roomId).emit("player_left", {
-                userId,
-                roomId,
-                players,
-              });
+            ])) as Array<{ status: string }>;
+            const graceSeconds = config.game.reconnectGraceSeconds;
 
-              // Send waiting_for_player event with full state so remaining player can continue
-              io.to(roomId).emit("waiting_for_player", {
-                roomId,
-                players,
-                gameState,
-                canMove: false, // Disable moves until new player joins
-              });
+            if (room.length > 0 && room[0].status === "playing" && graceSeconds > 0) {
+              await startReconnectGrace(io, roomId, userId, graceSeconds);
+            } else {
+              await handlePlayerExit(io, roomId, userId);
             }
-          }
+          });
+        }
+
+        if (currentSocketId === socket.id) {
+          await broadcastPresence(io, [userId]);
         }
       }
     });
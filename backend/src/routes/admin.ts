@@ -1,8 +1,22 @@
 import express from "express";
-import { query } from "../db/connection.js";
+import { query, withTransaction } from "../db/connection.js";
 import logger from "../lib/logger.js";
 import { authenticateToken, requireAdmin, AuthRequest } from "../middleware/auth.js";
-import { getUserBalance, updateUserBalance } from "../utils/roomManager.js";
+import {
+  changeWalletBalance,
+  getLedgerSummary,
+  listLedgerEntries,
+  reconcileBalances,
+} from "../utils/ledgerManager.js";
+import { getRegisteredGameTypes, isGameType } from "../utils/gameManager.js";
+import {
+  BettingSettingsOverride,
+  DEFAULT_SETTINGS_KEY,
+  deleteBettingSettings,
+  listBettingSettings,
+  saveBettingSettings,
+  validateBettingSettings,
+} from "../utils/settingsManager.js";
 
 const router = express.Router();
 
@@ -184,7 +198,28 @@ router.post("/users/balance", async (req: AuthRequest, res) => {
       return res.status(400).json({ error: "Balance cannot be negative" });
     }
 
-    await query("UPDATE users SET balance = ? WHERE id = ?", [balance, targetUserId]);
+    // Post the difference as an adjustment, so the ledger shows who changed what
+    const change = await withTransaction(async (tx) => {
+      const users = (await tx(
+        "SELECT balance FROM users WHERE id = ? FOR UPDATE",
+        [targetUserId],
+      )) as Array<{ balance: number | string }>;
+      if (users.length === 0) {
+        return null;
+      }
+
+      return changeWalletBalance(tx, targetUserId, Number(balance) - Number(users[0].balance), "adjustments", {
+        type: "admin_adjustment",
+        referenceType: "user",
+        referenceId: targetUserId,
+        description: `Balance set to ${Number(balance).toFixed(2)} by admin`,
+        createdBy: req.userId,
+      });
+    });
+
+    if (!change) {
+      return res.status(404).json({ error: "User not found" });
+    }
 
     logger.info(`Admin updated balance for user ${targetUserId} to ${balance}`);
 
@@ -195,6 +230,120 @@ router.post("/users/balance", async (req: AuthRequest, res) => {
   }
 });
 
+// Get the balance of each system ledger account; total is 0 while the books balance
+router.post("/ledger/summary", async (_req: AuthRequest, res) => {
+  try {
+    res.json(await getLedgerSummary());
+  } catch (error) {
+    logger.error(error, "Error fetching ledger summary");
+    res.status(500).json({ error: "Failed to fetch ledger summary" });
+  }
+});
+
+// List ledger entries with their lines, optionally only those touching one account
+// (e.g. "wallet:<user id>" or "platform_revenue")
+router.post("/ledger/entries", async (req: AuthRequest, res) => {
+  try {
+    const { page = 1, limit = 50, accountId } = req.body;
+
+    const result = await listLedgerEntries({
+      page: Number(page) || 1,
+      limit: Number(limit) || 50,
+      accountId: typeof accountId === "string" && accountId.trim() ? accountId.trim() : undefined,
+    });
+
+    res.json(result);
+  } catch (error) {
+    logger.error(error, "Error fetching ledger entries");
+    res.status(500).json({ error: "Failed to fetch ledger entries" });
+  }
+});
+
+// List users whose stored balance doesn't match their ledger wallet
+router.post("/ledger/reconcile", async (_req: AuthRequest, res) => {
+  try {
+    const mismatches = await reconcileBalances();
+    res.json({ balanced: mismatches.length === 0, mismatches });
+  } catch (error) {
+    logger.error(error, "Error reconciling balances");
+    res.status(500).json({ error: "Failed to reconcile balances" });
+  }
+});
+
+// Get the betting settings: the default row and every per-game override
+router.post("/settings", async (_req: AuthRequest, res) => {
+  try {
+    res.json({
+      settings: await listBettingSettings(),
+      gameTypes: getRegisteredGameTypes(),
+    });
+  } catch (error) {
+    logger.error(error, "Error fetching betting settings");
+    res.status(500).json({ error: "Failed to fetch betting settings" });
+  }
+});
+
+// Create or replace the betting settings of a game type, or the default settings.
+// Values left empty fall back to the default settings (or mean "no limit" for
+// feeCap and maxStake in the default row).
+router.post("/settings/update", async (req: AuthRequest, res) => {
+  try {
+    const { gameType } = req.body;
+
+    if (gameType !== DEFAULT_SETTINGS_KEY && !isGameType(gameType)) {
+      return res.status(400).json({ error: "Unknown game type" });
+    }
+
+    const read = (value: unknown): number | null =>
+      value === null || value === undefined || value === "" ? null : Number(value);
+    const values: BettingSettingsOverride = {
+      feePercent: read(req.body.feePercent),
+      drawFeePercent: read(req.body.drawFeePercent),
+      feeCap: read(req.body.feeCap),
+      minStake: read(req.body.minStake),
+      maxStake: read(req.body.maxStake),
+      defaultStake: read(req.body.defaultStake),
+    };
+
+    const validation = await validateBettingSettings(gameType, values);
+    if (!validation.valid) {
+      return res.status(400).json({ error: validation.error });
+    }
+
+    await saveBettingSettings(gameType, values, req.userId!);
+
+    logger.info({ adminId: req.userId, gameType, values }, "Admin updated betting settings");
+
+    res.json({ message: "Betting settings updated successfully" });
+  } catch (error) {
+    logger.error(error, "Error updating betting settings");
+    res.status(500).json({ error: "Failed to update betting settings" });
+  }
+});
+
+// Remove a game type's overrides so it uses the default settings again
+router.post("/settings/delete", async (req: AuthRequest, res) => {
+  try {
+    const { gameType } = req.body;
+
+    if (!gameType || gameType === DEFAULT_SETTINGS_KEY) {
+      return res.status(400).json({ error: "Game type required; the default settings cannot be removed" });
+    }
+
+    const deleted = await deleteBettingSettings(gameType);
+    if (!deleted) {
+      return res.status(404).json({ error: "No settings found for this game type" });
+    }
+
+    logger.info({ adminId: req.userId, gameType }, "Admin removed betting settings override");
+
+    res.json({ message: "Betting settings removed successfully" });
+  } catch (error) {
+    logger.error(error, "Error removing betting settings");
+    res.status(500).json({ error: "Failed to remove betting settings" });
+  }
+});
+
 // Get user reports
 router.post("/reports", async (req: AuthRequest, res) => {
   try {
@@ -211,7 +360,13 @@ router.post("/reports", async (req: AuthRequest, res) => {
     const reports = (await query(
       `SELECT r.id, r.reported_user_id, r.reporter_user_id, r.room_id, r.reason, r.created_at,
               u1.username as reported_username,
-              u2.username as reporter_username
+              u2.username as reporter_username,
+              (SELECT m.id
+               FROM matches m
+               JOIN match_players reported ON reported.match_id = m.id AND reported.user_id = r.reported_user_id
+               JOIN match_players reporter ON reporter.match_id = m.id AND reporter.user_id = r.reporter_user_id
+               ORDER BY ABS(TIMESTAMPDIFF(SECOND, m.created_at, r.created_at))
+               LIMIT 1) as match_id
        FROM reports r
        JOIN users u1 ON r.reported_user_id = u1.id
        JOIN users u2 ON r.reporter_user_id = u2.id
@@ -227,6 +382,7 @@ router.post("/reports", async (req: AuthRequest, res) => {
       created_at: Date;
       reported_username: string;
       reporter_username: string;
+      match_id: string | null; // Match between the two players closest to the report
     }>;
 
     const countResult = (await query(
@@ -242,6 +398,7 @@ router.post("/reports", async (req: AuthRequest, res) => {
         reporterUserId: r.reporter_user_id,
         reporterUsername: r.reporter_username,
         roomId: r.room_id,
+        matchId: r.match_id,
         reason: r.reason,
         createdAt: r.created_at,
       })),
@@ -444,27 +601,46 @@ router.post("/withdrawals/approve", async (req: AuthRequest, res) => {
 
     const amount = typeof tx.amount === "number" ? tx.amount : Number(tx.amount || 0);
 
-    // Verify user still has sufficient balance
-    const currentBalance = await getUserBalance(tx.user_id);
-    if (currentBalance < amount) {
-      return res.status(400).json({
-        error: "User has insufficient balance",
-        currentBalance,
-        requestedAmount: amount,
+    // Deduct the balance and complete the request together; the request row is
+    // locked so it can't be approved twice
+    const result = await withTransaction(async (dbTx) => {
+      const rows = (await dbTx(
+        "SELECT status FROM pix_transactions WHERE id = ? FOR UPDATE",
+        [transactionId],
+      )) as Array<{ status: string }>;
+      if (rows[0]?.status !== "pending") {
+        return { approved: false, reason: "already_processed" } as const;
+      }
+
+      const change = await changeWalletBalance(dbTx, tx.user_id, -amount, "pix_clearing", {
+        type: "pix_withdrawal",
+        referenceType: "pix_transaction",
+        referenceId: transactionId,
       });
-    }
+      if (!change) {
+        return { approved: false, reason: "insufficient_balance" } as const;
+      }
+
+      await dbTx(
+        `UPDATE pix_transactions 
+         SET status = 'completed', balance_after = ?, updated_at = NOW()
+         WHERE id = ?`,
+        [change.balanceAfter, transactionId],
+      );
+      return { approved: true, newBalance: change.balanceAfter } as const;
+    });
 
-    // Deduct balance
-    const newBalance = currentBalance - amount;
-    await updateUserBalance(tx.user_id, newBalance);
+    if (!result.approved) {
+      if (result.reason === "insufficient_balance") {
+        return res.status(400).json({
+          error: "User has insufficient balance",
+          requestedAmount: amount,
+        });
+      }
+      return res.status(400).json({ error: "Withdrawal request is already processed" });
+    }
 
-    // Update transaction status
-    await query(
-      `UPDATE pix_transactions 
-       SET status = 'completed', balance_after = ?, updated_at = NOW()
-       WHERE id = ?`,
-      [newBalance, transactionId],
-    );
+    const { newBalance } = result;
 
     logger.info(
       `Withdrawal approved by admin ${req.userId}: transactionId=${transactionId}, userId=${tx.user_id}, amount=${amount}, newBalance=${newBalance}`,
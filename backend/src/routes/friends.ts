@@ -0,0 +1,32 @@
+import express from "express";
+import logger from "../lib/logger.js";
+import { getPresence } from "../lib/socket-handler.js";
+import { authenticateToken, AuthRequest } from "../middleware/auth.js";
+import { getFriendRequests, getFriends } from "../utils/friendManager.js";
+
+const router = express.Router();
+
+router.use(authenticateToken);
+
+// List the user's friends with their presence, and the friend requests still
+// waiting for an answer. Friend requests and challenges themselves go over the
+// socket, which sends friends_updated and friend_presence as this list changes.
+router.get("/", async (req: AuthRequest, res) => {
+  try {
+    const userId = req.userId!;
+    const [friends, requests] = await Promise.all([getFriends(userId), getFriendRequests(userId)]);
+
+    res.json({
+      friends: await Promise.all(
+        friends.map(async (friend) => ({ ...friend, presence: await getPresence(friend.id) })),
+      ),
+      incoming: requests.incoming,
+      outgoing: requests.outgoing,
+    });
+  } catch (error) {
+    logger.error(error, "Error fetching friends");
+    res.status(500).json({ error: "Failed to fetch friends" });
+  }
+});
+
+export default router;
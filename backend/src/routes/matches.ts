@@ -0,0 +1,106 @@
+import express from "express";
+import logger from "../lib/logger.js";
+import { authenticateToken, AuthRequest } from "../middleware/auth.js";
+import { getMatch } from "../utils/matchManager.js";
+import { getReplayStates, isGameType } from "../utils/gameManager.js";
+import { ChessGame } from "../games/chess.js";
+
+const router = express.Router();
+
+router.use(authenticateToken);
+
+// Get a finished match with the board state after every move, for the replay viewer.
+// Only the players of the match and admins may view it.
+router.get("/:matchId/replay", async (req: AuthRequest, res) => {
+  try {
+    const match = await getMatch(req.params.matchId);
+    if (!match) {
+      return res.status(404).json({ error: "Match not found" });
+    }
+
+    const isPlayer = match.players.some((p) => p.id === req.userId);
+    if (!isPlayer && req.userType !== "admin") {
+      return res.status(403).json({ error: "You can only replay your own matches" });
+    }
+
+    if (!isGameType(match.gameType)) {
+      return res.status(400).json({ error: "Game type is no longer available" });
+    }
+
+    res.json({
+      match: {
+        id: match.id,
+        gameType: match.gameType,
+        winnerId: match.winnerId,
+        isDraw: match.result === "draw",
+        createdAt: match.createdAt,
+        players: match.players,
+      },
+      moves: match.moves,
+      states: getReplayStates(match.gameType, match.moves),
+    });
+  } catch (error) {
+    logger.error(error, "Error fetching match replay");
+    res.status(500).json({ error: "Failed to fetch match replay" });
+  }
+});
+
+// Download a finished chess match as a PGN file.
+// Only the players of the match and admins may download it.
+router.get("/:matchId/pgn", async (req: AuthRequest, res) => {
+  try {
+    const match = await getMatch(req.params.matchId);
+    if (!match) {
+      return res.status(404).json({ error: "Match not found" });
+    }
+
+    const isPlayer = match.players.some((p) => p.id === req.userId);
+    if (!isPlayer && req.userType !== "admin") {
+      return res.status(403).json({ error: "You can only download your own matches" });
+    }
+
+    if (match.gameType !== "chess") {
+      return res.status(400).json({ error: "PGN export is only available for chess" });
+    }
+
+    const white = match.players.find((p) => p.team === "w");
+    const black = match.players.find((p) => p.team === "b");
+
+    let result = "*";
+    if (match.result === "draw") {
+      result = "1/2-1/2";
+    } else if (match.winnerId && match.winnerId === white?.id) {
+      result = "1-0";
+    } else if (match.winnerId && match.winnerId === black?.id) {
+      result = "0-1";
+    }
+
+    const date = new Date(match.createdAt);
+    const pgn = ChessGame.toPGN(match.moves, {
+      Event: "Stranger Betting match",
+      Site: req.get("host") || "?",
+      Date: [
+        date.getUTCFullYear(),
+        String(date.getUTCMonth() + 1).padStart(2, "0"),
+        String(date.getUTCDate()).padStart(2, "0"),
+      ].join("."),
+      Round: "-",
+      White: white?.username || "?",
+      Black: black?.username || "?",
+      Result: result,
+      Stake: match.stake.toFixed(2),
+    });
+
+    res.setHeader("Content-Type", "application/x-chess-pgn");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="match-${match.id}.pgn"`,
+    );
+    res.send(pgn);
+  } catch (error) {
+    logger.error(error, "Error exporting match PGN");
+    res.status(500).json({ error: "Failed to export match PGN" });
+  }
+});
+
+export default router;
@@ -1,8 +1,9 @@
 import express from "express";
 import { v4 as uuidv4 } from "uuid";
-import { query } from "../db/connection.js";
+import { query, withTransaction } from "../db/connection.js";
 import logger from "../lib/logger.js";
-import { getUserBalance, updateUserBalance } from "../utils/roomManager.js";
+import { getUserBalance } from "../utils/roomManager.js";
+import { changeWalletBalance } from "../utils/ledgerManager.js";
 import { authenticateToken, AuthRequest } from "../middleware/auth.js";
 import { config } from "../config/env.js";
 import { createRequire } from "module";
@@ -287,6 +288,42 @@ async function getPaymentStatusFromMercadoPago(paymentId: string | number) {
   }
 }
 
+/**
+ * Credit an approved Pix deposit to the user's wallet, once. The transaction row
+ * is locked first, so a status poll and the webhook can't both credit it.
+ * @param transactionId Pix transaction ID
+ * @returns The user's new balance, or null if the deposit was already settled
+ */
+async function completePixDeposit(transactionId: string): Promise<number | null> {
+  return withTransaction(async (tx) => {
+    const rows = (await tx(
+      `SELECT user_id, amount, status FROM pix_transactions
+       WHERE id = ? AND transaction_type = 'deposit' FOR UPDATE`,
+      [transactionId],
+    )) as Array<{ user_id: string; amount: number | string; status: string }>;
+
+    if (rows.length === 0 || (rows[0].status !== "pending" && rows[0].status !== "processing")) {
+      return null;
+    }
+
+    const amount = Number(rows[0].amount);
+    const change = await changeWalletBalance(tx, rows[0].user_id, amount, "pix_clearing", {
+      type: "pix_deposit",
+      referenceType: "pix_transaction",
+      referenceId: transactionId,
+    });
+    if (!change) {
+      return null;
+    }
+
+    await tx(
+      `UPDATE pix_transactions SET status = 'completed', balance_after = ?, updated_at = NOW() WHERE id = ?`,
+      [change.balanceAfter, transactionId],
+    );
+    return change.balanceAfter;
+  });
+}
+
 const router = express.Router();
 
 // Use JWT authentication middleware for all pix routes
@@ -481,14 +518,10 @@ router.get("/deposit/status/:transactionId", async (req: AuthRequest, res) => {
         if (mpStatus === "approved") {
           newStatus = "completed";
           if (tx.status === "pending" || tx.status === "processing") {
-            const amount = typeof tx.amount === "number" ? tx.amount : Number(tx.amount || 0);
-            const currentBalance = await getUserBalance(userId);
-            const newBalance = currentBalance + amount;
-
-            await updateUserBalance(userId, newBalance);
-
-            await query(`UPDATE pix_transactions SET status = 'completed', balance_after = ?, updated_at = NOW() WHERE id = ?`, [newBalance, transactionId]);
-            logger.info(`Pix deposit completed: userId=${userId}, amount=${amount}, newBalance=${newBalance}`);
+            const newBalance = await completePixDeposit(transactionId);
+            if (newBalance !== null) {
+              logger.info(`Pix deposit completed: userId=${userId}, amount=${tx.amount}, newBalance=${newBalance}`);
+            }
           }
         } else if (mpStatus === "rejected" || mpStatus === "cancelled") {
           newStatus = "failed";
@@ -897,20 +930,10 @@ router.post("/webhook", async (req, res) => {
             const mpStatus = payment?.status ?? null;
 
             if (mpStatus === "approved" && (tx.status === "pending" || tx.status === "processing")) {
-              const amount = typeof tx.amount === "number" ? tx.amount : Number(tx.amount || 0);
-              const currentBalance = await getUserBalance(tx.user_id);
-              const newBalance = currentBalance + amount;
-
-              await updateUserBalance(tx.user_id, newBalance);
-
-              await query(
-                `UPDATE pix_transactions 
-                 SET status = 'completed', balance_after = ?, updated_at = NOW() 
-                 WHERE id = ?`,
-                [newBalance, tx.id],
-              );
-
-              logger.info(`Pix deposit completed via webhook: userId=${tx.user_id}, amount=${amount}, newBalance=${newBalance}`);
+              const newBalance = await completePixDeposit(tx.id);
+              if (newBalance !== null) {
+                logger.info(`Pix deposit completed via webhook: userId=${tx.user_id}, amount=${tx.amount}, newBalance=${newBalance}`);
+              }
             } else if (mpStatus === "rejected" || mpStatus === "cancelled") {
               if (tx.status === "pending" || tx.status === "processing") {
                 await query(
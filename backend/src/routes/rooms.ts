@@ -0,0 +1,73 @@
+import express from "express";
+import logger from "../lib/logger.js";
+import { authenticateToken, AuthRequest } from "../middleware/auth.js";
+import { isGameType } from "../utils/gameManager.js";
+import { verifyInviteToken } from "../utils/jwt.js";
+import { getPrivateRoom, listWaitingRooms } from "../utils/roomManager.js";
+
+const router = express.Router();
+
+router.use(authenticateToken);
+
+// List the rooms waiting for an opponent, for the lobby. Clients watching the
+// lobby over the socket get lobby_updated when the list changes.
+router.get("/", async (req: AuthRequest, res) => {
+  try {
+    const page = Math.max(1, Math.floor(Number(req.query.page)) || 1);
+    const limit = Math.max(1, Math.min(Math.floor(Number(req.query.limit)) || 20, 100));
+    const gameType = typeof req.query.gameType === "string" ? req.query.gameType : undefined;
+
+    if (gameType !== undefined && !isGameType(gameType)) {
+      return res.status(400).json({ error: "Invalid game type" });
+    }
+
+    const { rooms, total } = await listWaitingRooms({ page, limit, gameType });
+
+    res.json({
+      rooms,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    logger.error(error, "Error fetching lobby rooms");
+    res.status(500).json({ error: "Failed to fetch rooms" });
+  }
+});
+
+// Show what an invite leads to before joining it with join_invite. The
+// password, if any, is only checked on join.
+router.get("/invites/:token", async (req: AuthRequest, res) => {
+  try {
+    const invite = verifyInviteToken(req.params.token);
+    if (!invite) {
+      return res.status(404).json({ error: "Invite is invalid or has expired" });
+    }
+
+    const room = await getPrivateRoom(invite.roomId);
+    if (!room) {
+      return res.status(404).json({ error: "Room not found" });
+    }
+
+    res.json({
+      roomId: room.id,
+      gameType: room.gameType,
+      hostId: room.hostId,
+      hostName: room.hostName,
+      hasPassword: room.hasPassword,
+      stake: room.stakeRange?.min ?? null,
+      timeControl: room.timeControl,
+      timeIncrement: room.timeIncrement,
+      available: room.status === "waiting" && room.playerCount === 1,
+      expiresAt: invite.expiresAt,
+    });
+  } catch (error) {
+    logger.error(error, "Error fetching invite");
+    res.status(500).json({ error: "Failed to fetch invite" });
+  }
+});
+
+export default router;
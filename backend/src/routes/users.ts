@@ -0,0 +1,73 @@
+import express from "express";
+import { query } from "../db/connection.js";
+import logger from "../lib/logger.js";
+import { authenticateToken, AuthRequest } from "../middleware/auth.js";
+import { getUserRatings } from "../utils/ratingManager.js";
+import { getBettingTotals, getPlayerStats, getRecentMatches } from "../utils/statsManager.js";
+
+const router = express.Router();
+
+router.use(authenticateToken);
+
+// Get a user's rating for every game type they have played, for their profile
+router.get("/:userId/ratings", async (req: AuthRequest, res) => {
+  try {
+    const users = (await query(
+      "SELECT id, COALESCE(display_username, username) as username FROM users WHERE id = ?",
+      [req.params.userId],
+    )) as Array<{ id: string; username: string }>;
+
+    if (users.length === 0) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    res.json({
+      userId: users[0].id,
+      username: users[0].username,
+      ratings: await getUserRatings(users[0].id),
+    });
+  } catch (error) {
+    logger.error(error, "Error fetching user ratings");
+    res.status(500).json({ error: "Failed to fetch user ratings" });
+  }
+});
+
+// Get a user's profile: their record per game type, win streaks, betting
+// totals, latest matches and whether they have a clean report history
+router.get("/:userId/profile", async (req: AuthRequest, res) => {
+  try {
+    const users = (await query(
+      `SELECT id, COALESCE(display_username, username) as username, created_at, report_count
+       FROM users WHERE id = ? AND user_type = 'user'`,
+      [req.params.userId],
+    )) as Array<{ id: string; username: string; created_at: Date; report_count: number | null }>;
+
+    if (users.length === 0) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    const user = users[0];
+    const [stats, betting, recentMatches, ratings] = await Promise.all([
+      getPlayerStats(user.id),
+      getBettingTotals(user.id),
+      getRecentMatches(user.id, 10),
+      getUserRatings(user.id),
+    ]);
+
+    res.json({
+      userId: user.id,
+      username: user.username,
+      memberSince: user.created_at,
+      reportFree: !user.report_count,
+      stats,
+      betting,
+      ratings,
+      recentMatches,
+    });
+  } catch (error) {
+    logger.error(error, "Error fetching user profile");
+    res.status(500).json({ error: "Failed to fetch user profile" });
+  }
+});
+
+export default router;
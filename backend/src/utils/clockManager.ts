@@ -0,0 +1,240 @@
+import { createSharedMap } from "../lib/shared-state.js";
+
+export type TimeControl = "none" | "bullet" | "blitz" | "rapid";
+
+// Base time per player for each time control, in milliseconds
+export const TIME_CONTROLS: Record<Exclude<TimeControl, "none">, number> = {
+  bullet: 60 * 1000,
+  blitz: 5 * 60 * 1000,
+  rapid: 10 * 60 * 1000,
+};
+
+export const MAX_INCREMENT_SECONDS = 30;
+
+export interface ClockState {
+  timeControl: TimeControl;
+  incrementSeconds: number;
+  remaining: Record<string, number>; // team -> milliseconds left
+  activeTeam: string | null; // team whose clock is running
+}
+
+interface RoomClock {
+  state: ClockState;
+  turnStartedAt: number;
+}
+
+// Clocks are shared between instances. The instance that last started or
+// switched a clock keeps a timer for the running team; when it fires, the
+// flag handler checks the shared clock, since a move on another instance may
+// have switched it in the meantime.
+const roomClocks = createSharedMap<RoomClock>("roomClocks"); // roomId -> clock
+const flagTimers = new Map<string, NodeJS.Timeout>(); // roomId -> timer on this instance
+
+let flagHandler: (roomId: string) => void = () => {};
+
+export const isTimeControl = (value: unknown): value is TimeControl => {
+  return value === "none" || (typeof value === "string" && value in TIME_CONTROLS);
+};
+
+/**
+ * Normalize an increment chosen by the client to a whole number of seconds
+ * within the allowed range
+ */
+export const normalizeIncrement = (value: unknown): number => {
+  const increment = Math.floor(Number(value) || 0);
+  return Math.min(Math.max(increment, 0), MAX_INCREMENT_SECONDS);
+};
+
+/**
+ * Set what happens when a running clock may have run out. The handler should
+ * confirm it with claimFlagFall().
+ * @param handler Called with the room ID
+ */
+export const onFlagFall = (handler: (roomId: string) => void): void => {
+  flagHandler = handler;
+};
+
+const clearFlagTimer = (roomId: string): void => {
+  const timer = flagTimers.get(roomId);
+  if (timer) {
+    clearTimeout(timer);
+    flagTimers.delete(roomId);
+  }
+};
+
+/**
+ * Time left on a clock right now, with the running team's turn deducted
+ */
+const getRemaining = (clock: RoomClock): Record<string, number> => {
+  const remaining = { ...clock.state.remaining };
+  const activeTeam = clock.state.activeTeam;
+  if (activeTeam) {
+    remaining[activeTeam] = Math.max(
+      remaining[activeTeam] - (Date.now() - clock.turnStartedAt),
+      0,
+    );
+  }
+  return remaining;
+};
+
+const scheduleFlag = (roomId: string, clock: RoomClock): void => {
+  clearFlagTimer(roomId);
+
+  const team = clock.state.activeTeam;
+  if (!team) {
+    return;
+  }
+
+  flagTimers.set(
+    roomId,
+    setTimeout(() => {
+      flagTimers.delete(roomId);
+      flagHandler(roomId);
+    }, getRemaining(clock)[team]),
+  );
+};
+
+/**
+ * Start the clocks for a room. The first team's clock starts running
+ * immediately; any previous clock for the room is replaced.
+ * @param roomId Room ID
+ * @param timeControl Time control chosen for the room
+ * @param incrementSeconds Seconds added after each completed turn
+ * @param teams Teams in turn order, the first one moves first
+ * @returns The initial clock state, or null when the room has no time control
+ */
+export const startClock = async (
+  roomId: string,
+  timeControl: TimeControl,
+  incrementSeconds: number,
+  teams: string[],
+): Promise<ClockState | null> => {
+  await stopClock(roomId);
+
+  if (timeControl === "none") {
+    return null;
+  }
+
+  const remaining: Record<string, number> = {};
+  for (const team of teams) {
+    remaining[team] = TIME_CONTROLS[timeControl];
+  }
+
+  const clock: RoomClock = {
+    state: {
+      timeControl,
+      incrementSeconds,
+      remaining,
+      activeTeam: teams[0],
+    },
+    turnStartedAt: Date.now(),
+  };
+
+  await roomClocks.set(roomId, clock);
+  scheduleFlag(roomId, clock);
+
+  return getClockState(roomId);
+};
+
+/**
+ * Resume a room's clocks from a saved state, e.g. after a restart. The time
+ * the server was down is not charged to the team on turn.
+ * @param roomId Room ID
+ * @param state Clock state as it was saved
+ * @returns The resumed clock state
+ */
+export const resumeClock = async (
+  roomId: string,
+  state: ClockState,
+): Promise<ClockState | null> => {
+  await stopClock(roomId);
+
+  const clock: RoomClock = {
+    state: { ...state, remaining: { ...state.remaining } },
+    turnStartedAt: Date.now(),
+  };
+
+  await roomClocks.set(roomId, clock);
+  scheduleFlag(roomId, clock);
+
+  return getClockState(roomId);
+};
+
+/**
+ * Hand the clock to the team now on turn. The team that just finished its
+ * turn is charged the elapsed time and receives the increment. Nothing
+ * changes when the same team keeps the turn (e.g. a multi-jump).
+ * @param roomId Room ID
+ * @param nextTeam Team whose turn it is now
+ * @returns Updated clock state, or null when the room has no clock
+ */
+export const switchClock = async (
+  roomId: string,
+  nextTeam: string,
+): Promise<ClockState | null> => {
+  const clock = await roomClocks.get(roomId);
+  if (!clock) {
+    return null;
+  }
+
+  const previousTeam = clock.state.activeTeam;
+  if (!previousTeam || previousTeam === nextTeam) {
+    return getClockState(roomId);
+  }
+
+  const now = Date.now();
+  const elapsed = now - clock.turnStartedAt;
+  clock.state.remaining[previousTeam] = Math.max(
+    clock.state.remaining[previousTeam] - elapsed,
+    0,
+  ) + clock.state.incrementSeconds * 1000;
+  clock.state.activeTeam = nextTeam;
+  clock.turnStartedAt = now;
+
+  await roomClocks.set(roomId, clock);
+  scheduleFlag(roomId, clock);
+
+  return getClockState(roomId);
+};
+
+/**
+ * Get the current clock state with the running clock's time already deducted
+ * @param roomId Room ID
+ * @returns Clock state, or null when the room has no clock
+ */
+export const getClockState = async (roomId: string): Promise<ClockState | null> => {
+  const clock = await roomClocks.get(roomId);
+  if (!clock) {
+    return null;
+  }
+
+  return { ...clock.state, remaining: getRemaining(clock) };
+};
+
+/**
+ * Stop a room's clock if the running team's time is up
+ * @param roomId Room ID
+ * @returns The team whose time ran out, or null if nobody's has
+ */
+export const claimFlagFall = async (roomId: string): Promise<string | null> => {
+  const clock = await roomClocks.get(roomId);
+  const team = clock?.state.activeTeam;
+  if (!clock || !team) {
+    return null;
+  }
+
+  if (getRemaining(clock)[team] > 0) {
+    // The clock was switched since the timer was set, maybe on another
+    // instance, so check again when the team now on turn would run out
+    scheduleFlag(roomId, clock);
+    return null;
+  }
+
+  await stopClock(roomId);
+  return team;
+};
+
+export const stopClock = async (roomId: string): Promise<void> => {
+  clearFlagTimer(roomId);
+  await roomClocks.delete(roomId);
+};
@@ -0,0 +1,193 @@
+import { v4 as uuidv4 } from "uuid";
+import { query } from "../db/connection.js";
+
+// Friendships between users. A friendship starts as a request from one user
+// and becomes mutual once the other accepts it. Either side can remove it.
+
+export interface Friend {
+  id: string;
+  username: string;
+  since: Date;
+}
+
+export interface FriendRequest {
+  id: string;
+  userId: string; // The other user: the requester for incoming, the addressee for outgoing
+  username: string;
+  createdAt: Date;
+}
+
+/**
+ * Find the friendship or pending request between two users, in either direction
+ * @param userId User ID
+ * @param otherId User ID of the other user
+ */
+export const getFriendship = async (
+  userId: string,
+  otherId: string,
+): Promise<{ id: string; requesterId: string; status: "pending" | "accepted" } | null> => {
+  const rows = (await query(
+    `SELECT id, requester_id, status FROM friendships
+     WHERE (requester_id = ? AND addressee_id = ?) OR (requester_id = ? AND addressee_id = ?)
+     LIMIT 1`,
+    [userId, otherId, otherId, userId],
+  )) as Array<{ id: string; requester_id: string; status: "pending" | "accepted" }>;
+
+  return rows.length > 0
+    ? { id: rows[0].id, requesterId: rows[0].requester_id, status: rows[0].status }
+    : null;
+};
+
+/**
+ * Check whether two users are friends
+ * @param userId User ID
+ * @param otherId User ID of the other user
+ */
+export const areFriends = async (userId: string, otherId: string): Promise<boolean> => {
+  return (await getFriendship(userId, otherId))?.status === "accepted";
+};
+
+/**
+ * Ask another user to be friends. A request the other user already sent is
+ * accepted instead. Call under a lock on the pair, so two requests can't cross.
+ * @param userId User ID of the requester
+ * @param otherId User ID of the addressee
+ * @returns What happened: a new request, or a friendship made from the other user's request
+ */
+export const sendFriendRequest = async (
+  userId: string,
+  otherId: string,
+): Promise<"requested" | "accepted" | "already_requested" | "already_friends"> => {
+  const existing = await getFriendship(userId, otherId);
+  if (existing?.status === "accepted") {
+    return "already_friends";
+  }
+  if (existing && existing.requesterId === userId) {
+    return "already_requested";
+  }
+  if (existing) {
+    await query(
+      "UPDATE friendships SET status = 'accepted', accepted_at = NOW() WHERE id = ?",
+      [existing.id],
+    );
+    return "accepted";
+  }
+
+  await query(
+    "INSERT INTO friendships (id, requester_id, addressee_id, status) VALUES (?, ?, ?, 'pending')",
+    [uuidv4(), userId, otherId],
+  );
+  return "requested";
+};
+
+/**
+ * Accept or decline a friend request sent to a user
+ * @param requestId Friendship ID of the request
+ * @param userId User ID of the addressee
+ * @param accept Whether to accept the request
+ * @returns User ID of the requester, or null if the user has no such pending request
+ */
+export const respondToFriendRequest = async (
+  requestId: string,
+  userId: string,
+  accept: boolean,
+): Promise<string | null> => {
+  const rows = (await query(
+    "SELECT requester_id FROM friendships WHERE id = ? AND addressee_id = ? AND status = 'pending'",
+    [requestId, userId],
+  )) as Array<{ requester_id: string }>;
+  if (rows.length === 0) {
+    return null;
+  }
+
+  if (accept) {
+    await query(
+      "UPDATE friendships SET status = 'accepted', accepted_at = NOW() WHERE id = ?",
+      [requestId],
+    );
+  } else {
+    await query("DELETE FROM friendships WHERE id = ?", [requestId]);
+  }
+  return rows[0].requester_id;
+};
+
+/**
+ * End a friendship, or withdraw a pending request, in either direction
+ * @param userId User ID
+ * @param otherId User ID of the other user
+ * @returns Whether there was anything to remove
+ */
+export const removeFriend = async (userId: string, otherId: string): Promise<boolean> => {
+  const existing = await getFriendship(userId, otherId);
+  if (!existing) {
+    return false;
+  }
+  await query("DELETE FROM friendships WHERE id = ?", [existing.id]);
+  return true;
+};
+
+/**
+ * Get the IDs of a user's friends
+ * @param userId User ID
+ */
+export const getFriendIds = async (userId: string): Promise<string[]> => {
+  const rows = (await query(
+    `SELECT IF(requester_id = ?, addressee_id, requester_id) as friend_id FROM friendships
+     WHERE (requester_id = ? OR addressee_id = ?) AND status = 'accepted'`,
+    [userId, userId, userId],
+  )) as Array<{ friend_id: string }>;
+  return rows.map((row) => row.friend_id);
+};
+
+/**
+ * Get a user's friends, by name
+ * @param userId User ID
+ */
+export const getFriends = async (userId: string): Promise<Friend[]> => {
+  const rows = (await query(
+    `SELECT u.id, COALESCE(u.display_username, u.username) as username, f.accepted_at
+     FROM friendships f
+     JOIN users u ON u.id = IF(f.requester_id = ?, f.addressee_id, f.requester_id)
+     WHERE (f.requester_id = ? OR f.addressee_id = ?) AND f.status = 'accepted'
+     ORDER BY username`,
+    [userId, userId, userId],
+  )) as Array<{ id: string; username: string; accepted_at: Date }>;
+
+  return rows.map((row) => ({ id: row.id, username: row.username, since: row.accepted_at }));
+};
+
+/**
+ * Get the pending friend requests a user has received and sent, newest first
+ * @param userId User ID
+ */
+export const getFriendRequests = async (
+  userId: string,
+): Promise<{ incoming: FriendRequest[]; outgoing: FriendRequest[] }> => {
+  const rows = (await query(
+    `SELECT f.id, f.requester_id, f.created_at, u.id as user_id,
+       COALESCE(u.display_username, u.username) as username
+     FROM friendships f
+     JOIN users u ON u.id = IF(f.requester_id = ?, f.addressee_id, f.requester_id)
+     WHERE (f.requester_id = ? OR f.addressee_id = ?) AND f.status = 'pending'
+     ORDER BY f.created_at DESC`,
+    [userId, userId, userId],
+  )) as Array<{
+    id: string;
+    requester_id: string;
+    created_at: Date;
+    user_id: string;
+    username: string;
+  }>;
+
+  const toRequest = (row: (typeof rows)[number]): FriendRequest => ({
+    id: row.id,
+    userId: row.user_id,
+    username: row.username,
+    createdAt: row.created_at,
+  });
+
+  return {
+    incoming: rows.filter((row) => row.requester_id !== userId).map(toRequest),
+    outgoing: rows.filter((row) => row.requester_id === userId).map(toRequest),
+  };
+};
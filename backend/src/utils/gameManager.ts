@@ -1,74 +1,110 @@
-import { CheckersGame } from "../games/checkers.js";
-import { ChessGame } from "../games/chess.js";
-import { TicTacToeGame } from "../games/ticTacToe.js";
+import {
+  GameEngine,
+  GameMoveRecord,
+  GameOutcome,
+  getGameDefinition,
+} from "../games/index.js";
+import { createSharedMap } from "../lib/shared-state.js";
 
-export type GameType = "tic_tac_toe" | "checkers" | "chess";
-export type GameInstance = TicTacToeGame | CheckersGame | ChessGame;
+export { isGameType, getRegisteredGameTypes } from "../games/index.js";
 
-const activeGames = new Map<string, GameInstance>();
+export type GameType = string;
+export type GameInstance = GameEngine;
+
+// Games are shared between instances in serialized form, so a room's game can
+// be picked up by whichever instance handles its next event
+const activeGames = createSharedMap<{ gameType: GameType; data: string }>("activeGames");
 
 export const initializeGame = (gameType: GameType): GameInstance => {
-  switch (gameType) {
-    case "tic_tac_toe":
-      return new TicTacToeGame();
-    case "checkers":
-      return new CheckersGame();
-    case "chess":
-      return new ChessGame();
-    default:
-      throw new Error(`Unknown game type: ${gameType}`);
-  }
+  return getGameDefinition(gameType).create();
+};
+
+/**
+ * Rebuild a game from the output of its serialize()
+ */
+export const restoreGame = (gameType: GameType, data: string): GameInstance => {
+  return getGameDefinition(gameType).deserialize(data);
+};
+
+/**
+ * Teams for a game type in turn order; player index 0 gets the first team
+ */
+export const getGameTeams = (gameType: GameType): [string, string] => {
+  const [first, second] = getGameDefinition(gameType).teams;
+  return [first, second];
+};
+
+export const getPlayerTeam = (gameType: GameType, playerIndex: number): string => {
+  return getGameTeams(gameType)[playerIndex === 0 ? 0 : 1];
+};
+
+/**
+ * Team whose turn it currently is
+ */
+export const getCurrentTeam = (game: GameInstance): string => {
+  return game.getCurrentTeam();
+};
+
+export const getGameOutcome = (game: GameInstance): GameOutcome | null => {
+  return game.getOutcome();
 };
 
 export const getGameState = (game: GameInstance) => {
   return game.getState();
 };
 
-export const getGame = (roomId: string): GameInstance | undefined => {
-  return activeGames.get(roomId);
+/**
+ * Get a room's game. The game is a copy: save changes with setGame().
+ */
+export const getGame = async (roomId: string): Promise<GameInstance | undefined> => {
+  const stored = await activeGames.get(roomId);
+  return stored ? restoreGame(stored.gameType, stored.data) : undefined;
 };
 
-export const setGame = (roomId: string, game: GameInstance): void => {
-  activeGames.set(roomId, game);
+export const hasGame = (roomId: string): Promise<boolean> => {
+  return activeGames.has(roomId);
 };
 
-export const removeGame = (roomId: string): void => {
-  activeGames.delete(roomId);
+export const setGame = (roomId: string, gameType: GameType, game: GameInstance): Promise<void> => {
+  return activeGames.set(roomId, { gameType, data: game.serialize() });
 };
 
-export const validateMove = (
+export const removeGame = (roomId: string): Promise<void> => {
+  return activeGames.delete(roomId);
+};
+
+/**
+ * Replay a recorded move history from the starting position
+ * @param gameType Game type
+ * @param moves Move history as stored with the match
+ * @returns Game state before the first move followed by the state after each move
+ */
+export const getReplayStates = (
   gameType: GameType,
+  moves: GameMoveRecord[],
+): unknown[] => {
+  const game = initializeGame(gameType);
+  // States share arrays with the live game, so copy each snapshot
+  const snapshot = () => JSON.parse(JSON.stringify(game.getState())) as unknown;
+
+  const states = [snapshot()];
+  for (const record of moves) {
+    if (!game.applyMove(record.move, record.team, record.playerId)) {
+      break;
+    }
+    states.push(snapshot());
+  }
+  return states;
+};
+
+export const validateMove = (
   game: GameInstance,
   move: unknown,
   playerTeam: string,
+  playerId: string,
 ): { valid: boolean; error?: string; gameState?: unknown } => {
   try {
-    let isValid = false;
-
-    if (gameType === "tic_tac_toe") {
-      const tttGame = game as TicTacToeGame;
-      const moveData = move as { index: number };
-      isValid = tttGame.makeMove(moveData.index, playerTeam);
-    } else if (gameType === "checkers") {
-      const checkersGame = game as CheckersGame;
-      const moveData = move as { from: { x: number; y: number }; to: { x: number; y: number } };
-      isValid = checkersGame.makeMove(moveData.from, moveData.to, playerTeam);
-    } else if (gameType === "chess") {
-      const chessGame = game as ChessGame;
-      const moveData = move as { 
-        from: { x: number; y: number }; 
-        to: { x: number; y: number };
-        promotionType?: string;
-      };
-      isValid = chessGame.makeMove(
-        moveData.from, 
-        moveData.to, 
-        playerTeam,
-        moveData.promotionType
-      );
-    }
-
-    if (!isValid) {
+    if (!game.applyMove(move, playerTeam, playerId)) {
       return { valid: false, error: "Invalid move" };
     }
 
@@ -77,4 +113,3 @@ export const validateMove = (
     return { valid: false, error: (error as Error).message };
   }
 };
-
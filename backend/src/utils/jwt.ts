@@ -2,6 +2,8 @@ import jwt, { SignOptions } from "jsonwebtoken";
 
 const JWT_SECRET: string = process.env.JWT_SECRET || "your-secret-key-change-in-production";
 const JWT_EXPIRES_IN: string = process.env.JWT_EXPIRES_IN || "7d"; // 7 days default
+// Invites are signed with their own key so an invite can never pass as a login token
+const INVITE_SECRET: string = process.env.INVITE_SECRET || `${JWT_SECRET}:room-invite`;
 
 export interface TokenPayload {
   userId: string;
@@ -30,6 +32,33 @@ export const verifyToken = (token: string): TokenPayload | null => {
   }
 };
 
+/**
+ * Generate an invite token to a private room
+ * @param roomId Room ID
+ * @param expiresIn How long the invite stays valid, e.g. "24h"
+ */
+export const generateInviteToken = (
+  roomId: string,
+  expiresIn: string,
+): { token: string; expiresAt: Date } => {
+  const token = jwt.sign({ roomId }, INVITE_SECRET, { expiresIn } as SignOptions);
+  const { exp } = jwt.decode(token) as { exp: number };
+  return { token, expiresAt: new Date(exp * 1000) };
+};
+
+/**
+ * Verify an invite token
+ * @returns The invite's room ID and expiry, or null if the token is invalid or expired
+ */
+export const verifyInviteToken = (token: string): { roomId: string; expiresAt: Date } | null => {
+  try {
+    const decoded = jwt.verify(token, INVITE_SECRET) as { roomId: string; exp: number };
+    return { roomId: decoded.roomId, expiresAt: new Date(decoded.exp * 1000) };
+  } catch (error) {
+    return null;
+  }
+};
+
 /**
  * Extract token from Authorization header
  */
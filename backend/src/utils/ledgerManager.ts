@@ -0,0 +1,325 @@
+import { v4 as uuidv4 } from "uuid";
+import { query, TransactionQuery, withTransaction } from "../db/connection.js";
+import logger from "../lib/logger.js";
+
+// Double-entry wallet ledger. Every change to a user's balance is posted as an
+// entry whose lines move money between accounts and sum to zero. users.balance
+// is kept in step within the same transaction and can be reconciled against the
+// sum of the user's wallet lines at any time.
+
+export type SystemAccount = "escrow" | "platform_revenue" | "pix_clearing" | "adjustments";
+
+export type LedgerEntryType =
+  | "opening_balance"
+  | "stake_locked"
+  | "stake_won"
+  | "stake_refunded"
+  | "pix_deposit"
+  | "pix_withdrawal"
+  | "admin_adjustment";
+
+export interface LedgerLine {
+  account: string; // A system account or walletAccount(userId)
+  amount: number; // Positive adds to the account, negative takes from it
+}
+
+export interface LedgerEntryDetails {
+  type: LedgerEntryType;
+  referenceType?: "room" | "match" | "pix_transaction" | "user";
+  referenceId?: string;
+  description?: string;
+  createdBy?: string;
+}
+
+const WALLET_PREFIX = "wallet:";
+
+export const SYSTEM_ACCOUNTS: SystemAccount[] = [
+  "escrow",
+  "platform_revenue",
+  "pix_clearing",
+  "adjustments",
+];
+
+/**
+ * Get the ledger account ID of a user's wallet
+ */
+export const walletAccount = (userId: string): string => `${WALLET_PREFIX}${userId}`;
+
+// Amounts are compared in whole centavos so rounding can't unbalance an entry
+const toCents = (amount: number): number => Math.round(amount * 100);
+
+/**
+ * Post a balanced entry to the ledger. Throws if the lines don't sum to zero,
+ * which rolls back the surrounding transaction.
+ * @param tx Transaction query
+ * @param details What the entry is for
+ * @param lines Postings of the entry
+ * @returns Entry ID
+ */
+export const postEntry = async (
+  tx: TransactionQuery,
+  details: LedgerEntryDetails,
+  lines: LedgerLine[],
+): Promise<string> => {
+  const postings = lines.filter((line) => toCents(line.amount) !== 0);
+  const total = postings.reduce((sum, line) => sum + toCents(line.amount), 0);
+  if (total !== 0) {
+    throw new Error(`Unbalanced ledger entry (${details.type}): lines sum to ${total / 100}`);
+  }
+
+  for (const line of postings) {
+    const isWallet = line.account.startsWith(WALLET_PREFIX);
+    await tx(
+      "INSERT IGNORE INTO ledger_accounts (id, account_type, user_id) VALUES (?, ?, ?)",
+      [
+        line.account,
+        isWallet ? "user_wallet" : line.account,
+        isWallet ? line.account.slice(WALLET_PREFIX.length) : null,
+      ],
+    );
+  }
+
+  const entryId = uuidv4();
+  await tx(
+    `INSERT INTO ledger_entries (id, entry_type, reference_type, reference_id, description, created_by)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [
+      entryId,
+      details.type,
+      details.referenceType ?? null,
+      details.referenceId ?? null,
+      details.description ?? null,
+      details.createdBy ?? null,
+    ],
+  );
+
+  for (const line of postings) {
+    await tx(
+      "INSERT INTO ledger_lines (id, entry_id, account_id, amount) VALUES (?, ?, ?, ?)",
+      [uuidv4(), entryId, line.account, toCents(line.amount) / 100],
+    );
+  }
+
+  return entryId;
+};
+
+/**
+ * Move money between a user's wallet and a system account, keeping
+ * users.balance in step
+ * @param tx Transaction query
+ * @param userId User whose wallet changes
+ * @param amount Amount added to the wallet (negative to take from it)
+ * @param counterAccount System account the money comes from or goes to
+ * @param details What the entry is for
+ * @returns The wallet balance before and after, or null if the user doesn't
+ * exist or the wallet would go below zero
+ */
+export const changeWalletBalance = async (
+  tx: TransactionQuery,
+  userId: string,
+  amount: number,
+  counterAccount: SystemAccount,
+  details: LedgerEntryDetails,
+): Promise<{ balanceBefore: number; balanceAfter: number } | null> => {
+  const users = (await tx(
+    "SELECT balance FROM users WHERE id = ? FOR UPDATE",
+    [userId],
+  )) as Array<{ balance: number | string }>;
+  if (users.length === 0) {
+    return null;
+  }
+
+  // MySQL returns DECIMAL as a string
+  const balanceBefore = Number(users[0].balance);
+  const balanceAfter = (toCents(balanceBefore) + toCents(amount)) / 100;
+  if (balanceAfter < 0) {
+    return null;
+  }
+
+  await tx("UPDATE users SET balance = ? WHERE id = ?", [balanceAfter, userId]);
+  await postEntry(tx, details, [
+    { account: walletAccount(userId), amount },
+    { account: counterAccount, amount: -amount },
+  ]);
+
+  return { balanceBefore, balanceAfter };
+};
+
+/**
+ * Give every user who has no wallet account yet an opening entry for their
+ * current balance, so the ledger covers balances from before it existed.
+ * Run once on startup, before any balance can change.
+ * @returns Number of wallets opened
+ */
+export const openWalletAccounts = async (): Promise<number> => {
+  const users = (await query(
+    `SELECT u.id, u.balance FROM users u
+     LEFT JOIN ledger_accounts a ON a.id = CONCAT(?, u.id)
+     WHERE a.id IS NULL`,
+    [WALLET_PREFIX],
+  )) as Array<{ id: string; balance: number | string }>;
+
+  for (const user of users) {
+    await withTransaction(async (tx) => {
+      const balance = Number(user.balance);
+      await tx(
+        "INSERT IGNORE INTO ledger_accounts (id, account_type, user_id) VALUES (?, 'user_wallet', ?)",
+        [walletAccount(user.id), user.id],
+      );
+      if (balance === 0) {
+        return;
+      }
+      await postEntry(
+        tx,
+        {
+          type: "opening_balance",
+          referenceType: "user",
+          referenceId: user.id,
+          description: "Balance before the ledger was introduced",
+        },
+        [
+          { account: walletAccount(user.id), amount: balance },
+          { account: "adjustments", amount: -balance },
+        ],
+      );
+    });
+  }
+
+  if (users.length > 0) {
+    logger.info({ count: users.length }, "Opened ledger wallet accounts");
+  }
+  return users.length;
+};
+
+/**
+ * Find users whose stored balance differs from the sum of their wallet's ledger lines
+ * @returns Every mismatch found (empty when the books balance)
+ */
+export const reconcileBalances = async (): Promise<
+  Array<{ userId: string; username: string; balance: number; ledgerBalance: number }>
+> => {
+  const rows = (await query(
+    `SELECT u.id, u.username, u.balance, COALESCE(SUM(l.amount), 0) AS ledger_balance
+     FROM users u
+     LEFT JOIN ledger_lines l ON l.account_id = CONCAT(?, u.id)
+     GROUP BY u.id, u.username, u.balance
+     HAVING u.balance <> ledger_balance`,
+    [WALLET_PREFIX],
+  )) as Array<{
+    id: string;
+    username: string;
+    balance: number | string;
+    ledger_balance: number | string;
+  }>;
+
+  return rows.map((row) => ({
+    userId: row.id,
+    username: row.username,
+    balance: Number(row.balance),
+    ledgerBalance: Number(row.ledger_balance),
+  }));
+};
+
+/**
+ * Get the balance of every system account and the sum of all ledger lines,
+ * which is always 0 while the books balance
+ */
+export const getLedgerSummary = async (): Promise<{
+  accounts: Array<{ account: string; balance: number }>;
+  walletTotal: number;
+  total: number;
+}> => {
+  const rows = (await query(
+    `SELECT a.account_type, COALESCE(SUM(l.amount), 0) AS balance
+     FROM ledger_accounts a
+     LEFT JOIN ledger_lines l ON l.account_id = a.id
+     GROUP BY a.account_type`,
+  )) as Array<{ account_type: string; balance: number | string }>;
+
+  const balances = new Map(rows.map((row) => [row.account_type, Number(row.balance)]));
+  const accounts = SYSTEM_ACCOUNTS.map((account) => ({
+    account,
+    balance: balances.get(account) ?? 0,
+  }));
+  const walletTotal = balances.get("user_wallet") ?? 0;
+  const total = [...balances.values()].reduce((sum, balance) => sum + toCents(balance), 0) / 100;
+
+  return { accounts, walletTotal, total };
+};
+
+/**
+ * List ledger entries with their lines, newest first
+ * @param options Page, page size and an optional account to filter by
+ */
+export const listLedgerEntries = async (options: {
+  page: number;
+  limit: number;
+  accountId?: string;
+}): Promise<{
+  entries: Array<{
+    id: string;
+    type: LedgerEntryType;
+    referenceType: string | null;
+    referenceId: string | null;
+    description: string | null;
+    createdBy: string | null;
+    createdAt: Date;
+    lines: LedgerLine[];
+  }>;
+  total: number;
+}> => {
+  const where = options.accountId
+    ? "WHERE e.id IN (SELECT entry_id FROM ledger_lines WHERE account_id = ?)"
+    : "";
+  const params = options.accountId ? [options.accountId] : [];
+
+  // Integers only, so they are safe to inline (see routes/admin.ts)
+  const limit = Math.max(1, Math.min(Math.floor(options.limit), 200));
+  const offset = Math.max(0, Math.floor((options.page - 1) * limit));
+
+  const entries = (await query(
+    `SELECT e.id, e.entry_type, e.reference_type, e.reference_id, e.description, e.created_by, e.created_at
+     FROM ledger_entries e
+     ${where}
+     ORDER BY e.created_at DESC, e.id
+     LIMIT ${limit} OFFSET ${offset}`,
+    params,
+  )) as Array<{
+    id: string;
+    entry_type: LedgerEntryType;
+    reference_type: string | null;
+    reference_id: string | null;
+    description: string | null;
+    created_by: string | null;
+    created_at: Date;
+  }>;
+
+  const countResult = (await query(
+    `SELECT COUNT(*) AS total FROM ledger_entries e ${where}`,
+    params,
+  )) as Array<{ total: number }>;
+
+  const lines = entries.length > 0
+    ? ((await query(
+        `SELECT entry_id, account_id, amount FROM ledger_lines
+         WHERE entry_id IN (${entries.map(() => "?").join(", ")})`,
+        entries.map((entry) => entry.id),
+      )) as Array<{ entry_id: string; account_id: string; amount: number | string }>)
+    : [];
+
+  return {
+    entries: entries.map((entry) => ({
+      id: entry.id,
+      type: entry.entry_type,
+      referenceType: entry.reference_type,
+      referenceId: entry.reference_id,
+      description: entry.description,
+      createdBy: entry.created_by,
+      createdAt: entry.created_at,
+      lines: lines
+        .filter((line) => line.entry_id === entry.id)
+        .map((line) => ({ account: line.account_id, amount: Number(line.amount) })),
+    })),
+    total: countResult[0]?.total || 0,
+  };
+};
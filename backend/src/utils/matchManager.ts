@@ -0,0 +1,151 @@
+import { v4 as uuidv4 } from "uuid";
+import { query, withTransaction } from "../db/connection.js";
+import { GameMoveRecord } from "../games/index.js";
+import { getGameTeams, getPlayerTeam } from "./gameManager.js";
+import { RatingChange, updateRatings } from "./ratingManager.js";
+import { getRoomBettingInfo } from "./roomManager.js";
+import { SettlementResult, settleMatch } from "./settlementManager.js";
+
+export interface MatchPlayer {
+  id: string;
+  username: string;
+  team: string;
+}
+
+export interface MatchRecord {
+  id: string;
+  roomId: string | null;
+  gameType: string;
+  winnerId: string | null;
+  result: "win" | "draw" | "loss" | null;
+  stake: number;
+  moves: GameMoveRecord[];
+  createdAt: Date;
+  players: MatchPlayer[];
+}
+
+export interface RecordedMatch {
+  matchId: string;
+  ratings: RatingChange[]; // How the match moved each player's rating
+  settlement: SettlementResult | null; // What the locked stakes paid out, if anything was staked
+}
+
+/**
+ * Store a finished match together with the players who took part, update the
+ * players' ratings for the game type and settle the room's locked stakes, all
+ * in one transaction
+ * @param roomId Room the match was played in
+ * @param gameType Game type
+ * @param players Players in team order (index 0 played the first team)
+ * @param winnerId Winning user, or null for a draw
+ * @param result Result from the point of view of the player who ended the game
+ * @param moves Complete move history
+ * @returns Match ID, the players' rating changes and the settlement
+ */
+export const recordMatch = async (
+  roomId: string,
+  gameType: string,
+  players: Array<{ id: string }>,
+  winnerId: string | null,
+  result: "win" | "draw" | "loss",
+  moves: GameMoveRecord[],
+): Promise<RecordedMatch> => {
+  const matchId = uuidv4();
+
+  // The stake is only what was actually locked in when the match ended
+  const bettingInfo = await getRoomBettingInfo(roomId);
+  const stake =
+    bettingInfo && bettingInfo.betting_status === "locked"
+      ? bettingInfo.betting_amount
+      : 0;
+
+  const { ratings, settlement } = await withTransaction(async (tx) => {
+    await tx(
+      `INSERT INTO matches (id, room_id, game_type, winner_id, moves_json, result, stake)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [matchId, roomId, gameType, winnerId, JSON.stringify(moves), result, stake],
+    );
+
+    const changes = await updateRatings(
+      tx,
+      gameType,
+      players.map((p) => p.id),
+      winnerId,
+    );
+
+    for (const [index, player] of players.entries()) {
+      const change = changes.find((c) => c.userId === player.id);
+      await tx(
+        `INSERT INTO match_players (id, match_id, user_id, team, rating_before, rating_after)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [
+          uuidv4(),
+          matchId,
+          player.id,
+          getPlayerTeam(gameType, index),
+          change?.before ?? null,
+          change?.after ?? null,
+        ],
+      );
+    }
+
+    return {
+      ratings: changes,
+      settlement: await settleMatch(tx, roomId, matchId, winnerId),
+    };
+  });
+
+  return { matchId, ratings, settlement };
+};
+
+/**
+ * Load a match with its players and move history
+ * @param matchId Match ID
+ * @returns The match, or null if it does not exist
+ */
+export const getMatch = async (matchId: string): Promise<MatchRecord | null> => {
+  const matches = (await query(
+    `SELECT id, room_id, game_type, winner_id, moves_json, result, stake, created_at
+     FROM matches WHERE id = ?`,
+    [matchId],
+  )) as Array<{
+    id: string;
+    room_id: string | null;
+    game_type: string;
+    winner_id: string | null;
+    moves_json: string | null;
+    result: "win" | "draw" | "loss" | null;
+    stake: number | string;
+    created_at: Date;
+  }>;
+
+  if (matches.length === 0) {
+    return null;
+  }
+
+  const players = (await query(
+    `SELECT mp.user_id, mp.team, COALESCE(u.display_username, u.username) as username
+     FROM match_players mp
+     JOIN users u ON mp.user_id = u.id
+     WHERE mp.match_id = ?`,
+    [matchId],
+  )) as Array<{ user_id: string; team: string; username: string }>;
+
+  const match = matches[0];
+  const teams = getGameTeams(match.game_type);
+  // Team order matches the order players were seated in
+  players.sort((a, b) => teams.indexOf(a.team) - teams.indexOf(b.team));
+
+  return {
+    id: match.id,
+    roomId: match.room_id,
+    gameType: match.game_type,
+    winnerId: match.winner_id,
+    result: match.result,
+    // MySQL returns DECIMAL as a string
+    stake: Number(match.stake),
+    moves: match.moves_json ? (JSON.parse(match.moves_json) as GameMoveRecord[]) : [],
+    createdAt: match.created_at,
+    players: players.map((p) => ({ id: p.user_id, username: p.username, team: p.team })),
+  };
+};
@@ -0,0 +1,143 @@
+import { query, TransactionQuery } from "../db/connection.js";
+
+// Elo ratings, kept separately for every game type. New players start at the
+// default rating and move faster while their rating is provisional, so they
+// reach their real strength in a handful of games.
+
+export const DEFAULT_RATING = 1500;
+const PROVISIONAL_GAMES = 20;
+const PROVISIONAL_K_FACTOR = 40;
+const K_FACTOR = 20;
+
+export interface UserRating {
+  gameType: string;
+  rating: number;
+  gamesPlayed: number;
+}
+
+export interface RatingChange {
+  userId: string;
+  before: number;
+  after: number;
+}
+
+/**
+ * Expected score of a player against an opponent, between 0 and 1
+ */
+const expectedScore = (rating: number, opponentRating: number): number =>
+  1 / (1 + 10 ** ((opponentRating - rating) / 400));
+
+/**
+ * Get the ratings of several users for a game type
+ * @param userIds User IDs
+ * @param gameType Game type
+ * @returns userId -> rating, with the default rating for users who haven't played it
+ */
+export const getRatings = async (
+  userIds: string[],
+  gameType: string,
+): Promise<Map<string, number>> => {
+  const ratings = new Map(userIds.map((id) => [id, DEFAULT_RATING]));
+  if (userIds.length === 0) {
+    return ratings;
+  }
+
+  const rows = (await query(
+    `SELECT user_id, rating FROM user_ratings
+     WHERE game_type = ? AND user_id IN (${userIds.map(() => "?").join(", ")})`,
+    [gameType, ...userIds],
+  )) as Array<{ user_id: string; rating: number }>;
+
+  for (const row of rows) {
+    ratings.set(row.user_id, row.rating);
+  }
+  return ratings;
+};
+
+/**
+ * Get a user's rating for a game type
+ * @param userId User ID
+ * @param gameType Game type
+ */
+export const getRating = async (userId: string, gameType: string): Promise<number> => {
+  return (await getRatings([userId], gameType)).get(userId) ?? DEFAULT_RATING;
+};
+
+/**
+ * Get every rating a user has, one per game type they have played
+ * @param userId User ID
+ */
+export const getUserRatings = async (userId: string): Promise<UserRating[]> => {
+  const rows = (await query(
+    `SELECT game_type, rating, games_played FROM user_ratings
+     WHERE user_id = ? ORDER BY game_type`,
+    [userId],
+  )) as Array<{ game_type: string; rating: number; games_played: number }>;
+
+  return rows.map((row) => ({
+    gameType: row.game_type,
+    rating: row.rating,
+    gamesPlayed: row.games_played,
+  }));
+};
+
+/**
+ * Update the ratings of the two players of a finished match. Matches with any
+ * other number of players leave ratings alone.
+ * @param tx Transaction query of the transaction recording the match
+ * @param gameType Game type
+ * @param playerIds The match's players
+ * @param winnerId Winning user, or null for a draw
+ * @returns The rating change of each player
+ */
+export const updateRatings = async (
+  tx: TransactionQuery,
+  gameType: string,
+  playerIds: string[],
+  winnerId: string | null,
+): Promise<RatingChange[]> => {
+  if (playerIds.length !== 2) {
+    return [];
+  }
+
+  for (const userId of playerIds) {
+    await tx(
+      "INSERT IGNORE INTO user_ratings (user_id, game_type, rating) VALUES (?, ?, ?)",
+      [userId, gameType, DEFAULT_RATING],
+    );
+  }
+
+  // Lock both rows so two matches finishing at once can't lose an update
+  const rows = (await tx(
+    `SELECT user_id, rating, games_played FROM user_ratings
+     WHERE game_type = ? AND user_id IN (?, ?) FOR UPDATE`,
+    [gameType, ...playerIds],
+  )) as Array<{ user_id: string; rating: number; games_played: number }>;
+  const current = new Map(rows.map((row) => [row.user_id, row]));
+
+  const changes: RatingChange[] = [];
+  for (const [index, userId] of playerIds.entries()) {
+    const player = current.get(userId);
+    const opponent = current.get(playerIds[1 - index]);
+    if (!player || !opponent) {
+      return [];
+    }
+
+    const score = winnerId === null ? 0.5 : winnerId === userId ? 1 : 0;
+    const kFactor = player.games_played < PROVISIONAL_GAMES ? PROVISIONAL_K_FACTOR : K_FACTOR;
+    const after = Math.round(
+      player.rating + kFactor * (score - expectedScore(player.rating, opponent.rating)),
+    );
+    changes.push({ userId, before: player.rating, after });
+  }
+
+  for (const change of changes) {
+    await tx(
+      `UPDATE user_ratings SET rating = ?, games_played = games_played + 1
+       WHERE user_id = ? AND game_type = ?`,
+      [change.after, change.userId, gameType],
+    );
+  }
+
+  return changes;
+};
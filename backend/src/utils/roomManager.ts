@@ -1,27 +1,73 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
 import { v4 as uuidv4 } from "uuid";
 import { query } from "../db/connection.js";
+import { config } from "../config/env.js";
+import { TimeControl } from "./clockManager.js";
+import { DEFAULT_RATING } from "./ratingManager.js";
+import { getBettingSettings } from "./settingsManager.js";
 
 export interface RoomPlayer {
   id: string;
   username: string;
   isHost: boolean;
+  rating: number; // Rating for the room's game type
 }
 
+/**
+ * Stakes a player is willing to play for, from min to max inclusive. A single
+ * stake has min equal to max.
+ */
+export interface StakeRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * Find a waiting room whose player is close enough in rating and wants the
+ * same kind of stake: an overlapping stake range, or no stake at all when the
+ * player looking has none. The accepted rating gap widens the longer the
+ * waiting player has waited (see config.game.ratingWindow); among the rooms
+ * that qualify the closest rating wins, then the oldest room.
+ * @param gameType Game type
+ * @param rating Rating of the player looking for a room
+ * @param stakeRange Stakes the player looking will play for, or null for unstaked play
+ */
 export const findWaitingRoom = async (
   gameType: string,
+  rating: number,
+  stakeRange: StakeRange | null,
 ): Promise<{ id: string; player_count: number } | null> => {
+  const { initial, perSecond, max } = config.game.ratingWindow;
   const sql = `
-    SELECT r.id, COUNT(rp.user_id) as player_count
+    SELECT r.id, COUNT(rp.user_id) as player_count,
+      ABS(COALESCE(MAX(ur.rating), ?) - ?) as rating_gap,
+      TIMESTAMPDIFF(SECOND, MIN(rp.joined_at), NOW()) as waited_seconds
     FROM rooms r
     INNER JOIN room_players rp ON r.id = rp.room_id
-    WHERE r.game_type = ? AND r.status = 'waiting'
+    LEFT JOIN user_ratings ur ON ur.user_id = rp.user_id AND ur.game_type = r.game_type
+    WHERE r.game_type = ? AND r.status = 'waiting' AND r.is_private = FALSE
     GROUP BY r.id
-    HAVING player_count = 1
-    ORDER BY r.created_at ASC
+    HAVING player_count = 1 AND rating_gap <= LEAST(?, ? + ? * waited_seconds)
+      AND (
+        (? IS NULL AND MAX(rp.stake_min) IS NULL)
+        OR (MAX(rp.stake_min) <= ? AND MAX(rp.stake_max) >= ?)
+      )
+    ORDER BY rating_gap ASC, r.created_at ASC
     LIMIT 1
   `;
 
-  const results = (await query(sql, [gameType])) as Array<{
+  const results = (await query(sql, [
+    DEFAULT_RATING,
+    rating,
+    gameType,
+    max,
+    initial,
+    perSecond,
+    stakeRange?.min ?? null,
+    stakeRange?.max ?? null,
+    stakeRange?.min ?? null,
+  ])) as Array<{
     id: string;
     player_count: number;
   }>;
@@ -32,40 +78,204 @@ export const findWaitingRoom = async (
 export const createRoom = async (
   gameType: string,
   keyword: string | null = null,
+  timeControl: TimeControl = "none",
+  timeIncrement = 0,
+): Promise<string> => {
+  const roomId = uuidv4();
+  const { defaultStake } = await getBettingSettings(gameType);
+
+  const sql = `
+    INSERT INTO rooms (id, keyword, game_type, status, betting_amount, betting_status, time_control, time_increment)
+    VALUES (?, ?, ?, 'waiting', ?, 'unlocked', ?, ?)
+  `;
+
+  await query(sql, [roomId, keyword, gameType, defaultStake, timeControl, timeIncrement]);
+  return roomId;
+};
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+) => Promise<Buffer>;
+
+const hashRoomPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, 32);
+  return `${salt.toString("hex")}:${hash.toString("hex")}`;
+};
+
+/**
+ * Create a room only reachable through an invite, optionally behind a password
+ * @param gameType Game type
+ * @param password Password the opponent must enter, or null for none
+ * @param timeControl Clock for both players
+ * @param timeIncrement Seconds added to a player's clock after each move
+ */
+export const createPrivateRoom = async (
+  gameType: string,
+  password: string | null,
+  timeControl: TimeControl = "none",
+  timeIncrement = 0,
 ): Promise<string> => {
   const roomId = uuidv4();
+  const { defaultStake } = await getBettingSettings(gameType);
+  const passwordHash = password ? await hashRoomPassword(password) : null;
 
   const sql = `
-    INSERT INTO rooms (id, keyword, game_type, status, betting_amount, betting_status)
-    VALUES (?, ?, ?, 'waiting', 0.25, 'unlocked')
+    INSERT INTO rooms (id, keyword, game_type, status, betting_amount, betting_status, time_control, time_increment, is_private, password_hash)
+    VALUES (?, NULL, ?, 'waiting', ?, 'unlocked', ?, ?, TRUE, ?)
   `;
 
-  await query(sql, [roomId, keyword, gameType]);
+  await query(sql, [roomId, gameType, defaultStake, timeControl, timeIncrement, passwordHash]);
   return roomId;
 };
 
+/**
+ * Private room as seen by someone holding an invite to it
+ */
+export interface PrivateRoom {
+  id: string;
+  gameType: string;
+  status: string;
+  playerCount: number;
+  hostId: string | null;
+  hostName: string | null;
+  hasPassword: boolean;
+  stakeRange: StakeRange | null; // Stake the host asked for, null for unstaked play
+  timeControl: TimeControl;
+  timeIncrement: number;
+}
+
+/**
+ * Get a private room with its host, for joining it through an invite
+ * @param roomId Room ID
+ * @returns The room, or null if there is no private room with this ID
+ */
+export const getPrivateRoom = async (roomId: string): Promise<PrivateRoom | null> => {
+  const rows = (await query(
+    `SELECT r.id, r.game_type, r.status, r.password_hash, r.time_control, r.time_increment,
+       (SELECT COUNT(*) FROM room_players other WHERE other.room_id = r.id) as player_count,
+       rp.user_id as host_id, COALESCE(u.display_username, u.username) as host_name,
+       rp.stake_min, rp.stake_max
+     FROM rooms r
+     LEFT JOIN room_players rp ON rp.room_id = r.id AND rp.is_host = TRUE
+     LEFT JOIN users u ON u.id = rp.user_id
+     WHERE r.id = ? AND r.is_private = TRUE
+     LIMIT 1`,
+    [roomId],
+  )) as Array<{
+    id: string;
+    game_type: string;
+    status: string;
+    password_hash: string | null;
+    time_control: TimeControl | null;
+    time_increment: number | null;
+    player_count: number;
+    host_id: string | null;
+    host_name: string | null;
+    stake_min: number | string | null;
+    stake_max: number | string | null;
+  }>;
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const row = rows[0];
+  return {
+    id: row.id,
+    gameType: row.game_type,
+    status: row.status,
+    playerCount: Number(row.player_count),
+    hostId: row.host_id,
+    hostName: row.host_name,
+    hasPassword: row.password_hash !== null,
+    // MySQL returns DECIMAL as a string
+    stakeRange: row.stake_min === null
+      ? null
+      : { min: Number(row.stake_min), max: Number(row.stake_max ?? row.stake_min) },
+    timeControl: row.time_control || "none",
+    timeIncrement: Number(row.time_increment || 0),
+  };
+};
+
+/**
+ * Check a password against the one a private room was created with
+ * @param roomId Room ID
+ * @param password Password entered
+ * @returns Whether the room has no password or the password matches
+ */
+export const checkRoomPassword = async (roomId: string, password: string): Promise<boolean> => {
+  const rows = (await query("SELECT password_hash FROM rooms WHERE id = ?", [roomId])) as Array<{
+    password_hash: string | null;
+  }>;
+  const stored = rows[0]?.password_hash;
+  if (!stored) {
+    return true;
+  }
+
+  const [salt, hash] = stored.split(":");
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(password, Buffer.from(salt, "hex"), expected.length);
+  return timingSafeEqual(actual, expected);
+};
+
 export const addPlayerToRoom = async (
   roomId: string,
   userId: string,
   isHost = false,
+  stakeRange: StakeRange | null = null,
 ): Promise<void> => {
   const id = uuidv4();
 
   const sql = `
-    INSERT INTO room_players (id, room_id, user_id, is_host)
-    VALUES (?, ?, ?, ?)
+    INSERT INTO room_players (id, room_id, user_id, is_host, stake_min, stake_max)
+    VALUES (?, ?, ?, ?, ?, ?)
   `;
 
-  await query(sql, [id, roomId, userId, isHost]);
+  await query(sql, [id, roomId, userId, isHost, stakeRange?.min ?? null, stakeRange?.max ?? null]);
+};
+
+/**
+ * Get the stake the players of a room agreed on by queueing with stake
+ * ranges: the lowest stake every range allows
+ * @param roomId Room ID
+ * @returns The agreed stake, or null if any player queued without a stake or
+ * the ranges don't overlap
+ */
+export const getQueuedStake = async (roomId: string): Promise<number | null> => {
+  const results = (await query(
+    `SELECT COUNT(*) as player_count, COUNT(stake_min) as staked_count,
+       MAX(stake_min) as stake_min, MIN(stake_max) as stake_max
+     FROM room_players WHERE room_id = ?`,
+    [roomId],
+  )) as Array<{
+    player_count: number;
+    staked_count: number;
+    stake_min: number | string | null;
+    stake_max: number | string | null;
+  }>;
+
+  const row = results[0];
+  if (!row || row.player_count === 0 || row.staked_count !== row.player_count) {
+    return null;
+  }
+
+  // MySQL returns DECIMAL as a string
+  const stake = Number(row.stake_min);
+  return stake <= Number(row.stake_max) ? stake : null;
 };
 
 export const getRoomPlayers = async (
   roomId: string,
 ): Promise<RoomPlayer[]> => {
   const sql = `
-    SELECT u.id, u.username, COALESCE(u.display_username, u.username) as display_username, rp.is_host
+    SELECT u.id, u.username, COALESCE(u.display_username, u.username) as display_username, rp.is_host, ur.rating
     FROM room_players rp
     JOIN users u ON rp.user_id = u.id
+    JOIN rooms r ON rp.room_id = r.id
+    LEFT JOIN user_ratings ur ON ur.user_id = u.id AND ur.game_type = r.game_type
     WHERE rp.room_id = ?
   `;
 
@@ -74,12 +284,14 @@ export const getRoomPlayers = async (
     username: string;
     display_username: string;
     is_host: boolean;
+    rating: number | null;
   }>;
 
   return results.map((r) => ({
     id: r.id,
     username: r.display_username, // Use display_username (second step username) for rooms
     isHost: r.is_host,
+    rating: r.rating ?? DEFAULT_RATING,
   }));
 };
 
@@ -130,15 +342,16 @@ export const checkPlayerInRoom = async (
 
 export const getRoomBettingInfo = async (
   roomId: string,
-): Promise<{ betting_amount: number; betting_status: string } | null> => {
+): Promise<{ betting_amount: number; betting_status: string; game_type: string } | null> => {
   const sql = `
-    SELECT betting_amount, betting_status
+    SELECT betting_amount, betting_status, game_type
     FROM rooms
     WHERE id = ?
   `;
   const results = (await query(sql, [roomId])) as Array<{
     betting_amount: number | string;
     betting_status: string;
+    game_type: string;
   }>;
   if (results.length > 0) {
     const bettingAmount = results[0].betting_amount;
@@ -146,24 +359,29 @@ export const getRoomBettingInfo = async (
     return {
       betting_amount: typeof bettingAmount === 'number' 
         ? bettingAmount 
-        : Number(bettingAmount || 0.25),
+        : Number(bettingAmount || 0),
       betting_status: results[0].betting_status,
+      game_type: results[0].game_type,
     };
   }
   return null;
 };
 
-export const updateRoomBettingAmount = async (
+export const getRoomTimeControl = async (
   roomId: string,
-  amount: number,
-): Promise<void> => {
-  const sql = `UPDATE rooms SET betting_amount = ? WHERE id = ?`;
-  await query(sql, [amount, roomId]);
-};
-
-export const lockRoomBetting = async (roomId: string): Promise<void> => {
-  const sql = `UPDATE rooms SET betting_status = 'locked' WHERE id = ?`;
-  await query(sql, [roomId]);
+): Promise<{ time_control: TimeControl; time_increment: number } | null> => {
+  const sql = `SELECT time_control, time_increment FROM rooms WHERE id = ?`;
+  const results = (await query(sql, [roomId])) as Array<{
+    time_control: TimeControl | null;
+    time_increment: number | null;
+  }>;
+  if (results.length > 0) {
+    return {
+      time_control: results[0].time_control || "none",
+      time_increment: Number(results[0].time_increment || 0),
+    };
+  }
+  return null;
 };
 
 export const getUserBalance = async (userId: string): Promise<number> => {
@@ -177,11 +395,110 @@ export const getUserBalance = async (userId: string): Promise<number> => {
   return 0;
 };
 
-export const updateUserBalance = async (
-  userId: string,
-  newBalance: number,
-): Promise<void> => {
-  const sql = `UPDATE users SET balance = ? WHERE id = ?`;
-  await query(sql, [newBalance, userId]);
+
+/**
+ * Waiting room anyone can join from the lobby
+ */
+export interface LobbyRoom {
+  id: string;
+  gameType: string;
+  hostId: string;
+  hostName: string;
+  hostRating: number; // Rating for the room's game type
+  stakeMin: number | null; // Stakes the host queued for, null for unstaked play
+  stakeMax: number | null;
+  timeControl: TimeControl;
+  timeIncrement: number;
+  createdAt: Date;
+}
+
+// Rooms with a host and a free seat. Keyword rooms are for whoever knows the
+// keyword and private rooms for whoever was invited, so they stay out of the lobby.
+const LOBBY_ROOMS_SQL = `
+  FROM rooms r
+  JOIN room_players rp ON rp.room_id = r.id
+  JOIN users u ON u.id = rp.user_id
+  LEFT JOIN user_ratings ur ON ur.user_id = u.id AND ur.game_type = r.game_type
+  WHERE r.status = 'waiting' AND r.keyword IS NULL AND r.is_private = FALSE
+    AND (SELECT COUNT(*) FROM room_players other WHERE other.room_id = r.id) = 1
+`;
+
+const LOBBY_ROOM_COLUMNS = `
+  r.id, r.game_type, r.time_control, r.time_increment, r.created_at,
+  u.id as host_id, COALESCE(u.display_username, u.username) as host_name,
+  ur.rating, rp.stake_min, rp.stake_max
+`;
+
+interface LobbyRoomRow {
+  id: string;
+  game_type: string;
+  host_id: string;
+  host_name: string;
+  rating: number | null;
+  stake_min: number | string | null;
+  stake_max: number | string | null;
+  time_control: TimeControl | null;
+  time_increment: number | null;
+  created_at: Date;
+}
+
+const readLobbyRoom = (row: LobbyRoomRow): LobbyRoom => ({
+  id: row.id,
+  gameType: row.game_type,
+  hostId: row.host_id,
+  hostName: row.host_name,
+  hostRating: row.rating ?? DEFAULT_RATING,
+  // MySQL returns DECIMAL as a string
+  stakeMin: row.stake_min === null ? null : Number(row.stake_min),
+  stakeMax: row.stake_max === null ? null : Number(row.stake_max),
+  timeControl: row.time_control || "none",
+  timeIncrement: Number(row.time_increment || 0),
+  createdAt: row.created_at,
+});
+
+/**
+ * List the rooms waiting for an opponent, newest first
+ * @param options Page, page size and an optional game type to filter by
+ */
+export const listWaitingRooms = async (options: {
+  page: number;
+  limit: number;
+  gameType?: string;
+}): Promise<{ rooms: LobbyRoom[]; total: number }> => {
+  const where = options.gameType ? "AND r.game_type = ?" : "";
+  const params = options.gameType ? [options.gameType] : [];
+
+  // Integers only, so they are safe to inline (see routes/admin.ts)
+  const limit = Math.max(1, Math.min(Math.floor(options.limit), 100));
+  const offset = Math.max(0, Math.floor((options.page - 1) * limit));
+
+  const rows = (await query(
+    `SELECT ${LOBBY_ROOM_COLUMNS} ${LOBBY_ROOMS_SQL} ${where}
+     ORDER BY r.created_at DESC, r.id
+     LIMIT ${limit} OFFSET ${offset}`,
+    params,
+  )) as LobbyRoomRow[];
+
+  const countResult = (await query(
+    `SELECT COUNT(*) AS total ${LOBBY_ROOMS_SQL} ${where}`,
+    params,
+  )) as Array<{ total: number }>;
+
+  return {
+    rooms: rows.map(readLobbyRoom),
+    total: countResult[0]?.total || 0,
+  };
 };
 
+/**
+ * Get a room if it is listed in the lobby, i.e. it is still waiting for an opponent
+ * @param roomId Room ID
+ */
+export const getWaitingRoom = async (roomId: string): Promise<LobbyRoom | null> => {
+  const rows = (await query(
+    `SELECT ${LOBBY_ROOM_COLUMNS} ${LOBBY_ROOMS_SQL} AND r.id = ?`,
+    [roomId],
+  )) as LobbyRoomRow[];
+
+  return rows.length > 0 ? readLobbyRoom(rows[0]) : null;
+};
@@ -0,0 +1,189 @@
+import { query } from "../db/connection.js";
+
+// Betting settings are stored per game type in betting_settings. The "default"
+// row applies to every game; a game's own row overrides the columns it sets.
+export const DEFAULT_SETTINGS_KEY = "default";
+
+export interface BettingSettings {
+  feePercent: number; // Share of the pot kept when a match has a winner
+  drawFeePercent: number; // Share of each stake kept when a match is drawn
+  feeCap: number | null; // Most the platform keeps from one match
+  minStake: number;
+  maxStake: number | null;
+  defaultStake: number; // Stake a new room starts with
+}
+
+// A row of betting_settings; null means "not set"
+export type BettingSettingsOverride = {
+  [K in keyof BettingSettings]: number | null;
+};
+
+// Used for any value missing from the default row
+const FALLBACK_SETTINGS: BettingSettings = {
+  feePercent: 10,
+  drawFeePercent: 0,
+  feeCap: null,
+  minStake: 0.25,
+  maxStake: null,
+  defaultStake: 0.25,
+};
+
+const COLUMNS: Record<keyof BettingSettings, string> = {
+  feePercent: "fee_percent",
+  drawFeePercent: "draw_fee_percent",
+  feeCap: "fee_cap",
+  minStake: "min_stake",
+  maxStake: "max_stake",
+  defaultStake: "default_stake",
+};
+
+const SETTING_KEYS = Object.keys(COLUMNS) as Array<keyof BettingSettings>;
+
+type SettingsRow = { game_type: string } & Record<string, number | string | null>;
+
+const rowToOverride = (row: SettingsRow): BettingSettingsOverride => {
+  const override = {} as BettingSettingsOverride;
+  for (const key of SETTING_KEYS) {
+    const value = row[COLUMNS[key]];
+    // MySQL returns DECIMAL as a string
+    override[key] = value === null || value === undefined ? null : Number(value);
+  }
+  return override;
+};
+
+/**
+ * Get the betting settings that apply to a game type
+ * @param gameType Game type
+ * @returns The game's overrides merged over the default settings
+ */
+export const getBettingSettings = async (
+  gameType: string,
+): Promise<BettingSettings> => {
+  const rows = (await query(
+    "SELECT * FROM betting_settings WHERE game_type IN (?, ?)",
+    [DEFAULT_SETTINGS_KEY, gameType],
+  )) as SettingsRow[];
+
+  const defaults = rows.find((row) => row.game_type === DEFAULT_SETTINGS_KEY);
+  const overrides = rows.find((row) => row.game_type === gameType && gameType !== DEFAULT_SETTINGS_KEY);
+  const base = defaults ? rowToOverride(defaults) : null;
+  const own = overrides ? rowToOverride(overrides) : null;
+
+  const settings = { ...FALLBACK_SETTINGS };
+  for (const key of SETTING_KEYS) {
+    if (own && own[key] !== null) {
+      settings[key] = own[key] as number;
+    } else if (base && (base[key] !== null || key === "feeCap" || key === "maxStake")) {
+      // A NULL cap or maximum in the default row means there is none
+      settings[key] = base[key] as number;
+    }
+  }
+  return settings;
+};
+
+/**
+ * List the default settings and every per-game override, for the admin panel
+ */
+export const listBettingSettings = async (): Promise<
+  Array<{ gameType: string; updatedAt: Date } & BettingSettingsOverride>
+> => {
+  const rows = (await query(
+    "SELECT * FROM betting_settings ORDER BY game_type = ? DESC, game_type ASC",
+    [DEFAULT_SETTINGS_KEY],
+  )) as Array<SettingsRow & { updated_at: Date }>;
+
+  return rows.map((row) => ({
+    gameType: row.game_type,
+    updatedAt: row.updated_at,
+    ...rowToOverride(row),
+  }));
+};
+
+/**
+ * Check a settings row before it is saved
+ * @param gameType Game type the row is for, or "default"
+ * @param values Values to save; null leaves a value unset
+ * @returns Whether the row is valid, and why not
+ */
+export const validateBettingSettings = async (
+  gameType: string,
+  values: BettingSettingsOverride,
+): Promise<{ valid: boolean; error?: string }> => {
+  for (const key of SETTING_KEYS) {
+    const value = values[key];
+    if (value === null) {
+      continue;
+    }
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      return { valid: false, error: `${key} must be a number of at least 0` };
+    }
+    if ((key === "feePercent" || key === "drawFeePercent") && value > 100) {
+      return { valid: false, error: `${key} cannot be more than 100` };
+    }
+    if ((key === "minStake" || key === "defaultStake") && value === 0) {
+      return { valid: false, error: `${key} must be greater than 0` };
+    }
+  }
+
+  // Check the limits as they will apply once the row is saved. The row replaces
+  // any existing one, so a game's unset values fall back to the default row.
+  const isDefault = gameType === DEFAULT_SETTINGS_KEY;
+  const merged = isDefault
+    ? { ...FALLBACK_SETTINGS }
+    : await getBettingSettings(DEFAULT_SETTINGS_KEY);
+  for (const key of SETTING_KEYS) {
+    if (values[key] !== null || (isDefault && (key === "feeCap" || key === "maxStake"))) {
+      merged[key] = values[key] as number;
+    }
+  }
+
+  if (merged.maxStake !== null && merged.maxStake < merged.minStake) {
+    return { valid: false, error: "maxStake cannot be less than minStake" };
+  }
+  if (
+    merged.defaultStake < merged.minStake ||
+    (merged.maxStake !== null && merged.defaultStake > merged.maxStake)
+  ) {
+    return { valid: false, error: "defaultStake must be between minStake and maxStake" };
+  }
+  return { valid: true };
+};
+
+/**
+ * Create or replace the settings row of a game type (or the default row)
+ * @param gameType Game type, or "default"
+ * @param values Values to save; null leaves a value unset
+ * @param adminId Admin making the change
+ */
+export const saveBettingSettings = async (
+  gameType: string,
+  values: BettingSettingsOverride,
+  adminId: string,
+): Promise<void> => {
+  const columns = SETTING_KEYS.map((key) => COLUMNS[key]);
+  await query(
+    `INSERT INTO betting_settings (game_type, ${columns.join(", ")}, updated_by)
+     VALUES (?, ${columns.map(() => "?").join(", ")}, ?)
+     ON DUPLICATE KEY UPDATE ${columns.map((column) => `${column} = VALUES(${column})`).join(", ")},
+       updated_by = VALUES(updated_by)`,
+    [gameType, ...SETTING_KEYS.map((key) => values[key]), adminId],
+  );
+};
+
+/**
+ * Remove a game type's overrides so it uses the default settings again
+ * @param gameType Game type
+ * @returns Whether there were overrides to remove
+ */
+export const deleteBettingSettings = async (gameType: string): Promise<boolean> => {
+  const existing = (await query(
+    "SELECT game_type FROM betting_settings WHERE game_type = ?",
+    [gameType],
+  )) as Array<{ game_type: string }>;
+  if (existing.length === 0) {
+    return false;
+  }
+
+  await query("DELETE FROM betting_settings WHERE game_type = ?", [gameType]);
+  return true;
+};
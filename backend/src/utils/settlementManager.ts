@@ -0,0 +1,500 @@
+import { v4 as uuidv4 } from "uuid";
+import { query, TransactionQuery, withTransaction } from "../db/connection.js";
+import logger from "../lib/logger.js";
+import { BettingSettings, getBettingSettings } from "./settingsManager.js";
+import { postEntry, walletAccount } from "./ledgerManager.js";
+
+// Every change to a user's balance caused by betting goes through this module.
+// Locked stakes are held in an escrow record until they are paid out, refunded
+// or expired. Each operation runs in one transaction that locks the room row
+// first, then its escrow and then the players' user rows (ordered by ID), so
+// concurrent settlements of the same room queue up behind each other instead
+// of interleaving.
+
+export interface PlayerBalance {
+  userId: string;
+  balance: number;
+}
+
+export interface SettlementResult {
+  result: "win" | "draw" | "abort";
+  stake: number; // Amount each player had locked in
+  winnerId: string | null;
+  winnerPayout: number;
+  platformFee: number; // Total kept by the platform
+  refundAmount: number; // Returned to each player when nobody won
+  drawFee: number; // Kept from each player's stake on a draw
+  balances: PlayerBalance[];
+}
+
+export type LockStakesResult =
+  | { locked: true; balances: PlayerBalance[] }
+  | {
+      locked: false;
+      reason: "already_locked" | "insufficient_balance";
+      userId?: string; // Player who can't cover the stake
+      username?: string;
+    };
+
+type TransactionType =
+  | "bet_placed"
+  | "bet_won"
+  | "bet_lost"
+  | "bet_refund"
+  | "platform_fee";
+
+// Balances are DECIMAL(10, 2)
+const roundCents = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Work out what the winner of a staked match receives
+ * @param stake Amount each player puts in
+ * @param playerCount Number of players who put in a stake
+ * @param settings Betting settings of the game
+ * @returns The winner's payout and the platform's fee
+ */
+export const calculateWinPayout = (
+  stake: number,
+  playerCount: number,
+  settings: BettingSettings,
+): { winnerPayout: number; platformFee: number } => {
+  const totalPot = roundCents(stake * playerCount);
+  let platformFee = roundCents((totalPot * settings.feePercent) / 100);
+  if (settings.feeCap !== null) {
+    platformFee = Math.min(platformFee, settings.feeCap);
+  }
+  return { winnerPayout: roundCents(totalPot - platformFee), platformFee };
+};
+
+/**
+ * Work out what each player gets back when a staked match is drawn
+ * @param stake Amount each player put in
+ * @param playerCount Number of players who put in a stake
+ * @param settings Betting settings of the game
+ * @returns The refund and the fee kept, per player
+ */
+export const calculateDrawRefund = (
+  stake: number,
+  playerCount: number,
+  settings: BettingSettings,
+): { refundAmount: number; drawFee: number } => {
+  let drawFee = roundCents((stake * settings.drawFeePercent) / 100);
+  if (settings.feeCap !== null) {
+    // The cap is for the whole match, so each player pays their share of it
+    drawFee = Math.min(drawFee, Math.floor((settings.feeCap * 100) / playerCount) / 100);
+  }
+  return { refundAmount: roundCents(stake - drawFee), drawFee };
+};
+
+/**
+ * Lock a room's betting columns for the rest of the transaction
+ * @returns The room's stake and betting status, or null if the room is gone
+ */
+const lockRoom = async (
+  tx: TransactionQuery,
+  roomId: string,
+): Promise<{ stake: number; status: string; gameType: string } | null> => {
+  const rooms = (await tx(
+    "SELECT betting_amount, betting_status, game_type FROM rooms WHERE id = ? FOR UPDATE",
+    [roomId],
+  )) as Array<{ betting_amount: number | string; betting_status: string; game_type: string }>;
+
+  if (rooms.length === 0) {
+    return null;
+  }
+  // MySQL returns DECIMAL as a string
+  return {
+    stake: Number(rooms[0].betting_amount),
+    status: rooms[0].betting_status,
+    gameType: rooms[0].game_type,
+  };
+};
+
+/**
+ * Lock the balance rows of the given users for the rest of the transaction
+ * @returns Current balance per user ID
+ */
+const lockBalances = async (
+  tx: TransactionQuery,
+  userIds: string[],
+): Promise<Map<string, number>> => {
+  // A fixed lock order keeps two settlements touching the same users from deadlocking
+  const sortedIds = [...userIds].sort();
+  const rows = (await tx(
+    `SELECT id, balance FROM users WHERE id IN (${sortedIds.map(() => "?").join(", ")})
+     ORDER BY id FOR UPDATE`,
+    sortedIds,
+  )) as Array<{ id: string; balance: number | string }>;
+
+  return new Map(rows.map((row) => [row.id, Number(row.balance)]));
+};
+
+/**
+ * Lock the escrow holding a room's stakes for the rest of the transaction
+ * @returns The escrow, or null if the room has no stakes held
+ */
+const lockEscrow = async (
+  tx: TransactionQuery,
+  roomId: string,
+): Promise<{ id: string; stake: number; playerIds: string[] } | null> => {
+  const escrows = (await tx(
+    "SELECT id, stake FROM escrows WHERE room_id = ? AND status = 'held' FOR UPDATE",
+    [roomId],
+  )) as Array<{ id: string; stake: number | string }>;
+  if (escrows.length === 0) {
+    return null;
+  }
+
+  const players = (await tx(
+    "SELECT user_id FROM escrow_players WHERE escrow_id = ?",
+    [escrows[0].id],
+  )) as Array<{ user_id: string }>;
+
+  return {
+    id: escrows[0].id,
+    stake: Number(escrows[0].stake),
+    playerIds: players.map((p) => p.user_id),
+  };
+};
+
+const recordTransaction = async (
+  tx: TransactionQuery,
+  roomId: string | null,
+  matchId: string | null,
+  userId: string,
+  type: TransactionType,
+  amount: number,
+  balanceBefore: number,
+  balanceAfter: number,
+): Promise<void> => {
+  await tx(
+    `INSERT INTO betting_transactions
+     (id, room_id, match_id, user_id, transaction_type, amount, balance_before, balance_after)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [uuidv4(), roomId, matchId, userId, type, amount, balanceBefore, balanceAfter],
+  );
+};
+
+/**
+ * Lock in a stake: deduct it from both players and lock the room's betting
+ * @param roomId Room ID
+ * @param amount Stake each player puts in
+ * @param players Players in the room
+ * @returns The players' new balances, or why the stake could not be locked
+ */
+export const lockStakes = async (
+  roomId: string,
+  amount: number,
+  players: Array<{ id: string; username: string }>,
+): Promise<LockStakesResult> => {
+  return withTransaction(async (tx) => {
+    const room = await lockRoom(tx, roomId);
+    if (!room || room.status !== "unlocked") {
+      return { locked: false, reason: "already_locked" } as const;
+    }
+
+    const balances = await lockBalances(
+      tx,
+      players.map((p) => p.id),
+    );
+    const poorPlayer = players.find((p) => (balances.get(p.id) ?? 0) < amount);
+    if (poorPlayer) {
+      return {
+        locked: false,
+        reason: "insufficient_balance",
+        userId: poorPlayer.id,
+        username: poorPlayer.username,
+      } as const;
+    }
+
+    const updatedBalances: PlayerBalance[] = [];
+    for (const player of players) {
+      const balanceBefore = balances.get(player.id) ?? 0;
+      const balanceAfter = roundCents(balanceBefore - amount);
+      await tx("UPDATE users SET balance = ? WHERE id = ?", [balanceAfter, player.id]);
+      await recordTransaction(tx, roomId, null, player.id, "bet_placed", -amount, balanceBefore, balanceAfter);
+      updatedBalances.push({ userId: player.id, balance: balanceAfter });
+    }
+
+    // The stakes sit in escrow until the match is settled
+    const escrowId = uuidv4();
+    await tx(
+      "INSERT INTO escrows (id, room_id, stake, status) VALUES (?, ?, ?, 'held')",
+      [escrowId, roomId, amount],
+    );
+    for (const player of players) {
+      await tx(
+        "INSERT INTO escrow_players (escrow_id, user_id) VALUES (?, ?)",
+        [escrowId, player.id],
+      );
+    }
+    await postEntry(
+      tx,
+      { type: "stake_locked", referenceType: "room", referenceId: roomId },
+      [
+        ...players.map((player) => ({ account: walletAccount(player.id), amount: -amount })),
+        { account: "escrow", amount: amount * players.length },
+      ],
+    );
+
+    await tx(
+      "UPDATE rooms SET betting_amount = ?, betting_status = 'locked' WHERE id = ?",
+      [amount, roomId],
+    );
+
+    return { locked: true, balances: updatedBalances } as const;
+  });
+};
+
+/**
+ * Pay out or refund the stakes held in a room's escrow and mark the room settled
+ * @param tx Transaction query
+ * @param roomId Room ID
+ * @param matchId Match the stakes were played for, or null for an aborted game
+ * @param winnerId Winner, or null to return each player's stake
+ * @param chargeFees Whether the game's platform fees apply (not for an aborted game)
+ */
+const settle = async (
+  tx: TransactionQuery,
+  roomId: string,
+  matchId: string | null,
+  winnerId: string | null,
+  chargeFees: boolean,
+): Promise<SettlementResult | null> => {
+  const room = await lockRoom(tx, roomId);
+  // Nothing was staked, or the stakes have already been paid out
+  if (!room || room.status !== "locked") {
+    return null;
+  }
+
+  if (matchId) {
+    const existing = (await tx(
+      "SELECT COUNT(*) as count FROM betting_transactions WHERE match_id = ?",
+      [matchId],
+    )) as Array<{ count: number }>;
+    if (existing[0].count > 0) {
+      return null;
+    }
+  }
+
+  const escrow = await lockEscrow(tx, roomId);
+  if (!escrow) {
+    return null;
+  }
+
+  const { stake, playerIds } = escrow;
+  const settings = await getBettingSettings(room.gameType);
+  const balances = await lockBalances(tx, playerIds);
+  const result: SettlementResult = {
+    result: winnerId ? "win" : matchId ? "draw" : "abort",
+    stake,
+    winnerId,
+    winnerPayout: 0,
+    platformFee: 0,
+    refundAmount: 0,
+    drawFee: 0,
+    balances: [],
+  };
+
+  const credit = async (userId: string, amount: number, type: TransactionType) => {
+    const balanceBefore = balances.get(userId) ?? 0;
+    const balanceAfter = roundCents(balanceBefore + amount);
+    await tx("UPDATE users SET balance = ? WHERE id = ?", [balanceAfter, userId]);
+    await recordTransaction(tx, roomId, matchId, userId, type, amount, balanceBefore, balanceAfter);
+    balances.set(userId, balanceAfter);
+  };
+
+  if (winnerId) {
+    const payout = calculateWinPayout(stake, playerIds.length, settings);
+    result.winnerPayout = payout.winnerPayout;
+    result.platformFee = payout.platformFee;
+
+    await credit(winnerId, result.winnerPayout, "bet_won");
+
+    // Losers' stakes were already deducted when betting was locked
+    for (const loserId of playerIds.filter((id) => id !== winnerId)) {
+      const balance = balances.get(loserId) ?? 0;
+      await recordTransaction(tx, roomId, matchId, loserId, "bet_lost", -stake, balance + stake, balance);
+    }
+
+    // Platform fee, referenced to the winner
+    await recordTransaction(tx, roomId, matchId, winnerId, "platform_fee", result.platformFee, 0, result.platformFee);
+
+    await postEntry(
+      tx,
+      { type: "stake_won", referenceType: "match", referenceId: matchId ?? undefined },
+      [
+        { account: "escrow", amount: -stake * playerIds.length },
+        { account: walletAccount(winnerId), amount: result.winnerPayout },
+        { account: "platform_revenue", amount: result.platformFee },
+      ],
+    );
+  } else {
+    const refund = chargeFees
+      ? calculateDrawRefund(stake, playerIds.length, settings)
+      : { refundAmount: stake, drawFee: 0 };
+    result.refundAmount = refund.refundAmount;
+    result.drawFee = refund.drawFee;
+    result.platformFee = roundCents(result.drawFee * playerIds.length);
+
+    for (const playerId of playerIds) {
+      await credit(playerId, result.refundAmount, "bet_refund");
+      if (result.drawFee > 0) {
+        // Platform fee, referenced to the player it was kept from
+        await recordTransaction(tx, roomId, matchId, playerId, "platform_fee", result.drawFee, 0, result.drawFee);
+      }
+    }
+
+    await postEntry(
+      tx,
+      matchId
+        ? { type: "stake_refunded", referenceType: "match", referenceId: matchId }
+        : { type: "stake_refunded", referenceType: "room", referenceId: roomId },
+      [
+        { account: "escrow", amount: -stake * playerIds.length },
+        ...playerIds.map((playerId) => ({ account: walletAccount(playerId), amount: result.refundAmount })),
+        { account: "platform_revenue", amount: result.platformFee },
+      ],
+    );
+  }
+
+  await tx(
+    "UPDATE escrows SET status = ?, match_id = ?, resolved_at = NOW() WHERE id = ?",
+    [winnerId ? "released" : "refunded", matchId, escrow.id],
+  );
+  await tx("UPDATE rooms SET betting_status = 'settled' WHERE id = ?", [roomId]);
+
+  result.balances = playerIds.map((userId) => ({
+    userId,
+    balance: balances.get(userId) ?? 0,
+  }));
+  return result;
+};
+
+/**
+ * Settle the stakes of a finished match, in the transaction that records the
+ * match so a recorded match always has its stakes paid out. Safe to call more
+ * than once for the same match: only the first call moves money.
+ * @param tx Transaction the match is recorded in
+ * @param roomId Room the match was played in
+ * @param matchId Match ID
+ * @param winnerId Winner, or null for a draw. A draw refunds each stake less
+ * the game's draw fee.
+ * @returns What was paid out, or null if there was nothing (left) to settle
+ */
+export const settleMatch = async (
+  tx: TransactionQuery,
+  roomId: string,
+  matchId: string,
+  winnerId: string | null,
+): Promise<SettlementResult | null> => {
+  const result = await settle(tx, roomId, matchId, winnerId, true);
+
+  if (result) {
+    logger.info(
+      { roomId, matchId, result: result.result, winnerId, winnerPayout: result.winnerPayout, platformFee: result.platformFee, refundAmount: result.refundAmount },
+      "Match stakes settled",
+    );
+  }
+  return result;
+};
+
+/**
+ * Return both locked stakes in full for a game that was called off before it started
+ * @param roomId Room ID
+ * @returns What was refunded, or null if nothing was staked
+ */
+export const refundStakes = async (
+  roomId: string,
+): Promise<SettlementResult | null> => {
+  const result = await withTransaction((tx) =>
+    settle(tx, roomId, null, null, false),
+  );
+
+  if (result) {
+    logger.info({ roomId, refundAmount: result.refundAmount }, "Stakes refunded");
+  }
+  return result;
+};
+
+/**
+ * Refund every held escrow whose room is no longer live, e.g. because the
+ * server restarted mid-game and the game was lost. Run on startup, once the
+ * live games are known.
+ * @param isLive Whether a room's game is still running
+ * @returns Number of escrows expired
+ */
+export const expireStaleEscrows = async (
+  isLive: (roomId: string) => Promise<boolean>,
+): Promise<number> => {
+  const escrows = (await query(
+    `SELECT e.id, e.room_id, r.status AS room_status
+     FROM escrows e
+     LEFT JOIN rooms r ON r.id = e.room_id
+     WHERE e.status = 'held'`,
+  )) as Array<{ id: string; room_id: string | null; room_status: string | null }>;
+
+  const stale: typeof escrows = [];
+  for (const escrow of escrows) {
+    if (!escrow.room_id || escrow.room_status !== "playing" || !(await isLive(escrow.room_id))) {
+      stale.push(escrow);
+    }
+  }
+
+  for (const { id, room_id: roomId } of stale) {
+    await withTransaction(async (tx) => {
+      if (roomId) {
+        await lockRoom(tx, roomId);
+      }
+      const rows = (await tx(
+        "SELECT stake FROM escrows WHERE id = ? AND status = 'held' FOR UPDATE",
+        [id],
+      )) as Array<{ stake: number | string }>;
+      if (rows.length === 0) {
+        return;
+      }
+
+      const stake = Number(rows[0].stake);
+      const players = (await tx(
+        "SELECT user_id FROM escrow_players WHERE escrow_id = ?",
+        [id],
+      )) as Array<{ user_id: string }>;
+      const playerIds = players.map((p) => p.user_id);
+      const balances = await lockBalances(tx, playerIds);
+
+      for (const userId of balances.keys()) {
+        const balanceBefore = balances.get(userId) ?? 0;
+        const balanceAfter = roundCents(balanceBefore + stake);
+        await tx("UPDATE users SET balance = ? WHERE id = ?", [balanceAfter, userId]);
+        await recordTransaction(tx, roomId, null, userId, "bet_refund", stake, balanceBefore, balanceAfter);
+      }
+
+      await postEntry(
+        tx,
+        {
+          type: "stake_refunded",
+          referenceType: "room",
+          referenceId: roomId ?? undefined,
+          description: "Stakes returned from an escrow whose game was lost",
+        },
+        [
+          { account: "escrow", amount: -stake * balances.size },
+          ...[...balances.keys()].map((userId) => ({ account: walletAccount(userId), amount: stake })),
+        ],
+      );
+
+      await tx(
+        "UPDATE escrows SET status = 'expired', resolved_at = NOW() WHERE id = ?",
+        [id],
+      );
+      if (roomId) {
+        await tx("UPDATE rooms SET betting_status = 'settled' WHERE id = ?", [roomId]);
+      }
+    });
+  }
+
+  if (stale.length > 0) {
+    logger.info({ count: stale.length }, "Expired stale escrows");
+  }
+  return stale.length;
+};
@@ -0,0 +1,81 @@
+import { query } from "../db/connection.js";
+import { ClockState } from "./clockManager.js";
+import { GameInstance } from "./gameManager.js";
+
+// The in-memory games are snapshotted to game_snapshots after every change so
+// a restart can pick them up again instead of losing them.
+
+export interface GameSnapshot {
+  roomId: string;
+  gameType: string;
+  roomStatus: string;
+  gameData: string; // Output of the game's serialize()
+  clock: ClockState | null;
+  rematchRequests: string[]; // User IDs who asked for a rematch
+}
+
+/**
+ * Save the current state of a room's game, replacing the previous snapshot.
+ * Any rematch requests are cleared since the game has moved on.
+ * @param roomId Room ID
+ * @param gameType Game type
+ * @param game Game to save
+ * @param clock Clock state right now, or null for an untimed room
+ */
+export const saveGameSnapshot = async (
+  roomId: string,
+  gameType: string,
+  game: GameInstance,
+  clock: ClockState | null,
+): Promise<void> => {
+  await query(
+    `INSERT INTO game_snapshots (room_id, game_type, game_data, clock_state, rematch_requests)
+     VALUES (?, ?, ?, ?, NULL)
+     ON DUPLICATE KEY UPDATE game_type = VALUES(game_type), game_data = VALUES(game_data),
+       clock_state = VALUES(clock_state), rematch_requests = NULL`,
+    [roomId, gameType, game.serialize(), clock ? JSON.stringify(clock) : null],
+  );
+};
+
+/**
+ * Save who has asked for a rematch in a room
+ * @param roomId Room ID
+ * @param userIds Users who asked for a rematch
+ */
+export const saveRematchRequests = async (
+  roomId: string,
+  userIds: string[],
+): Promise<void> => {
+  await query("UPDATE game_snapshots SET rematch_requests = ? WHERE room_id = ?", [
+    JSON.stringify(userIds),
+    roomId,
+  ]);
+};
+
+/**
+ * Get the snapshot of every room whose game is running or just finished
+ */
+export const loadGameSnapshots = async (): Promise<GameSnapshot[]> => {
+  const rows = (await query(
+    `SELECT s.room_id, s.game_type, s.game_data, s.clock_state, s.rematch_requests, r.status
+     FROM game_snapshots s
+     JOIN rooms r ON r.id = s.room_id
+     WHERE r.status IN ('playing', 'finished')`,
+  )) as Array<{
+    room_id: string;
+    game_type: string;
+    game_data: string;
+    clock_state: string | null;
+    rematch_requests: string | null;
+    status: string;
+  }>;
+
+  return rows.map((row) => ({
+    roomId: row.room_id,
+    gameType: row.game_type,
+    roomStatus: row.status,
+    gameData: row.game_data,
+    clock: row.clock_state ? (JSON.parse(row.clock_state) as ClockState) : null,
+    rematchRequests: row.rematch_requests ? (JSON.parse(row.rematch_requests) as string[]) : [],
+  }));
+};
@@ -0,0 +1,141 @@
+import { query } from "../db/connection.js";
+
+// A player's record, worked out from the matches they played and the bets
+// they settled. Nothing here is stored; it is counted on every request.
+
+export interface GameTypeStats {
+  gameType: string;
+  wins: number;
+  losses: number;
+  draws: number;
+  currentStreak: number; // Wins in a row up to the latest match
+  bestStreak: number; // Most wins in a row ever
+}
+
+export interface PlayerStats {
+  byGameType: GameTypeStats[];
+  currentStreak: number; // Across all game types
+  bestStreak: number;
+}
+
+export interface RecentMatch {
+  id: string;
+  gameType: string;
+  result: "win" | "loss" | "draw"; // From the player's point of view
+  opponent: { id: string; username: string } | null;
+  stake: number;
+  createdAt: Date;
+}
+
+export interface BettingTotals {
+  wagered: number; // Stakes put into matches
+  won: number; // Payouts received for winning
+}
+
+/**
+ * Tally a player's wins, losses and draws per game type, with their win streaks
+ * @param userId User ID
+ */
+export const getPlayerStats = async (userId: string): Promise<PlayerStats> => {
+  const rows = (await query(
+    `SELECT m.game_type, m.winner_id, m.result
+     FROM match_players mp
+     JOIN matches m ON m.id = mp.match_id
+     WHERE mp.user_id = ?
+     ORDER BY m.created_at, m.id`,
+    [userId],
+  )) as Array<{ game_type: string; winner_id: string | null; result: "win" | "draw" | "loss" | null }>;
+
+  const byGameType = new Map<string, GameTypeStats>();
+  const overall = { currentStreak: 0, bestStreak: 0 };
+
+  for (const row of rows) {
+    let stats = byGameType.get(row.game_type);
+    if (!stats) {
+      stats = { gameType: row.game_type, wins: 0, losses: 0, draws: 0, currentStreak: 0, bestStreak: 0 };
+      byGameType.set(row.game_type, stats);
+    }
+
+    if (row.winner_id === userId) {
+      stats.wins++;
+      for (const streak of [stats, overall]) {
+        streak.currentStreak++;
+        streak.bestStreak = Math.max(streak.bestStreak, streak.currentStreak);
+      }
+    } else {
+      if (row.result === "draw") {
+        stats.draws++;
+      } else {
+        stats.losses++;
+      }
+      stats.currentStreak = 0;
+      overall.currentStreak = 0;
+    }
+  }
+
+  return {
+    byGameType: [...byGameType.values()].sort((a, b) => a.gameType.localeCompare(b.gameType)),
+    ...overall,
+  };
+};
+
+/**
+ * Get the latest matches a player played, newest first
+ * @param userId User ID
+ * @param limit Number of matches to return
+ */
+export const getRecentMatches = async (userId: string, limit: number): Promise<RecentMatch[]> => {
+  // Integer only, so it is safe to inline (see routes/admin.ts)
+  const safeLimit = Math.max(1, Math.floor(limit));
+  const rows = (await query(
+    `SELECT m.id, m.game_type, m.winner_id, m.result, m.stake, m.created_at,
+       opp.user_id as opponent_id, COALESCE(u.display_username, u.username) as opponent_username
+     FROM match_players mp
+     JOIN matches m ON m.id = mp.match_id
+     LEFT JOIN match_players opp ON opp.match_id = m.id AND opp.user_id <> mp.user_id
+     LEFT JOIN users u ON u.id = opp.user_id
+     WHERE mp.user_id = ?
+     ORDER BY m.created_at DESC, m.id
+     LIMIT ${safeLimit}`,
+    [userId],
+  )) as Array<{
+    id: string;
+    game_type: string;
+    winner_id: string | null;
+    result: "win" | "draw" | "loss" | null;
+    stake: number | string;
+    created_at: Date;
+    opponent_id: string | null;
+    opponent_username: string | null;
+  }>;
+
+  return rows.map((row) => ({
+    id: row.id,
+    gameType: row.game_type,
+    result: row.winner_id === userId ? "win" : row.result === "draw" ? "draw" : "loss",
+    opponent: row.opponent_id ? { id: row.opponent_id, username: row.opponent_username ?? "" } : null,
+    // MySQL returns DECIMAL as a string
+    stake: Number(row.stake),
+    createdAt: row.created_at,
+  }));
+};
+
+/**
+ * Sum up what a player has staked and won in betting
+ * @param userId User ID
+ */
+export const getBettingTotals = async (userId: string): Promise<BettingTotals> => {
+  const rows = (await query(
+    `SELECT
+       COALESCE(SUM(CASE WHEN transaction_type = 'bet_placed' THEN -amount ELSE 0 END), 0) as wagered,
+       COALESCE(SUM(CASE WHEN transaction_type = 'bet_won' THEN amount ELSE 0 END), 0) as won
+     FROM betting_transactions
+     WHERE user_id = ?`,
+    [userId],
+  )) as Array<{ wagered: number | string; won: number | string }>;
+
+  return {
+    wagered: Number(rows[0]?.wagered ?? 0),
+    won: Number(rows[0]?.won ?? 0),
+  };
+};
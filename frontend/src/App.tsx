@@ -1,32 +1,70 @@
 import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
 import Home from './pages/Home';
 import GameRoom from './pages/GameRoom';
 import Lobby from './pages/Lobby';
 import Login from './pages/Login';
 import AdminPanel from './pages/AdminPanel';
-import { connectSocket, disconnectSocket, sendChatMessage, getSocket, connectUser, setNotificationHandler } from './utils/socket';
+import Replay from './pages/Replay';
+import Spectate from './pages/Spectate';
+import Invite from './pages/Invite';
+import Friends from './pages/Friends';
+import Profile from './pages/Profile';
+import { connectSocket, disconnectSocket, sendChatMessage, getSocket, connectUser, setNotificationHandler, joinInvite, declineChallenge } from './utils/socket';
 import { startVideo, closePeerConnection } from './utils/webrtc';
 import { NotificationProvider, useNotification } from './contexts/NotificationContext';
 import NotificationContainer from './components/Notification';
 import { clearAuth } from './utils/api';
 import { API_ENDPOINTS } from './config/api';
+import { useDialog } from './hooks/useDialog';
 
-type Page = 'home' | 'game-room' | 'lobby' | 'login' | 'admin';
+type Page = 'home' | 'game-room' | 'lobby' | 'login' | 'admin' | 'replay' | 'spectate' | 'invite' | 'friends' | 'profile';
+
+// Token of the invite link the app was opened with (/invite/<token>), if any
+const getInviteTokenFromPath = (): string => {
+  const match = window.location.pathname.match(/^\/invite\/([^/]+)\/?$/);
+  return match ? decodeURIComponent(match[1]) : '';
+};
+
+// A friend's challenge: an invite to the private room they opened for us
+interface Challenge {
+  roomId: string;
+  token: string;
+  from: { id: string; username: string };
+  gameType: string;
+  stake: number | null;
+}
+
+const GAME_NAME_KEYS: Record<string, string> = {
+  'tic-tac-toe': 'home.games.ticTacToe.name',
+  checkers: 'home.games.checkers.name',
+  chess: 'home.games.chess.name',
+  'connect-four': 'home.games.connectFour.name',
+};
 
 interface NavigationData {
-  gameType?: 'tic-tac-toe' | 'checkers' | 'chess';
+  gameType?: 'tic-tac-toe' | 'checkers' | 'chess' | 'connect-four';
   keyword?: string;
   roomId?: string;
+  matchId?: string;
+  inviteToken?: string;
+  profileUserId?: string;
 }
 
 function AppContent() {
   const [currentPage, setCurrentPage] = useState<Page>('login');
   const [isConnected, setIsConnected] = useState(false);
-  const [currentGameType, setCurrentGameType] = useState<'tic-tac-toe' | 'checkers' | 'chess'>('tic-tac-toe');
+  const [currentGameType, setCurrentGameType] = useState<'tic-tac-toe' | 'checkers' | 'chess' | 'connect-four'>('tic-tac-toe');
   const [currentRoomId, setCurrentRoomId] = useState<string>('');
+  const [currentMatchId, setCurrentMatchId] = useState<string>('');
+  // Opened from an invite link, the invite is shown once the user is logged in
+  const [inviteToken, setInviteToken] = useState<string>(getInviteTokenFromPath);
+  const [profileUserId, setProfileUserId] = useState<string>('');
   const [username, setUsername] = useState<string>('');
   const [userId, setUserId] = useState<string>('');
   const { notifications, removeNotification, showNotification } = useNotification();
+  const { showConfirm, DialogComponent } = useDialog();
+  const { t } = useTranslation();
 
   useEffect(() => {
     // Set up notification handler for socket errors
@@ -62,7 +100,7 @@ function AppContent() {
             // Token is valid, restore user session
             setUserId(data.userId);
             setUsername(data.username);
-            setCurrentPage('home');
+            setCurrentPage(getInviteTokenFromPath() ? 'invite' : 'home');
             
             // Connect socket with token (socket will auto-connect user on connect)
             const socket = connectSocket();
@@ -109,16 +147,103 @@ function AppContent() {
       localStorage.setItem('displayUsername', data.username);
     });
 
+    // The server put us back into a game we dropped out of (page reload or lost connection)
+    socket.on('room_rejoined', (data: { roomId: string; gameType: string }) => {
+      console.log('Rejoined room:', data);
+      setCurrentGameType(data.gameType.replace(/_/g, '-') as 'tic-tac-toe' | 'checkers' | 'chess' | 'connect-four');
+      setCurrentRoomId(data.roomId);
+      setCurrentPage('game-room');
+    });
+
     // Don't disconnect on cleanup - keep socket alive for the app lifetime
     // return () => {
     //   disconnectSocket();
     // };
   }, []);
 
+  // Friends reach us wherever we are in the app: their requests, answers and challenges
+  useEffect(() => {
+    const socket = getSocket();
+    if (!socket || !userId) return;
+
+    const handleRequestReceived = (data: { username: string }) => {
+      showNotification(t('friends.requestReceived', { username: data.username }), 'info');
+    };
+
+    const handleRequestAccepted = (data: { username: string }) => {
+      showNotification(t('friends.requestAccepted', { username: data.username }), 'success');
+    };
+
+    const handleChallengeDeclined = (data: { username: string }) => {
+      showNotification(t('friends.challengeDeclined', { username: data.username }), 'warning');
+    };
+
+    const handleChallenge = async (challenge: Challenge) => {
+      const gameType = challenge.gameType.replace(/_/g, '-') as 'tic-tac-toe' | 'checkers' | 'chess' | 'connect-four';
+      const game = t(GAME_NAME_KEYS[gameType] || gameType);
+      const accepted = await showConfirm(
+        challenge.stake === null
+          ? t('friends.challengeMessage', { username: challenge.from.username, game })
+          : t('friends.challengeMessageStake', {
+              username: challenge.from.username,
+              game,
+              stake: challenge.stake.toFixed(2),
+            }),
+        {
+          type: 'info',
+          title: t('friends.challengeTitle'),
+          confirmText: t('friends.accept'),
+          cancelText: t('friends.decline'),
+        }
+      );
+      if (!accepted) {
+        declineChallenge(challenge.roomId);
+        return;
+      }
+
+      const cleanup = () => {
+        socket.off('game_start', handleJoined);
+        socket.off('waiting_for_player', handleJoined);
+        socket.off('error', handleError);
+      };
+      const handleJoined = (data: { roomId?: string }) => {
+        cleanup();
+        if (data.roomId) {
+          setCurrentGameType(gameType);
+          setCurrentRoomId(data.roomId);
+          setCurrentPage('game-room');
+        }
+      };
+      const handleError = (error: { message?: string; translationKey?: string }) => {
+        cleanup();
+        showNotification(
+          error.translationKey ? t(error.translationKey) : error.message || t('gameRoom.failedToJoinRoom'),
+          'error'
+        );
+      };
+      socket.on('game_start', handleJoined);
+      socket.on('waiting_for_player', handleJoined);
+      socket.on('error', handleError);
+      joinInvite(challenge.token);
+    };
+
+    socket.on('friend_request_received', handleRequestReceived);
+    socket.on('friend_request_accepted', handleRequestAccepted);
+    socket.on('challenge_declined', handleChallengeDeclined);
+    socket.on('challenge_received', handleChallenge);
+
+    return () => {
+      socket.off('friend_request_received', handleRequestReceived);
+      socket.off('friend_request_accepted', handleRequestAccepted);
+      socket.off('challenge_declined', handleChallengeDeclined);
+      socket.off('challenge_received', handleChallenge);
+    };
+  }, [userId, showNotification, showConfirm, t]);
+
   const handleNavigate = (page: string, data?: NavigationData) => {
     // Prevent admins from navigating to game rooms or lobby
     const userType = localStorage.getItem('userType');
-    if (userType === 'admin' && (page === 'game-room' || page === 'lobby')) {
+    if (userType === 'admin' && (page === 'game-room' || page === 'lobby' || page === 'invite' || page === 'friends')) {
       showNotification('Admins cannot access game rooms. Please use the admin panel.', 'warning');
       setCurrentPage('admin');
       return;
@@ -131,6 +256,20 @@ function AppContent() {
     if (data?.roomId) {
       setCurrentRoomId(data.roomId);
     }
+    if (data?.matchId) {
+      setCurrentMatchId(data.matchId);
+    }
+    if (data?.inviteToken) {
+      setInviteToken(data.inviteToken);
+    }
+    if (page === 'profile') {
+      // Without a user to show, the profile page shows our own
+      setProfileUserId(data?.profileUserId || '');
+    }
+    // Done with the invite link once we move on from it
+    if (page !== 'invite' && window.location.pathname.startsWith('/invite/')) {
+      window.history.replaceState(null, '', '/');
+    }
   };
 
   const handleAuthSuccess = (authUserId: string, authUsername: string) => {
@@ -144,11 +283,11 @@ function AppContent() {
         setUsername(data.username);
         // Store display_username (second username) in localStorage
         localStorage.setItem('displayUsername', data.username);
-        setCurrentPage('home');
+        setCurrentPage(inviteToken ? 'invite' : 'home');
       });
     } else {
       // If socket not ready, still navigate to home
-      setCurrentPage('home');
+      setCurrentPage(inviteToken ? 'invite' : 'home');
     }
   };
 
@@ -202,6 +341,7 @@ function AppContent() {
   return (
     <>
       <NotificationContainer notifications={notifications} onClose={removeNotification} />
+      {DialogComponent}
       {currentPage === 'login' && (
         <Login onAuthSuccess={handleAuthSuccess} />
       )}
@@ -253,8 +393,23 @@ function AppContent() {
       {currentPage === 'admin' && (
         <AdminPanel />
       )}
+      {currentPage === 'replay' && userId && (
+        <Replay matchId={currentMatchId} userId={userId} onBack={() => setCurrentPage('home')} />
+      )}
+      {currentPage === 'spectate' && userId && (
+        <Spectate roomId={currentRoomId} onBack={() => setCurrentPage('home')} />
+      )}
+      {currentPage === 'invite' && userId && (
+        <Invite token={inviteToken} onNavigate={handleNavigate} isConnected={isConnected} userId={userId} />
+      )}
+      {currentPage === 'friends' && userId && (
+        <Friends onNavigate={handleNavigate} isConnected={isConnected} userId={userId} />
+      )}
+      {currentPage === 'profile' && userId && (
+        <Profile profileUserId={profileUserId || userId} onNavigate={handleNavigate} isConnected={isConnected} userId={userId} />
+      )}
       {/* Fallback: Always show login if no page matches */}
-      {currentPage !== 'login' && currentPage !== 'home' && currentPage !== 'game-room' && currentPage !== 'lobby' && currentPage !== 'admin' && (
+      {currentPage !== 'login' && currentPage !== 'home' && currentPage !== 'game-room' && currentPage !== 'lobby' && currentPage !== 'admin' && currentPage !== 'replay' && currentPage !== 'spectate' && currentPage !== 'invite' && currentPage !== 'friends' && currentPage !== 'profile' && (
         <Login onAuthSuccess={handleAuthSuccess} />
       )}
     </>
@@ -4,6 +4,25 @@ import { getSocket } from '../utils/socket';
 import { useNotification } from '../contexts/NotificationContext';
 import { useTranslation } from 'react-i18next';
 
+interface BettingSettings {
+  feePercent: number;
+  drawFeePercent: number;
+  feeCap: number | null;
+  minStake: number;
+  maxStake: number | null;
+  defaultStake: number;
+}
+
+// Mirrors calculateWinPayout in the backend's settlementManager
+const calculatePayout = (stake: number, settings: BettingSettings) => {
+  const totalPot = Math.round(stake * 2 * 100) / 100;
+  let platformFee = Math.round(totalPot * settings.feePercent) / 100;
+  if (settings.feeCap !== null) {
+    platformFee = Math.min(platformFee, settings.feeCap);
+  }
+  return { winnerPayout: Math.round((totalPot - platformFee) * 100) / 100, platformFee };
+};
+
 interface BettingPanelProps {
   roomId?: string;
   userId?: string;
@@ -17,12 +36,14 @@ export default function BettingPanel({
 }: BettingPanelProps) {
   const { t } = useTranslation();
   const { showNotification } = useNotification();
-  const [bettingAmount, setBettingAmount] = useState<number | string>(0.25);
-  const [bettingStatus, setBettingStatus] = useState<'unlocked' | 'locked'>('unlocked');
+  const [bettingAmount, setBettingAmount] = useState<number | string>(0);
+  const [bettingStatus, setBettingStatus] = useState<'unlocked' | 'locked' | 'settled'>('unlocked');
   const [userBalance, setUserBalance] = useState<number | string>(0);
   const [proposedAmount, setProposedAmount] = useState<number | null>(null);
+  const [proposedPayout, setProposedPayout] = useState<{ winnerPayout: number; platformFee: number } | null>(null);
+  const [settings, setSettings] = useState<BettingSettings | null>(null);
   const [isProposer, setIsProposer] = useState<boolean>(false);
-  const [proposalAmount, setProposalAmount] = useState<number>(0.25);
+  const [proposalAmount, setProposalAmount] = useState<number>(0);
   const [isLoading, setIsLoading] = useState<boolean>(false);
 
   useEffect(() => {
@@ -38,10 +59,15 @@ export default function BettingPanel({
       bettingStatus: string;
       userBalance: number | string;
       roomId: string;
+      settings: BettingSettings | null;
     }) => {
       if (data.roomId === roomId) {
-        setBettingAmount(typeof data.bettingAmount === 'number' ? data.bettingAmount : Number(data.bettingAmount || 0));
-        setBettingStatus(data.bettingStatus as 'unlocked' | 'locked');
+        const amountNum = typeof data.bettingAmount === 'number' ? data.bettingAmount : Number(data.bettingAmount || 0);
+        setBettingAmount(amountNum);
+        setSettings(data.settings);
+        // Start the proposal input at the room's current stake
+        setProposalAmount((prev) => prev || amountNum);
+        setBettingStatus(data.bettingStatus as 'unlocked' | 'locked' | 'settled');
         setUserBalance(typeof data.userBalance === 'number' 
           ? data.userBalance 
           : Number(data.userBalance || 0));
@@ -53,9 +79,12 @@ export default function BettingPanel({
       proposerId: string;
       proposedAmount: number;
       roomId: string;
+      winnerPayout: number;
+      platformFee: number;
     }) => {
       if (data.roomId === roomId && data.proposerId !== userId) {
         setProposedAmount(data.proposedAmount);
+        setProposedPayout({ winnerPayout: data.winnerPayout, platformFee: data.platformFee });
         setIsProposer(false);
         showNotification(
           t('betting.newBettingProposal', { amount: data.proposedAmount.toFixed(2) }),
@@ -92,10 +121,14 @@ export default function BettingPanel({
     const handleBalanceUpdated = (data: {
       roomId: string;
       balances: Array<{ userId: string; balance: number }>;
+      result?: 'win' | 'draw' | 'abort';
+      stake?: number;
       winnerId?: string | null;
       winnerPayout?: number;
       refundAmount?: number;
+      drawFee?: number;
       isDraw: boolean;
+      isAborted?: boolean;
     }) => {
       console.log('Balance updated event received:', data);
       if (data.roomId === roomId && userId) {
@@ -109,7 +142,20 @@ export default function BettingPanel({
           setUserBalance(newBalance);
           
           // Show notification based on result
-          if (data.isDraw) {
+          if (data.isAborted) {
+            showNotification(
+              t('betting.gameAbortedRefund', { amount: (data.refundAmount || 0).toFixed(2) }),
+              'info',
+            );
+          } else if (data.isDraw && data.drawFee) {
+            showNotification(
+              t('betting.gameEndedDrawWithFee', {
+                amount: (data.refundAmount || 0).toFixed(2),
+                fee: data.drawFee.toFixed(2),
+              }),
+              'info',
+            );
+          } else if (data.isDraw) {
             showNotification(
               t('betting.gameEndedDraw', { amount: (data.refundAmount || 0).toFixed(2) }),
               'info',
@@ -148,9 +194,9 @@ export default function BettingPanel({
       if (data.roomId === roomId) {
         // Reset betting state for new match
         const newAmount = data.bettingAmount !== undefined 
-          ? (typeof data.bettingAmount === 'number' ? data.bettingAmount : Number(data.bettingAmount || 0.25))
-          : 0.25;
-        const newStatus = (data.bettingStatus || 'unlocked') as 'unlocked' | 'locked';
+          ? (typeof data.bettingAmount === 'number' ? data.bettingAmount : Number(data.bettingAmount || 0))
+          : 0;
+        const newStatus = (data.bettingStatus || 'unlocked') as 'unlocked' | 'locked' | 'settled';
         
         setBettingAmount(newAmount);
         setBettingStatus(newStatus);
@@ -202,6 +248,16 @@ export default function BettingPanel({
       return;
     }
 
+    if (settings && proposalAmount < settings.minStake) {
+      showNotification(t('betting.amountBelowMinimum', { amount: settings.minStake.toFixed(2) }), 'error');
+      return;
+    }
+
+    if (settings?.maxStake != null && proposalAmount > settings.maxStake) {
+      showNotification(t('betting.amountAboveMaximum', { amount: settings.maxStake.toFixed(2) }), 'error');
+      return;
+    }
+
     const balanceNum = typeof userBalance === 'number' ? userBalance : Number(userBalance || 0);
     if (proposalAmount > balanceNum) {
       showNotification(t('betting.insufficientBalance'), 'error');
@@ -245,6 +301,10 @@ export default function BettingPanel({
   };
 
   const canChangeBetting = players.length >= 2 && bettingStatus === 'unlocked';
+  const lockedPayout = settings
+    ? calculatePayout(typeof bettingAmount === 'number' ? bettingAmount : Number(bettingAmount || 0), settings)
+    : null;
+  const proposalPayout = settings && proposalAmount > 0 ? calculatePayout(proposalAmount, settings) : null;
 
   return (
     <div className="bg-white rounded-2xl shadow-lg p-6">
@@ -301,6 +361,14 @@ export default function BettingPanel({
               return `${proposerName} ${t('betting.proposed')}`;
             })()} <strong>R$ {proposedAmount.toFixed(2)}</strong>
           </p>
+          {proposedPayout && (
+            <p className="text-xs text-yellow-700 mb-3">
+              {t('betting.effectivePayout', {
+                payout: proposedPayout.winnerPayout.toFixed(2),
+                fee: proposedPayout.platformFee.toFixed(2),
+              })}
+            </p>
+          )}
           <div className="flex gap-2">
             <button
               onClick={handleAcceptProposal}
@@ -347,18 +415,29 @@ export default function BettingPanel({
             </label>
             <input
               type="number"
-              min="0.01"
+              min={settings?.minStake ?? 0.01}
+              max={settings?.maxStake ?? undefined}
               step="0.01"
               value={proposalAmount}
               onChange={(e) => setProposalAmount(parseFloat(e.target.value) || 0)}
               className="w-full px-4 py-2 border-2 border-gray-300 rounded-lg focus:border-blue-500 focus:outline-none"
-              placeholder="0.25"
+              placeholder={(settings?.defaultStake ?? 0.25).toFixed(2)}
             />
             <p className="text-xs text-gray-500 mt-1">
-              {t('betting.minimum')} R$ 0.01 | {t('betting.yourBalanceLabel')} R$ {typeof userBalance === 'number' 
+              {t('betting.minimum')} R$ {(settings?.minStake ?? 0.01).toFixed(2)}
+              {settings?.maxStake != null && ` | ${t('betting.maximum')} R$ ${settings.maxStake.toFixed(2)}`}
+              {' '}| {t('betting.yourBalanceLabel')} R$ {typeof userBalance === 'number' 
                 ? userBalance.toFixed(2) 
                 : Number(userBalance || 0).toFixed(2)}
             </p>
+            {proposalPayout && (
+              <p className="text-xs text-gray-500 mt-1">
+                {t('betting.effectivePayout', {
+                  payout: proposalPayout.winnerPayout.toFixed(2),
+                  fee: proposalPayout.platformFee.toFixed(2),
+                })}
+              </p>
+            )}
           </div>
           <button
             onClick={handleProposeAmount}
@@ -380,15 +459,14 @@ export default function BettingPanel({
       )}
 
       {/* Winner payout info */}
-      {bettingStatus === 'locked' && (
+      {bettingStatus === 'locked' && settings && lockedPayout && (
         <div className="mt-4 p-3 bg-purple-50 border-2 border-purple-200 rounded-xl">
           <p className="text-xs text-purple-700">
-            <strong>{t('betting.winnerGets')}</strong> R${' '}
-            {((typeof bettingAmount === 'number' ? bettingAmount : Number(bettingAmount || 0)) * 2 * 0.9).toFixed(2)} (90% {t('betting.ofPot')})
+            <strong>{t('betting.winnerGets')}</strong> R$ {lockedPayout.winnerPayout.toFixed(2)}
           </p>
           <p className="text-xs text-purple-600 mt-1">
-            <strong>{t('betting.platformFee')}</strong> R${' '}
-            {((typeof bettingAmount === 'number' ? bettingAmount : Number(bettingAmount || 0)) * 2 * 0.1).toFixed(2)} (10%)
+            <strong>{t('betting.platformFee')}</strong> R$ {lockedPayout.platformFee.toFixed(2)} ({settings.feePercent}% {t('betting.ofPot')}
+            {settings.feeCap !== null && `, ${t('betting.feeCappedAt', { amount: settings.feeCap.toFixed(2) })}`})
           </p>
         </div>
       )}
@@ -13,9 +13,10 @@ interface Message {
 interface ChatPanelProps {
   onSendMessage: (message: string) => void;
   messages: Message[];
+  readOnly?: boolean; // Spectators can read the chat but not post
 }
 
-export default function ChatPanel({ onSendMessage, messages }: ChatPanelProps) {
+export default function ChatPanel({ onSendMessage, messages, readOnly = false }: ChatPanelProps) {
   const { t } = useTranslation();
   const [inputValue, setInputValue] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -83,6 +84,7 @@ export default function ChatPanel({ onSendMessage, messages }: ChatPanelProps) {
         <div ref={messagesEndRef} />
       </div>
 
+      {!readOnly && (
       <div className="p-2 sm:p-3 border-t border-gray-200">
         <form 
           onSubmit={(e) => {
@@ -111,6 +113,7 @@ export default function ChatPanel({ onSendMessage, messages }: ChatPanelProps) {
           </button>
         </form>
       </div>
+      )}
     </div>
   );
 }
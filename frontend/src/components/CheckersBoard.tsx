@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
+import { Crown } from 'lucide-react';
 import { emitMove } from '../utils/socket';
 
 interface CheckersBoardProps {
@@ -8,30 +9,96 @@ interface CheckersBoardProps {
     currentPlayer: string;
     activePiece: { x: number; y: number } | null;
     winner: string | null;
+    isDraw?: boolean;
   };
   playerTeam: string;
   isMyTurn: boolean;
   players?: Array<{ id: string; username: string }>;
   currentUserId?: string;
+  readOnly?: boolean; // Display only, e.g. when replaying a finished match
 }
 
-export default function CheckersBoard({ gameState, playerTeam, isMyTurn, players, currentUserId }: CheckersBoardProps) {
+interface CheckersMove {
+  from: { x: number; y: number };
+  to: { x: number; y: number };
+  isCapture: boolean;
+}
+
+// Cells hold "player1"/"player2", with a "_king" suffix once crowned
+const getOwner = (cell: string | null) => (cell ? cell.replace('_king', '') : null);
+const isKing = (cell: string | null) => cell !== null && cell.endsWith('_king');
+
+// Moves of the piece on a square, captures included
+const getPieceMoves = (boardState: (string | null)[][], x: number, y: number): CheckersMove[] => {
+  const cell = boardState[y][x];
+  if (!cell) return [];
+
+  const moves: CheckersMove[] = [];
+  // player1 is at bottom (rows 5-7) and moves up (decreasing y, so dy is negative)
+  // player2 is at top (rows 0-2) and moves down (increasing y, so dy is positive)
+  // Kings move in both directions
+  const forward = getOwner(cell) === 'player1' ? -1 : 1;
+  const directions = isKing(cell)
+    ? [{ dx: -1, dy: -1 }, { dx: 1, dy: -1 }, { dx: -1, dy: 1 }, { dx: 1, dy: 1 }]
+    : [{ dx: -1, dy: forward }, { dx: 1, dy: forward }];
+
+  directions.forEach(({ dx, dy }) => {
+    const newX = x + dx;
+    const newY = y + dy;
+
+    // Check if within bounds
+    if (newX < 0 || newX >= 8 || newY < 0 || newY >= 8) return;
+
+    // Can move to empty square
+    if (boardState[newY][newX] === null) {
+      moves.push({ from: { x, y }, to: { x: newX, y: newY }, isCapture: false });
+    }
+    // Can jump over opponent piece
+    else if (getOwner(boardState[newY][newX]) !== getOwner(cell)) {
+      const jumpX = newX + dx;
+      const jumpY = newY + dy;
+      if (jumpX >= 0 && jumpX < 8 && jumpY >= 0 && jumpY < 8 && boardState[jumpY][jumpX] === null) {
+        moves.push({ from: { x, y }, to: { x: jumpX, y: jumpY }, isCapture: true });
+      }
+    }
+  });
+
+  return moves;
+};
+
+export default function CheckersBoard({ gameState, playerTeam, isMyTurn, players, currentUserId, readOnly = false }: CheckersBoardProps) {
   const { t } = useTranslation();
+  const canInteract = isMyTurn && !readOnly;
   const [selectedPiece, setSelectedPiece] = useState<{ x: number; y: number } | null>(null);
   const [possibleMoves, setPossibleMoves] = useState<Array<{ x: number; y: number }>>([]);
 
+  const gameEnded = gameState.winner !== null || !!gameState.isDraw;
+
   useEffect(() => {
     setSelectedPiece(null);
     setPossibleMoves([]);
   }, [gameState.currentPlayer]);
 
+  useEffect(() => {
+    // Mid multi-jump: keep the jumping piece selected so the chain can continue
+    const activePiece = gameState.activePiece;
+    if (activePiece && canInteract) {
+      setSelectedPiece(activePiece);
+      setPossibleMoves(
+        getPieceMoves(gameState.boardState, activePiece.x, activePiece.y)
+          .filter(move => move.isCapture)
+          .map(move => move.to)
+      );
+    }
+  }, [gameState.activePiece, gameState.boardState, canInteract]);
+
   const handleSquareClick = (x: number, y: number) => {
-    if (!isMyTurn || gameState.winner) return;
+    if (!canInteract || gameEnded) return;
 
     const piece = gameState.boardState[y][x];
 
-    // If clicking on own piece, select it
-    if (piece === playerTeam) {
+    // If clicking on own piece, select it (a piece in the middle of a jump chain cannot be swapped)
+    if (getOwner(piece) === playerTeam && !gameState.activePiece) {
       setSelectedPiece({ x, y });
       calculatePossibleMoves(x, y);
       return;
@@ -46,35 +113,30 @@ export default function CheckersBoard({ gameState, playerTeam, isMyTurn, players
     }
   };
 
-  const calculatePossibleMoves = (x: number, y: number) => {
-    const moves: Array<{ x: number; y: number }> = [];
-    // player1 is at bottom (rows 5-7) and moves up (decreasing y, so dy is negative)
-    // player2 is at top (rows 0-2) and moves down (increasing y, so dy is positive)
-    const directions = playerTeam === 'player1' 
-      ? [{ dx: -1, dy: -1 }, { dx: 1, dy: -1 }]  // Move up (decrease y)
-      : [{ dx: -1, dy: 1 }, { dx: 1, dy: 1 }];   // Move down (increase y)
-
-    directions.forEach(({ dx, dy }) => {
-      const newX = x + dx;
-      const newY = y + dy;
-
-      // Check if within bounds
-      if (newX >= 0 && newX < 8 && newY >= 0 && newY < 8) {
-        // Can move to empty square
-        if (gameState.boardState[newY][newX] === null) {
-          moves.push({ x: newX, y: newY });
-        }
-        // Can jump over opponent piece
-        else if (gameState.boardState[newY][newX] !== playerTeam) {
-          const jumpX = newX + dx;
-          const jumpY = newY + dy;
-          if (jumpX >= 0 && jumpX < 8 && jumpY >= 0 && jumpY < 8 && gameState.boardState[jumpY][jumpX] === null) {
-            moves.push({ x: jumpX, y: jumpY });
-          }
+  // Captures are mandatory: if any piece can jump, only jumps are allowed
+  const getLegalMoves = (): CheckersMove[] => {
+    if (gameState.activePiece) {
+      return getPieceMoves(gameState.boardState, gameState.activePiece.x, gameState.activePiece.y).filter(move => move.isCapture);
+    }
+
+    const moves: CheckersMove[] = [];
+    gameState.boardState.forEach((row, y) => {
+      row.forEach((cell, x) => {
+        if (getOwner(cell) === playerTeam) {
+          moves.push(...getPieceMoves(gameState.boardState, x, y));
         }
-      }
+      });
     });
 
+    const captures = moves.filter(move => move.isCapture);
+    return captures.length > 0 ? captures : moves;
+  };
+
+  const calculatePossibleMoves = (x: number, y: number) => {
+    const moves = getLegalMoves()
+      .filter(move => move.from.x === x && move.from.y === y)
+      .map(move => move.to);
+
     setPossibleMoves(moves);
   };
 
@@ -93,8 +155,11 @@ export default function CheckersBoard({ gameState, playerTeam, isMyTurn, players
     if (gameState.winner) {
       return `${t('game.winner')} ${gameState.winner === playerTeam ? t('common.you') : opponentUsername}!`;
     }
+    if (gameState.isDraw) {
+      return t('game.gameOverDraw');
+    }
     if (isMyTurn) {
-      return t('game.yourTurn');
+      return gameState.activePiece ? t('game.continueJump') : t('game.yourTurn');
     }
     return t('game.opponentTurn', { username: opponentUsername });
   };
@@ -118,7 +183,7 @@ export default function CheckersBoard({ gameState, playerTeam, isMyTurn, players
             <button
               key={`${x}-${y}`}
               onClick={() => handleSquareClick(x, y)}
-              disabled={!isMyTurn || gameState.winner !== null}
+              disabled={!canInteract || gameEnded}
               className={`
                 aspect-square w-full flex items-center justify-center touch-manipulation
                 ${isLight ? 'bg-amber-100' : 'bg-amber-800'}
@@ -126,20 +191,23 @@ export default function CheckersBoard({ gameState, playerTeam, isMyTurn, players
                 ${isHighlighted ? 'bg-green-400' : ''}
                 ${piece ? 'cursor-pointer' : ''}
                 transition-all duration-150
-                ${isMyTurn && !gameState.winner ? 'active:opacity-80 sm:hover:opacity-80' : ''}
+                ${canInteract && !gameEnded ? 'active:opacity-80 sm:hover:opacity-80' : ''}
               `}
             >
               {piece && (
                 <div
                   className={`
                     w-[55%] h-[55%] sm:w-[60%] sm:h-[60%] md:w-12 md:h-12 rounded-full border-2 sm:border-3 md:border-4
-                    ${piece === 'player1' 
+                    flex items-center justify-center
+                    ${getOwner(piece) === 'player1' 
                       ? 'bg-red-500 border-red-700' 
                       : 'bg-blue-500 border-blue-700'
                     }
                     shadow-lg
                   `}
-                />
+                >
+                  {isKing(piece) && <Crown className="w-1/2 h-1/2 text-yellow-300" />}
+                </div>
               )}
             </button>
           );
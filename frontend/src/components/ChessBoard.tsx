@@ -30,11 +30,14 @@ interface ChessBoardProps {
     currentTeam: string;
     winningTeam: string | null;
     pendingPromotion?: { x: number; y: number; team: string } | null;
+    isDraw?: boolean;
+    drawReason?: string | null;
   };
   playerTeam: string;
   isMyTurn: boolean;
   players?: Array<{ id: string; username: string }>;
   currentUserId?: string;
+  readOnly?: boolean; // Display only, e.g. when replaying a finished match
 }
 
 const PIECE_IMAGES: Record<string, Record<string, string>> = {
@@ -56,8 +59,9 @@ const PIECE_IMAGES: Record<string, Record<string, string>> = {
   },
 };
 
-export default function ChessBoard({ gameState, playerTeam, isMyTurn, players, currentUserId }: ChessBoardProps) {
+export default function ChessBoard({ gameState, playerTeam, isMyTurn, players, currentUserId, readOnly = false }: ChessBoardProps) {
   const { t } = useTranslation();
+  const canInteract = isMyTurn && !readOnly;
   const [selectedPiece, setSelectedPiece] = useState<ChessPiece | null>(null);
   const [possibleMoves, setPossibleMoves] = useState<Array<{ x: number; y: number }>>([]);
   const [promotionPosition, setPromotionPosition] = useState<{ x: number; y: number } | null>(null);
@@ -86,17 +90,17 @@ export default function ChessBoard({ gameState, playerTeam, isMyTurn, players, c
 
   useEffect(() => {
     // Check if there's a pending promotion in gameState
-    if (gameState.pendingPromotion && gameState.pendingPromotion.team === playerTeam) {
+    if (gameState.pendingPromotion && gameState.pendingPromotion.team === playerTeam && !readOnly) {
       setPromotionPosition(gameState.pendingPromotion);
     }
-  }, [gameState.pendingPromotion, playerTeam]);
+  }, [gameState.pendingPromotion, playerTeam, readOnly]);
 
   const getPieceAt = (x: number, y: number): ChessPiece | undefined => {
     return gameState.pieces.find(p => p.position.x === x && p.position.y === y);
   };
 
   const handleSquareClick = (x: number, y: number) => {
-    if (!isMyTurn || gameState.winningTeam || promotionPosition) return;
+    if (!canInteract || gameState.winningTeam || gameState.isDraw || promotionPosition) return;
 
     const piece = getPieceAt(x, y);
 
@@ -223,6 +227,17 @@ export default function ChessBoard({ gameState, playerTeam, isMyTurn, players, c
             }
           }
         });
+        // Castling: unmoved king and rook with nothing in between (the server checks attacked squares)
+        if (!piece.hasMoved) {
+          [[7, 1], [0, -1]].forEach(([rookX, dx]) => {
+            const rook = getPieceAt(rookX, position.y);
+            if (!rook || rook.type !== 'rook' || rook.team !== team || rook.hasMoved) return;
+            for (let x = position.x + dx; x !== rookX; x += dx) {
+              if (getPieceAt(x, position.y)) return;
+            }
+            moves.push({ x: position.x + 2 * dx, y: position.y });
+          });
+        }
         break;
 
       case 'knight':
@@ -262,6 +277,11 @@ export default function ChessBoard({ gameState, playerTeam, isMyTurn, players, c
     if (gameState.winningTeam) {
       return `${t('game.winner')} ${gameState.winningTeam === playerTeam ? t('common.you') : opponentUsername}!`;
     }
+    if (gameState.isDraw) {
+      return gameState.drawReason
+        ? `${t('game.gameOverDraw')} (${t(`game.drawReasons.${gameState.drawReason}`)})`
+        : t('game.gameOverDraw');
+    }
     if (isMyTurn) {
       return t('game.yourTurn');
     }
@@ -278,14 +298,14 @@ export default function ChessBoard({ gameState, playerTeam, isMyTurn, players, c
       <button
         key={`${x}-${y}`}
         onClick={() => handleSquareClick(x, y)}
-        disabled={!isMyTurn || gameState.winningTeam !== null || promotionPosition !== null}
+        disabled={!canInteract || gameState.winningTeam !== null || !!gameState.isDraw || promotionPosition !== null}
         className={`
           aspect-square w-full flex items-center justify-center text-2xl sm:text-3xl
           ${isLight ? 'bg-amber-100' : 'bg-amber-800'}
           ${isSelected ? 'ring-1 sm:ring-2 md:ring-4 ring-blue-500 ring-offset-0 sm:ring-offset-1 md:ring-offset-2' : ''}
           ${isHighlighted ? 'bg-green-400' : ''}
           transition-all duration-150 touch-manipulation
-          ${piece && piece.team === playerTeam && isMyTurn ? 'cursor-pointer active:opacity-80 sm:hover:opacity-80' : ''}
+          ${piece && piece.team === playerTeam && canInteract ? 'cursor-pointer active:opacity-80 sm:hover:opacity-80' : ''}
         `}
       >
         {piece && (
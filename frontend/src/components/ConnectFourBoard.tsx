@@ -0,0 +1,102 @@
+import { useTranslation } from 'react-i18next';
+import { emitMove } from '../utils/socket';
+
+interface ConnectFourBoardProps {
+  gameState: {
+    board: (string | null)[][];
+    currentPlayer: string;
+    winner: string | null;
+    winningCells?: { row: number; column: number }[];
+    isDraw: boolean;
+  };
+  playerTeam: string;
+  isMyTurn: boolean;
+  players?: Array<{ id: string; username: string }>;
+  currentUserId?: string;
+  readOnly?: boolean; // Display only, e.g. when replaying a finished match
+}
+
+export default function ConnectFourBoard({ gameState, playerTeam, isMyTurn, players, currentUserId, readOnly = false }: ConnectFourBoardProps) {
+  const { t } = useTranslation();
+  const canInteract = isMyTurn && !readOnly;
+  const isGameOver = !!gameState.winner || gameState.isDraw;
+
+  // A column accepts a disc while its top cell is empty
+  const isColumnOpen = (column: number) => gameState.board[0]?.[column] === null;
+
+  const handleColumnClick = (column: number) => {
+    if (!canInteract || isGameOver || !isColumnOpen(column)) {
+      return;
+    }
+
+    // Send move to server
+    emitMove('connect_four', { column });
+  };
+
+  const isWinningCell = (row: number, column: number) =>
+    !!gameState.winningCells?.some((cell) => cell.row === row && cell.column === column);
+
+  const getDiscColor = (value: string | null) => {
+    if (value === 'red') return 'bg-red-500';
+    if (value === 'yellow') return 'bg-yellow-400';
+    return 'bg-white';
+  };
+
+  const getTeamName = (team: string) => (team === 'red' ? t('game.red') : t('game.yellow'));
+
+  const getOpponentUsername = () => {
+    if (!currentUserId || !players || players.length < 2) return t('common.opponent');
+    const opponent = players.find((p) => p.id !== currentUserId);
+    return opponent?.username || t('common.opponent');
+  };
+
+  const getStatusMessage = () => {
+    const opponentUsername = getOpponentUsername();
+    if (gameState.winner) {
+      return `${t('game.winner')} ${gameState.winner === playerTeam ? t('common.you') : opponentUsername}!`;
+    }
+    if (gameState.isDraw) {
+      return t('game.gameOverDraw');
+    }
+    if (isMyTurn) {
+      return t('game.yourTurn');
+    }
+    return t('game.opponentTurn', { username: opponentUsername });
+  };
+
+  const columns = gameState.board[0]?.length ?? 0;
+
+  return (
+    <div className="flex flex-col items-center justify-center p-1 sm:p-2 md:p-4 h-full">
+      <div className="mb-1 sm:mb-2 md:mb-3 text-center px-1 sm:px-2">
+        <p className="text-xs sm:text-sm md:text-base lg:text-lg xl:text-xl font-semibold text-gray-800">{getStatusMessage()}</p>
+        <p className="text-[10px] sm:text-xs text-gray-600 mt-0.5">{t('game.youAre')} {getTeamName(playerTeam)}</p>
+      </div>
+      <div
+        className="grid gap-1 sm:gap-1.5 p-1.5 sm:p-2 bg-blue-600 rounded-lg w-full max-w-[260px] sm:max-w-[320px] md:max-w-[380px] mx-auto"
+        style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+      >
+        {gameState.board.map((row, rowIndex) =>
+          row.map((value, column) => {
+            const canDrop = canInteract && !isGameOver && isColumnOpen(column);
+
+            return (
+              <button
+                key={`${rowIndex}-${column}`}
+                onClick={() => handleColumnClick(column)}
+                disabled={!canDrop}
+                className={`
+                  aspect-square w-full rounded-full flex items-center justify-center
+                  transition-all duration-200 touch-manipulation
+                  ${getDiscColor(value)}
+                  ${isWinningCell(rowIndex, column) ? 'ring-4 ring-green-400' : ''}
+                  ${canDrop ? 'cursor-pointer sm:hover:opacity-80' : 'cursor-not-allowed'}
+                `}
+              />
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,17 +1,19 @@
 import TicTacToeBoard from './TicTacToeBoard';
 import CheckersBoard from './CheckersBoard';
 import ChessBoard from './ChessBoard';
+import ConnectFourBoard from './ConnectFourBoard';
 
 interface GameBoardProps {
-  gameType: 'tic-tac-toe' | 'checkers' | 'chess';
+  gameType: 'tic-tac-toe' | 'checkers' | 'chess' | 'connect-four';
   gameState?: any;
   playerTeam?: string;
   isMyTurn?: boolean;
   players?: Array<{ id: string; username: string }>;
   currentUserId?: string;
+  readOnly?: boolean;
 }
 
-export default function GameBoard({ gameType, gameState, playerTeam, isMyTurn, players, currentUserId }: GameBoardProps) {
+export default function GameBoard({ gameType, gameState, playerTeam, isMyTurn, players, currentUserId, readOnly }: GameBoardProps) {
   if (!gameState) {
     return (
       <div className="bg-white rounded-2xl shadow-lg p-6 flex items-center justify-center min-h-[500px]">
@@ -39,6 +41,7 @@ export default function GameBoard({ gameType, gameState, playerTeam, isMyTurn, p
           isMyTurn={isMyTurn ?? false}
           players={players}
           currentUserId={currentUserId}
+          readOnly={readOnly}
         />
       )}
       {gameType === 'checkers' && (
@@ -48,6 +51,7 @@ export default function GameBoard({ gameType, gameState, playerTeam, isMyTurn, p
           isMyTurn={isMyTurn ?? false}
           players={players}
           currentUserId={currentUserId}
+          readOnly={readOnly}
         />
       )}
       {gameType === 'chess' && (
@@ -57,6 +61,17 @@ export default function GameBoard({ gameType, gameState, playerTeam, isMyTurn, p
           isMyTurn={isMyTurn ?? false}
           players={players}
           currentUserId={currentUserId}
+          readOnly={readOnly}
+        />
+      )}
+      {gameType === 'connect-four' && (
+        <ConnectFourBoard
+          gameState={gameState}
+          playerTeam={playerTeam || 'red'}
+          isMyTurn={isMyTurn ?? false}
+          players={players}
+          currentUserId={currentUserId}
+          readOnly={readOnly}
         />
       )}
     </div>
@@ -1,22 +1,50 @@
-import { Users, Clock, Trophy } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { Users, Clock, Trophy, Eye } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import ReportUser from './ReportUser';
 
+export interface ClockState {
+  timeControl: 'none' | 'bullet' | 'blitz' | 'rapid';
+  incrementSeconds: number;
+  remaining: Record<string, number>; // team -> milliseconds left
+  activeTeam: string | null;
+}
+
 interface Player {
   id: string;
   username: string;
+  rating?: number; // Rating for this game type
 }
 
 interface GameInfoPanelProps {
-  gameType: 'tic-tac-toe' | 'checkers' | 'chess';
+  gameType: 'tic-tac-toe' | 'checkers' | 'chess' | 'connect-four';
   players: Player[];
   gameState: any;
   playerTeam: string;
   isMyTurn: boolean;
   gameOver: boolean;
   currentUserId?: string;
+  clock?: ClockState | null;
+  reconnectingPlayers?: Record<string, number>; // userId -> grace deadline (ms)
+  spectatorCount?: number;
+  ratingChanges?: Record<string, number>; // userId -> rating points won or lost in the game just finished
+  onPlayerClick?: (playerId: string) => void; // Opens another player's profile
 }
 
+const TEAMS: Record<GameInfoPanelProps['gameType'], [string, string]> = {
+  'tic-tac-toe': ['X', 'O'],
+  checkers: ['player1', 'player2'],
+  chess: ['w', 'b'],
+  'connect-four': ['red', 'yellow'],
+};
+
+const formatClock = (ms: number) => {
+  const totalSeconds = Math.ceil(Math.max(ms, 0) / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
 export default function GameInfoPanel({
   gameType,
   players,
@@ -25,8 +53,39 @@ export default function GameInfoPanel({
   isMyTurn,
   gameOver,
   currentUserId,
+  clock,
+  reconnectingPlayers = {},
+  spectatorCount = 0,
+  ratingChanges = {},
+  onPlayerClick,
 }: GameInfoPanelProps) {
   const { t } = useTranslation();
+  // Time the last clock snapshot arrived, used to count the running clock down locally
+  const [clockReceivedAt, setClockReceivedAt] = useState(Date.now());
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    setClockReceivedAt(Date.now());
+    setNow(Date.now());
+  }, [clock]);
+
+  const hasReconnectingPlayers = Object.keys(reconnectingPlayers).length > 0;
+
+  useEffect(() => {
+    if ((!clock?.activeTeam || gameOver) && !hasReconnectingPlayers) return;
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [clock, gameOver, hasReconnectingPlayers]);
+
+  const getRemainingTime = (team: string) => {
+    if (!clock) return null;
+    const remaining = clock.remaining[team] ?? 0;
+    if (clock.activeTeam === team && !gameOver) {
+      return remaining - (now - clockReceivedAt);
+    }
+    return remaining;
+  };
+
   const getGameName = () => {
     switch (gameType) {
       case 'tic-tac-toe':
@@ -35,6 +94,8 @@ export default function GameInfoPanel({
         return t('game.checkers');
       case 'chess':
         return t('game.chess');
+      case 'connect-four':
+        return t('game.connectFour');
       default:
         return t('game.game');
     }
@@ -47,6 +108,8 @@ export default function GameInfoPanel({
       return `${player.username} (${index === 0 ? t('game.player1') : t('game.player2')})`;
     } else if (gameType === 'chess') {
       return `${player.username} (${index === 0 ? t('game.white') : t('game.black')})`;
+    } else if (gameType === 'connect-four') {
+      return `${player.username} (${index === 0 ? t('game.red') : t('game.yellow')})`;
     }
     return player.username;
   };
@@ -92,6 +155,8 @@ export default function GameInfoPanel({
       return `${t('game.currentPlayer')} ${gameState.currentPlayer === 'player1' ? t('game.player1') : t('game.player2')}`;
     } else if (gameType === 'chess') {
       return `${t('game.currentTeam')} ${gameState.currentTeam === 'w' ? t('game.white') : t('game.black')}`;
+    } else if (gameType === 'connect-four') {
+      return `${t('game.currentPlayer')} ${gameState.currentPlayer === 'red' ? t('game.red') : t('game.yellow')}`;
     }
     return null;
   };
@@ -101,6 +166,12 @@ export default function GameInfoPanel({
       <div className="flex items-center gap-2 sm:gap-3 mb-4 sm:mb-6">
         <Trophy className="w-5 h-5 sm:w-6 sm:h-6 text-blue-600 flex-shrink-0" />
         <h3 className="text-lg sm:text-xl font-bold text-gray-900">{getGameName()}</h3>
+        {spectatorCount > 0 && (
+          <span className="ml-auto flex items-center gap-1 text-xs sm:text-sm text-gray-600" title={t('game.spectatorsWatching', { count: spectatorCount })}>
+            <Eye className="w-4 h-4" />
+            {spectatorCount}
+          </span>
+        )}
       </div>
 
       {/* Game Status */}
@@ -133,8 +204,14 @@ export default function GameInfoPanel({
             const isCurrentPlayer = playerTeam && (
               (gameType === 'tic-tac-toe' && playerTeam === (index === 0 ? 'X' : 'O')) ||
               (gameType === 'checkers' && playerTeam === (index === 0 ? 'player1' : 'player2')) ||
-              (gameType === 'chess' && playerTeam === (index === 0 ? 'w' : 'b'))
+              (gameType === 'chess' && playerTeam === (index === 0 ? 'w' : 'b')) ||
+              (gameType === 'connect-four' && playerTeam === (index === 0 ? 'red' : 'yellow'))
             );
+            const team = TEAMS[gameType]?.[index === 0 ? 0 : 1];
+            const remainingTime = team ? getRemainingTime(team) : null;
+            const isClockRunning = !!clock && clock.activeTeam === team && !gameOver;
+            const reconnectDeadline = reconnectingPlayers[player.id];
+            const ratingChange = ratingChanges[player.id];
             
             return (
               <div
@@ -146,10 +223,51 @@ export default function GameInfoPanel({
                 }`}
               >
                 <div className="flex items-center justify-between gap-2">
-                  <p className="font-medium text-gray-800 text-sm sm:text-base truncate">
-                    {getPlayerDisplayName(player, index)}
-                  </p>
+                  <div className="min-w-0">
+                    {onPlayerClick && player.id !== currentUserId ? (
+                      <button
+                        onClick={() => onPlayerClick(player.id)}
+                        title={t('profile.viewProfile')}
+                        className="block max-w-full font-medium text-gray-800 text-sm sm:text-base truncate text-left hover:text-blue-600 hover:underline transition-colors"
+                      >
+                        {getPlayerDisplayName(player, index)}
+                      </button>
+                    ) : (
+                      <p className="font-medium text-gray-800 text-sm sm:text-base truncate">
+                        {getPlayerDisplayName(player, index)}
+                      </p>
+                    )}
+                    {player.rating !== undefined && (
+                      <p className="text-xs text-gray-500">
+                        {t('game.rating', { rating: player.rating })}
+                        {ratingChange !== undefined && ratingChange !== 0 && (
+                          <span className={`ml-1 font-semibold ${ratingChange > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                            {ratingChange > 0 ? `+${ratingChange}` : ratingChange}
+                          </span>
+                        )}
+                      </p>
+                    )}
+                    {reconnectDeadline && (
+                      <p className="text-xs text-amber-600 animate-pulse">
+                        {t('game.reconnecting', { seconds: Math.max(Math.ceil((reconnectDeadline - now) / 1000), 0) })}
+                      </p>
+                    )}
+                  </div>
                   <div className="flex items-center gap-2 flex-shrink-0">
+                    {remainingTime !== null && (
+                      <span
+                        className={`flex items-center gap-1 font-mono text-xs sm:text-sm px-1.5 sm:px-2 py-0.5 rounded ${
+                          isClockRunning
+                            ? remainingTime < 10000
+                              ? 'bg-red-600 text-white'
+                              : 'bg-gray-800 text-white'
+                            : 'bg-gray-200 text-gray-700'
+                        }`}
+                      >
+                        <Clock className="w-3 h-3" />
+                        {formatClock(remainingTime)}
+                      </span>
+                    )}
                     {isCurrentPlayer && (
                       <span className="text-xs bg-blue-600 text-white px-1.5 sm:px-2 py-0.5 sm:py-1 rounded-full">
                         {t('common.you')}
@@ -174,6 +292,12 @@ export default function GameInfoPanel({
         <div className="pt-4 border-t border-gray-200">
           <div className="text-xs text-gray-500 space-y-1">
             <p>{t('game.gameType')} {getGameName()}</p>
+            {clock && (
+              <p>
+                {t('game.timeControl')} {t(`game.timeControls.${clock.timeControl}`)}
+                {clock.incrementSeconds > 0 && ` + ${clock.incrementSeconds}s`}
+              </p>
+            )}
             {gameType === 'chess' && gameState?.totalTurns && (
               <p>{t('game.totalTurns')} {gameState.totalTurns}</p>
             )}
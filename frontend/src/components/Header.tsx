@@ -259,7 +259,17 @@ export default function Header({ username, isConnected, onLogout, userId, onNavi
                 <div className="absolute inset-0 bg-white opacity-0 group-hover:opacity-20 transition-opacity duration-300" />
               </button>
             )}
-            <span className="text-gray-700 font-medium text-xs sm:text-sm md:text-base truncate max-w-[40px] xs:max-w-[50px] sm:max-w-[80px] md:max-w-[120px] lg:max-w-none" title={displayUsername}>{displayUsername}</span>
+            {onNavigate && currentUserId ? (
+              <button
+                onClick={() => onNavigate('profile')}
+                className="text-gray-700 font-medium text-xs sm:text-sm md:text-base truncate max-w-[40px] xs:max-w-[50px] sm:max-w-[80px] md:max-w-[120px] lg:max-w-none hover:text-blue-600 transition-colors"
+                title={t('profile.viewProfile')}
+              >
+                {displayUsername}
+              </button>
+            ) : (
+              <span className="text-gray-700 font-medium text-xs sm:text-sm md:text-base truncate max-w-[40px] xs:max-w-[50px] sm:max-w-[80px] md:max-w-[120px] lg:max-w-none" title={displayUsername}>{displayUsername}</span>
+            )}
             <div className="flex items-center gap-1 sm:gap-2 flex-shrink-0">
               <div className={`w-2 h-2 sm:w-2.5 sm:h-2.5 rounded-full ${isConnected ? 'bg-green-500' : 'bg-gray-400'} animate-pulse`} />
               <span className="text-xs sm:text-sm text-gray-600 hidden sm:inline">
@@ -0,0 +1,231 @@
+import { useState, useEffect } from 'react';
+import { ShieldCheck, Flame, Trophy, Coins, Film } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { authenticatedFetch } from '../utils/api';
+import { API_ENDPOINTS } from '../config/api';
+
+interface GameTypeStats {
+  gameType: string;
+  wins: number;
+  losses: number;
+  draws: number;
+  currentStreak: number;
+  bestStreak: number;
+}
+
+interface RecentMatch {
+  id: string;
+  gameType: string;
+  result: 'win' | 'loss' | 'draw';
+  opponent: { id: string; username: string } | null;
+  stake: number;
+  createdAt: string;
+}
+
+// A player's record as served by the backend
+interface ProfileData {
+  userId: string;
+  username: string;
+  memberSince: string;
+  reportFree: boolean;
+  stats: {
+    byGameType: GameTypeStats[];
+    currentStreak: number;
+    bestStreak: number;
+  };
+  betting: { wagered: number; won: number };
+  ratings: Array<{ gameType: string; rating: number; gamesPlayed: number }>;
+  recentMatches: RecentMatch[];
+}
+
+interface PlayerProfileProps {
+  userId: string;
+  viewerId?: string;
+  // Replays are only open to the players of a match, so only their matches get a link
+  onOpenReplay?: (matchId: string) => void;
+}
+
+export default function PlayerProfile({ userId, viewerId, onOpenReplay }: PlayerProfileProps) {
+  const { t } = useTranslation();
+  const [profile, setProfile] = useState<ProfileData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    authenticatedFetch(API_ENDPOINTS.USERS.PROFILE(userId))
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: ProfileData | null) => setProfile(data))
+      .catch(() => setProfile(null))
+      .finally(() => setLoading(false));
+  }, [userId]);
+
+  const getGameName = (gameType: string) => {
+    switch (gameType.replace(/_/g, '-')) {
+      case 'tic-tac-toe':
+        return t('home.games.ticTacToe.name');
+      case 'checkers':
+        return t('home.games.checkers.name');
+      case 'chess':
+        return t('home.games.chess.name');
+      case 'connect-four':
+        return t('home.games.connectFour.name');
+      default:
+        return gameType;
+    }
+  };
+
+  const getResultStyle = (result: RecentMatch['result']) => {
+    switch (result) {
+      case 'win':
+        return 'bg-green-100 text-green-700';
+      case 'loss':
+        return 'bg-red-100 text-red-700';
+      default:
+        return 'bg-gray-100 text-gray-700';
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center text-gray-600 py-6">{t('common.loading')}</div>;
+  }
+  if (!profile) {
+    return <p className="text-center text-gray-600 py-6">{t('profile.notFound')}</p>;
+  }
+
+  const totals = profile.stats.byGameType.reduce(
+    (sum, stats) => ({
+      wins: sum.wins + stats.wins,
+      losses: sum.losses + stats.losses,
+      draws: sum.draws + stats.draws,
+    }),
+    { wins: 0, losses: 0, draws: 0 }
+  );
+  const ratings = Object.fromEntries(profile.ratings.map((r) => [r.gameType, r.rating]));
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-3 mb-1">
+        <h2 className="text-2xl font-bold text-gray-900 truncate">{profile.username}</h2>
+        {profile.reportFree ? (
+          <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-green-100 text-green-700 rounded-full text-xs font-semibold">
+            <ShieldCheck className="w-4 h-4" />
+            {t('profile.reportFree')}
+          </span>
+        ) : (
+          <span className="text-xs text-gray-500">{t('profile.noReportFreeBadge')}</span>
+        )}
+      </div>
+      <p className="text-sm text-gray-500 mb-6">
+        {t('profile.memberSince', { date: new Date(profile.memberSince).toLocaleDateString() })}
+      </p>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-6">
+        <div className="p-3 bg-gray-50 rounded-xl">
+          <div className="flex items-center gap-1 text-xs text-gray-500 mb-1">
+            <Trophy className="w-4 h-4" />
+            {t('profile.record')}
+          </div>
+          <p className="font-semibold text-gray-900">
+            {t('profile.recordValue', totals)}
+          </p>
+        </div>
+        <div className="p-3 bg-gray-50 rounded-xl">
+          <div className="flex items-center gap-1 text-xs text-gray-500 mb-1">
+            <Flame className="w-4 h-4" />
+            {t('profile.streak')}
+          </div>
+          <p className="font-semibold text-gray-900">
+            {t('profile.streakValue', { current: profile.stats.currentStreak, best: profile.stats.bestStreak })}
+          </p>
+        </div>
+        <div className="p-3 bg-gray-50 rounded-xl">
+          <div className="flex items-center gap-1 text-xs text-gray-500 mb-1">
+            <Coins className="w-4 h-4" />
+            {t('profile.wagered')}
+          </div>
+          <p className="font-semibold text-gray-900">R$ {profile.betting.wagered.toFixed(2)}</p>
+        </div>
+        <div className="p-3 bg-gray-50 rounded-xl">
+          <div className="flex items-center gap-1 text-xs text-gray-500 mb-1">
+            <Coins className="w-4 h-4" />
+            {t('profile.won')}
+          </div>
+          <p className="font-semibold text-gray-900">R$ {profile.betting.won.toFixed(2)}</p>
+        </div>
+      </div>
+
+      <h3 className="text-sm font-semibold text-gray-700 mb-2">{t('profile.byGame')}</h3>
+      {profile.stats.byGameType.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-6">{t('profile.noMatches')}</p>
+      ) : (
+        <div className="overflow-x-auto mb-6">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                <th className="py-2 pr-2 font-medium">{t('profile.game')}</th>
+                <th className="py-2 px-2 font-medium text-center">{t('profile.wins')}</th>
+                <th className="py-2 px-2 font-medium text-center">{t('profile.losses')}</th>
+                <th className="py-2 px-2 font-medium text-center">{t('profile.draws')}</th>
+                <th className="py-2 px-2 font-medium text-center">{t('profile.bestStreak')}</th>
+                <th className="py-2 pl-2 font-medium text-center">{t('profile.rating')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {profile.stats.byGameType.map((stats) => (
+                <tr key={stats.gameType} className="border-b border-gray-100 last:border-0">
+                  <td className="py-2 pr-2 text-gray-900">{getGameName(stats.gameType)}</td>
+                  <td className="py-2 px-2 text-center text-green-700">{stats.wins}</td>
+                  <td className="py-2 px-2 text-center text-red-700">{stats.losses}</td>
+                  <td className="py-2 px-2 text-center text-gray-700">{stats.draws}</td>
+                  <td className="py-2 px-2 text-center text-gray-700">{stats.bestStreak}</td>
+                  <td className="py-2 pl-2 text-center text-gray-700">{ratings[stats.gameType] ?? '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <h3 className="text-sm font-semibold text-gray-700 mb-2">{t('profile.recentMatches')}</h3>
+      {profile.recentMatches.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('profile.noMatches')}</p>
+      ) : (
+        <ul className="space-y-2">
+          {profile.recentMatches.map((match) => {
+            const canReplay = profile.userId === viewerId || match.opponent?.id === viewerId;
+            return (
+              <li key={match.id} className="flex items-center justify-between gap-2 p-3 bg-gray-50 rounded-xl">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">
+                    {getGameName(match.gameType)}
+                    {match.opponent && (
+                      <span className="text-gray-500 font-normal"> {t('profile.versus', { username: match.opponent.username })}</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(match.createdAt).toLocaleDateString()}
+                    {match.stake > 0 && ` · R$ ${match.stake.toFixed(2)}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${getResultStyle(match.result)}`}>
+                    {t(`profile.results.${match.result}`)}
+                  </span>
+                  {onOpenReplay && canReplay && (
+                    <button
+                      onClick={() => onOpenReplay(match.id)}
+                      title={t('game.watchReplay')}
+                      className="p-1 text-gray-500 hover:text-blue-600 transition-colors"
+                    >
+                      <Film className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
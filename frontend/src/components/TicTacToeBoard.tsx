@@ -13,10 +13,12 @@ interface TicTacToeBoardProps {
   isMyTurn: boolean;
   players?: Array<{ id: string; username: string }>;
   currentUserId?: string;
+  readOnly?: boolean; // Display only, e.g. when replaying a finished match
 }
 
-export default function TicTacToeBoard({ gameState, playerTeam, isMyTurn, players, currentUserId }: TicTacToeBoardProps) {
+export default function TicTacToeBoard({ gameState, playerTeam, isMyTurn, players, currentUserId, readOnly = false }: TicTacToeBoardProps) {
   const { t } = useTranslation();
+  const canInteract = isMyTurn && !readOnly;
   const [localBoard, setLocalBoard] = useState<(string | null)[]>(gameState.board);
 
   useEffect(() => {
@@ -25,7 +27,7 @@ export default function TicTacToeBoard({ gameState, playerTeam, isMyTurn, player
 
   const handleSquareClick = (index: number) => {
     console.log('Square clicked:', index, 'isMyTurn:', isMyTurn, 'playerTeam:', playerTeam);
-    if (!isMyTurn || gameState.winner || gameState.isDraw || localBoard[index] !== null) {
+    if (!canInteract || gameState.winner || gameState.isDraw || localBoard[index] !== null) {
       console.log('Move blocked:', { isMyTurn, winner: gameState.winner, isDraw: gameState.isDraw, cellValue: localBoard[index] });
       return;
     }
@@ -84,13 +86,13 @@ export default function TicTacToeBoard({ gameState, playerTeam, isMyTurn, player
             <button
               key={index}
               onClick={() => handleSquareClick(index)}
-              disabled={!isMyTurn || value !== null || gameState.winner !== null || gameState.isDraw}
+              disabled={!canInteract || value !== null || gameState.winner !== null || gameState.isDraw}
               className={`
                 aspect-square w-full bg-white flex items-center justify-center text-2xl sm:text-3xl md:text-4xl lg:text-5xl
                 transition-all duration-200 touch-manipulation
                 ${!isLastCol ? 'border-r-2 sm:border-r border-black' : ''}
                 ${!isLastRow ? 'border-b-2 sm:border-b border-black' : ''}
-                ${value === null && isMyTurn && !gameState.winner && !gameState.isDraw
+                ${value === null && canInteract && !gameState.winner && !gameState.isDraw
                   ? 'active:bg-gray-100 sm:hover:bg-gray-100 cursor-pointer active:scale-95'
                   : 'cursor-not-allowed opacity-60'
                 }
@@ -96,6 +96,29 @@ export const API_ENDPOINTS = {
     WITHDRAWALS: getApiUrl('api/admin/withdrawals'),
     APPROVE_WITHDRAWAL: getApiUrl('api/admin/withdrawals/approve'),
     REJECT_WITHDRAWAL: getApiUrl('api/admin/withdrawals/reject'),
+    SETTINGS: getApiUrl('api/admin/settings'),
+    UPDATE_SETTINGS: getApiUrl('api/admin/settings/update'),
+    DELETE_SETTINGS: getApiUrl('api/admin/settings/delete'),
+  },
+  // Match endpoints
+  MATCHES: {
+    REPLAY: (matchId: string) => getApiUrl(`api/matches/${matchId}/replay`),
+    PGN: (matchId: string) => getApiUrl(`api/matches/${matchId}/pgn`),
+  },
+  // Room endpoints
+  ROOMS: {
+    LOBBY: (page: number, gameType?: string) =>
+      getApiUrl(`api/rooms?page=${page}${gameType ? `&gameType=${gameType}` : ''}`),
+    INVITE: (token: string) => getApiUrl(`api/rooms/invites/${encodeURIComponent(token)}`),
+  },
+  // Friend endpoints
+  FRIENDS: {
+    LIST: getApiUrl('api/friends'),
+  },
+  // User endpoints
+  USERS: {
+    RATINGS: (userId: string) => getApiUrl(`api/users/${userId}/ratings`),
+    PROFILE: (userId: string) => getApiUrl(`api/users/${userId}/profile`),
   },
 } as const;
 
@@ -1,10 +1,11 @@
 import { useState, useEffect } from 'react';
-import { Users, Ban, CheckCircle, DollarSign, Search, RefreshCw, Shield, AlertTriangle, TrendingUp, LogOut } from 'lucide-react';
+import { Users, Ban, CheckCircle, DollarSign, Search, RefreshCw, Shield, AlertTriangle, TrendingUp, LogOut, Film, SlidersHorizontal } from 'lucide-react';
 import { useNotification } from '../contexts/NotificationContext';
 import { useDialog } from '../hooks/useDialog';
 import { useTranslation } from 'react-i18next';
 import { API_ENDPOINTS } from '../config/api';
 import LanguageSwitcher from '../components/LanguageSwitcher';
+import Replay from './Replay';
 
 interface User {
   id: string;
@@ -27,6 +28,7 @@ interface Report {
   reporterUserId: string;
   reporterUsername: string;
   roomId: string | null;
+  matchId: string | null;
   reason: string;
   createdAt: string;
 }
@@ -67,15 +69,34 @@ interface Withdrawal {
   updatedAt: string;
 }
 
+type SettingKey = 'feePercent' | 'drawFeePercent' | 'feeCap' | 'minStake' | 'maxStake' | 'defaultStake';
+
+const SETTING_KEYS: SettingKey[] = ['feePercent', 'drawFeePercent', 'feeCap', 'minStake', 'maxStake', 'defaultStake'];
+
+// A row of betting settings; null values fall back to the default row
+type BettingSettingsRow = { gameType: string; updatedAt: string } & Record<SettingKey, number | null>;
+
 export default function AdminPanel() {
   const { t } = useTranslation();
   const { showNotification } = useNotification();
   const { showConfirm, showPrompt, DialogComponent } = useDialog();
   const [users, setUsers] = useState<User[]>([]);
   const [reports, setReports] = useState<Report[]>([]);
+  const [replayMatchId, setReplayMatchId] = useState<string | null>(null);
   const [withdrawals, setWithdrawals] = useState<Withdrawal[]>([]);
   const [stats, setStats] = useState<Stats | null>(null);
-  const [activeTab, setActiveTab] = useState<'users' | 'reports' | 'stats' | 'withdrawals'>('users');
+  const [activeTab, setActiveTab] = useState<'users' | 'reports' | 'stats' | 'withdrawals' | 'settings'>('users');
+  const [settingsRows, setSettingsRows] = useState<BettingSettingsRow[]>([]);
+  const [gameTypes, setGameTypes] = useState<string[]>([]);
+  const [settingsGameType, setSettingsGameType] = useState('default');
+  const [settingsForm, setSettingsForm] = useState<Record<SettingKey, string>>({
+    feePercent: '',
+    drawFeePercent: '',
+    feeCap: '',
+    minStake: '',
+    maxStake: '',
+    defaultStake: '',
+  });
   const [withdrawalStatusFilter, setWithdrawalStatusFilter] = useState<'pending' | 'all'>('pending');
   const [searchQuery, setSearchQuery] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
@@ -96,6 +117,8 @@ export default function AdminPanel() {
         fetchReports();
       } else if (activeTab === 'withdrawals') {
         fetchWithdrawals();
+      } else if (activeTab === 'settings') {
+        fetchSettings();
       }
     }
   }, [userId, activeTab, currentPage, searchQuery, withdrawalStatusFilter]);
@@ -429,6 +452,109 @@ export default function AdminPanel() {
     }
   };
 
+  // Load a settings row into the form (empty fields fall back to the default row)
+  const selectSettingsRow = (gameType: string, rows: BettingSettingsRow[] = settingsRows) => {
+    const row = rows.find((r) => r.gameType === gameType);
+    setSettingsGameType(gameType);
+    setSettingsForm(
+      Object.fromEntries(
+        SETTING_KEYS.map((key) => [key, row && row[key] !== null ? String(row[key]) : '']),
+      ) as Record<SettingKey, string>,
+    );
+  };
+
+  const fetchSettings = async () => {
+    const { authenticatedFetch } = await import('../utils/api');
+    if (!userId) return;
+    setLoading(true);
+    try {
+      const response = await authenticatedFetch(API_ENDPOINTS.ADMIN.SETTINGS, {
+        method: 'POST',
+        body: JSON.stringify({}),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setSettingsRows(data.settings || []);
+        setGameTypes(data.gameTypes || []);
+        selectSettingsRow(settingsGameType, data.settings || []);
+      } else {
+        const error = await response.json();
+        showNotification(error.error || t('admin.errorFetchingSettings'), 'error');
+      }
+    } catch (error) {
+      console.error('Error fetching betting settings:', error);
+      showNotification(t('admin.errorFetchingSettings'), 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveSettings = async () => {
+    const { authenticatedFetch } = await import('../utils/api');
+    if (!userId) return;
+
+    try {
+      const response = await authenticatedFetch(API_ENDPOINTS.ADMIN.UPDATE_SETTINGS, {
+        method: 'POST',
+        body: JSON.stringify({
+          gameType: settingsGameType,
+          ...Object.fromEntries(
+            SETTING_KEYS.map((key) => [key, settingsForm[key].trim() === '' ? null : Number(settingsForm[key])]),
+          ),
+        }),
+      });
+
+      if (response.ok) {
+        showNotification(t('admin.settingsSaved'), 'success');
+        fetchSettings();
+      } else {
+        const error = await response.json();
+        showNotification(error.error || t('admin.failedToSaveSettings'), 'error');
+      }
+    } catch (error) {
+      console.error('Error saving betting settings:', error);
+      showNotification(t('admin.failedToSaveSettings'), 'error');
+    }
+  };
+
+  const handleDeleteSettings = async (gameType: string) => {
+    const { authenticatedFetch } = await import('../utils/api');
+    if (!userId) return;
+
+    const confirmed = await showConfirm(t('admin.removeOverrideConfirm', { gameType }), {
+      title: t('admin.removeOverride'),
+      type: 'warning',
+      confirmText: t('admin.removeOverride'),
+      cancelText: t('common.cancel'),
+    });
+
+    if (!confirmed) return;
+
+    try {
+      const response = await authenticatedFetch(API_ENDPOINTS.ADMIN.DELETE_SETTINGS, {
+        method: 'POST',
+        body: JSON.stringify({ gameType }),
+      });
+
+      if (response.ok) {
+        showNotification(t('admin.settingsRemoved'), 'success');
+        fetchSettings();
+      } else {
+        const error = await response.json();
+        showNotification(error.error || t('admin.failedToSaveSettings'), 'error');
+      }
+    } catch (error) {
+      console.error('Error removing betting settings:', error);
+      showNotification(t('admin.failedToSaveSettings'), 'error');
+    }
+  };
+
+  // Reviewing a report: show the match the players were reported over
+  if (replayMatchId) {
+    return <Replay matchId={replayMatchId} userId={userId} onBack={() => setReplayMatchId(null)} />;
+  }
+
   return (
     <>
       {DialogComponent}
@@ -592,6 +718,17 @@ export default function AdminPanel() {
               <DollarSign className="w-5 h-5 inline mr-2" />
               {t('admin.withdrawals')}
             </button>
+            <button
+              onClick={() => setActiveTab('settings')}
+              className={`flex-1 px-6 py-4 font-semibold transition-colors ${
+                activeTab === 'settings'
+                  ? 'text-blue-600 border-b-2 border-blue-600'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              <SlidersHorizontal className="w-5 h-5 inline mr-2" />
+              {t('admin.bettingSettings')}
+            </button>
           </div>
 
           {/* Users Tab */}
@@ -787,6 +924,15 @@ export default function AdminPanel() {
                       {report.roomId && (
                         <p className="text-xs text-gray-500 mt-2">{t('admin.roomId')} {report.roomId}</p>
                       )}
+                      {report.matchId && (
+                        <button
+                          onClick={() => setReplayMatchId(report.matchId)}
+                          className="mt-3 px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2 text-sm"
+                        >
+                          <Film className="w-4 h-4" />
+                          {t('admin.viewReplay')}
+                        </button>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -947,6 +1093,113 @@ export default function AdminPanel() {
             </div>
           )}
 
+          {/* Betting Settings Tab */}
+          {activeTab === 'settings' && (
+            <div className="p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-1">{t('admin.bettingSettings')}</h3>
+              <p className="text-sm text-gray-600 mb-4">{t('admin.bettingSettingsHint')}</p>
+
+              <div className="bg-gray-50 rounded-lg p-4 mb-6">
+                <label className="block text-sm font-medium text-gray-700 mb-2">{t('admin.settingsGameType')}</label>
+                <select
+                  value={settingsGameType}
+                  onChange={(e) => selectSettingsRow(e.target.value)}
+                  className="w-full md:w-64 px-3 py-2 border-2 border-gray-300 rounded-lg focus:border-blue-500 focus:outline-none mb-4"
+                >
+                  <option value="default">{t('admin.settingsDefault')}</option>
+                  {gameTypes.map((gameType) => (
+                    <option key={gameType} value={gameType}>
+                      {gameType}
+                    </option>
+                  ))}
+                </select>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  {SETTING_KEYS.map((key) => (
+                    <div key={key}>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">{t(`admin.setting.${key}`)}</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={settingsForm[key]}
+                        onChange={(e) => setSettingsForm({ ...settingsForm, [key]: e.target.value })}
+                        placeholder={
+                          settingsGameType === 'default'
+                            ? key === 'feeCap' || key === 'maxStake'
+                              ? t('admin.noLimit')
+                              : ''
+                            : t('admin.useDefault')
+                        }
+                        className="w-full px-3 py-2 border-2 border-gray-300 rounded-lg focus:border-blue-500 focus:outline-none"
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex gap-2 mt-4">
+                  <button
+                    onClick={handleSaveSettings}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                  >
+                    {t('admin.saveSettings')}
+                  </button>
+                  {settingsGameType !== 'default' && settingsRows.some((r) => r.gameType === settingsGameType) && (
+                    <button
+                      onClick={() => handleDeleteSettings(settingsGameType)}
+                      className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+                    >
+                      {t('admin.removeOverride')}
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {loading ? (
+                <div className="text-center py-8">
+                  <RefreshCw className="w-8 h-8 animate-spin mx-auto text-gray-400" />
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('admin.settingsGameType')}</th>
+                        {SETTING_KEYS.map((key) => (
+                          <th key={key} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                            {t(`admin.setting.${key}`)}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {settingsRows.map((row) => (
+                        <tr
+                          key={row.gameType}
+                          onClick={() => selectSettingsRow(row.gameType)}
+                          className="hover:bg-gray-50 cursor-pointer"
+                        >
+                          <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                            {row.gameType === 'default' ? t('admin.settingsDefault') : row.gameType}
+                          </td>
+                          {SETTING_KEYS.map((key) => (
+                            <td key={key} className="px-4 py-3 text-sm text-gray-600">
+                              {row[key] !== null
+                                ? row[key]
+                                : row.gameType === 'default'
+                                  ? t('admin.noLimit')
+                                  : t('admin.useDefault')}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Stats Tab */}
           {activeTab === 'stats' && stats && (
             <div className="p-6">
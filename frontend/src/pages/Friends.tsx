@@ -0,0 +1,397 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ArrowLeft, UserPlus, Users, Check, X, Swords, Trash2, Clock } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import Header from '../components/Header';
+import {
+  getSocket,
+  sendFriendRequest,
+  respondFriendRequest,
+  removeFriend,
+  challengeFriend,
+} from '../utils/socket';
+import { authenticatedFetch } from '../utils/api';
+import { API_ENDPOINTS } from '../config/api';
+import { useNotification } from '../contexts/NotificationContext';
+
+type GameType = 'tic-tac-toe' | 'checkers' | 'chess' | 'connect-four';
+
+const GAME_TYPES: GameType[] = ['tic-tac-toe', 'checkers', 'chess', 'connect-four'];
+
+type Presence = 'offline' | 'online' | 'in_game';
+
+interface Friend {
+  id: string;
+  username: string;
+  since: string;
+  presence: Presence;
+}
+
+// A pending request: the other user is the requester for incoming, the addressee for outgoing
+interface FriendRequest {
+  id: string;
+  userId: string;
+  username: string;
+  createdAt: string;
+}
+
+interface FriendsProps {
+  onNavigate: (page: string, data?: { gameType?: GameType; roomId?: string; profileUserId?: string }) => void;
+  isConnected: boolean;
+  userId?: string;
+}
+
+export default function Friends({ onNavigate, isConnected, userId }: FriendsProps) {
+  const { t } = useTranslation();
+  const { showNotification } = useNotification();
+  const [friends, setFriends] = useState<Friend[]>([]);
+  const [incoming, setIncoming] = useState<FriendRequest[]>([]);
+  const [outgoing, setOutgoing] = useState<FriendRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newFriend, setNewFriend] = useState('');
+  // The friend whose challenge form is open, and what we'd challenge them to
+  const [challengeTarget, setChallengeTarget] = useState<string | null>(null);
+  const [challengeGame, setChallengeGame] = useState<GameType>('tic-tac-toe');
+  const [challengeStake, setChallengeStake] = useState('');
+  const [timeControl, setTimeControl] = useState<'none' | 'bullet' | 'blitz' | 'rapid'>('none');
+  const [timeIncrement, setTimeIncrement] = useState(0);
+  const [challenging, setChallenging] = useState(false);
+
+  const fetchFriends = useCallback(async () => {
+    try {
+      const response = await authenticatedFetch(API_ENDPOINTS.FRIENDS.LIST);
+      if (!response.ok) return;
+      const data: { friends: Friend[]; incoming: FriendRequest[]; outgoing: FriendRequest[] } =
+        await response.json();
+      setFriends(data.friends);
+      setIncoming(data.incoming);
+      setOutgoing(data.outgoing);
+    } catch (error) {
+      console.error('Error fetching friends:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchFriends();
+  }, [fetchFriends]);
+
+  // Refetch when a friendship changes on either side, and follow our friends'
+  // presence as they come and go
+  useEffect(() => {
+    const socket = getSocket();
+    if (!socket) return;
+
+    const handlePresence = (data: { userId: string; presence: Presence }) => {
+      setFriends((current) =>
+        current.map((friend) => (friend.id === data.userId ? { ...friend, presence: data.presence } : friend))
+      );
+    };
+
+    const handleError = (error: {
+      message?: string;
+      translationKey?: string;
+      translationData?: Record<string, unknown>;
+    }) => {
+      setChallenging(false);
+      const message = error.translationKey
+        ? t(error.translationKey, error.translationData)
+        : error.message || t('friends.actionFailed');
+      showNotification(message, 'error');
+    };
+
+    socket.on('friends_updated', fetchFriends);
+    socket.on('friend_presence', handlePresence);
+    socket.on('connect', fetchFriends);
+    socket.on('error', handleError);
+
+    return () => {
+      socket.off('friends_updated', fetchFriends);
+      socket.off('friend_presence', handlePresence);
+      socket.off('connect', fetchFriends);
+      socket.off('error', handleError);
+    };
+  }, [fetchFriends, showNotification, t]);
+
+  // Our challenge opens a private room for us; wait in it for the friend
+  useEffect(() => {
+    if (!challenging) return;
+    const socket = getSocket();
+    if (!socket) return;
+
+    const handleJoined = (data: { roomId?: string }) => {
+      setChallenging(false);
+      if (data.roomId) {
+        onNavigate('game-room', { gameType: challengeGame, roomId: data.roomId });
+      }
+    };
+
+    socket.on('game_start', handleJoined);
+    socket.on('waiting_for_player', handleJoined);
+
+    return () => {
+      socket.off('game_start', handleJoined);
+      socket.off('waiting_for_player', handleJoined);
+    };
+  }, [challenging, challengeGame, onNavigate]);
+
+  const getGameName = (gameType: string) => {
+    switch (gameType) {
+      case 'tic-tac-toe':
+        return t('home.games.ticTacToe.name');
+      case 'checkers':
+        return t('home.games.checkers.name');
+      case 'chess':
+        return t('home.games.chess.name');
+      case 'connect-four':
+        return t('home.games.connectFour.name');
+      default:
+        return gameType;
+    }
+  };
+
+  const handleAddFriend = () => {
+    const username = newFriend.trim();
+    if (!username) return;
+    sendFriendRequest(username);
+    setNewFriend('');
+  };
+
+  const handleChallenge = (friendId: string) => {
+    if (!localStorage.getItem('displayUsername')) {
+      showNotification(t('home.usernameRequired'), 'warning');
+      return;
+    }
+    const stake = challengeStake.trim() ? Number(challengeStake) : undefined;
+    if (stake !== undefined && !(stake > 0)) {
+      showNotification(t('home.invalidStakeRange'), 'warning');
+      return;
+    }
+
+    setChallenging(true);
+    challengeFriend({
+      friendId,
+      gameType: challengeGame.replace(/-/g, '_'),
+      stake,
+      timeControl,
+      timeIncrement,
+    });
+  };
+
+  const presenceDot = (presence: Presence) => {
+    switch (presence) {
+      case 'online':
+        return 'bg-green-500';
+      case 'in_game':
+        return 'bg-yellow-500';
+      default:
+        return 'bg-gray-300';
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-cyan-50">
+      <Header isConnected={isConnected} username={localStorage.getItem('displayUsername') || localStorage.getItem('username') || undefined} userId={userId} onNavigate={onNavigate} />
+
+      <main className="max-w-2xl mx-auto px-4 py-8 sm:py-12">
+        <button
+          onClick={() => onNavigate('home')}
+          className="flex items-center gap-2 text-gray-600 hover:text-gray-900 transition-colors mb-4"
+        >
+          <ArrowLeft className="w-5 h-5" />
+          {t('lobby.backToHome')}
+        </button>
+
+        <div className="bg-white rounded-2xl shadow-lg p-6 sm:p-8">
+          <div className="flex items-center gap-3 mb-6">
+            <Users className="w-6 h-6 text-blue-600" />
+            <h2 className="text-2xl font-bold text-gray-900">{t('friends.title')}</h2>
+          </div>
+
+          <div className="flex items-center gap-2 mb-6">
+            <input
+              type="text"
+              value={newFriend}
+              onChange={(e) => setNewFriend(e.target.value)}
+              placeholder={t('friends.addPlaceholder')}
+              maxLength={50}
+              className="flex-1 min-w-0 px-3 py-2 text-base border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              onKeyPress={(e) => e.key === 'Enter' && handleAddFriend()}
+            />
+            <button
+              onClick={handleAddFriend}
+              disabled={!newFriend.trim()}
+              className="inline-flex items-center gap-1 px-4 py-2 bg-blue-600 text-white rounded-xl font-semibold text-sm hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <UserPlus className="w-4 h-4" />
+              {t('friends.add')}
+            </button>
+          </div>
+
+          {incoming.length > 0 && (
+            <div className="mb-6">
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">{t('friends.incoming')}</h3>
+              <ul className="space-y-2">
+                {incoming.map((request) => (
+                  <li key={request.id} className="flex items-center justify-between gap-2 p-3 bg-blue-50 rounded-xl">
+                    <span className="font-medium text-gray-900 truncate">{request.username}</span>
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => respondFriendRequest(request.id, true)}
+                        className="inline-flex items-center gap-1 px-3 py-1 bg-green-600 text-white rounded-lg text-sm hover:bg-green-700 transition-colors"
+                      >
+                        <Check className="w-4 h-4" />
+                        {t('friends.accept')}
+                      </button>
+                      <button
+                        onClick={() => respondFriendRequest(request.id, false)}
+                        className="inline-flex items-center gap-1 px-3 py-1 bg-gray-100 text-gray-700 rounded-lg text-sm hover:bg-gray-200 transition-colors"
+                      >
+                        <X className="w-4 h-4" />
+                        {t('friends.decline')}
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {outgoing.length > 0 && (
+            <div className="mb-6">
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">{t('friends.outgoing')}</h3>
+              <ul className="space-y-2">
+                {outgoing.map((request) => (
+                  <li key={request.id} className="flex items-center justify-between gap-2 p-3 bg-gray-50 rounded-xl">
+                    <span className="text-gray-700 truncate">{request.username}</span>
+                    <button
+                      onClick={() => removeFriend(request.userId)}
+                      className="text-sm text-gray-500 hover:text-gray-800 transition-colors"
+                    >
+                      {t('friends.cancelRequest')}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">{t('friends.friends')}</h3>
+          {loading ? (
+            <div className="text-center text-gray-600 py-6">{t('common.loading')}</div>
+          ) : friends.length === 0 ? (
+            <p className="text-center text-gray-600 py-6">{t('friends.noFriends')}</p>
+          ) : (
+            <ul className="space-y-2">
+              {friends.map((friend) => (
+                <li key={friend.id} className="p-3 border-2 border-gray-100 rounded-xl">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <span className={`w-2.5 h-2.5 rounded-full flex-shrink-0 ${presenceDot(friend.presence)}`} />
+                      <button
+                        onClick={() => onNavigate('profile', { profileUserId: friend.id })}
+                        title={t('profile.viewProfile')}
+                        className="font-medium text-gray-900 truncate hover:text-blue-600 hover:underline transition-colors"
+                      >
+                        {friend.username}
+                      </button>
+                      <span className="text-xs text-gray-500">{t(`friends.presence.${friend.presence}`)}</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => setChallengeTarget(challengeTarget === friend.id ? null : friend.id)}
+                        disabled={friend.presence !== 'online'}
+                        className="inline-flex items-center gap-1 px-3 py-1 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <Swords className="w-4 h-4" />
+                        {t('friends.challenge')}
+                      </button>
+                      <button
+                        onClick={() => removeFriend(friend.id)}
+                        title={t('friends.remove')}
+                        className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+
+                  {challengeTarget === friend.id && friend.presence === 'online' && (
+                    <div className="mt-3 space-y-3">
+                      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                        {GAME_TYPES.map((gameType) => (
+                          <button
+                            key={gameType}
+                            onClick={() => setChallengeGame(gameType)}
+                            className={`py-2 rounded-lg text-xs sm:text-sm font-medium transition-colors ${
+                              challengeGame === gameType
+                                ? 'bg-blue-600 text-white'
+                                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                            }`}
+                          >
+                            {getGameName(gameType)}
+                          </button>
+                        ))}
+                      </div>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={challengeStake}
+                        onChange={(e) => setChallengeStake(e.target.value)}
+                        placeholder={t('invite.stakeOptional')}
+                        className="w-full px-3 py-2 text-base border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                      <div>
+                        <div className="flex items-center gap-2 mb-2">
+                          <Clock className="w-4 h-4 text-gray-600 flex-shrink-0" />
+                          <span className="text-xs sm:text-sm text-gray-600">{t('game.timeControl')}</span>
+                        </div>
+                        <div className="grid grid-cols-4 gap-2">
+                          {(['none', 'bullet', 'blitz', 'rapid'] as const).map((option) => (
+                            <button
+                              key={option}
+                              onClick={() => setTimeControl(option)}
+                              className={`py-2 rounded-lg text-xs sm:text-sm font-medium transition-colors ${
+                                timeControl === option
+                                  ? 'bg-blue-600 text-white'
+                                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                              }`}
+                            >
+                              {t(`game.timeControls.${option}`)}
+                            </button>
+                          ))}
+                        </div>
+                        {timeControl !== 'none' && (
+                          <div className="flex items-center gap-2 mt-2">
+                            <span className="text-xs sm:text-sm text-gray-600">{t('home.increment')}</span>
+                            <select
+                              value={timeIncrement}
+                              onChange={(e) => setTimeIncrement(Number(e.target.value))}
+                              className="px-2 py-1 text-sm border-2 border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                              {[0, 1, 2, 3, 5, 10].map((seconds) => (
+                                <option key={seconds} value={seconds}>+{seconds}s</option>
+                              ))}
+                            </select>
+                          </div>
+                        )}
+                      </div>
+                      <button
+                        onClick={() => handleChallenge(friend.id)}
+                        disabled={challenging}
+                        className="w-full py-2.5 rounded-xl font-semibold bg-gradient-to-r from-blue-600 to-cyan-500 text-white hover:from-blue-700 hover:to-cyan-600 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {challenging ? t('lobby.joining') : t('friends.sendChallenge', { username: friend.username })}
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,13 +1,15 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { RotateCcw, LogOut } from 'lucide-react';
+import { RotateCcw, LogOut, Film, Flag, Handshake, XCircle, Copy, X } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import Header from '../components/Header';
 import GameBoard from '../components/GameBoard';
-import GameInfoPanel from '../components/GameInfoPanel';
+import GameInfoPanel, { ClockState } from '../components/GameInfoPanel';
 import ChatPanel from '../components/ChatPanel';
 import VideoPanel from '../components/VideoPanel';
-import { getSocket } from '../utils/socket';
+import PlayerProfile from '../components/PlayerProfile';
+import { getSocket, requestRoomInvite } from '../utils/socket';
 import { useNotification } from '../contexts/NotificationContext';
+import { useDialog } from '../hooks/useDialog';
 
 interface Message {
   id: string;
@@ -18,10 +20,10 @@ interface Message {
 }
 
 interface GameRoomProps {
-  gameType: 'tic-tac-toe' | 'checkers' | 'chess';
+  gameType: 'tic-tac-toe' | 'checkers' | 'chess' | 'connect-four';
   roomId?: string;
   userId?: string;
-  onNavigate: (page: string) => void;
+  onNavigate: (page: string, data?: { matchId?: string }) => void;
   isConnected: boolean;
   onSendMessage: (message: string) => void;
   onStartVideo: () => void;
@@ -44,6 +46,7 @@ export default function GameRoom({
 }: GameRoomProps) {
   const { t } = useTranslation();
   const { showNotification } = useNotification();
+  const { showConfirm, DialogComponent } = useDialog();
   const [messages, setMessages] = useState<Message[]>(() => [
     {
       id: '1',
@@ -90,6 +93,15 @@ export default function GameRoom({
   const [players, setPlayers] = useState<any[]>([]);
   const [isWaiting, setIsWaiting] = useState(true);
   const [gameOver, setGameOver] = useState(false);
+  const [lastMatchId, setLastMatchId] = useState<string | null>(null);
+  const [clock, setClock] = useState<ClockState | null>(null);
+  const [reconnectingPlayers, setReconnectingPlayers] = useState<Record<string, number>>({}); // userId -> grace deadline (ms)
+  const [ratingChanges, setRatingChanges] = useState<Record<string, number>>({}); // userId -> rating points won or lost in the last game
+  const [spectatorCount, setSpectatorCount] = useState(0);
+  const [invite, setInvite] = useState<{ token: string; hasPassword: boolean } | null>(null); // Invite to share while hosting a private room
+  const [profileUserId, setProfileUserId] = useState<string | null>(null); // Player whose profile is open over the room
+  const [drawOfferFrom, setDrawOfferFrom] = useState<string | null>(null); // userId of the player offering a draw
+  const [hasMoves, setHasMoves] = useState(false); // A game can only be aborted before the first move
   const [canMove, setCanMove] = useState(false); // Track if moves are allowed (2 players present)
   const [userId, setUserId] = useState<string>(propUserId || '');
   const [localRoomId, setLocalRoomId] = useState<string>(roomId || '');
@@ -123,6 +135,8 @@ export default function GameRoom({
       return currentPlayerIndex === 0 ? 'player1' : 'player2';
     } else if (gameType === 'chess') {
       return currentPlayerIndex === 0 ? 'w' : 'b';
+    } else if (gameType === 'connect-four') {
+      return currentPlayerIndex === 0 ? 'red' : 'yellow';
     }
     return '';
   };
@@ -148,6 +162,8 @@ export default function GameRoom({
       isMyTurn = gameState.currentPlayer === playerTeam;
     } else if (gameType === 'chess') {
       isMyTurn = gameState.currentTeam === playerTeam;
+    } else if (gameType === 'connect-four') {
+      isMyTurn = gameState.currentPlayer === playerTeam;
     }
     
     return isMyTurn;
@@ -299,6 +315,9 @@ export default function GameRoom({
         setCanMove(movesAllowed);
         setIsWaiting(playerCount < 2); // Set waiting only if less than 2 players
         setGameOver(false);
+        setClock(data.clock || null);
+        setDrawOfferFrom(null);
+        setHasMoves(!!data.gameState?.moveHistory?.length);
         setIsInitializing(false); // Component initialized
         console.log('✅ Game started - canMove:', movesAllowed, 'players:', playerCount);
       } else {
@@ -368,6 +387,8 @@ export default function GameRoom({
         setIsWaiting(false);
         setCanMove(true); // Moves are allowed when receiving move updates (2 players present)
         setIsInitializing(false); // Component initialized
+        setClock(data.clock || null);
+        setHasMoves(true);
         console.log('✅ Game state updated after move:', data.gameState);
       }
     };
@@ -377,14 +398,44 @@ export default function GameRoom({
       console.log('Game over:', data);
       setGameOver(true);
       setGameState(data.gameState);
+      setClock(data.clock || null);
+      setReconnectingPlayers({});
+      setLastMatchId(data.matchId || null);
+      setDrawOfferFrom(null);
+
+      // Show each player's new rating along with how much it moved
+      const ratings: Array<{ userId: string; before: number; after: number }> = data.ratings || [];
+      if (ratings.length > 0) {
+        setPlayers((prev) =>
+          prev.map((p) => {
+            const change = ratings.find((r) => r.userId === p.id);
+            return change ? { ...p, rating: change.after } : p;
+          })
+        );
+        setRatingChanges(Object.fromEntries(ratings.map((r) => [r.userId, r.after - r.before])));
+      }
       
       // Show notification about game result
-      if (data.isDraw) {
+      if (data.reason === 'aborted') {
+        showNotificationRef.current(t('notifications.gameAborted'), 'info');
+      } else if (data.reason === 'draw_agreed') {
+        showNotificationRef.current(t('notifications.drawAgreed'), 'info');
+      } else if (data.isDraw) {
         showNotificationRef.current(t('notifications.gameEndedDraw'), 'info');
       } else if (data.winner || data.winningTeam) {
         const winnerTeam = data.winner || data.winningTeam;
         const playerTeam = getPlayerTeam();
-        if (winnerTeam === playerTeam) {
+        if (data.reason === 'resignation') {
+          showNotificationRef.current(
+            winnerTeam === playerTeam ? t('notifications.opponentResigned') : t('notifications.youResigned'),
+            winnerTeam === playerTeam ? 'success' : 'info'
+          );
+        } else if (data.reason === 'timeout') {
+          showNotificationRef.current(
+            winnerTeam === playerTeam ? t('notifications.opponentTimedOut') : t('notifications.youTimedOut'),
+            winnerTeam === playerTeam ? 'success' : 'info'
+          );
+        } else if (winnerTeam === playerTeam) {
           showNotificationRef.current(t('notifications.congratulations'), 'success');
         } else {
           // Find opponent username (the one who is not the current user)
@@ -403,6 +454,10 @@ export default function GameRoom({
         setGameState(data.gameState);
         setGameOver(false);
         setIsWaiting(false);
+        setClock(data.clock || null);
+        setDrawOfferFrom(null);
+        setHasMoves(false);
+        setRatingChanges({});
       }
     };
 
@@ -475,10 +530,72 @@ export default function GameRoom({
       // Set waiting state - moves disabled until new player joins
       setIsWaiting(true);
       setCanMove(false);
+      setClock(null);
+      setReconnectingPlayers({});
       
       // Note: waiting_for_player event will be sent after this with full state
     };
 
+    // Listen for opponent dropping out - their seat is held while they reconnect
+    const handlePlayerDisconnected = (data: { userId: string; roomId: string; graceSeconds: number }) => {
+      const currentRoomId = roomId || localRoomId;
+      if (data.roomId && data.roomId !== currentRoomId) return;
+      setReconnectingPlayers((prev) => ({ ...prev, [data.userId]: Date.now() + data.graceSeconds * 1000 }));
+      const player = players.find((p) => p.id === data.userId);
+      showNotificationRef.current(t('notifications.playerReconnecting', { username: player?.username || t('common.opponent') }), 'warning');
+    };
+
+    const handlePlayerReconnected = (data: { userId: string; roomId: string }) => {
+      const currentRoomId = roomId || localRoomId;
+      if (data.roomId && data.roomId !== currentRoomId) return;
+      setReconnectingPlayers((prev) => {
+        const next = { ...prev };
+        delete next[data.userId];
+        return next;
+      });
+      const player = players.find((p) => p.id === data.userId);
+      showNotificationRef.current(t('notifications.playerReconnected', { username: player?.username || t('common.opponent') }), 'success');
+    };
+
+    const handleDrawOffered = (data: { roomId: string; userId: string }) => {
+      const currentRoomId = roomId || localRoomId;
+      if (data.roomId && data.roomId !== currentRoomId) return;
+      setDrawOfferFrom(data.userId);
+      if (data.userId === userId) {
+        showNotificationRef.current(t('notifications.drawOfferSent'), 'info');
+      }
+    };
+
+    const handleDrawDeclined = (data: { roomId: string; userId: string }) => {
+      const currentRoomId = roomId || localRoomId;
+      if (data.roomId && data.roomId !== currentRoomId) return;
+      setDrawOfferFrom(null);
+      if (data.userId !== userId) {
+        showNotificationRef.current(t('notifications.drawDeclined'), 'info');
+      }
+    };
+
+    const handleSpectatorCount = (data: { roomId: string; count: number }) => {
+      const currentRoomId = roomId || localRoomId;
+      if (data.roomId && data.roomId !== currentRoomId) return;
+      setSpectatorCount(data.count);
+    };
+
+    // Only sent while we host a private room that is waiting for its guest
+    const handleRoomInvite = (data: { roomId: string; token: string; hasPassword: boolean }) => {
+      const currentRoomId = roomId || localRoomId;
+      if (currentRoomId && data.roomId !== currentRoomId) return;
+      setInvite({ token: data.token, hasPassword: data.hasPassword });
+    };
+
+    // We were put back into this room after our own connection dropped - resync the full state
+    const handleRoomRejoined = (data: { roomId: string }) => {
+      const currentRoomId = roomId || localRoomId;
+      if (!currentRoomId || data.roomId === currentRoomId) {
+        socket.emit('request_game_state');
+      }
+    };
+
     // Listen for player joined (when someone joins your waiting room)
     const handlePlayerJoined = (data: any) => {
       console.log('Player joined:', data);
@@ -514,6 +631,17 @@ export default function GameRoom({
       }, 3000);
     };
 
+    // Listen for being sent out of the room, e.g. when we can no longer cover
+    // the stake the game was queued for
+    const handleRemovedFromRoom = (data: { roomId: string; message: string; translationKey?: string }) => {
+      const currentRoomId = roomId || localRoomId;
+      if (data.roomId !== currentRoomId) {
+        return;
+      }
+      showNotificationRef.current(data.translationKey ? t(data.translationKey) : data.message, 'error');
+      onNavigateRef.current('home');
+    };
+
     // Listen for rematch that resulted in new room (when opponent left)
     const handleRematchNewRoom = (data: { oldRoomId: string; newRoomId: string; players: any[]; gameType: string }) => {
       console.log('Rematch created new room:', data);
@@ -547,8 +675,16 @@ export default function GameRoom({
     socket.on('chat_history', handleChatHistory);
     socket.on('chat_message', handleChatMessage);
     socket.on('player_left', handlePlayerLeft);
+    socket.on('removed_from_room', handleRemovedFromRoom);
+    socket.on('player_disconnected', handlePlayerDisconnected);
+    socket.on('player_reconnected', handlePlayerReconnected);
+    socket.on('room_rejoined', handleRoomRejoined);
+    socket.on('spectator_count', handleSpectatorCount);
+    socket.on('draw_offered', handleDrawOffered);
+    socket.on('draw_declined', handleDrawDeclined);
     socket.on('account_banned', handleAccountBanned);
     socket.on('rematch_new_room', handleRematchNewRoom);
+    socket.on('room_invite', handleRoomInvite);
 
     // Set a timeout to ensure we show something even if socket events don't arrive
     // Only set timeout if we don't have game state yet
@@ -572,13 +708,51 @@ export default function GameRoom({
       socket.off('chat_history', handleChatHistory);
       socket.off('chat_message', handleChatMessage);
       socket.off('player_left', handlePlayerLeft);
+      socket.off('removed_from_room', handleRemovedFromRoom);
+      socket.off('player_disconnected', handlePlayerDisconnected);
+      socket.off('player_reconnected', handlePlayerReconnected);
+      socket.off('room_rejoined', handleRoomRejoined);
+      socket.off('spectator_count', handleSpectatorCount);
+      socket.off('draw_offered', handleDrawOffered);
+      socket.off('draw_declined', handleDrawDeclined);
       socket.off('account_banned', handleAccountBanned);
       socket.off('rematch_new_room', handleRematchNewRoom);
+      socket.off('room_invite', handleRoomInvite);
       socket.off('connected', handleConnected);
       socket.off('error', handleError);
     };
   }, [roomId, localRoomId, userId, gameType, isConnected, propUserId]); // Removed function dependencies to prevent unnecessary re-renders
 
+  // Ask for the invite to share whenever we are alone in the room; the server
+  // only answers for a private room we host
+  const isAlone = isWaiting && players.length === 1;
+  useEffect(() => {
+    if (isAlone && isConnected) {
+      requestRoomInvite();
+    } else if (!isAlone) {
+      setInvite(null);
+    }
+  }, [isAlone, isConnected, roomId, localRoomId]);
+
+  const inviteLink = invite ? `${window.location.origin}/invite/${encodeURIComponent(invite.token)}` : '';
+
+  const handleCopyInvite = () => {
+    navigator.clipboard.writeText(inviteLink);
+    showNotification(t('wallet.copiedToClipboard'), 'success');
+  };
+
+  const handleResign = async () => {
+    const confirmed = await showConfirm(t('game.resignConfirm'), {
+      type: 'warning',
+      title: t('game.resign'),
+      confirmText: t('game.resign'),
+      cancelText: t('common.cancel'),
+    });
+    if (confirmed) {
+      getSocket()?.emit('resign');
+    }
+  };
+
   const handleSendMessage = (text: string) => {
     console.log('Sending chat message:', text);
     // Generate a temporary ID that we'll match when the server responds
@@ -610,6 +784,29 @@ export default function GameRoom({
             <p className="text-yellow-600 text-[10px] sm:text-xs mt-0.5">
               {t('game.playersInRoom', { count: players.length })}
             </p>
+            {invite && (
+              <div className="mt-1 sm:mt-2 max-w-md mx-auto">
+                <p className="text-yellow-800 text-[10px] sm:text-xs mb-1">
+                  {invite.hasPassword ? t('invite.shareLinkWithPassword') : t('invite.shareLink')}
+                </p>
+                <div className="flex items-center gap-1">
+                  <input
+                    type="text"
+                    readOnly
+                    value={inviteLink}
+                    onFocus={(e) => e.target.select()}
+                    className="flex-1 min-w-0 px-2 py-1 text-[10px] sm:text-xs border border-yellow-300 rounded-md bg-white text-gray-700"
+                  />
+                  <button
+                    onClick={handleCopyInvite}
+                    className="flex items-center gap-1 px-2 py-1 text-[10px] sm:text-xs font-semibold bg-yellow-500 text-white rounded-md active:bg-yellow-600 sm:hover:bg-yellow-600"
+                  >
+                    <Copy className="w-3 h-3" />
+                    {t('invite.copy')}
+                  </button>
+                </div>
+              </div>
+            )}
           </div>
         )}
         {showLoading && (
@@ -642,13 +839,14 @@ export default function GameRoom({
                 <div className="text-center px-1 sm:px-2 md:px-4">
                   <div className="w-20 h-20 sm:w-24 sm:h-24 md:w-32 md:h-32 lg:w-40 lg:h-40 xl:w-56 xl:h-56 bg-gradient-to-br from-blue-50 to-cyan-50 rounded-lg sm:rounded-xl border-2 border-blue-200 flex items-center justify-center mb-1.5 sm:mb-2 md:mb-3 mx-auto">
                     <span className="text-2xl sm:text-3xl md:text-4xl lg:text-5xl xl:text-6xl">
-                      {gameType === 'tic-tac-toe' ? '⭕' : gameType === 'checkers' ? '⚫' : '♟️'}
+                      {gameType === 'tic-tac-toe' ? '⭕' : gameType === 'checkers' ? '⚫' : gameType === 'connect-four' ? '🔴' : '♟️'}
                     </span>
                   </div>
                   <p className="text-gray-600 font-medium text-[11px] sm:text-xs md:text-sm">
                     {gameType === 'tic-tac-toe' && t('game.board.ticTacToeBoard')}
                     {gameType === 'checkers' && t('game.board.checkersBoard')}
                     {gameType === 'chess' && t('game.board.chessBoard')}
+                    {gameType === 'connect-four' && t('game.board.connectFourBoard')}
                   </p>
                   <p className="text-[10px] sm:text-xs text-gray-500 mt-0.5 sm:mt-1">{t('game.board.waitingForGameStart')}</p>
                 </div>
@@ -665,6 +863,61 @@ export default function GameRoom({
               </div>
             )}
 
+            {gameState && !gameOver && !isWaiting && players.length === 2 && getPlayerTeam() && (
+              <>
+                {drawOfferFrom && drawOfferFrom !== userId && (
+                  <div className="bg-blue-50 border border-blue-200 rounded-lg sm:rounded-xl p-1.5 sm:p-2 flex items-center justify-between gap-2">
+                    <p className="text-blue-800 font-semibold text-[11px] sm:text-xs">
+                      {t('game.drawOffered', { username: players.find((p) => p.id === drawOfferFrom)?.username || t('common.opponent') })}
+                    </p>
+                    <div className="flex gap-1 sm:gap-1.5 flex-shrink-0">
+                      <button
+                        onClick={() => getSocket()?.emit('accept_draw')}
+                        className="px-2 sm:px-3 py-1 rounded-lg bg-blue-600 text-white text-[11px] sm:text-xs font-semibold active:bg-blue-700 sm:hover:bg-blue-700 transition-colors"
+                      >
+                        {t('game.acceptDraw')}
+                      </button>
+                      <button
+                        onClick={() => getSocket()?.emit('decline_draw')}
+                        className="px-2 sm:px-3 py-1 rounded-lg bg-gray-200 text-gray-900 text-[11px] sm:text-xs font-semibold active:bg-gray-300 sm:hover:bg-gray-300 transition-colors"
+                      >
+                        {t('game.declineDraw')}
+                      </button>
+                    </div>
+                  </div>
+                )}
+                <div className="flex gap-1 sm:gap-1.5">
+                  {hasMoves ? (
+                    <>
+                      <button
+                        onClick={() => getSocket()?.emit('offer_draw')}
+                        disabled={!!drawOfferFrom}
+                        className="flex-1 bg-gray-100 text-gray-800 py-1 sm:py-1.5 rounded-lg font-semibold active:bg-gray-200 sm:hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-1 text-[11px] sm:text-xs"
+                      >
+                        <Handshake className="w-3 h-3 sm:w-3.5 sm:h-3.5" />
+                        {t('game.offerDraw')}
+                      </button>
+                      <button
+                        onClick={handleResign}
+                        className="flex-1 bg-gray-100 text-red-700 py-1 sm:py-1.5 rounded-lg font-semibold active:bg-gray-200 sm:hover:bg-gray-200 transition-colors flex items-center justify-center gap-1 text-[11px] sm:text-xs"
+                      >
+                        <Flag className="w-3 h-3 sm:w-3.5 sm:h-3.5" />
+                        {t('game.resign')}
+                      </button>
+                    </>
+                  ) : (
+                    <button
+                      onClick={() => getSocket()?.emit('abort')}
+                      className="flex-1 bg-gray-100 text-gray-800 py-1 sm:py-1.5 rounded-lg font-semibold active:bg-gray-200 sm:hover:bg-gray-200 transition-colors flex items-center justify-center gap-1 text-[11px] sm:text-xs"
+                    >
+                      <XCircle className="w-3 h-3 sm:w-3.5 sm:h-3.5" />
+                      {t('game.abort')}
+                    </button>
+                  )}
+                </div>
+              </>
+            )}
+
             <div className="flex flex-col sm:flex-row gap-1 sm:gap-1.5">
               <button
                 onClick={onRematch}
@@ -673,6 +926,15 @@ export default function GameRoom({
                 <RotateCcw className="w-3 h-3 sm:w-3.5 sm:h-3.5 md:w-4 md:h-4" />
                 {t('game.rematch')}
               </button>
+              {gameOver && lastMatchId && (
+                <button
+                  onClick={() => onNavigate('replay', { matchId: lastMatchId })}
+                  className="flex-1 bg-gray-200 text-gray-900 py-1.5 sm:py-2 md:py-2.5 rounded-lg sm:rounded-xl font-semibold active:bg-gray-300 sm:hover:bg-gray-300 transition-colors flex items-center justify-center gap-1 sm:gap-1.5 touch-manipulation min-h-[36px] sm:min-h-[40px] md:min-h-[44px] text-[11px] sm:text-xs md:text-sm"
+                >
+                  <Film className="w-3 h-3 sm:w-3.5 sm:h-3.5 md:w-4 md:h-4" />
+                  {t('game.watchReplay')}
+                </button>
+              )}
               <button
                 onClick={onExitRoom}
                 className="flex-1 bg-gray-200 text-gray-900 py-1.5 sm:py-2 md:py-2.5 rounded-lg sm:rounded-xl font-semibold active:bg-gray-300 sm:hover:bg-gray-300 transition-colors flex items-center justify-center gap-1 sm:gap-1.5 touch-manipulation min-h-[36px] sm:min-h-[40px] md:min-h-[44px] text-[11px] sm:text-xs md:text-sm"
@@ -719,12 +981,43 @@ export default function GameRoom({
                   isMyTurn={getIsMyTurn()}
                   gameOver={gameOver}
                   currentUserId={userId}
+                  clock={clock}
+                  reconnectingPlayers={reconnectingPlayers}
+                  spectatorCount={spectatorCount}
+                  ratingChanges={ratingChanges}
+                  onPlayerClick={setProfileUserId}
                 />
               </div>
             )}
           </div>
         </div>
       </main>
+      {profileUserId && (
+        <div
+          className="fixed inset-0 z-[10000] flex items-center justify-center bg-black bg-opacity-50 backdrop-blur-sm"
+          onClick={() => setProfileUserId(null)}
+        >
+          <div
+            className="relative bg-white rounded-2xl shadow-2xl max-w-2xl w-full mx-4 p-6 max-h-[90vh] overflow-y-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <button
+              onClick={() => setProfileUserId(null)}
+              className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 transition-colors"
+              aria-label="Close"
+            >
+              <X className="w-5 h-5" />
+            </button>
+            {/* Watching a replay leaves the room, so only offer it between games */}
+            <PlayerProfile
+              userId={profileUserId}
+              viewerId={userId}
+              onOpenReplay={!gameState || gameOver ? (matchId) => onNavigate('replay', { matchId }) : undefined}
+            />
+          </div>
+        </div>
+      )}
+      {DialogComponent}
     </div>
   );
 }
@@ -1,15 +1,18 @@
 import { useState, useEffect } from 'react';
-import { Users } from 'lucide-react';
+import { Users, Key, Clock, Lock, Mail, UserPlus } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import Header from '../components/Header';
-import { getSocket } from '../utils/socket';
+import { getSocket, createPrivateRoom } from '../utils/socket';
+import { authenticatedFetch } from '../utils/api';
+import { API_ENDPOINTS } from '../config/api';
 import { useNotification } from '../contexts/NotificationContext';
 import ticTacToeLogo from '../assets/tic-tac-toe.webp';
 import checkersLogo from '../assets/checkers.webp';
 import chessLogo from '../assets/chess.webp';
+import connectFourLogo from '../assets/connect-four.svg';
 
 interface HomeProps {
-  onNavigate: (page: string, data?: { gameType?: string; keyword?: string; roomId?: string }) => void;
+  onNavigate: (page: string, data?: { gameType?: string; keyword?: string; roomId?: string; inviteToken?: string }) => void;
   isConnected: boolean;
   username?: string;
   onLogout?: () => void;
@@ -25,7 +28,33 @@ export default function Home({ onNavigate, isConnected, username: propUsername,
   const [isUsernameSet, setIsUsernameSet] = useState(() => {
     return !!localStorage.getItem('displayUsername');
   });
+  const [keyword, setKeyword] = useState('');
+  const [timeControl, setTimeControl] = useState<'none' | 'bullet' | 'blitz' | 'rapid'>('none');
+  const [timeIncrement, setTimeIncrement] = useState(0);
+  // Stakes to queue for in random matchmaking; the max may be left empty for a single stake
+  const [playForStake, setPlayForStake] = useState(false);
+  const [stakeMin, setStakeMin] = useState('');
+  const [stakeMax, setStakeMax] = useState('');
+  // Private room settings; an empty password or stake means none
+  const [roomPassword, setRoomPassword] = useState('');
+  const [privateStake, setPrivateStake] = useState('');
+  const [inviteCode, setInviteCode] = useState('');
   const { showNotification } = useNotification();
+  // The user's rating for each game type they have played, keyed by frontend game ID
+  const [ratings, setRatings] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    if (!userId) return;
+    authenticatedFetch(API_ENDPOINTS.USERS.RATINGS(userId))
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: { ratings: Array<{ gameType: string; rating: number }> } | null) => {
+        if (!data) return;
+        setRatings(
+          Object.fromEntries(data.ratings.map((r) => [r.gameType.replace(/_/g, '-'), r.rating]))
+        );
+      })
+      .catch(() => setRatings({}));
+  }, [userId]);
 
   // Check for displayUsername on mount and when userId changes
   useEffect(() => {
@@ -58,6 +87,13 @@ export default function Home({ onNavigate, isConnected, username: propUsername,
       color: 'from-purple-500 to-pink-500',
       description: t('home.games.chess.description'),
     },
+    {
+      id: 'connect-four',
+      name: t('home.games.connectFour.name'),
+      logo: connectFourLogo,
+      color: 'from-yellow-400 to-red-500',
+      description: t('home.games.connectFour.description'),
+    },
   ];
 
   const handleSetUsername = async () => {
@@ -108,6 +144,59 @@ export default function Home({ onNavigate, isConnected, username: propUsername,
   };
 
   const handleRandomMatch = (gameType: string) => {
+    if (!playForStake) {
+      joinMatch(gameType);
+      return;
+    }
+
+    const min = Number(stakeMin);
+    const max = stakeMax.trim() ? Number(stakeMax) : min;
+    if (!stakeMin.trim() || !(min > 0) || !(max >= min)) {
+      showNotification(t('home.invalidStakeRange'), 'warning');
+      return;
+    }
+    joinMatch(gameType, undefined, { stakeMin: min, stakeMax: max });
+  };
+
+  const handleKeywordMatch = (gameType: string) => {
+    if (!keyword.trim()) {
+      showNotification(t('home.keywordRequired'), 'warning');
+      return;
+    }
+    // The time control only applies if this creates the room; joining an existing room keeps its settings
+    joinMatch(gameType, { keyword: keyword.trim(), timeControl, timeIncrement });
+  };
+
+  const handlePrivateRoom = (gameType: string) => {
+    const stake = privateStake.trim() ? Number(privateStake) : undefined;
+    if (stake !== undefined && !(stake > 0)) {
+      showNotification(t('home.invalidStakeRange'), 'warning');
+      return;
+    }
+    joinMatch(gameType, undefined, undefined, {
+      password: roomPassword || undefined,
+      stake,
+      timeControl,
+      timeIncrement,
+    });
+  };
+
+  const handleOpenInvite = () => {
+    // Accept the whole invite link as well as just its code
+    const code = inviteCode.trim().split('/invite/').pop()?.replace(/\/$/, '') || '';
+    if (!code) {
+      showNotification(t('invite.codeRequired'), 'warning');
+      return;
+    }
+    onNavigate('invite', { inviteToken: code });
+  };
+
+  const joinMatch = (
+    gameType: string,
+    keywordRoom?: { keyword: string; timeControl: string; timeIncrement: number },
+    stakeRange?: { stakeMin: number; stakeMax: number },
+    privateRoom?: { password?: string; stake?: number; timeControl: string; timeIncrement: number }
+  ) => {
     // Check if user is admin - prevent admins from joining game rooms
     const userType = localStorage.getItem('userType');
     if (userType === 'admin') {
@@ -124,7 +213,7 @@ export default function Home({ onNavigate, isConnected, username: propUsername,
     const backendGameType = gameType.replace(/-/g, '_');
     const socket = getSocket();
     if (socket) {
-      console.log('Attempting to join random match for:', backendGameType);
+      console.log('Attempting to join match for:', backendGameType);
       console.log('Socket connected:', socket.connected);
       console.log('Socket ID:', socket.id);
       
@@ -197,8 +286,16 @@ export default function Home({ onNavigate, isConnected, username: propUsername,
       socket.on('waiting_for_player', handleWaiting);
       socket.on('error', handleError);
       
-      console.log('Emitting join_random with gameType:', backendGameType);
-      socket.emit('join_random', { gameType: backendGameType });
+      if (privateRoom) {
+        console.log('Emitting create_private_room with gameType:', backendGameType);
+        createPrivateRoom({ gameType: backendGameType, ...privateRoom });
+      } else if (keywordRoom) {
+        console.log('Emitting join_keyword with gameType:', backendGameType);
+        socket.emit('join_keyword', { gameType: backendGameType, ...keywordRoom });
+      } else {
+        console.log('Emitting join_random with gameType:', backendGameType);
+        socket.emit('join_random', { gameType: backendGameType, ...stakeRange });
+      }
     } else {
       console.error('Socket is null!');
       showNotification(t('home.notConnected'), 'error');
@@ -312,6 +409,38 @@ export default function Home({ onNavigate, isConnected, username: propUsername,
             <p className="text-base sm:text-lg md:text-xl text-gray-600 px-4">
               {t('home.joinFriends')}
             </p>
+            <button
+              onClick={() => onNavigate('lobby')}
+              className="mt-4 inline-flex items-center gap-2 px-5 py-2 bg-white text-blue-600 border-2 border-blue-600 rounded-xl font-semibold text-sm sm:text-base active:bg-blue-50 sm:hover:bg-blue-50 transition-colors touch-manipulation"
+            >
+              <Users className="w-4 h-4 sm:w-5 sm:h-5" />
+              {t('home.browseRooms')}
+            </button>
+            <button
+              onClick={() => onNavigate('friends')}
+              className="mt-4 ml-2 inline-flex items-center gap-2 px-5 py-2 bg-white text-blue-600 border-2 border-blue-600 rounded-xl font-semibold text-sm sm:text-base active:bg-blue-50 sm:hover:bg-blue-50 transition-colors touch-manipulation"
+            >
+              <UserPlus className="w-4 h-4 sm:w-5 sm:h-5" />
+              {t('friends.title')}
+            </button>
+            <div className="mt-3 flex items-center justify-center gap-2 max-w-md mx-auto px-4">
+              <input
+                type="text"
+                value={inviteCode}
+                onChange={(e) => setInviteCode(e.target.value)}
+                placeholder={t('invite.codePlaceholder')}
+                className="flex-1 min-w-0 px-3 py-2 text-sm border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                onKeyPress={(e) => e.key === 'Enter' && handleOpenInvite()}
+              />
+              <button
+                onClick={handleOpenInvite}
+                disabled={!inviteCode.trim()}
+                className="inline-flex items-center gap-1 px-4 py-2 bg-blue-600 text-white rounded-xl font-semibold text-sm active:bg-blue-700 sm:hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed touch-manipulation"
+              >
+                <Mail className="w-4 h-4" />
+                {t('invite.open')}
+              </button>
+            </div>
           </div>
 
           <div className="grid grid-cols-3 gap-2 sm:gap-4 md:gap-6 mb-8 sm:mb-12">
@@ -337,6 +466,11 @@ export default function Home({ onNavigate, isConnected, username: propUsername,
                     {game.name}
                   </h3>
                   <p className="text-gray-600 text-center text-[10px] sm:text-xs md:text-sm hidden sm:block">{game.description}</p>
+                  {ratings[game.id] !== undefined && (
+                    <p className="text-center text-[10px] sm:text-xs font-semibold text-blue-600 mt-0.5 sm:mt-1">
+                      {t('home.yourRating', { rating: ratings[game.id] })}
+                    </p>
+                  )}
                 </div>
               );
             })}
@@ -352,6 +486,44 @@ export default function Home({ onNavigate, isConnected, username: propUsername,
                   </h3>
                 </div>
 
+                <div className="mb-3 sm:mb-4">
+                  <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={playForStake}
+                      onChange={(e) => setPlayForStake(e.target.checked)}
+                      className="w-4 h-4 accent-blue-600"
+                    />
+                    {t('home.playForStake')}
+                  </label>
+                  {playForStake && (
+                    <div className="mt-2">
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={stakeMin}
+                          onChange={(e) => setStakeMin(e.target.value)}
+                          placeholder={t('home.stakeMin')}
+                          className="w-full px-3 py-2 text-base border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                        <span className="text-gray-500">–</span>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={stakeMax}
+                          onChange={(e) => setStakeMax(e.target.value)}
+                          placeholder={t('home.stakeMax')}
+                          className="w-full px-3 py-2 text-base border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">{t('home.stakeRangeHint')}</p>
+                    </div>
+                  )}
+                </div>
+
                 <button
                   onClick={() => handleRandomMatch(selectedGame)}
                   className="w-full bg-gradient-to-r from-blue-600 to-cyan-500 text-white py-3 sm:py-4 rounded-xl font-semibold text-base sm:text-lg active:scale-95 sm:hover:scale-105 transition-all duration-300 shadow-lg active:shadow-xl sm:hover:shadow-xl touch-manipulation min-h-[48px]"
@@ -359,6 +531,109 @@ export default function Home({ onNavigate, isConnected, username: propUsername,
                   {t('home.playRandomMatch')}
                 </button>
 
+                <div className="flex items-center gap-3 my-4 sm:my-6">
+                  <div className="flex-1 h-px bg-gray-200" />
+                  <span className="text-xs sm:text-sm text-gray-500">{t('home.or')}</span>
+                  <div className="flex-1 h-px bg-gray-200" />
+                </div>
+
+                <div className="space-y-3 sm:space-y-4">
+                  <div className="flex items-center gap-2">
+                    <Key className="w-4 h-4 sm:w-5 sm:h-5 text-blue-600 flex-shrink-0" />
+                    <h4 className="font-semibold text-gray-800 text-sm sm:text-base">{t('home.keywordRoom')}</h4>
+                  </div>
+                  <input
+                    type="text"
+                    value={keyword}
+                    onChange={(e) => setKeyword(e.target.value)}
+                    placeholder={t('home.keywordPlaceholder')}
+                    maxLength={50}
+                    className="w-full px-3 sm:px-4 py-2.5 sm:py-3 text-base border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    onKeyPress={(e) => e.key === 'Enter' && handleKeywordMatch(selectedGame)}
+                  />
+                  <div>
+                    <div className="flex items-center gap-2 mb-2">
+                      <Clock className="w-4 h-4 text-gray-600 flex-shrink-0" />
+                      <span className="text-xs sm:text-sm text-gray-600">{t('game.timeControl')}</span>
+                    </div>
+                    <div className="grid grid-cols-4 gap-2">
+                      {(['none', 'bullet', 'blitz', 'rapid'] as const).map((option) => (
+                        <button
+                          key={option}
+                          onClick={() => setTimeControl(option)}
+                          className={`py-2 rounded-lg text-xs sm:text-sm font-medium transition-colors touch-manipulation min-h-[40px] ${
+                            timeControl === option
+                              ? 'bg-blue-600 text-white'
+                              : 'bg-gray-100 text-gray-700 active:bg-gray-200 sm:hover:bg-gray-200'
+                          }`}
+                        >
+                          {t(`game.timeControls.${option}`)}
+                        </button>
+                      ))}
+                    </div>
+                    {timeControl !== 'none' && (
+                      <div className="flex items-center gap-2 mt-2">
+                        <span className="text-xs sm:text-sm text-gray-600">{t('home.increment')}</span>
+                        <select
+                          value={timeIncrement}
+                          onChange={(e) => setTimeIncrement(Number(e.target.value))}
+                          className="px-2 py-1 text-sm border-2 border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          {[0, 1, 2, 3, 5, 10].map((seconds) => (
+                            <option key={seconds} value={seconds}>+{seconds}s</option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => handleKeywordMatch(selectedGame)}
+                    disabled={!keyword.trim()}
+                    className="w-full bg-white border-2 border-blue-600 text-blue-600 py-2.5 sm:py-3 rounded-xl font-semibold text-sm sm:text-base active:bg-blue-50 sm:hover:bg-blue-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed touch-manipulation min-h-[44px]"
+                  >
+                    {t('home.joinKeywordRoom')}
+                  </button>
+                </div>
+
+                <div className="flex items-center gap-3 my-4 sm:my-6">
+                  <div className="flex-1 h-px bg-gray-200" />
+                  <span className="text-xs sm:text-sm text-gray-500">{t('home.or')}</span>
+                  <div className="flex-1 h-px bg-gray-200" />
+                </div>
+
+                <div className="space-y-3 sm:space-y-4">
+                  <div className="flex items-center gap-2">
+                    <Lock className="w-4 h-4 sm:w-5 sm:h-5 text-blue-600 flex-shrink-0" />
+                    <h4 className="font-semibold text-gray-800 text-sm sm:text-base">{t('invite.privateRoom')}</h4>
+                  </div>
+                  <p className="text-xs text-gray-500">{t('invite.privateRoomHint')}</p>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="password"
+                      value={roomPassword}
+                      onChange={(e) => setRoomPassword(e.target.value)}
+                      placeholder={t('invite.passwordOptional')}
+                      maxLength={64}
+                      className="w-full px-3 py-2 text-base border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={privateStake}
+                      onChange={(e) => setPrivateStake(e.target.value)}
+                      placeholder={t('invite.stakeOptional')}
+                      className="w-full px-3 py-2 text-base border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <button
+                    onClick={() => handlePrivateRoom(selectedGame)}
+                    className="w-full bg-white border-2 border-blue-600 text-blue-600 py-2.5 sm:py-3 rounded-xl font-semibold text-sm sm:text-base active:bg-blue-50 sm:hover:bg-blue-50 transition-colors touch-manipulation min-h-[44px]"
+                  >
+                    {t('invite.createPrivateRoom')}
+                  </button>
+                </div>
+
               </div>
             </div>
           )}
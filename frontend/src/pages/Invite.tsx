@@ -0,0 +1,210 @@
+import { useState, useEffect } from 'react';
+import { ArrowLeft, Lock, Users, Coins, Clock, Mail } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import Header from '../components/Header';
+import { getSocket, joinInvite } from '../utils/socket';
+import { authenticatedFetch } from '../utils/api';
+import { API_ENDPOINTS } from '../config/api';
+import { useNotification } from '../contexts/NotificationContext';
+
+type GameType = 'tic-tac-toe' | 'checkers' | 'chess' | 'connect-four';
+
+// The private room an invite leads to, as described by the backend
+interface InvitePreview {
+  roomId: string;
+  gameType: GameType;
+  hostId: string | null;
+  hostName: string | null;
+  hasPassword: boolean;
+  stake: number | null;
+  timeControl: 'none' | 'bullet' | 'blitz' | 'rapid';
+  timeIncrement: number;
+  available: boolean;
+  expiresAt: string;
+}
+
+interface InviteProps {
+  token: string;
+  onNavigate: (page: string, data?: { gameType?: GameType; roomId?: string }) => void;
+  isConnected: boolean;
+  userId?: string;
+}
+
+export default function Invite({ token, onNavigate, isConnected, userId }: InviteProps) {
+  const { t } = useTranslation();
+  const { showNotification } = useNotification();
+  const [invite, setInvite] = useState<InvitePreview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [password, setPassword] = useState('');
+  const [joining, setJoining] = useState(false);
+
+  useEffect(() => {
+    setLoading(true);
+    authenticatedFetch(API_ENDPOINTS.ROOMS.INVITE(token))
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: InvitePreview | null) => {
+        setInvite(data ? { ...data, gameType: data.gameType.replace(/_/g, '-') as GameType } : null);
+      })
+      .catch(() => setInvite(null))
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  const getGameName = (gameType: string) => {
+    switch (gameType) {
+      case 'tic-tac-toe':
+        return t('home.games.ticTacToe.name');
+      case 'checkers':
+        return t('home.games.checkers.name');
+      case 'chess':
+        return t('home.games.chess.name');
+      case 'connect-four':
+        return t('home.games.connectFour.name');
+      default:
+        return gameType;
+    }
+  };
+
+  const handleJoin = () => {
+    if (!invite) return;
+    if (!localStorage.getItem('displayUsername')) {
+      showNotification(t('home.usernameRequired'), 'warning');
+      return;
+    }
+
+    const socket = getSocket();
+    if (!socket) {
+      showNotification(t('home.notConnected'), 'error');
+      return;
+    }
+
+    setJoining(true);
+
+    const cleanup = () => {
+      socket.off('game_start', handleJoined);
+      socket.off('waiting_for_player', handleJoined);
+      socket.off('error', handleError);
+      setJoining(false);
+    };
+
+    const handleJoined = (data: { roomId?: string }) => {
+      cleanup();
+      if (data.roomId) {
+        onNavigate('game-room', { gameType: invite.gameType, roomId: data.roomId });
+      }
+    };
+
+    const handleError = (error: {
+      message?: string;
+      translationKey?: string;
+      translationData?: Record<string, unknown>;
+    }) => {
+      cleanup();
+      const message = error.translationKey
+        ? t(error.translationKey, error.translationData)
+        : error.message || t('gameRoom.failedToJoinRoom');
+      showNotification(message, 'error');
+    };
+
+    socket.on('game_start', handleJoined);
+    socket.on('waiting_for_player', handleJoined);
+    socket.on('error', handleError);
+    joinInvite(token, invite.hasPassword ? password : undefined);
+  };
+
+  const isOwnRoom = invite?.hostId === userId;
+  const canJoin = !!invite && invite.available && !isOwnRoom && !joining && (!invite.hasPassword || password !== '');
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-cyan-50">
+      <Header isConnected={isConnected} username={localStorage.getItem('displayUsername') || localStorage.getItem('username') || undefined} userId={userId} onNavigate={onNavigate} />
+
+      <main className="max-w-md mx-auto px-4 py-12">
+        <button
+          onClick={() => onNavigate('home')}
+          className="flex items-center gap-2 text-gray-600 hover:text-gray-900 transition-colors mb-4"
+        >
+          <ArrowLeft className="w-5 h-5" />
+          {t('lobby.backToHome')}
+        </button>
+
+        <div className="bg-white rounded-2xl shadow-lg p-6 sm:p-8">
+          <div className="flex items-center gap-3 mb-6">
+            <Mail className="w-6 h-6 text-blue-600" />
+            <h2 className="text-2xl font-bold text-gray-900">{t('invite.title')}</h2>
+          </div>
+
+          {loading ? (
+            <div className="text-center text-gray-600 py-6">{t('common.loading')}</div>
+          ) : !invite ? (
+            <p className="text-center text-gray-600 py-6">{t('invite.invalid')}</p>
+          ) : (
+            <>
+              <h3 className="text-lg font-bold text-gray-900 mb-3">{getGameName(invite.gameType)}</h3>
+
+              {invite.hostName && (
+                <div className="flex items-center gap-2 mb-2">
+                  <Users className="w-4 h-4 text-gray-400" />
+                  <span className="text-sm text-gray-600">
+                    {t('lobby.host')} <span className="font-semibold text-gray-900">{invite.hostName}</span>
+                  </span>
+                </div>
+              )}
+
+              <div className="flex items-center gap-2 mb-2">
+                <Coins className="w-4 h-4 text-gray-400" />
+                <span className="text-sm text-gray-600">
+                  {t('lobby.stake')}{' '}
+                  <span className="font-semibold text-gray-900">
+                    {invite.stake === null ? t('lobby.noStake') : `R$ ${invite.stake.toFixed(2)}`}
+                  </span>
+                </span>
+              </div>
+
+              {invite.timeControl !== 'none' && (
+                <div className="flex items-center gap-2 mb-2">
+                  <Clock className="w-4 h-4 text-gray-400" />
+                  <span className="text-sm text-gray-600">
+                    {t(`game.timeControls.${invite.timeControl}`)}
+                    {invite.timeIncrement > 0 && ` +${invite.timeIncrement}s`}
+                  </span>
+                </div>
+              )}
+
+              {!invite.available ? (
+                <p className="text-sm text-red-600 mt-4">{t('lobby.roomUnavailable')}</p>
+              ) : isOwnRoom ? (
+                <p className="text-sm text-gray-600 mt-4">{t('lobby.ownRoom')}</p>
+              ) : (
+                invite.hasPassword && (
+                  <div className="mt-4">
+                    <div className="flex items-center gap-2 mb-2">
+                      <Lock className="w-4 h-4 text-gray-600" />
+                      <span className="text-sm text-gray-600">{t('invite.passwordRequired')}</span>
+                    </div>
+                    <input
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      placeholder={t('invite.passwordPlaceholder')}
+                      maxLength={64}
+                      className="w-full px-3 py-2 text-base border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      onKeyPress={(e) => e.key === 'Enter' && canJoin && handleJoin()}
+                    />
+                  </div>
+                )
+              )}
+
+              <button
+                onClick={handleJoin}
+                disabled={!canJoin}
+                className="w-full mt-6 py-3 rounded-xl font-semibold bg-gradient-to-r from-blue-600 to-cyan-500 text-white hover:from-blue-700 hover:to-cyan-600 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {joining ? t('lobby.joining') : t('invite.join')}
+              </button>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
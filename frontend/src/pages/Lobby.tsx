@@ -1,13 +1,27 @@
-import { Users, Circle, Square, Crown, ArrowLeft } from 'lucide-react';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Users, Circle, Square, Crown, CircleDot, ArrowLeft, ChevronLeft, ChevronRight, Coins, Clock } from 'lucide-react';
 import Header from '../components/Header';
 import { useTranslation } from 'react-i18next';
+import { getSocket, watchLobby, unwatchLobby, joinLobbyRoom } from '../utils/socket';
+import { authenticatedFetch } from '../utils/api';
+import { API_ENDPOINTS } from '../config/api';
+import { useNotification } from '../contexts/NotificationContext';
 
+type GameType = 'tic-tac-toe' | 'checkers' | 'chess' | 'connect-four';
+
+const GAME_TYPES: GameType[] = ['tic-tac-toe', 'checkers', 'chess', 'connect-four'];
+
+// A room waiting for an opponent, as listed by the backend
 interface Room {
   id: string;
-  gameType: 'tic-tac-toe' | 'checkers' | 'chess';
-  players: number;
-  maxPlayers: number;
-  keyword?: string;
+  gameType: string;
+  hostId: string;
+  hostName: string;
+  hostRating: number;
+  stakeMin: number | null;
+  stakeMax: number | null;
+  timeControl: 'none' | 'bullet' | 'blitz' | 'rapid';
+  timeIncrement: number;
 }
 
 interface LobbyProps {
@@ -18,28 +32,78 @@ interface LobbyProps {
 
 export default function Lobby({ onNavigate, isConnected, userId }: LobbyProps) {
   const { t } = useTranslation();
-  const activeRooms: Room[] = [
-    {
-      id: '1',
-      gameType: 'tic-tac-toe',
-      players: 1,
-      maxPlayers: 2,
-      keyword: 'quick-game',
-    },
-    {
-      id: '2',
-      gameType: 'chess',
-      players: 1,
-      maxPlayers: 2,
-      keyword: 'master-chess',
-    },
-    {
-      id: '3',
-      gameType: 'checkers',
-      players: 1,
-      maxPlayers: 2,
-    },
-  ];
+  const { showNotification } = useNotification();
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [gameFilter, setGameFilter] = useState<GameType | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [joiningRoomId, setJoiningRoomId] = useState<string | null>(null);
+  // Coalesces a burst of lobby_updated events into a single refetch
+  const refreshTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const fetchRooms = useCallback(async () => {
+    try {
+      const response = await authenticatedFetch(
+        API_ENDPOINTS.ROOMS.LOBBY(page, gameFilter ? gameFilter.replace(/-/g, '_') : undefined)
+      );
+      if (!response.ok) return;
+      const data: {
+        rooms: Room[];
+        pagination: { total: number; totalPages: number };
+      } = await response.json();
+      setRooms(data.rooms.map((room) => ({ ...room, gameType: room.gameType.replace(/_/g, '-') })));
+      setTotal(data.pagination.total);
+      setTotalPages(Math.max(1, data.pagination.totalPages));
+      // The page we were on may have emptied out
+      if (data.rooms.length === 0 && page > 1) {
+        setPage(Math.max(1, data.pagination.totalPages));
+      }
+    } catch (error) {
+      console.error('Error fetching lobby rooms:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [page, gameFilter]);
+
+  useEffect(() => {
+    fetchRooms();
+  }, [fetchRooms]);
+
+  // Refetch whenever the server says the waiting rooms changed
+  useEffect(() => {
+    const socket = getSocket();
+    if (!socket) return;
+
+    const handleLobbyUpdated = () => {
+      if (refreshTimerRef.current) clearTimeout(refreshTimerRef.current);
+      refreshTimerRef.current = setTimeout(() => {
+        refreshTimerRef.current = null;
+        fetchRooms();
+      }, 300);
+    };
+
+    // The lobby channel is lost on reconnect, so watch it again
+    const handleConnect = () => {
+      watchLobby();
+      fetchRooms();
+    };
+
+    watchLobby();
+    socket.on('lobby_updated', handleLobbyUpdated);
+    socket.on('connect', handleConnect);
+
+    return () => {
+      unwatchLobby();
+      socket.off('lobby_updated', handleLobbyUpdated);
+      socket.off('connect', handleConnect);
+      if (refreshTimerRef.current) {
+        clearTimeout(refreshTimerRef.current);
+        refreshTimerRef.current = null;
+      }
+    };
+  }, [fetchRooms]);
 
   const getGameIcon = (gameType: string) => {
     switch (gameType) {
@@ -49,6 +113,8 @@ export default function Lobby({ onNavigate, isConnected, userId }: LobbyProps) {
         return Square;
       case 'chess':
         return Crown;
+      case 'connect-four':
+        return CircleDot;
       default:
         return Circle;
     }
@@ -62,13 +128,85 @@ export default function Lobby({ onNavigate, isConnected, userId }: LobbyProps) {
         return 'from-red-500 to-orange-500';
       case 'chess':
         return 'from-purple-500 to-pink-500';
+      case 'connect-four':
+        return 'from-yellow-400 to-red-500';
       default:
         return 'from-blue-500 to-cyan-500';
     }
   };
 
+  const getGameName = (gameType: string) => {
+    switch (gameType) {
+      case 'tic-tac-toe':
+        return t('home.games.ticTacToe.name');
+      case 'checkers':
+        return t('home.games.checkers.name');
+      case 'chess':
+        return t('home.games.chess.name');
+      case 'connect-four':
+        return t('home.games.connectFour.name');
+      default:
+        return gameType;
+    }
+  };
+
+  const formatStake = (room: Room) => {
+    if (room.stakeMin === null) return t('lobby.noStake');
+    if (room.stakeMax === null || room.stakeMax === room.stakeMin) {
+      return `R$ ${room.stakeMin.toFixed(2)}`;
+    }
+    return `R$ ${room.stakeMin.toFixed(2)} - R$ ${room.stakeMax.toFixed(2)}`;
+  };
+
   const handleJoinRoom = (room: Room) => {
-    onNavigate('game-room', { gameType: room.gameType, roomId: room.id });
+    if (!localStorage.getItem('displayUsername')) {
+      showNotification(t('home.usernameRequired'), 'warning');
+      return;
+    }
+
+    const socket = getSocket();
+    if (!socket) {
+      showNotification(t('home.notConnected'), 'error');
+      return;
+    }
+
+    setJoiningRoomId(room.id);
+
+    const cleanup = () => {
+      socket.off('game_start', handleJoined);
+      socket.off('waiting_for_player', handleJoined);
+      socket.off('error', handleError);
+      setJoiningRoomId(null);
+    };
+
+    const handleJoined = (data: { roomId?: string }) => {
+      cleanup();
+      if (data.roomId) {
+        onNavigate('game-room', { gameType: room.gameType, roomId: data.roomId });
+      }
+    };
+
+    const handleError = (error: {
+      message?: string;
+      translationKey?: string;
+      translationData?: Record<string, unknown>;
+    }) => {
+      cleanup();
+      const message = error.translationKey
+        ? t(error.translationKey, error.translationData)
+        : error.message || t('gameRoom.failedToJoinRoom');
+      showNotification(message, 'error');
+    };
+
+    socket.on('game_start', handleJoined);
+    socket.on('waiting_for_player', handleJoined);
+    socket.on('error', handleError);
+    joinLobbyRoom(room.id);
+  };
+
+  const handleFilterChange = (gameType: GameType | null) => {
+    setGameFilter(gameType);
+    setPage(1);
   };
 
   return (
@@ -94,14 +232,32 @@ export default function Lobby({ onNavigate, isConnected, userId }: LobbyProps) {
               <div className="flex items-center gap-2">
                 <Users className="w-5 h-5 text-blue-600" />
                 <span className="font-semibold text-gray-900">
-                  {t('lobby.roomsActive', { count: activeRooms.length })}
+                  {t('lobby.roomsActive', { count: total })}
                 </span>
               </div>
             </div>
           </div>
         </div>
 
-        {activeRooms.length === 0 ? (
+        <div className="flex flex-wrap gap-2 mb-6">
+          {[null, ...GAME_TYPES].map((gameType) => (
+            <button
+              key={gameType ?? 'all'}
+              onClick={() => handleFilterChange(gameType)}
+              className={`px-4 py-2 rounded-xl text-sm font-semibold transition-colors ${
+                gameFilter === gameType
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-white text-gray-700 hover:bg-gray-100 shadow'
+              }`}
+            >
+              {gameType ? getGameName(gameType) : t('lobby.allGames')}
+            </button>
+          ))}
+        </div>
+
+        {loading ? (
+          <div className="text-center text-gray-600 py-12">{t('common.loading')}</div>
+        ) : rooms.length === 0 ? (
           <div className="bg-white rounded-2xl shadow-lg p-12 text-center">
             <Users className="w-16 h-16 text-gray-400 mx-auto mb-4" />
             <h3 className="text-2xl font-bold text-gray-900 mb-2">{t('lobby.noActiveRooms')}</h3>
@@ -116,69 +272,104 @@ export default function Lobby({ onNavigate, isConnected, userId }: LobbyProps) {
             </button>
           </div>
         ) : (
-          <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {activeRooms.map((room) => {
-              const Icon = getGameIcon(room.gameType);
-              const isFull = room.players >= room.maxPlayers;
-
-              return (
-                <div
-                  key={room.id}
-                  className="bg-white rounded-2xl shadow-lg p-6 hover:shadow-xl transition-all duration-300"
-                >
-                  <div className="flex items-start justify-between mb-4">
-                    <div
-                      className={`w-12 h-12 bg-gradient-to-br ${getGameColor(
-                        room.gameType
-                      )} rounded-xl flex items-center justify-center`}
-                    >
-                      <Icon className="w-6 h-6 text-white" />
-                    </div>
-                    <div
-                      className={`px-3 py-1 rounded-full text-xs font-semibold ${
-                        isFull
-                          ? 'bg-red-100 text-red-700'
-                          : 'bg-green-100 text-green-700'
-                      }`}
-                    >
-                      {isFull ? t('lobby.full') : t('lobby.open')}
+          <>
+            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {rooms.map((room) => {
+                const Icon = getGameIcon(room.gameType);
+                const isOwnRoom = room.hostId === userId;
+                const isDisabled = isOwnRoom || joiningRoomId !== null;
+
+                return (
+                  <div
+                    key={room.id}
+                    className="bg-white rounded-2xl shadow-lg p-6 hover:shadow-xl transition-all duration-300"
+                  >
+                    <div className="flex items-start justify-between mb-4">
+                      <div
+                        className={`w-12 h-12 bg-gradient-to-br ${getGameColor(
+                          room.gameType
+                        )} rounded-xl flex items-center justify-center`}
+                      >
+                        <Icon className="w-6 h-6 text-white" />
+                      </div>
+                      <div className="px-3 py-1 rounded-full text-xs font-semibold bg-green-100 text-green-700">
+                        {t('lobby.open')}
+                      </div>
                     </div>
-                  </div>
 
-                  <h3 className="text-lg font-bold text-gray-900 mb-2 capitalize">
-                    {room.gameType.replace('-', ' ')}
-                  </h3>
+                    <h3 className="text-lg font-bold text-gray-900 mb-2">
+                      {getGameName(room.gameType)}
+                    </h3>
 
-                  {room.keyword && (
-                    <div className="mb-3 px-3 py-1 bg-gray-100 rounded-lg inline-block">
-                      <span className="text-xs text-gray-600">
-                        {t('lobby.keyword')} <span className="font-semibold">{room.keyword}</span>
+                    <div className="flex items-center gap-2 mb-2">
+                      <Users className="w-4 h-4 text-gray-400" />
+                      <span className="text-sm text-gray-600">
+                        {t('lobby.host')} <span className="font-semibold text-gray-900">{room.hostName}</span>
+                      </span>
+                      <span className="text-xs font-semibold text-blue-600">
+                        {t('game.rating', { rating: room.hostRating })}
+                      </span>
+                    </div>
+
+                    <div className="flex items-center gap-2 mb-2">
+                      <Coins className="w-4 h-4 text-gray-400" />
+                      <span className="text-sm text-gray-600">
+                        {t('lobby.stake')} <span className="font-semibold text-gray-900">{formatStake(room)}</span>
                       </span>
                     </div>
-                  )}
 
-                  <div className="flex items-center gap-2 mb-4">
-                    <Users className="w-4 h-4 text-gray-400" />
-                    <span className="text-sm text-gray-600">
-                      {room.players}/{room.maxPlayers} {t('lobby.players')}
-                    </span>
+                    {room.timeControl !== 'none' && (
+                      <div className="flex items-center gap-2 mb-2">
+                        <Clock className="w-4 h-4 text-gray-400" />
+                        <span className="text-sm text-gray-600">
+                          {t(`game.timeControls.${room.timeControl}`)}
+                          {room.timeIncrement > 0 && ` +${room.timeIncrement}s`}
+                        </span>
+                      </div>
+                    )}
+
+                    <button
+                      onClick={() => handleJoinRoom(room)}
+                      disabled={isDisabled}
+                      className={`w-full mt-2 py-2 rounded-xl font-semibold transition-all duration-300 ${
+                        isDisabled
+                          ? 'bg-gray-200 text-gray-400 cursor-not-allowed'
+                          : 'bg-gradient-to-r from-blue-600 to-cyan-500 text-white hover:from-blue-700 hover:to-cyan-600 shadow-lg hover:shadow-xl'
+                      }`}
+                    >
+                      {isOwnRoom
+                        ? t('lobby.yourRoom')
+                        : joiningRoomId === room.id
+                          ? t('lobby.joining')
+                          : t('lobby.joinRoom')}
+                    </button>
                   </div>
+                );
+              })}
+            </div>
 
-                  <button
-                    onClick={() => handleJoinRoom(room)}
-                    disabled={isFull}
-                    className={`w-full py-2 rounded-xl font-semibold transition-all duration-300 ${
-                      isFull
-                        ? 'bg-gray-200 text-gray-400 cursor-not-allowed'
-                        : 'bg-gradient-to-r from-blue-600 to-cyan-500 text-white hover:from-blue-700 hover:to-cyan-600 shadow-lg hover:shadow-xl'
-                    }`}
-                  >
-                    {isFull ? t('lobby.roomFull') : t('lobby.joinRoom')}
-                  </button>
-                </div>
-              );
-            })}
-          </div>
+            {totalPages > 1 && (
+              <div className="flex items-center justify-center gap-4 mt-8">
+                <button
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1}
+                  className="p-2 rounded-lg bg-white shadow disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <ChevronLeft className="w-5 h-5" />
+                </button>
+                <span className="text-sm text-gray-600">
+                  {t('lobby.page', { page, totalPages })}
+                </span>
+                <button
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= totalPages}
+                  className="p-2 rounded-lg bg-white shadow disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <ChevronRight className="w-5 h-5" />
+                </button>
+              </div>
+            )}
+          </>
         )}
       </main>
     </div>
@@ -0,0 +1,39 @@
+import { ArrowLeft } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import Header from '../components/Header';
+import PlayerProfile from '../components/PlayerProfile';
+
+interface ProfileProps {
+  profileUserId: string;
+  onNavigate: (page: string, data?: { matchId?: string }) => void;
+  isConnected: boolean;
+  userId?: string;
+}
+
+export default function Profile({ profileUserId, onNavigate, isConnected, userId }: ProfileProps) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-cyan-50">
+      <Header isConnected={isConnected} username={localStorage.getItem('displayUsername') || localStorage.getItem('username') || undefined} userId={userId} onNavigate={onNavigate} />
+
+      <main className="max-w-2xl mx-auto px-4 py-8 sm:py-12">
+        <button
+          onClick={() => onNavigate('home')}
+          className="flex items-center gap-2 text-gray-600 hover:text-gray-900 transition-colors mb-4"
+        >
+          <ArrowLeft className="w-5 h-5" />
+          {t('lobby.backToHome')}
+        </button>
+
+        <div className="bg-white rounded-2xl shadow-lg p-6 sm:p-8">
+          <PlayerProfile
+            userId={profileUserId}
+            viewerId={userId}
+            onOpenReplay={(matchId) => onNavigate('replay', { matchId })}
+          />
+        </div>
+      </main>
+    </div>
+  );
+}
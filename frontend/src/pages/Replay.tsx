@@ -0,0 +1,272 @@
+import { useState, useEffect } from 'react';
+import { ArrowLeft, SkipBack, ChevronLeft, Play, Pause, ChevronRight, SkipForward, Download } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import GameBoard from '../components/GameBoard';
+import { authenticatedFetch } from '../utils/api';
+import { API_ENDPOINTS } from '../config/api';
+
+interface ReplayPlayer {
+  id: string;
+  username: string;
+  team: string;
+}
+
+interface ReplayMove {
+  team: string;
+  playerId: string;
+  move: unknown;
+  timestamp: string;
+}
+
+interface ReplayData {
+  match: {
+    id: string;
+    gameType: string;
+    winnerId: string | null;
+    isDraw: boolean;
+    createdAt: string;
+    players: ReplayPlayer[];
+  };
+  moves: ReplayMove[];
+  states: Array<{ currentPlayer?: string; currentTeam?: string; fen?: string }>; // State before the first move, then after each move
+}
+
+interface ReplayProps {
+  matchId: string;
+  userId?: string;
+  onBack: () => void;
+}
+
+// Milliseconds between moves during autoplay
+const SPEEDS = [
+  { label: '0.5x', delay: 2000 },
+  { label: '1x', delay: 1000 },
+  { label: '2x', delay: 500 },
+  { label: '4x', delay: 250 },
+];
+
+export default function Replay({ matchId, userId, onBack }: ReplayProps) {
+  const { t } = useTranslation();
+  const [replay, setReplay] = useState<ReplayData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [step, setStep] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [delay, setDelay] = useState(1000);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchReplay = async () => {
+      try {
+        setError(null);
+        const response = await authenticatedFetch(API_ENDPOINTS.MATCHES.REPLAY(matchId));
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || t('replay.failedToLoad'));
+        }
+        setReplay(data);
+        setStep(0);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : t('replay.failedToLoad'));
+      }
+    };
+
+    fetchReplay();
+  }, [matchId, t]);
+
+  const lastStep = replay ? replay.states.length - 1 : 0;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (step >= lastStep) {
+      setIsPlaying(false);
+      return;
+    }
+    const timeout = setTimeout(() => setStep((s) => Math.min(s + 1, lastStep)), delay);
+    return () => clearTimeout(timeout);
+  }, [isPlaying, step, lastStep, delay]);
+
+  const downloadPgn = async () => {
+    try {
+      setIsDownloading(true);
+      setDownloadError(null);
+      const response = await authenticatedFetch(API_ENDPOINTS.MATCHES.PGN(matchId));
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || t('replay.pgnFailed'));
+      }
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `match-${matchId}.pgn`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setDownloadError(err instanceof Error ? err.message : t('replay.pgnFailed'));
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const goTo = (target: number) => {
+    setIsPlaying(false);
+    setStep(Math.max(0, Math.min(target, lastStep)));
+  };
+
+  if (error || !replay) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-cyan-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-2xl shadow-lg p-8 text-center">
+          {error ? (
+            <p className="text-red-600 mb-4">{error}</p>
+          ) : (
+            <div className="inline-block w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mb-4" />
+          )}
+          <button
+            onClick={onBack}
+            className="flex items-center gap-2 mx-auto text-gray-600 hover:text-gray-900 transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            {t('replay.back')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const { match, moves, states } = replay;
+  const gameType = match.gameType.replace(/_/g, '-') as 'tic-tac-toe' | 'checkers' | 'chess' | 'connect-four';
+
+  // Players watch from their own side; anyone else (e.g. an admin) from the first player's
+  const viewer = match.players.find((p) => p.id === userId) || match.players[0];
+  const gameState = states[step];
+  const currentTeam = gameState?.currentPlayer ?? gameState?.currentTeam;
+  const currentMove = step > 0 ? moves[step - 1] : null;
+  const currentMovePlayer = currentMove ? match.players.find((p) => p.id === currentMove.playerId) : null;
+
+  const controlClass =
+    'p-2 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-40 disabled:cursor-not-allowed transition-colors';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-cyan-50">
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <button
+          onClick={onBack}
+          className="flex items-center gap-2 text-gray-600 hover:text-gray-900 transition-colors mb-4"
+        >
+          <ArrowLeft className="w-5 h-5" />
+          {t('replay.back')}
+        </button>
+
+        <div className="mb-4">
+          <div className="flex items-center justify-between gap-4">
+            <h2 className="text-2xl sm:text-3xl font-bold text-gray-900">{t('replay.title')}</h2>
+            {match.gameType === 'chess' && (
+              <button
+                onClick={downloadPgn}
+                disabled={isDownloading}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-40 disabled:cursor-not-allowed transition-colors text-sm"
+              >
+                <Download className="w-4 h-4" />
+                {t('replay.downloadPgn')}
+              </button>
+            )}
+          </div>
+          <p className="text-gray-600">
+            {match.players.map((p) => p.username).join(' vs ')} · {new Date(match.createdAt).toLocaleString()}
+          </p>
+          {downloadError && <p className="text-sm text-red-600">{downloadError}</p>}
+          <p className="text-sm text-gray-500">
+            {match.isDraw
+              ? t('game.gameOverDraw')
+              : `${t('game.winner')} ${match.players.find((p) => p.id === match.winnerId)?.username || '-'}`}
+          </p>
+        </div>
+
+        <div className="h-[min(560px,70vh)]">
+          <GameBoard
+            gameType={gameType}
+            gameState={gameState}
+            playerTeam={viewer?.team}
+            isMyTurn={!!viewer && currentTeam === viewer.team}
+            players={match.players}
+            currentUserId={viewer?.id}
+            readOnly
+          />
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg p-4 mt-4">
+          <div className="flex items-center justify-center gap-2">
+            <button onClick={() => goTo(0)} disabled={step === 0} className={controlClass} title={t('replay.first')}>
+              <SkipBack className="w-5 h-5" />
+            </button>
+            <button onClick={() => goTo(step - 1)} disabled={step === 0} className={controlClass} title={t('replay.previous')}>
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => {
+                // Playing from the end starts over
+                if (step >= lastStep) setStep(0);
+                setIsPlaying(!isPlaying);
+              }}
+              disabled={lastStep === 0}
+              className="p-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+              title={isPlaying ? t('replay.pause') : t('replay.play')}
+            >
+              {isPlaying ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+            </button>
+            <button onClick={() => goTo(step + 1)} disabled={step >= lastStep} className={controlClass} title={t('replay.next')}>
+              <ChevronRight className="w-5 h-5" />
+            </button>
+            <button onClick={() => goTo(lastStep)} disabled={step >= lastStep} className={controlClass} title={t('replay.last')}>
+              <SkipForward className="w-5 h-5" />
+            </button>
+            <select
+              value={delay}
+              onChange={(e) => setDelay(Number(e.target.value))}
+              className="ml-2 px-2 py-2 border-2 border-gray-300 rounded-lg focus:border-blue-500 focus:outline-none text-sm"
+              title={t('replay.speed')}
+            >
+              {SPEEDS.map((speed) => (
+                <option key={speed.label} value={speed.delay}>
+                  {speed.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <input
+            type="range"
+            min={0}
+            max={lastStep}
+            value={step}
+            onChange={(e) => goTo(Number(e.target.value))}
+            className="w-full mt-4"
+          />
+
+          <p className="text-center text-sm text-gray-600 mt-2">
+            {step === 0
+              ? t('replay.startingPosition')
+              : t('replay.moveOf', { current: step, total: lastStep })}
+            {currentMove && (
+              <span className="text-gray-500">
+                {' · '}
+                {t('replay.playedBy', {
+                  username: currentMovePlayer?.username || t('common.opponent'),
+                  time: new Date(currentMove.timestamp).toLocaleTimeString(),
+                })}
+              </span>
+            )}
+          </p>
+
+          {gameState?.fen && (
+            <p className="text-center text-xs text-gray-500 mt-2 font-mono break-all select-all" title={t('replay.fen')}>
+              {gameState.fen}
+            </p>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
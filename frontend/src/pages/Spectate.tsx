@@ -0,0 +1,222 @@
+import { useState, useEffect, useRef } from 'react';
+import { ArrowLeft, Eye } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import GameBoard from '../components/GameBoard';
+import ChatPanel from '../components/ChatPanel';
+import { getSocket, spectateRoom, leaveSpectate } from '../utils/socket';
+
+type GameType = 'tic-tac-toe' | 'checkers' | 'chess' | 'connect-four';
+
+// Player index 0 plays the first team
+const TEAMS: Record<GameType, [string, string]> = {
+  'tic-tac-toe': ['X', 'O'],
+  checkers: ['player1', 'player2'],
+  chess: ['w', 'b'],
+  'connect-four': ['red', 'yellow'],
+};
+
+interface SpectatePlayer {
+  id: string;
+  username: string;
+}
+
+interface Message {
+  id: string;
+  sender: string;
+  text: string;
+  timestamp: Date;
+  isOwn: boolean;
+}
+
+interface SpectateProps {
+  roomId: string;
+  onBack: () => void;
+}
+
+export default function Spectate({ roomId, onBack }: SpectateProps) {
+  const { t } = useTranslation();
+  const [gameType, setGameType] = useState<GameType | null>(null);
+  const [players, setPlayers] = useState<SpectatePlayer[]>([]);
+  const [gameState, setGameState] = useState<{ currentPlayer?: string; currentTeam?: string } | null>(null);
+  const [stake, setStake] = useState(0);
+  const [spectatorCount, setSpectatorCount] = useState(0);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [result, setResult] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Read by the game_over handler, which is registered once per room
+  const playersRef = useRef<SpectatePlayer[]>([]);
+  const gameTypeRef = useRef<GameType | null>(null);
+
+  useEffect(() => {
+    const socket = getSocket();
+    if (!socket) return;
+
+    const handleJoined = (data: {
+      roomId: string;
+      gameType: string;
+      players: SpectatePlayer[];
+      gameState: { currentPlayer?: string; currentTeam?: string };
+      bettingAmount: number;
+    }) => {
+      if (data.roomId !== roomId) return;
+      setError(null);
+      gameTypeRef.current = data.gameType.replace(/_/g, '-') as GameType;
+      setGameType(gameTypeRef.current);
+      playersRef.current = data.players;
+      setPlayers(data.players);
+      setGameState(data.gameState);
+      setStake(data.bettingAmount);
+      setResult(null);
+    };
+
+    const handleMoveUpdate = (data: { roomId: string; gameState: { currentPlayer?: string; currentTeam?: string } }) => {
+      if (data.roomId !== roomId) return;
+      setGameState(data.gameState);
+    };
+
+    // The winner is a team when the game is decided on the board, or a user ID when a player leaves
+    const handleGameOver = (data: { winner?: string | null; isDraw?: boolean; gameState?: { currentPlayer?: string; currentTeam?: string } | null }) => {
+      if (data.gameState) setGameState(data.gameState);
+      if (data.isDraw) {
+        setResult(t('game.gameOverDraw'));
+        return;
+      }
+      const current = playersRef.current;
+      const teams = gameTypeRef.current ? TEAMS[gameTypeRef.current] : null;
+      const winner =
+        current.find((p) => p.id === data.winner) ||
+        (teams && data.winner ? current[teams.indexOf(data.winner)] : undefined);
+      setResult(`${t('game.winner')} ${winner?.username || '-'}`);
+    };
+
+    const handleNewMatch = (data: { roomId: string; players: SpectatePlayer[]; gameState: { currentPlayer?: string; currentTeam?: string } }) => {
+      if (data.roomId !== roomId) return;
+      playersRef.current = data.players;
+      setPlayers(data.players);
+      setGameState(data.gameState);
+      setResult(null);
+    };
+
+    const handleChatMessage = (data: { id: string; username: string; message: string; timestamp: string }) => {
+      setMessages((prev) => {
+        if (prev.some((msg) => msg.id === data.id)) return prev;
+        return [
+          ...prev,
+          {
+            id: data.id,
+            sender: data.username || t('common.unknown'),
+            text: data.message,
+            timestamp: new Date(data.timestamp || Date.now()),
+            isOwn: false,
+          },
+        ];
+      });
+    };
+
+    const handleSpectatorCount = (data: { roomId: string; count: number }) => {
+      if (data.roomId === roomId) setSpectatorCount(data.count);
+    };
+
+    const handleError = (data: { message?: string; translationKey?: string }) => {
+      setError(data.translationKey ? t(data.translationKey) : data.message || t('spectate.failedToLoad'));
+    };
+
+    // Spectating does not survive a reconnect, so ask again whenever the user is connected
+    const handleConnected = () => spectateRoom(roomId);
+
+    socket.on('spectate_joined', handleJoined);
+    socket.on('move_update', handleMoveUpdate);
+    socket.on('game_over', handleGameOver);
+    socket.on('new_match_start', handleNewMatch);
+    socket.on('chat_message', handleChatMessage);
+    socket.on('spectator_count', handleSpectatorCount);
+    socket.on('error', handleError);
+    socket.on('connected', handleConnected);
+
+    spectateRoom(roomId);
+
+    return () => {
+      leaveSpectate();
+      socket.off('spectate_joined', handleJoined);
+      socket.off('move_update', handleMoveUpdate);
+      socket.off('game_over', handleGameOver);
+      socket.off('new_match_start', handleNewMatch);
+      socket.off('chat_message', handleChatMessage);
+      socket.off('spectator_count', handleSpectatorCount);
+      socket.off('error', handleError);
+      socket.off('connected', handleConnected);
+    };
+  }, [roomId, t]);
+
+  if (error || !gameType || !gameState) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-cyan-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-2xl shadow-lg p-8 text-center">
+          {error ? (
+            <p className="text-red-600 mb-4">{error}</p>
+          ) : (
+            <div className="inline-block w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mb-4" />
+          )}
+          <button
+            onClick={onBack}
+            className="flex items-center gap-2 mx-auto text-gray-600 hover:text-gray-900 transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            {t('spectate.back')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const teams = TEAMS[gameType];
+  const currentTeam = gameState.currentPlayer ?? gameState.currentTeam;
+  const playerOnTurn = players[teams.indexOf(currentTeam || '')];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-cyan-50">
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <button
+          onClick={onBack}
+          className="flex items-center gap-2 text-gray-600 hover:text-gray-900 transition-colors mb-4"
+        >
+          <ArrowLeft className="w-5 h-5" />
+          {t('spectate.back')}
+        </button>
+
+        <div className="mb-4 flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-2xl sm:text-3xl font-bold text-gray-900">{t('spectate.title')}</h2>
+            <p className="text-gray-600">{players.map((p) => p.username).join(' vs ')}</p>
+            <p className="text-sm text-gray-500">
+              {result || (playerOnTurn ? t('game.opponentTurn', { username: playerOnTurn.username }) : '')}
+            </p>
+          </div>
+          <div className="text-right text-sm text-gray-600 space-y-1">
+            <p className="flex items-center justify-end gap-1">
+              <Eye className="w-4 h-4" />
+              {t('game.spectatorsWatching', { count: spectatorCount })}
+            </p>
+            {stake > 0 && <p>{t('spectate.stake', { amount: stake.toFixed(2) })}</p>}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-5 gap-4">
+          <div className="lg:col-span-3 h-[min(560px,70vh)]">
+            <GameBoard
+              gameType={gameType}
+              gameState={gameState}
+              playerTeam={teams[0]}
+              isMyTurn={false}
+              players={players}
+              readOnly
+            />
+          </div>
+          <div className="lg:col-span-2 h-[min(560px,70vh)]">
+            <ChatPanel onSendMessage={() => undefined} messages={messages} readOnly />
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
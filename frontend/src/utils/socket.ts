@@ -213,6 +213,96 @@ export const leaveRoom = (roomId: string) => {
   }
 };
 
+export const spectateRoom = (roomId: string) => {
+  if (socket) {
+    socket.emit('spectate_room', { roomId });
+  }
+};
+
+export const leaveSpectate = () => {
+  if (socket) {
+    socket.emit('leave_spectate');
+  }
+};
+
+export const watchLobby = () => {
+  if (socket) {
+    socket.emit('watch_lobby');
+  }
+};
+
+export const unwatchLobby = () => {
+  if (socket) {
+    socket.emit('unwatch_lobby');
+  }
+};
+
+export const joinLobbyRoom = (roomId: string) => {
+  if (socket) {
+    socket.emit('join_room', { roomId });
+  }
+};
+
+export const createPrivateRoom = (options: {
+  gameType: string;
+  password?: string;
+  stake?: number;
+  timeControl?: string;
+  timeIncrement?: number;
+}) => {
+  if (socket) {
+    socket.emit('create_private_room', options);
+  }
+};
+
+export const requestRoomInvite = () => {
+  if (socket) {
+    socket.emit('get_room_invite');
+  }
+};
+
+export const joinInvite = (token: string, password?: string) => {
+  if (socket) {
+    socket.emit('join_invite', { token, password });
+  }
+};
+
+export const sendFriendRequest = (username: string) => {
+  if (socket) {
+    socket.emit('send_friend_request', { username });
+  }
+};
+
+export const respondFriendRequest = (requestId: string, accept: boolean) => {
+  if (socket) {
+    socket.emit('respond_friend_request', { requestId, accept });
+  }
+};
+
+export const removeFriend = (friendId: string) => {
+  if (socket) {
+    socket.emit('remove_friend', { friendId });
+  }
+};
+
+export const challengeFriend = (options: {
+  friendId: string;
+  gameType: string;
+  stake?: number;
+  timeControl?: string;
+  timeIncrement?: number;
+}) => {
+  if (socket) {
+    socket.emit('challenge_friend', options);
+  }
+};
+
+export const declineChallenge = (roomId: string) => {
+  if (socket) {
+    socket.emit('decline_challenge', { roomId });
+  }
+};
+
 export const onChatMessage = (callback: (data: { sender: string; message: string }) => void) => {
   if (socket) {
     socket.on('chat_message', callback);